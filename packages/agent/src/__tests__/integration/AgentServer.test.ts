@@ -157,7 +157,7 @@ describe('AgentServer - Integration Tests', () => {
         'test',
         'my-session-123',
         expect.any(Function),
-        { model: undefined }
+        { model: undefined, user: expect.objectContaining({ role: 'admin' }) }
       );
     });
   });
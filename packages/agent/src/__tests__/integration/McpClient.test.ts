@@ -0,0 +1,293 @@
+/**
+ * Tests for MCP servers (.agent/mcp.json):
+ *   - a stdio server's tools are listed (across pages) and bridged into the registry
+ *   - calls go through ToolExecutor: validated, recorded, errors surfaced
+ *   - a server that cannot start, or dies mid-run, fails with a clear error
+ *   - the Agent offers MCP tools to the model, reports unavailable servers as
+ *     error events and stops the servers when the run ends
+ *   - servers only start when the operator allows them, and a run cannot add its own
+ *
+ * The server is a small stdio echo server written to a temp workspace.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { connectMcpServers, MCP_CONFIG_FILE, type McpConnections } from '../../tools/McpClient';
+import { ToolRegistry } from '../../tools/ToolRegistry';
+import { ToolExecutor } from '../../tools/ToolExecutor';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../tools/GitTool');
+
+const SESSION_ID = 'dddddddd-0000-0000-0000-000000000000';
+
+const ECHO_SERVER = `
+const fs = require('fs');
+const readline = require('readline');
+if (process.env.PID_FILE) fs.writeFileSync(process.env.PID_FILE, String(process.pid));
+const send = (m) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...m }) + '\\n');
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the text back.',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string', description: 'Text to echo.' }, times: { type: 'integer' } },
+      required: ['text'],
+    },
+    annotations: { readOnlyHint: true },
+  },
+  { name: 'fail', description: 'Always fails.', inputSchema: { type: 'object', properties: {} } },
+  { name: 'crash', description: 'Exits the server.', inputSchema: { type: 'object', properties: {} } },
+];
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, method, params } = JSON.parse(line);
+  if (id === undefined) return;
+  if (method === 'initialize') {
+    send({ id, result: { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'echo', version: '1.0.0' } } });
+  } else if (method === 'tools/list') {
+    // Two pages, to exercise nextCursor
+    send({ id, result: params.cursor ? { tools: tools.slice(1) } : { tools: tools.slice(0, 1), nextCursor: 'page-2' } });
+  } else if (params.name === 'echo') {
+    send({ id, result: { content: [{ type: 'text', text: params.arguments.text.repeat(params.arguments.times ?? 1) }] } });
+  } else if (params.name === 'fail') {
+    send({ id, result: { content: [{ type: 'text', text: 'Something broke' }], isError: true } });
+  } else {
+    process.stderr.write('fatal: crashed on purpose\\n');
+    process.exit(3);
+  }
+});
+`;
+
+let workspace: string;
+
+beforeEach(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-mcp-'));
+  await fs.writeFile(path.join(workspace, 'echo-server.js'), ECHO_SERVER);
+});
+
+afterEach(async () => {
+  await fs.remove(workspace);
+});
+
+const echoServer = (env: Record<string, string> = {}) => ({
+  command: process.execPath,
+  args: ['echo-server.js'],
+  env,
+  timeout: 5_000,
+});
+
+async function writeMcpConfig(mcpServers: Record<string, unknown>): Promise<void> {
+  await fs.outputJson(path.join(workspace, MCP_CONFIG_FILE), { mcpServers });
+}
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+describe('MCP servers', () => {
+  let memory: DatabaseMemory;
+  let mcp: McpConnections | undefined;
+
+  beforeEach(async () => {
+    memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    memory.createSession(SESSION_ID, workspace);
+  });
+
+  afterEach(async () => {
+    await mcp?.close();
+    mcp = undefined;
+    memory.close();
+  });
+
+  it('bridges a stdio server’s tools and runs them through the executor', async () => {
+    await writeMcpConfig({ echo: echoServer() });
+    mcp = await connectMcpServers(workspace);
+    const registry = new ToolRegistry(mcp.tools);
+
+    expect(mcp.failures).toEqual([]);
+    expect(registry.names()).toEqual(['mcp__echo__echo', 'mcp__echo__fail', 'mcp__echo__crash']);
+    const [echo] = registry.definitions();
+    expect(echo.description).toBe('[MCP server "echo"] Echo the text back.');
+    expect(echo.input_schema).toMatchObject({ required: ['text'], properties: { times: { type: 'integer' } } });
+    expect(registry.isReadOnly('mcp__echo__echo')).toBe(true);
+
+    const executor = new ToolExecutor(makeConfig(), memory, SESSION_ID, registry);
+    const ok = await executor.execute({ name: 'mcp__echo__echo', input: { text: 'hi ', times: 2 } });
+    const invalid = await executor.execute({ name: 'mcp__echo__echo', input: { text: 42 } }, 1);
+    const failed = await executor.execute({ name: 'mcp__echo__fail', input: {} });
+
+    expect(ok).toMatchObject({ success: true, result: { content: 'hi hi ' } });
+    expect(invalid.error).toContain('Validation failed');
+    expect(failed).toMatchObject({ success: false, error: 'Something broke' });
+    // Rejected inputs never reach the server and are not recorded
+    expect(memory.getToolCallStats(SESSION_ID)).toMatchObject({
+      mcp__echo__echo: { calls: 1, successes: 1 },
+      mcp__echo__fail: { calls: 1, successes: 0 },
+    });
+  });
+
+  it('fails calls with the reason once the server has died', async () => {
+    await writeMcpConfig({ echo: echoServer() });
+    mcp = await connectMcpServers(workspace);
+    const executor = new ToolExecutor(makeConfig(), memory, SESSION_ID, new ToolRegistry(mcp.tools));
+
+    const crash = await executor.execute({ name: 'mcp__echo__crash', input: {} });
+    const after = await executor.execute({ name: 'mcp__echo__echo', input: { text: 'hi' } });
+
+    expect(crash.error).toBe('MCP server "echo" exited with code 3: fatal: crashed on purpose');
+    expect(after.error).toBe(crash.error);
+  });
+
+  it('reports servers that cannot start and still connects the others', async () => {
+    await writeMcpConfig({
+      echo: echoServer(),
+      exits: { command: process.execPath, args: ['-e', 'console.error("no config"); process.exit(1)'] },
+      missing: { command: path.join(workspace, 'no-such-server') },
+      off: { command: path.join(workspace, 'no-such-server'), disabled: true },
+    });
+
+    mcp = await connectMcpServers(workspace);
+
+    expect(mcp.tools).toHaveLength(3);
+    expect(mcp.failures.sort((a, b) => a.server.localeCompare(b.server))).toEqual([
+      { server: 'exits', error: 'MCP server "exits" exited with code 1: no config' },
+      { server: 'missing', error: expect.stringMatching(/^MCP server "missing" could not be started: .*ENOENT/) },
+    ]);
+  });
+
+  it('reports an invalid config instead of connecting', async () => {
+    await writeMcpConfig({ 'bad name': echoServer() });
+
+    mcp = await connectMcpServers(workspace);
+
+    expect(mcp.tools).toEqual([]);
+    expect(mcp.failures).toEqual([{ server: MCP_CONFIG_FILE, error: expect.stringContaining('Invalid .agent/mcp.json') }]);
+  });
+});
+
+describe('MCP tools in the agent loop', () => {
+  it('offers them to the model, reports unavailable servers and stops servers after the run', async () => {
+    const pidFile = path.join(workspace, 'server.pid');
+    await writeMcpConfig({
+      echo: echoServer({ PID_FILE: pidFile }),
+      broken: { command: process.execPath, args: ['-e', 'process.exit(2)'] },
+    });
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 't1', name: 'mcp__echo__echo', input: { text: 'pong' } }] },
+        { text: 'The server said pong.' },
+      ],
+    });
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    const agent = new Agent(makeConfig({ allowMcpServers: true }), memory, provider);
+    const events: AgentEvent[] = [];
+
+    await agent.run('call the echo tool', SESSION_ID, (e) => events.push(e));
+
+    expect(provider.requests[0].tools.map((t) => t.name)).toContain('mcp__echo__echo');
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'error',
+        data: {
+          error: 'MCP server "broken" exited with code 2 — its tools are not available in this run',
+          mcpServer: 'broken',
+        },
+      })
+    );
+    expect(events.find((e) => e.type === 'tool_result')?.data).toMatchObject({
+      toolName: 'mcp__echo__echo',
+      success: true,
+      result: { content: 'pong' },
+    });
+    const pid = Number(await fs.readFile(pidFile, 'utf8'));
+    expect(() => process.kill(pid, 0)).toThrow();
+    memory.close();
+  });
+
+  it('starts no servers unless the operator allows them', async () => {
+    const pidFile = path.join(workspace, 'server.pid');
+    await writeMcpConfig({ echo: echoServer({ PID_FILE: pidFile }) });
+    const provider = new ReplayProvider({ turns: [{ text: 'Done.' }] });
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    await agent.run('call the echo tool', SESSION_ID, () => undefined);
+
+    expect(provider.requests[0].tools.map((t) => t.name)).not.toContain('mcp__echo__echo');
+    expect(await fs.pathExists(pidFile)).toBe(false);
+    memory.close();
+  });
+
+  it('keeps a run from adding servers for its next run', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          toolCalls: [
+            {
+              id: 't1',
+              name: 'write_file',
+              input: { path: MCP_CONFIG_FILE, content: JSON.stringify({ mcpServers: { sh: { command: 'sh' } } }) },
+            },
+          ],
+        },
+        { text: 'Could not add it.' },
+      ],
+    });
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    const agent = new Agent(makeConfig({ allowMcpServers: true }), memory, provider);
+    const events: AgentEvent[] = [];
+
+    await agent.run('add a shell MCP server', SESSION_ID, (e) => events.push(e));
+
+    expect(events.find((e) => e.type === 'tool_result')?.data).toMatchObject({
+      toolName: 'write_file',
+      success: false,
+      errorCode: 'PROTECTED_PATH',
+    });
+    expect(await fs.pathExists(path.join(workspace, MCP_CONFIG_FILE))).toBe(false);
+    memory.close();
+  });
+});
@@ -1,6 +1,7 @@
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs-extra';
+import Database from 'better-sqlite3';
 import { ToolExecutor } from '../../tools/ToolExecutor';
 import { DatabaseMemory } from '../../memory/DatabaseMemory';
 import type { Config } from '../../config';
@@ -255,4 +256,43 @@ describe('ToolExecutor - Integration Tests', () => {
       expect(stats.memory_set.successes).toBe(1);
     });
   });
+
+  describe('Secret scanning', () => {
+    // Assembled at runtime so this file does not trip secret scanners itself
+    const AWS_KEY = 'AKIA' + 'IOSFODNN7EXAMPLE';
+
+    it('blocks a write that would put a secret on disk', async () => {
+      const result = await executor.execute({
+        name: 'write_file',
+        input: { path: 'src/aws.ts', content: `export const region = 'eu-west-1';\nexport const key = '${AWS_KEY}';\n` },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Secret scan blocked write_file: src/aws.ts:2 (AWS Access Key)');
+      expect(await fs.pathExists(path.join(workspace, 'src/aws.ts'))).toBe(false);
+    });
+
+    it('blocks a patch that adds a secret, reporting the patched line', async () => {
+      await fs.outputFile(path.join(workspace, 'a.ts'), 'line 1\nline 2\n');
+      const patch = ['--- a.ts', '+++ a.ts', '@@ -1,2 +1,3 @@', ' line 1', `+const key = '${AWS_KEY}';`, ' line 2', ''].join('\n');
+
+      const result = await executor.execute({ name: 'apply_patch', input: { path: 'a.ts', patch } });
+
+      expect(result.error).toContain('a.ts:2 (AWS Access Key)');
+      expect(await fs.readFile(path.join(workspace, 'a.ts'), 'utf8')).toBe('line 1\nline 2\n');
+    });
+
+    it('redacts secrets in tool output before returning and recording it', async () => {
+      await fs.outputFile(path.join(workspace, '.env'), `AWS_ACCESS_KEY_ID=${AWS_KEY}\n`);
+
+      const result = await executor.execute({ name: 'read_file', input: { path: '.env' } });
+
+      expect(JSON.stringify(result.result)).not.toContain(AWS_KEY);
+      expect(JSON.stringify(result.result)).toContain('[REDACTED:AWS Access Key]');
+      const db = new Database(dbPath, { readonly: true });
+      const row = db.prepare(`SELECT output FROM tool_calls WHERE tool_name = 'read_file'`).get() as { output: string };
+      db.close();
+      expect(row.output).not.toContain(AWS_KEY);
+    });
+  });
 });
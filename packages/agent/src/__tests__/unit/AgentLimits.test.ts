@@ -269,6 +269,18 @@ describe('Agent safety limits', () => {
       // since maxConcurrentSessions is 1
       await expect(agent.run('second run')).resolves.toBeDefined();
     });
+
+    it('releases the slot and cancel controller when setup throws', async () => {
+      const agent = new Agent(makeConfig({ maxConcurrentSessions: 1 }), mockMemory);
+      mockMemory.createSession.mockImplementationOnce(() => {
+        throw new Error('SQLITE_BUSY: database is locked');
+      });
+
+      await expect(agent.run('first run', 'session-setup')).rejects.toThrow('database is locked');
+      expect(agent.cancel('session-setup')).toBe(false);
+
+      await expect(agent.run('second run')).resolves.toBeDefined();
+    });
   });
 
   // ── Tool call limit ────────────────────────────────────────────────────────
@@ -284,3 +284,117 @@ describe('POST /api/prompt', () => {
     expect(res.body.success).toBe(true);
   });
 });
+
+// ─── Patch approvals over HTTP ────────────────────────────────────────────────
+
+describe('Patch approval endpoints', () => {
+  const pending = {
+    patchId: 'toolu_1',
+    sessionId: 'sid-1',
+    filePath: 'src/index.ts',
+    diff: '+hello',
+    operation: 'modify' as const,
+    requestedAt: new Date(),
+  };
+
+  function withPending() {
+    const built = buildServer();
+    (built.agent.listPendingApprovals as jest.Mock) = jest
+      .fn()
+      .mockImplementation((sid?: string) =>
+        sid === undefined || sid === pending.sessionId ? [pending] : []
+      );
+    (built.agent.resolvePatchApproval as jest.Mock) = jest.fn().mockReturnValue(true);
+    const app = (built.server as unknown as { app: express.Application }).app;
+    return { ...built, app };
+  }
+
+  it('lists pending approvals for a session', async () => {
+    const { app, config } = withPending();
+    const res = await request(app)
+      .get('/api/sessions/sid-1/approvals')
+      .set('Authorization', `Bearer ${config.apiSecret}`);
+    expect(res.status).toBe(200);
+    expect(res.body.approvals).toHaveLength(1);
+    expect(res.body.approvals[0].filePath).toBe('src/index.ts');
+  });
+
+  it('resolves a pending approval', async () => {
+    const { app, config, agent } = withPending();
+    const res = await request(app)
+      .post('/api/sessions/sid-1/approvals/toolu_1')
+      .set('Authorization', `Bearer ${config.apiSecret}`)
+      .send({ approved: false });
+    expect(res.status).toBe(200);
+    expect(agent.resolvePatchApproval).toHaveBeenCalledWith('toolu_1', false);
+  });
+
+  it('returns 400 when approved is not a boolean', async () => {
+    const { app, config } = withPending();
+    const res = await request(app)
+      .post('/api/sessions/sid-1/approvals/toolu_1')
+      .set('Authorization', `Bearer ${config.apiSecret}`)
+      .send({ approved: 'yes' });
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for a patch that belongs to another session', async () => {
+    const { app, config, agent } = withPending();
+    const res = await request(app)
+      .post('/api/sessions/other-session/approvals/toolu_1')
+      .set('Authorization', `Bearer ${config.apiSecret}`)
+      .send({ approved: true });
+    expect(res.status).toBe(404);
+    expect(agent.resolvePatchApproval).not.toHaveBeenCalled();
+  });
+});
+
+// ─── Resume ───────────────────────────────────────────────────────────────────
+
+describe('POST /api/sessions/:id/resume', () => {
+  function withCheckpoint(status: string | null) {
+    const built = buildServer();
+    (built.memory.getRunCheckpoint as jest.Mock) = jest
+      .fn()
+      .mockReturnValue(status ? { sessionId: 'sid-1', status, turn: 3 } : undefined);
+    (built.agent.resume as jest.Mock) = jest.fn().mockResolvedValue({
+      sessionId: 'sid-1',
+      summary: 'Resumed',
+      toolCallsCount: 4,
+      success: true,
+    });
+    const app = (built.server as unknown as { app: express.Application }).app;
+    return { ...built, app };
+  }
+
+  it('resumes an interrupted run', async () => {
+    const { app, config, agent } = withCheckpoint('interrupted');
+    const res = await request(app)
+      .post('/api/sessions/sid-1/resume')
+      .set('Authorization', `Bearer ${config.apiSecret}`);
+    expect(res.status).toBe(200);
+    expect(res.body.summary).toBe('Resumed');
+    expect(agent.resume).toHaveBeenCalledWith(
+      'sid-1',
+      expect.any(Function),
+      expect.objectContaining({ role: 'admin' })
+    );
+  });
+
+  it('returns 404 when the session has no checkpoint', async () => {
+    const { app, config, agent } = withCheckpoint(null);
+    const res = await request(app)
+      .post('/api/sessions/sid-1/resume')
+      .set('Authorization', `Bearer ${config.apiSecret}`);
+    expect(res.status).toBe(404);
+    expect(agent.resume).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 when the run already completed', async () => {
+    const { app, config } = withCheckpoint('completed');
+    const res = await request(app)
+      .post('/api/sessions/sid-1/resume')
+      .set('Authorization', `Bearer ${config.apiSecret}`);
+    expect(res.status).toBe(409);
+  });
+});
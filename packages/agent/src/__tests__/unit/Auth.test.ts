@@ -0,0 +1,259 @@
+/**
+ * Tests for users, API keys and roles:
+ *   - users and hashed keys in DatabaseMemory; sessions listed per user
+ *   - a token authenticates as a user, the shared secret as an admin, and
+ *     without either the server is open
+ *   - viewers read, operators also run prompts, admins also manage users and
+ *     workspaces and clear the database
+ *   - sessions belong to their creator; other users do not see them or their usage
+ *   - deploy and terraform tools are withheld from runs by non-admins
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import request from 'supertest';
+import express from 'express';
+import { DatabaseMemory, type UserRole } from '../../memory/DatabaseMemory';
+import { Agent } from '../../agent/Agent';
+import { AgentServer } from '../../server/AgentServer';
+import {
+  authenticate,
+  generateApiKey,
+  hashApiKey,
+  hasRole,
+  LOCAL_USER,
+  SHARED_SECRET_USER,
+} from '../../server/auth';
+import { ReplayProvider, REPLAY_MODEL, type ReplayTurn } from '../../providers';
+import type { Config } from '../../config';
+
+let workspace: string;
+let memory: DatabaseMemory;
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-auth-')));
+  memory = new DatabaseMemory(':memory:');
+  await memory.initialize();
+});
+
+afterEach(async () => {
+  memory.close();
+  await fs.remove(workspace);
+});
+
+// Adds a user with one API key; returns the Authorization header for it
+function addUser(name: string, role: UserRole) {
+  const user = memory.createUser({ id: `u-${name}`, name, role });
+  const { key, hash, prefix } = generateApiKey();
+  memory.addApiKey({ id: `k-${name}`, userId: user.id, keyHash: hash, prefix });
+  return { user, key, auth: { Authorization: `Bearer ${key}` } };
+}
+
+describe('users and API keys', () => {
+  it('stores users with hashed keys and finds a user by key', () => {
+    const { user, key } = addUser('ana', 'operator');
+
+    expect(memory.getUserByName('ana')).toMatchObject({ id: user.id, role: 'operator' });
+    const [stored] = memory.listApiKeys(user.id);
+    expect(key.startsWith(stored.prefix)).toBe(true);
+    expect(stored.lastUsedAt).toBeUndefined();
+
+    expect(memory.findUserByKeyHash(hashApiKey(key))?.id).toBe(user.id);
+    expect(memory.listApiKeys(user.id)[0].lastUsedAt).toBeInstanceOf(Date);
+    expect(memory.findUserByKeyHash(hashApiKey('klaus_wrong'))).toBeUndefined();
+
+    expect(memory.setUserRole(user.id, 'admin')?.role).toBe('admin');
+    expect(memory.deleteUser(user.id)).toBe(true);
+    expect(memory.findUserByKeyHash(hashApiKey(key))).toBeUndefined();
+    expect(memory.countUsers()).toBe(0);
+  });
+
+  it('lists sessions per user', () => {
+    memory.createSession('s-ana', workspace, { userId: 'u-ana' });
+    memory.createSession('s-ben', workspace, { userId: 'u-ben' });
+
+    expect(memory.listSessions(20, { userId: 'u-ana' }).map((s) => s.id)).toEqual(['s-ana']);
+    expect(memory.listSessions(20)).toHaveLength(2);
+    expect(memory.getSession('s-ben')?.userId).toBe('u-ben');
+  });
+
+  it('authenticates keys, the shared secret, and everyone on an open server', () => {
+    const secret = 'a-valid-secret-longer-than-16-chars';
+    expect(authenticate(memory, undefined, undefined)).toEqual(LOCAL_USER);
+    expect(authenticate(memory, secret, secret)).toEqual(SHARED_SECRET_USER);
+    expect(authenticate(memory, secret, undefined)).toBeUndefined();
+
+    const { user, key } = addUser('ana', 'viewer');
+    // Once a user exists the server is no longer open
+    expect(authenticate(memory, undefined, undefined)).toBeUndefined();
+    expect(authenticate(memory, undefined, key)).toEqual({ id: user.id, name: 'ana', role: 'viewer' });
+    expect(authenticate(memory, undefined, 'klaus_not-a-key')).toBeUndefined();
+
+    expect(hasRole({ role: 'admin' }, 'operator')).toBe(true);
+    expect(hasRole({ role: 'viewer' }, 'operator')).toBe(false);
+  });
+});
+
+describe('roles and session ownership over HTTP', () => {
+  function buildApp(turns: ReplayTurn[] = []) {
+    const config = makeConfig();
+    const agent = new Agent(config, memory, new ReplayProvider({ turns }));
+    const server = new AgentServer(agent, memory, config, config.port);
+    return (server as unknown as { app: express.Application }).app;
+  }
+
+  it('rejects missing and unknown keys once users exist', async () => {
+    addUser('ana', 'viewer');
+    const app = buildApp();
+
+    expect((await request(app).get('/api/sessions')).status).toBe(401);
+    expect((await request(app).get('/api/sessions').set('Authorization', 'Bearer klaus_nope')).status).toBe(401);
+  });
+
+  it('lets viewers read but not run prompts', async () => {
+    const viewer = addUser('vic', 'viewer');
+    const app = buildApp([{ text: 'Hello.' }]);
+
+    expect((await request(app).get('/api/sessions').set(viewer.auth)).status).toBe(200);
+    expect((await request(app).get('/api/me').set(viewer.auth)).body.user).toMatchObject({ name: 'vic', role: 'viewer' });
+    const prompt = await request(app).post('/api/prompt').set(viewer.auth).send({ message: 'hi' });
+    expect(prompt.status).toBe(403);
+    expect(prompt.body.error).toBe('This needs the operator role');
+  });
+
+  it("keeps a user's sessions from other users but not from admins", async () => {
+    const ana = addUser('ana', 'operator');
+    const ben = addUser('ben', 'operator');
+    const admin = addUser('root', 'admin');
+    const app = buildApp([{ text: 'Hello.' }]);
+
+    const prompt = await request(app).post('/api/prompt').set(ana.auth).send({ message: 'hi' });
+    expect(prompt.status).toBe(200);
+    const sid = prompt.body.sessionId;
+    expect(memory.getSession(sid)?.userId).toBe(ana.user.id);
+
+    const list = (auth: Record<string, string>) => request(app).get('/api/sessions').set(auth);
+    expect((await list(ana.auth)).body.sessions.map((s: { id: string }) => s.id)).toEqual([sid]);
+    expect((await list(ben.auth)).body.sessions).toEqual([]);
+    expect((await list(admin.auth)).body.sessions).toHaveLength(1);
+
+    expect((await request(app).get(`/api/sessions/${sid}`).set(ben.auth)).status).toBe(404);
+    expect((await request(app).delete(`/api/sessions/${sid}`).set(ben.auth)).status).toBe(404);
+    const hijack = await request(app).post('/api/prompt').set(ben.auth).send({ message: 'hi', sessionId: sid });
+    expect(hijack.status).toBe(404);
+    expect((await request(app).get(`/api/sessions/${sid}`).set(admin.auth)).status).toBe(200);
+  });
+
+  it("counts only the caller's sessions in usage, unless the caller is an admin", async () => {
+    const ana = addUser('ana', 'operator');
+    const ben = addUser('ben', 'operator');
+    const admin = addUser('root', 'admin');
+    memory.createSession('s-ana', workspace, { userId: ana.user.id });
+    memory.createSession('s-ben', workspace, { userId: ben.user.id });
+    memory.recordTokenUsage('s-ana', 100, 10, REPLAY_MODEL);
+    memory.recordTokenUsage('s-ben', 200, 20, REPLAY_MODEL);
+    const app = buildApp();
+
+    const usage = async (auth: Record<string, string>) =>
+      (await request(app).get('/api/usage').set(auth)).body.total;
+    expect(await usage(ana.auth)).toMatchObject({ inputTokens: 100, outputTokens: 10 });
+    expect(await usage(ben.auth)).toMatchObject({ inputTokens: 200, outputTokens: 20 });
+    expect(await usage(admin.auth)).toMatchObject({ inputTokens: 300, outputTokens: 30 });
+  });
+
+  it('keeps user management, workspace changes and clearing the database to admins', async () => {
+    const operator = addUser('ana', 'operator');
+    const admin = addUser('root', 'admin');
+    const app = buildApp();
+
+    expect((await request(app).post('/api/users').set(operator.auth).send({ name: 'x', role: 'viewer' })).status).toBe(403);
+    expect((await request(app).post('/api/workspaces').set(operator.auth).send({ name: 'W', path: workspace })).status).toBe(403);
+    expect((await request(app).post('/api/db/clear').set(operator.auth).send({ target: 'all' })).status).toBe(403);
+
+    const created = await request(app).post('/api/users').set(admin.auth).send({ name: 'cleo', role: 'viewer' });
+    expect(created.status).toBe(201);
+    const cleo = { Authorization: `Bearer ${created.body.key}` };
+    expect((await request(app).get('/api/me').set(cleo)).body.user.name).toBe('cleo');
+    expect((await request(app).post('/api/users').set(admin.auth).send({ name: 'cleo', role: 'viewer' })).status).toBe(409);
+
+    const promoted = await request(app).put(`/api/users/${created.body.user.id}`).set(admin.auth).send({ role: 'operator' });
+    expect(promoted.body.user.role).toBe('operator');
+
+    const revoked = await request(app)
+      .delete(`/api/users/${created.body.user.id}/keys/${created.body.apiKey.id}`)
+      .set(admin.auth);
+    expect(revoked.status).toBe(200);
+    expect((await request(app).get('/api/me').set(cleo)).status).toBe(401);
+
+    expect((await request(app).delete(`/api/users/${admin.user.id}`).set(admin.auth)).status).toBe(409);
+
+    memory.createSession('s1', workspace);
+    const cleared = await request(app).post('/api/db/clear').set(admin.auth).send({ target: 'sessions' });
+    expect(cleared.body.deleted).toEqual({ sessions: 1 });
+  });
+});
+
+describe('admin-only tools', () => {
+  const TERRAFORM_APPLY = { toolCalls: [{ id: 'tf', name: 'terraform_apply', input: { autoApprove: true } }] };
+
+  it('are withheld from operators and refused if called anyway', async () => {
+    const provider = new ReplayProvider({ turns: [TERRAFORM_APPLY, { text: 'Could not apply.' }] });
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    await agent.run('apply the infrastructure', 's1', undefined, { user: { id: 'u-ana', role: 'operator' } });
+
+    const offered = provider.requests[0].tools.map((t) => t.name);
+    expect(offered).toContain('write_file');
+    expect(offered).not.toContain('terraform_apply');
+    expect(offered).not.toContain('deploy_netlify');
+    const results = provider.requests[1].messages.at(-1)!.content as Array<{ type: string; content?: string }>;
+    expect(results.find((b) => b.type === 'tool_result')?.content).toContain('Tool "terraform_apply" needs the admin role');
+  });
+
+  it('are offered to admins and to runs without a user', async () => {
+    for (const user of [{ id: 'u-root', role: 'admin' as const }, undefined]) {
+      const provider = new ReplayProvider({ turns: [{ text: 'Ready.' }] });
+      await new Agent(makeConfig(), memory, provider).run('hi', undefined, undefined, { user });
+      expect(provider.requests[0].tools.map((t) => t.name)).toContain('terraform_apply');
+    }
+  });
+});
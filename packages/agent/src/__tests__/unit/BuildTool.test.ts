@@ -145,6 +145,18 @@ describe('BuildTool', () => {
       const spawnOptions = mockSpawn.mock.calls[0][2] as any;
       expect(spawnOptions?.shell).toBeFalsy();
     });
+
+    it('does not pass agent credentials to npm on the host', async () => {
+      process.env.ANTHROPIC_API_KEY = 'sk-ant-secret';
+      mockSpawn.mockReturnValue(makeSpawnMock(0) as any);
+      await tool.npmInstall({ packages: [], packageDir: '.', saveDev: false });
+
+      const spawnOptions = mockSpawn.mock.calls[0][2] as any;
+      expect(spawnOptions.env.ANTHROPIC_API_KEY).toBeUndefined();
+      expect(spawnOptions.env.PATH).toBe(process.env.PATH);
+
+      delete process.env.ANTHROPIC_API_KEY;
+    });
   });
 
   // ── npm_run ────────────────────────────────────────────────────────────────
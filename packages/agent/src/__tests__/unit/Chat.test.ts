@@ -0,0 +1,252 @@
+/**
+ * Tests for the `klaus chat` REPL:
+ *   - replies stream in, with tool calls and results on lines of their own,
+ *     and every prompt goes to the same session
+ *   - slash commands: /model, /budget, /undo, /diff, /export
+ *   - patch approvals are answered in the terminal, and Ctrl-C cancels the
+ *     running turn
+ *
+ * The REPL reads from and writes to PassThrough streams; the model is a
+ * ReplayProvider and the workspace a real git repo in a temp directory.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { PassThrough } from 'stream';
+import simpleGit from 'simple-git';
+import { ChatRepl } from '../../cli/chat';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { Agent } from '../../agent/Agent';
+import { ReplayProvider, REPLAY_MODEL, type ReplayTurn } from '../../providers';
+import type { Config } from '../../config';
+
+let workspace: string;
+let memory: DatabaseMemory;
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-chat-')));
+  const git = simpleGit(workspace);
+  await git.init();
+  await git.addConfig('user.email', 'klaus-code@localhost');
+  await git.addConfig('user.name', 'AI Agent');
+  await fs.outputFile(path.join(workspace, 'a.txt'), 'one\n');
+  await git.add('.');
+  await git.commit('Initial commit');
+
+  memory = new DatabaseMemory(':memory:');
+  await memory.initialize();
+});
+
+afterEach(async () => {
+  memory.close();
+  await fs.remove(workspace);
+});
+
+// A REPL over fake terminal streams; `output()` is everything written so far, without colours
+function startChat(turns: ReplayTurn[], config: Config = makeConfig(), sessionId?: string) {
+  const provider = new ReplayProvider({ turns });
+  const agent = new Agent(config, memory, provider);
+  const input = new PassThrough();
+  const out = new PassThrough();
+  let written = '';
+  out.on('data', (chunk) => (written += chunk.toString()));
+
+  const repl = new ChatRepl({ agent, memory, config, sessionId, input, output: out });
+  const done = repl.start();
+  // eslint-disable-next-line no-control-regex
+  const output = () => written.replace(/\x1b\[[0-9;]*m/g, '');
+  // Resolves once `text` has been written `times` times in total
+  const waitFor = async (text: string, times = 1) => {
+    for (let i = 0; i < 200; i++) {
+      if (output().split(text).length > times) return;
+      await new Promise((r) => setTimeout(r, 25));
+    }
+    throw new Error(`Timed out waiting for "${text}" in:\n${output()}`);
+  };
+  const send = (line: string) => input.write(`${line}\n`);
+  const close = async () => {
+    input.end();
+    await done;
+  };
+  return { repl, provider, output, waitFor, send, close };
+}
+
+describe('chat REPL', () => {
+  it('streams replies with tool lines inline, keeping every prompt in one session', async () => {
+    const chat = startChat([
+      { text: 'Reading it.', toolCalls: [{ name: 'read_file', input: { path: 'a.txt' } }] },
+      { text: 'It says one.' },
+      { text: 'Still one.' },
+    ]);
+
+    chat.send('what is in a.txt?');
+    await chat.waitFor('tool call(s)');
+    chat.send('and now?');
+    await chat.waitFor('tool call(s)', 2);
+    await chat.close();
+
+    const output = chat.output();
+    expect(output).toContain('Reading it.\n⚙ read_file a.txt\n✓ read_file');
+    expect(output).toContain('It says one.\n— 1 tool call(s)');
+    expect(memory.getMessages(chat.repl.sessionId, 100).filter((m) => m.role === 'user')).toHaveLength(2);
+    expect(JSON.stringify(chat.provider.requests[2].messages)).toContain('what is in a.txt?');
+  });
+
+  it('shows a failed tool call with its error code', async () => {
+    const chat = startChat([
+      { toolCalls: [{ name: 'read_file', input: { path: 'missing.txt' } }] },
+      { text: 'Not there.' },
+    ]);
+
+    chat.send('read missing.txt');
+    await chat.waitFor('tool call(s)');
+    await chat.close();
+
+    expect(chat.output()).toContain('✗ read_file [FILE_NOT_FOUND] File not found');
+  });
+
+  it('continues an existing session', async () => {
+    const first = startChat([{ text: 'Hello.' }]);
+    first.send('remember the word banana');
+    await first.waitFor('tool call(s)');
+    await first.close();
+
+    const chat = startChat([{ text: 'Banana.' }], makeConfig(), first.repl.sessionId);
+    chat.send('which word?');
+    await chat.waitFor('tool call(s)');
+    await chat.close();
+
+    expect(chat.output()).toContain('(continued)');
+    expect(JSON.stringify(chat.provider.requests[0].messages)).toContain('remember the word banana');
+  });
+
+  it('switches models with /model and shows usage with /budget', async () => {
+    const chat = startChat([], makeConfig({ tokenBudget: 50_000 }));
+
+    chat.send('/model no-such-model');
+    chat.send(`/model ${REPLAY_MODEL}`);
+    chat.send('/budget');
+    chat.send('/nope');
+    await chat.close();
+
+    const output = chat.output();
+    expect(output).toContain('Unknown model "no-such-model".');
+    expect(output).toContain(`Model set to ${REPLAY_MODEL}`);
+    expect(output).toContain('Budget per run: 50,000 tokens');
+    expect(output).toContain('Unknown command /nope.');
+  });
+
+  it('shows changes with /diff, steps back through edits with /undo, and exports with /export', async () => {
+    const chat = startChat([
+      {
+        toolCalls: [
+          { name: 'write_file', input: { path: 'a.txt', content: 'two\n' } },
+          { name: 'write_file', input: { path: 'b.txt', content: 'new\n' } },
+        ],
+      },
+      { text: 'Done.' },
+    ]);
+    const target = path.join(workspace, 'export.md');
+
+    chat.send('edit files');
+    await chat.waitFor('tool call(s)');
+    chat.send('/diff');
+    chat.send('/undo');
+    chat.send('/undo');
+    chat.send('/undo');
+    chat.send(`/export ${target}`);
+    await chat.close();
+
+    const output = chat.output();
+    expect(output).toContain('+two');
+    expect(output).toContain('new file: b.txt');
+    expect(output).toContain('Reverted write_file b.txt');
+    expect(output).toContain('Reverted write_file a.txt');
+    expect(output).toContain('Nothing to undo');
+    expect(await fs.readFile(path.join(workspace, 'a.txt'), 'utf8')).toBe('one\n');
+    expect(await fs.pathExists(path.join(workspace, 'b.txt'))).toBe(false);
+    expect(await fs.readFile(target, 'utf8')).toContain('edit files');
+  });
+
+  it('asks about patches in the terminal', async () => {
+    const chat = startChat(
+      [
+        {
+          toolCalls: [
+            { name: 'write_file', input: { path: 'a.txt', content: 'two\n' } },
+            { name: 'write_file', input: { path: 'b.txt', content: 'new\n' } },
+          ],
+        },
+        { text: 'Done.' },
+      ],
+      makeConfig({ requirePatchApproval: true })
+    );
+
+    chat.send('edit files');
+    await chat.waitFor('Apply this change? [y/N]');
+    chat.send('y');
+    await chat.waitFor('Apply this change? [y/N]', 2);
+    chat.send('n');
+    await chat.waitFor('tool call(s)');
+    await chat.close();
+
+    expect(chat.output()).toContain('modify a.txt');
+    expect(await fs.readFile(path.join(workspace, 'a.txt'), 'utf8')).toBe('two\n');
+    expect(await fs.pathExists(path.join(workspace, 'b.txt'))).toBe(false);
+  });
+
+  it('cancels the running turn on Ctrl-C', async () => {
+    const chat = startChat(
+      [{ toolCalls: [{ name: 'write_file', input: { path: 'a.txt', content: 'two\n' } }] }, { text: 'Done.' }],
+      makeConfig({ requirePatchApproval: true })
+    );
+
+    chat.send('edit a.txt');
+    await chat.waitFor('Apply this change? [y/N]');
+    chat.repl.interrupt();
+    await chat.waitFor('tool call(s)');
+    await chat.close();
+
+    expect(chat.output()).toContain('Cancelling…');
+    expect(await fs.readFile(path.join(workspace, 'a.txt'), 'utf8')).toBe('one\n');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for run_command and its .agent/commands.yml policy:
+ *   - allow rules with argument patterns, deny rules winning, built-in denials
+ *   - no policy, an invalid policy or an unsafe command name refuses to run
+ *   - without Docker it refuses unless host commands are allowed
+ *   - in the sandbox, arguments are quoted for sh and env keys scrubbed
+ *   - output streams to tool_progress events, with secrets redacted
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import {
+  checkCommand,
+  CommandsPolicySchema,
+  CommandTool,
+  COMMANDS_POLICY_FILE,
+  loadCommandsPolicy,
+} from '../../tools/CommandTool';
+import { RunCommandSchema } from '../../tools/schemas';
+import { ToolExecutor, type ToolProgress } from '../../tools/ToolExecutor';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import type { DockerSandbox } from '../../sandbox/DockerSandbox';
+import type { Config } from '../../config';
+
+jest.mock('../../tools/GitTool');
+
+const POLICY = `
+allow:
+  - make
+  - node
+  - command: python3
+    args: ['-m', 'pytest', 'tests/.*']
+  - ./scripts/*.sh
+deny:
+  - command: make
+    args: ['deploy']
+`;
+
+let workspace: string;
+
+beforeEach(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-commands-'));
+});
+
+afterEach(async () => {
+  await fs.remove(workspace);
+});
+
+async function writePolicy(content = POLICY): Promise<void> {
+  await fs.outputFile(path.join(workspace, COMMANDS_POLICY_FILE), content);
+}
+
+const input = (command: string, args: string[] = [], extra: object = {}) =>
+  RunCommandSchema.parse({ command, args, ...extra });
+
+describe('checkCommand', () => {
+  const policy = CommandsPolicySchema.parse({
+    allow: ['make', { command: 'python3', args: ['-m', 'pytest', 'tests/.*'] }, './scripts/*.sh'],
+    deny: [{ command: 'make', args: ['deploy'] }],
+  });
+
+  it.each([
+    ['make', ['build', '-j4']],
+    ['python3', ['-m', 'pytest', 'tests/test_api.py']],
+    ['./scripts/seed.sh', []],
+  ])('allows %s %j', (command, args) => {
+    expect(checkCommand(policy, command, args)).toBeNull();
+  });
+
+  it('refuses arguments outside the allowed patterns', () => {
+    expect(checkCommand(policy, 'python3', ['-c', 'import os'])).toBe(
+      `"python3 -c import os" is not allowed by ${COMMANDS_POLICY_FILE}. ` +
+        'Allowed commands: make, python3, ./scripts/*.sh'
+    );
+  });
+
+  it('lets deny rules win over allow rules', () => {
+    expect(checkCommand(policy, 'make', ['deploy'])).toBe(
+      `"make deploy" is denied by ${COMMANDS_POLICY_FILE} (an argument matches deploy).`
+    );
+  });
+
+  it('matches argument patterns against the whole argument', () => {
+    const curl = CommandsPolicySchema.parse({ allow: [{ command: 'curl', args: ['localhost', 'http://localhost:\\d+/.*'] }] });
+    expect(checkCommand(curl, 'curl', ['http://localhost:3000/health'])).toBeNull();
+    expect(checkCommand(curl, 'curl', ['http://evil.example/?localhost'])).toMatch(/is not allowed/);
+    expect(checkCommand(curl, 'curl', ['localhost.evil.example'])).toMatch(/is not allowed/);
+  });
+
+  it('never allows privilege escalation', () => {
+    expect(checkCommand(CommandsPolicySchema.parse({ allow: ['sudo'] }), 'sudo', ['ls'])).toBe(
+      '"sudo" is never allowed.'
+    );
+  });
+});
+
+describe('loadCommandsPolicy', () => {
+  it('returns null without a policy file', async () => {
+    await expect(loadCommandsPolicy(workspace)).resolves.toBeNull();
+  });
+
+  it('rejects an invalid policy', async () => {
+    await writePolicy(`allow:\n  - command: grep\n    args: ['(']\n`);
+    await expect(loadCommandsPolicy(workspace)).rejects.toThrow('Invalid .agent/commands.yml');
+  });
+});
+
+describe('CommandTool', () => {
+  it('refuses to run on the host unless host commands are allowed', async () => {
+    await writePolicy();
+    await expect(new CommandTool(workspace).runCommand(input('make'))).rejects.toThrow(
+      'AGENT_ALLOW_HOST_COMMANDS=true'
+    );
+  });
+
+  it('refuses without a policy file', async () => {
+    await expect(new CommandTool(workspace, null, true).runCommand(input('make'))).rejects.toThrow(
+      'run_command is not enabled for this workspace'
+    );
+  });
+
+  it.each(['/bin/sh', 'bin/make', './../outside.sh', 'make build'])('rejects the command name %j', async (command) => {
+    await writePolicy();
+    await expect(new CommandTool(workspace, null, true).runCommand(input(command))).rejects.toThrow(
+      'Invalid command'
+    );
+  });
+
+  it('runs in the sandbox with quoted arguments, the cwd and a scrubbed env', async () => {
+    await writePolicy();
+    await fs.ensureDir(path.join(workspace, 'api'));
+    const execute = jest.fn(async (_cmd: string, _dir: string, options: any) => {
+      options.onOutput('collected 3 items\n', 'stdout');
+      return { stdout: 'collected 3 items\n', stderr: '', exitCode: 1 };
+    });
+    const sandbox = { execute } as unknown as DockerSandbox;
+    const chunks: string[] = [];
+
+    const result = await new CommandTool(workspace, sandbox).runCommand(
+      input('python3', ['-m', 'pytest', "tests/it's a test.py"], { cwd: 'api', timeout: 30_000 }),
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(execute).toHaveBeenCalledWith(
+      `cd /workspace/api && exec python3 -m pytest 'tests/it'\\''s a test.py'`,
+      workspace,
+      expect.objectContaining({ timeout: 30_000, env: expect.objectContaining({ ANTHROPIC_API_KEY: '', AGENT_OPENAI_API_KEY: '', AGENT_API_SECRET: '' }) })
+    );
+    expect(chunks).toEqual(['collected 3 items\n']);
+    expect(result).toMatchObject({ success: false, exitCode: 1, sandboxed: true });
+  });
+
+  it('runs on the host when allowed and streams output as it arrives', async () => {
+    await writePolicy();
+    const chunks: Array<[string, string]> = [];
+
+    const result = await new CommandTool(workspace, null, true).runCommand(
+      input('node', ['-e', 'process.stdout.write("out"); process.stderr.write("err"); process.exit(2)']),
+      (chunk, stream) => chunks.push([stream, chunk])
+    );
+
+    expect(result).toMatchObject({ success: false, stdout: 'out', stderr: 'err', exitCode: 2, sandboxed: false });
+    expect(chunks).toEqual(expect.arrayContaining([['stdout', 'out'], ['stderr', 'err']]));
+  });
+});
+
+describe('run_command through ToolExecutor', () => {
+  it('emits output chunks as tool_progress with secrets redacted', async () => {
+    await writePolicy();
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    memory.createSession('session-1', workspace);
+    const config = {
+      workspaceDir: workspace,
+      maxToolResultSize: 10_240,
+      dockerEnabled: false,
+      allowHostCommands: true,
+    } as Config;
+    const progress: ToolProgress[] = [];
+
+    const result = await new ToolExecutor(config, memory, 'session-1').execute(
+      { name: 'run_command', input: { command: 'node', args: ['-e', 'console.log("key AKIA" + "ABCDEFGHIJKLMNOP")'] } },
+      1,
+      (p) => progress.push(p)
+    );
+    memory.close();
+
+    const output = progress.filter((p) => p.output).map((p) => p.output).join('');
+    expect(result.success).toBe(true);
+    expect(output).toBe('key [REDACTED:AWS Access Key]\n');
+    expect(progress[progress.length - 1]).toMatchObject({ progress: 100, status: 'Complete' });
+  });
+
+  it('keeps a run from allowing itself commands by writing the policy file', async () => {
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    memory.createSession('session-1', workspace);
+    const config = {
+      workspaceDir: workspace,
+      maxToolResultSize: 10_240,
+      dockerEnabled: false,
+      allowHostCommands: true,
+    } as Config;
+    const executor = new ToolExecutor(config, memory, 'session-1');
+
+    const write = await executor.execute(
+      { name: 'write_file', input: { path: '.agent/commands.yml', content: 'allow: ["*"]\n' } },
+      1
+    );
+    const run = await executor.execute({ name: 'run_command', input: { command: 'node', args: ['-v'] } }, 2);
+    memory.close();
+
+    expect(write).toMatchObject({ success: false, errorCode: 'PROTECTED_PATH' });
+    expect(write.hint).toMatch(/set by the user/);
+    expect(await fs.pathExists(path.join(workspace, COMMANDS_POLICY_FILE))).toBe(false);
+    expect(run).toMatchObject({ success: false, errorCode: 'COMMAND_NOT_ALLOWED' });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for token-aware context management:
+ *   - transcripts under budget pass through untouched
+ *   - layered compaction: elide old tool outputs → summarise → drop
+ *   - cuts never orphan a tool_result and keep the current request
+ *   - context windows come from the model catalog
+ *   - Agent.run() compacts before calling the model and emits context_compacted
+ */
+
+import type { MessageParam } from '@anthropic-ai/sdk/resources/messages';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { ContextManager, estimateTokens } from '../../agent/ContextManager';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import {
+  ReplayProvider,
+  REPLAY_MODEL,
+  DEFAULT_CONTEXT_WINDOW,
+  contextWindowForModel,
+} from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../memory/DatabaseMemory');
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import { ToolExecutor } from '../../tools/ToolExecutor';
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: '/tmp/test-workspace',
+    hostWorkspaceDir: '/tmp/test-workspace',
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 2,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+function makeMemory(): jest.Mocked<DatabaseMemory> {
+  const m = new DatabaseMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+  m.getSession = jest.fn().mockReturnValue(null);
+  m.createSession = jest.fn();
+  m.addMessage = jest.fn();
+  m.getMessages = jest.fn().mockReturnValue([]);
+  m.getRecentMessages = jest.fn().mockReturnValue([]);
+  m.countMessages = jest.fn().mockReturnValue(0);
+  m.recordTokenUsage = jest.fn();
+  m.listKnowledge = jest.fn().mockReturnValue([]);
+  m.getKnowledge = jest.fn().mockReturnValue(null);
+  m.getSessionTokenUsage = jest.fn().mockReturnValue({
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  });
+  m.updateSessionSummary = jest.fn();
+  return m;
+}
+
+// A prompt followed by `turns` tool round-trips, each returning `outputChars` of output
+function transcript(turns: number, outputChars: number): MessageParam[] {
+  const messages: MessageParam[] = [{ role: 'user', content: 'refactor the parser' }];
+  for (let i = 0; i < turns; i++) {
+    messages.push({
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: `t${i}`, name: 'read_file', input: { path: `f${i}.ts` } }],
+    });
+    messages.push({
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: `t${i}`, content: 'x'.repeat(outputChars) }],
+    });
+  }
+  return messages;
+}
+
+// Every tool_result must answer a tool_use in the message right before it
+function expectValidPairs(messages: MessageParam[]) {
+  expect(messages[0].role).toBe('user');
+  messages.forEach((m, i) => {
+    if (i > 0) expect(m.role).not.toBe(messages[i - 1].role);
+    if (!Array.isArray(m.content)) return;
+    for (const block of m.content) {
+      if (block.type !== 'tool_result') continue;
+      const prev = messages[i - 1].content as any[];
+      expect(prev.some((b) => b.type === 'tool_use' && b.id === block.tool_use_id)).toBe(true);
+    }
+  });
+}
+
+// ─── ContextManager ───────────────────────────────────────────────────────────
+
+describe('ContextManager', () => {
+  it('leaves transcripts that fit untouched', async () => {
+    const messages = transcript(2, 100);
+    const result = await new ContextManager().fit(messages, 10_000);
+    expect(result.report).toBeNull();
+    expect(result.messages).toBe(messages);
+  });
+
+  it('elides old tool outputs first and keeps recent ones', async () => {
+    const messages = transcript(6, 4_000); // ~6k tokens
+    const result = await new ContextManager().fit(messages, 4_000);
+
+    expect(result.report!.strategies).toEqual(['elide_tool_results']);
+    expect(result.report!.tokensAfter).toBeLessThanOrEqual(4_000);
+    const outputs = result.messages
+      .filter((m) => Array.isArray(m.content))
+      .flatMap((m) => (m.content as any[]).filter((b) => b.type === 'tool_result'));
+    expect(outputs[0].content).toMatch(/^\[Tool output elided/);
+    expect(outputs[outputs.length - 1].content).toBe('x'.repeat(4_000));
+    // The original transcript is not modified
+    expect((messages[2].content as any[])[0].content).toBe('x'.repeat(4_000));
+  });
+
+  it('summarises older turns when eliding is not enough', async () => {
+    const summarise = jest.fn().mockResolvedValue('Read f0.ts through f5.ts.');
+    const manager = new ContextManager({ summarise, keepRecentMessages: 4 });
+    const messages = transcript(12, 200); // small outputs — nothing worth eliding
+
+    const result = await manager.fit(messages, estimateTokens(messages) / 2);
+
+    expect(result.report!.strategies).toEqual(['summarise']);
+    expect(summarise).toHaveBeenCalledTimes(1);
+    const head = result.messages[0].content as string;
+    expect(head).toContain('[CONTEXT SUMMARY');
+    expect(head).toContain('Read f0.ts through f5.ts.');
+    // The prompt was folded into the summary, so it is pinned
+    expect(head).toContain('[CURRENT REQUEST]\nrefactor the parser');
+    expectValidPairs(result.messages);
+  });
+
+  it('drops the oldest turns when there is no summariser', async () => {
+    const messages = transcript(12, 200);
+    const result = await new ContextManager({ keepRecentMessages: 4 }).fit(messages, 300);
+
+    expect(result.report!.strategies).toEqual(['drop']);
+    expect(result.report!.droppedMessages).toBeGreaterThan(0);
+    expect(result.messages[0].content).toMatch(/earlier message\(s\) were dropped/);
+    expectValidPairs(result.messages);
+  });
+
+  it('falls back to dropping when summarisation fails', async () => {
+    const summarise = jest.fn().mockRejectedValue(new Error('overloaded'));
+    const messages = transcript(12, 200);
+    const result = await new ContextManager({ summarise, keepRecentMessages: 4 }).fit(
+      messages,
+      estimateTokens(messages) / 2
+    );
+    expect(result.report!.strategies).toEqual(['drop']);
+    expectValidPairs(result.messages);
+  });
+});
+
+describe('Context windows', () => {
+  it('come from provider metadata with a default for unknown models', () => {
+    expect(contextWindowForModel('claude-sonnet-4-6')).toBe(200_000);
+    new ReplayProvider({ turns: [], contextWindow: 8_192 });
+    expect(contextWindowForModel(REPLAY_MODEL)).toBe(8_192);
+    expect(contextWindowForModel('mystery-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
+
+// ─── Agent ────────────────────────────────────────────────────────────────────
+
+describe('Agent context compaction', () => {
+  beforeEach(() => {
+    // Every read returns ~25k tokens of output
+    ToolExecutor.prototype.execute = jest.fn().mockResolvedValue({
+      toolCallId: 'x',
+      toolName: 'read_file',
+      result: { content: 'y'.repeat(100_000) },
+      success: true,
+      durationMs: 1,
+    });
+  });
+
+  it('compacts before the call that would overflow and emits context_compacted', async () => {
+    const reads = Array.from({ length: 6 }, (_, i) => ({
+      toolCalls: [{ id: `r${i}`, name: 'read_file', input: { path: `f${i}.ts` } }],
+    }));
+    const provider = new ReplayProvider({
+      turns: [...reads, { text: 'Done.' }],
+      contextWindow: 150_000,
+    });
+    const agent = new Agent(makeConfig({ maxToolOutputContext: 0 }), makeMemory(), provider);
+    const events: AgentEvent[] = [];
+
+    const result = await agent.run('read everything', undefined, (e) => events.push(e));
+
+    expect(result.success).toBe(true);
+    const compactions = events.filter((e) => e.type === 'context_compacted');
+    expect(compactions.length).toBeGreaterThan(0);
+    expect((compactions[0].data as any).strategies).toContain('elide_tool_results');
+    for (const request of provider.requests) {
+      expect(estimateTokens(request.messages)).toBeLessThan(150_000);
+    }
+  });
+});
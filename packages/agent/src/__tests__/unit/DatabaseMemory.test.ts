@@ -52,6 +52,19 @@ describe('DatabaseMemory - Unit Tests', () => {
       const session = memory.getSession('test-id');
       expect(session!.summary).toBe('Test summary');
     });
+
+    it('should nest sub-agent sessions under their parent and delete them with it', () => {
+      memory.createSession('parent', '/workspace');
+      memory.createSession('child-1', '/workspace/packages/a', { parentSessionId: 'parent' });
+      memory.createSession('child-2', '/workspace/packages/b', { parentSessionId: 'parent' });
+
+      expect(memory.getSession('parent')!.parentSessionId).toBeUndefined();
+      expect(memory.getSession('child-1')!.parentSessionId).toBe('parent');
+      expect(memory.listChildSessions('parent').map((s) => s.id)).toEqual(['child-1', 'child-2']);
+
+      memory.deleteSession('parent');
+      expect(memory.getSession('child-1')).toBeUndefined();
+    });
   });
 
   describe('Message Storage', () => {
@@ -196,4 +209,86 @@ describe('DatabaseMemory - Unit Tests', () => {
       expect(stats.shell_command.calls).toBe(1);
     });
   });
+
+  describe('Token Usage', () => {
+    const sessionId = 'usage-test-session';
+
+    beforeEach(() => {
+      memory.createSession(sessionId, '/workspace');
+    });
+
+    it('tracks cache reads and writes alongside uncached input', () => {
+      memory.recordTokenUsage(sessionId, 100, 50, 'claude-sonnet-4-6', {
+        readTokens: 1_000_000,
+        creationTokens: 2_000,
+      });
+      memory.recordTokenUsage(sessionId, 10, 5, 'claude-sonnet-4-6');
+
+      const usage = memory.getSessionTokenUsage(sessionId);
+      expect(usage).toMatchObject({
+        inputTokens: 110,
+        outputTokens: 55,
+        cacheReadTokens: 1_000_000,
+        cacheCreationTokens: 2_000,
+        // Cache reads re-send the same prefix every turn, so they are not counted
+        totalTokens: 110 + 2_000 + 55,
+      });
+      // 110 in × $3 + 55 out × $15 + 1M read × $0.30 + 2k write × $3.75 (per million)
+      expect(usage.estimatedCostUsd).toBeCloseTo(0.00033 + 0.000825 + 0.3 + 0.0075, 6);
+      expect(memory.getTotalTokenUsage().cacheReadTokens).toBe(1_000_000);
+    });
+  });
+
+  describe('Run Checkpoints', () => {
+    const sessionId = 'checkpoint-session';
+    const base = {
+      sessionId,
+      status: 'running' as const,
+      turn: 2,
+      userMessage: 'fix the build',
+      messages: [{ role: 'user', content: 'fix the build' }],
+      toolCallsCount: 3,
+      totalInputTokens: 1200,
+      totalOutputTokens: 300,
+      inCodingPhase: true,
+      budgetWarningFired: false,
+      planningModel: 'claude-opus-4-5',
+      codingModel: 'claude-sonnet-4-6',
+    };
+
+    beforeEach(() => {
+      memory.createSession(sessionId, '/workspace');
+    });
+
+    it('should round-trip a checkpoint and overwrite it on the next turn', () => {
+      memory.saveRunCheckpoint(base);
+      memory.saveRunCheckpoint({ ...base, turn: 3, toolCallsCount: 5 });
+
+      const checkpoint = memory.getRunCheckpoint(sessionId)!;
+      expect(checkpoint.turn).toBe(3);
+      expect(checkpoint.toolCallsCount).toBe(5);
+      expect(checkpoint.messages).toEqual(base.messages);
+      expect(checkpoint.inCodingPhase).toBe(true);
+      expect(checkpoint.codingModel).toBe('claude-sonnet-4-6');
+      expect(checkpoint.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should flag running checkpoints as interrupted', () => {
+      memory.createSession('done-session', '/workspace');
+      memory.saveRunCheckpoint(base);
+      memory.saveRunCheckpoint({ ...base, sessionId: 'done-session', status: 'completed' });
+
+      expect(memory.markRunsInterrupted()).toBe(1);
+      const statuses = memory.getRunStatuses([sessionId, 'done-session', 'no-run']);
+      expect(statuses.get(sessionId)).toBe('interrupted');
+      expect(statuses.get('done-session')).toBe('completed');
+      expect(statuses.has('no-run')).toBe(false);
+    });
+
+    it('should delete the checkpoint with its session', () => {
+      memory.saveRunCheckpoint(base);
+      memory.deleteSession(sessionId);
+      expect(memory.getRunCheckpoint(sessionId)).toBeUndefined();
+    });
+  });
 });
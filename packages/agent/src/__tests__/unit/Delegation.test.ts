@@ -0,0 +1,317 @@
+/**
+ * Tests for delegate_task sub-agents:
+ *   - a delegation runs as a child session scoped to a directory, with its own
+ *     tool allow-list, and its final report comes back as the tool_result
+ *   - child events reach the parent's handler tagged with the child session id
+ *   - children share the budget and the concurrent-session cap with the parent
+ *   - children run as the parent's user, so role-withheld tools stay withheld
+ *   - invalid scopes and tool lists, including tools the parent is denied, fail
+ *     without starting a child
+ *
+ * The model is a ReplayProvider; DatabaseMemory, ToolExecutor and GitTool are mocked.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../memory/DatabaseMemory');
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import { ToolExecutor } from '../../tools/ToolExecutor';
+
+const PARENT_ID = 'aaaaaaaa-0000-0000-0000-000000000000';
+
+let workspace: string;
+
+beforeAll(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-delegate-'));
+  await fs.ensureDir(path.join(workspace, 'packages', 'a'));
+  await fs.ensureDir(path.join(workspace, 'packages', 'b'));
+});
+
+afterAll(async () => {
+  await fs.remove(workspace);
+});
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+const EMPTY_USAGE = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+  totalTokens: 0,
+  estimatedCostUsd: 0,
+};
+
+function makeMemory(): jest.Mocked<DatabaseMemory> {
+  const m = new DatabaseMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+  m.getSession = jest.fn().mockReturnValue(null);
+  m.createSession = jest.fn();
+  m.addMessage = jest.fn();
+  m.getMessages = jest.fn().mockReturnValue([]);
+  m.getRecentMessages = jest.fn().mockReturnValue([]);
+  m.recordTokenUsage = jest.fn();
+  m.listKnowledge = jest.fn().mockReturnValue([]);
+  m.getSessionTokenUsage = jest.fn().mockReturnValue(EMPTY_USAGE);
+  m.updateSessionSummary = jest.fn();
+  m.saveRunCheckpoint = jest.fn();
+  m.getRunCheckpoint = jest.fn().mockReturnValue(undefined);
+  m.setRunStatus = jest.fn();
+  return m;
+}
+
+// The tool_result the parent received for its delegate_task call
+function delegateResult(provider: ReplayProvider, requestIndex: number) {
+  const last = provider.requests[requestIndex].messages.at(-1)!;
+  return (last.content as any[]).find((b) => b.type === 'tool_result');
+}
+
+describe('delegate_task', () => {
+  beforeEach(() => {
+    (ToolExecutor as jest.MockedClass<typeof ToolExecutor>).mockClear();
+    ToolExecutor.prototype.execute = jest.fn().mockResolvedValue({
+      toolCallId: 'x',
+      toolName: 'read_file',
+      result: { content: 'export const a = 1;' },
+      success: true,
+      durationMs: 1,
+    });
+  });
+
+  it('runs a scoped child session and returns its report', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          toolCalls: [
+            {
+              id: 'd1',
+              name: 'delegate_task',
+              input: { task: 'Rename a in a.ts', directory: 'packages/a', tools: ['read_file', 'apply_patch'] },
+            },
+          ],
+        },
+        { toolCalls: [{ id: 'c1', name: 'read_file', input: { path: 'a.ts' } }] },
+        { text: 'Renamed a to alpha in a.ts.' },
+        { text: 'The subtask is done.' },
+      ],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig(), memory, provider);
+    const events: AgentEvent[] = [];
+
+    const result = await agent.run('rename a', PARENT_ID, (e) => events.push(e));
+
+    expect(result.success).toBe(true);
+    expect(provider.remainingTurns).toBe(0);
+
+    // Child session is nested under the parent and rooted at the directory
+    const childCreate = memory.createSession.mock.calls.find((c) => c[2]?.parentSessionId === PARENT_ID)!;
+    expect(childCreate[1]).toBe(path.join(workspace, 'packages', 'a'));
+    const childId = childCreate[0];
+    const executorConfigs = (ToolExecutor as jest.MockedClass<typeof ToolExecutor>).mock.calls.map(
+      (c) => c[0].workspaceDir
+    );
+    expect(executorConfigs).toEqual([workspace, path.join(workspace, 'packages', 'a')]);
+
+    // Child sees only its allow-list and is told it works alone
+    const childRequest = provider.requests[1];
+    expect(childRequest.tools.map((t) => t.name)).toEqual(['read_file', 'apply_patch']);
+    expect(childRequest.system[1]).toContain('Delegated Subtask');
+    expect(provider.requests[0].tools.map((t) => t.name)).toContain('delegate_task');
+
+    // Report comes back to the parent as the tool_result
+    const toolResult = delegateResult(provider, 3);
+    expect(toolResult.tool_use_id).toBe('d1');
+    expect(toolResult.is_error).toBe(false);
+    expect(JSON.parse(toolResult.content)).toMatchObject({
+      childSessionId: childId,
+      report: 'Renamed a to alpha in a.ts.',
+      toolCallsCount: 1,
+    });
+
+    // Child events are relayed with the child id; parent events are not tagged
+    const childDeltas = events.filter((e) => e.type === 'stream_delta' && e.childSessionId === childId);
+    expect(childDeltas).toHaveLength(1);
+    const parentComplete = events.filter((e) => e.type === 'complete' && !e.childSessionId);
+    expect(parentComplete).toHaveLength(1);
+  });
+
+  it('refuses tools outside the allow-list inside the child', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'd1', name: 'delegate_task', input: { task: 'Ship it', tools: ['read_file'] } }] },
+        { toolCalls: [{ id: 'c1', name: 'git_push', input: {} }] },
+        { text: 'Could not push.' },
+        { text: 'Done.' },
+      ],
+    });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+
+    await agent.run('ship', PARENT_ID);
+
+    expect(ToolExecutor.prototype.execute).not.toHaveBeenCalled();
+    const childResult = (provider.requests[2].messages.at(-1)!.content as any[])[0];
+    expect(childResult).toMatchObject({ tool_use_id: 'c1', is_error: true });
+    expect(childResult.content).toContain('not available to this sub-agent');
+  });
+
+  it("runs the child as the parent's user, without admin-only tools for an operator", async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          toolCalls: [
+            { id: 'd1', name: 'delegate_task', input: { task: 'Apply it', tools: ['read_file', 'terraform_apply'] } },
+          ],
+        },
+        { toolCalls: [{ id: 'd2', name: 'delegate_task', input: { task: 'Apply it', tools: ['read_file'] } }] },
+        { toolCalls: [{ id: 'c1', name: 'terraform_apply', input: {} }] },
+        { text: 'Could not apply.' },
+        { text: 'Done.' },
+      ],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    await agent.run('apply', PARENT_ID, undefined, { user: { id: 'u-op', role: 'operator' } });
+
+    // A tool the parent is denied cannot be handed to a child
+    const refused = delegateResult(provider, 1);
+    expect(refused).toMatchObject({ tool_use_id: 'd1', is_error: true });
+    expect(refused.content).toContain('not available to sub-agents: terraform_apply');
+
+    const childCreates = memory.createSession.mock.calls.filter((c) => c[2]?.parentSessionId === PARENT_ID);
+    expect(childCreates).toHaveLength(1);
+    expect(childCreates[0][2]).toMatchObject({ userId: 'u-op' });
+    expect(provider.requests[2].tools.map((t) => t.name)).toEqual(['read_file']);
+    expect(ToolExecutor.prototype.execute).not.toHaveBeenCalled();
+    const childResult = (provider.requests[3].messages.at(-1)!.content as any[])[0];
+    expect(childResult).toMatchObject({ tool_use_id: 'c1', is_error: true });
+  });
+
+  it.each([
+    [{ task: 'x', directory: '../outside' }, 'outside the workspace'],
+    [{ task: 'x', directory: 'packages/missing' }, 'does not exist'],
+    [{ task: 'x', tools: ['delegate_task'] }, 'not available to sub-agents'],
+    [{ task: 'x', tools: ['no_such_tool'] }, 'not available to sub-agents'],
+    [{ directory: 'packages/a' }, 'Invalid delegate_task input'],
+  ])('fails without starting a child for %j', async (input, message) => {
+    const provider = new ReplayProvider({
+      turns: [{ toolCalls: [{ id: 'd1', name: 'delegate_task', input }] }, { text: 'Understood.' }],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    await agent.run('delegate', PARENT_ID);
+
+    expect(memory.createSession).toHaveBeenCalledTimes(1); // the parent only
+    const toolResult = delegateResult(provider, 1);
+    expect(toolResult.is_error).toBe(true);
+    expect(toolResult.content).toContain(message);
+  });
+
+  it('splits the remaining budget between parallel children and counts their usage', async () => {
+    const childUsage = { ...EMPTY_USAGE, inputTokens: 300, outputTokens: 100, totalTokens: 400 };
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          toolCalls: [
+            { id: 'd1', name: 'delegate_task', input: { task: 'API', directory: 'packages/a', tokenBudget: 1_000_000 } },
+            { id: 'd2', name: 'delegate_task', input: { task: 'Client', directory: 'packages/b' } },
+          ],
+          usage: { inputTokens: 800, outputTokens: 200 },
+        },
+        { text: 'Child done.', usage: { inputTokens: 300, outputTokens: 100 } },
+        { text: 'Child done.', usage: { inputTokens: 300, outputTokens: 100 } },
+        { text: 'Both done.', usage: { inputTokens: 50, outputTokens: 50 } },
+      ],
+    });
+    const memory = makeMemory();
+    memory.getSessionTokenUsage.mockImplementation((sid: string) =>
+      sid === PARENT_ID ? EMPTY_USAGE : childUsage
+    );
+    const agent = new Agent(makeConfig({ tokenBudget: 10_000 }), memory, provider);
+    const events: AgentEvent[] = [];
+
+    await agent.run('update both packages', PARENT_ID, (e) => events.push(e));
+
+    // (10,000 − 1,000 used) / 2 children = 4,500 each; the larger request is capped
+    const childTurns = events.filter((e) => e.type === 'turn_complete' && e.childSessionId);
+    expect(childTurns).toHaveLength(2);
+    for (const turn of childTurns) {
+      expect((turn.data as any).budgetRemaining).toBe(4_500 - 400);
+    }
+    // Parent total = its own 1,100 + 2 × 400 from the children
+    const parentTurns = events.filter((e) => e.type === 'turn_complete' && !e.childSessionId);
+    expect((parentTurns.at(-1)!.data as any).totalTokens).toBe(1_000 + 800 + 100);
+  });
+
+  it('counts children against the concurrent session limit', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'd1', name: 'delegate_task', input: { task: 'x' } }] },
+        { text: 'Doing it myself.' },
+      ],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig({ maxConcurrentSessions: 1 }), memory, provider);
+
+    await agent.run('delegate', PARENT_ID);
+
+    const toolResult = delegateResult(provider, 1);
+    expect(toolResult.is_error).toBe(true);
+    expect(toolResult.content).toContain('Too many concurrent sessions');
+    expect(agent.activeSessionCount).toBeLessThanOrEqual(1);
+  });
+
+  it('will not resume a child session on its own', async () => {
+    const memory = makeMemory();
+    memory.getRunCheckpoint.mockReturnValue({ status: 'interrupted' } as any);
+    memory.getSession.mockReturnValue({ id: 'child', parentSessionId: PARENT_ID } as any);
+    const agent = new Agent(makeConfig(), memory, new ReplayProvider({ turns: [] }));
+
+    await expect(agent.resume('child')).rejects.toThrow(`resume its parent session ${PARENT_ID}`);
+  });
+});
@@ -523,7 +523,7 @@ describe('Deployment Error Handling', () => {
 describe('Deployment Integration', () => {
   describe('Tool Definition Completeness', () => {
     it('should have all deployment tools defined', async () => {
-      const { TOOL_DEFINITIONS } = await import('../../tools/ToolExecutor');
+      const { toolRegistry } = await import('../../tools/builtins');
 
       const deploymentTools = [
         'deploy_netlify',
@@ -537,9 +537,7 @@ describe('Deployment Integration', () => {
         'generate_infrastructure',
       ];
 
-      const definedTools = TOOL_DEFINITIONS.map(
-        (t: { name: string }) => t.name
-      );
+      const definedTools = toolRegistry.names();
 
       for (const tool of deploymentTools) {
         expect(definedTools).toContain(tool);
@@ -563,7 +561,8 @@ describe('Deployment Integration', () => {
   });
 
   describe('Progress Tracking', () => {
-    it('should have progress messages for deployment tools', () => {
+    it('should report progress for deployment tools', async () => {
+      const { toolRegistry } = await import('../../tools/builtins');
       const deploymentTools = [
         'deploy_vercel',
         'deploy_aws_s3',
@@ -574,9 +573,9 @@ describe('Deployment Integration', () => {
         'generate_infrastructure',
       ];
 
-      // Verify these are in LONG_RUNNING_TOOLS
-      // (would need to export and check)
-      expect(deploymentTools.length).toBeGreaterThan(0);
+      for (const tool of deploymentTools) {
+        expect(toolRegistry.isLongRunning(tool)).toBe(true);
+      }
     });
   });
 });
@@ -0,0 +1,231 @@
+/**
+ * Tests for dry runs (RunOptions.dryRun):
+ *   - file tools edit an in-memory overlay that reads, listings and searches
+ *     see, while the workspace on disk stays untouched
+ *   - the overlay becomes one unified diff, and applying it refuses files that
+ *     changed on disk since the dry run read them
+ *   - other tools with side effects are recorded instead of run
+ *   - an agent run reports the diff and the side effects, and applyDryRun
+ *     writes the files and runs the picked side effects
+ *
+ * The workspace is a temp directory; GitTool is mocked.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { DryRunOverlay, matchesGlob } from '../../tools/DryRunOverlay';
+import { FileTool } from '../../tools/FileTool';
+import { ToolExecutor } from '../../tools/ToolExecutor';
+import { GitTool } from '../../tools/GitTool';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../tools/GitTool');
+
+const SESSION_ID = 'dddddddd-0000-0000-0000-000000000000';
+
+let workspace: string;
+
+beforeEach(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-dry-run-'));
+  await fs.outputFile(path.join(workspace, 'src/a.ts'), 'export const a = 1;\n');
+  await fs.outputFile(path.join(workspace, 'src/old.ts'), 'export const old = true;\n');
+});
+
+afterEach(async () => {
+  await fs.remove(workspace);
+});
+
+function makeConfig(): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: true,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+  };
+}
+
+describe('matchesGlob', () => {
+  it.each([
+    ['src/a.ts', '**/*.ts', true],
+    ['a.ts', '**/*.ts', true],
+    ['src/a.ts', '*.ts', false],
+    ['src/a.tsx', '**/*.{ts,tsx}', true],
+    ['node_modules/x/index.js', 'node_modules/**', true],
+    ['src/a.ts', 'src/?.ts', true],
+  ])('%s against %s is %s', (file, pattern, expected) => {
+    expect(matchesGlob(file, pattern)).toBe(expected);
+  });
+});
+
+describe('FileTool in a dry run', () => {
+  it('edits the overlay, which reads, listings and searches see, and leaves disk alone', async () => {
+    const overlay = new DryRunOverlay(workspace);
+    const files = new FileTool(workspace, overlay);
+
+    await files.writeFile({ path: 'src/new.ts', content: 'export const fresh = 2;\n', createDirs: true });
+    await files.applyPatch({
+      path: 'src/a.ts',
+      patch: '--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-export const a = 1;\n+export const a = 42;\n',
+    });
+    await files.deleteFile({ path: 'src/old.ts' });
+
+    expect((await files.readFile({ path: 'src/a.ts', encoding: 'utf8' })).content).toBe('export const a = 42;\n');
+    await expect(files.readFile({ path: 'src/old.ts', encoding: 'utf8' })).rejects.toThrow('File not found');
+    expect((await files.listFiles({ directory: 'src', pattern: '**/*', ignore: [], maxDepth: 5 })).sort()).toEqual([
+      'a.ts',
+      'new.ts',
+    ]);
+    const search = await files.searchInFiles({ directory: '.', pattern: 'export const', fileGlob: '**/*.ts' });
+    expect(search.matches.map((m) => m.content).sort()).toEqual([
+      'export const a = 42;',
+      'export const fresh = 2;',
+    ]);
+
+    // Nothing reached disk
+    expect(await fs.readFile(path.join(workspace, 'src/a.ts'), 'utf8')).toBe('export const a = 1;\n');
+    expect(await fs.pathExists(path.join(workspace, 'src/old.ts'))).toBe(true);
+    expect(await fs.pathExists(path.join(workspace, 'src/new.ts'))).toBe(false);
+
+    const report = overlay.report();
+    expect(report.files.map((f) => [f.path, f.operation])).toEqual([
+      ['src/a.ts', 'modify'],
+      ['src/new.ts', 'create'],
+      ['src/old.ts', 'delete'],
+    ]);
+    expect(report.diff).toContain('+++ b/src/a.ts');
+    expect(report.diff).toContain('+export const a = 42;');
+    expect(report.diff).toContain('--- /dev/null');
+  });
+
+  it('applies the changes to disk, unless a file changed since the dry run read it', async () => {
+    const overlay = new DryRunOverlay(workspace);
+    const files = new FileTool(workspace, overlay);
+    await files.writeFile({ path: 'src/a.ts', content: 'export const a = 2;\n', createDirs: true });
+
+    await fs.writeFile(path.join(workspace, 'src/a.ts'), 'edited meanwhile\n');
+    await expect(overlay.apply()).rejects.toThrow('src/a.ts');
+    expect(await fs.readFile(path.join(workspace, 'src/a.ts'), 'utf8')).toBe('edited meanwhile\n');
+
+    await fs.writeFile(path.join(workspace, 'src/a.ts'), 'export const a = 1;\n');
+    await files.deleteFile({ path: 'src/old.ts' });
+    await overlay.apply();
+    expect(await fs.readFile(path.join(workspace, 'src/a.ts'), 'utf8')).toBe('export const a = 2;\n');
+    expect(await fs.pathExists(path.join(workspace, 'src/old.ts'))).toBe(false);
+  });
+});
+
+describe('ToolExecutor in a dry run', () => {
+  let memory: DatabaseMemory;
+
+  beforeEach(async () => {
+    memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    memory.createSession(SESSION_ID, workspace);
+    (GitTool.prototype.push as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    memory.close();
+  });
+
+  it('records side effects instead of running them, and still runs read-only tools', async () => {
+    const overlay = new DryRunOverlay(workspace);
+    const executor = new ToolExecutor(makeConfig(), memory, SESSION_ID, undefined, overlay);
+
+    const push = await executor.execute({ name: 'git_push', input: { branch: 'main' } }, 1);
+    expect(push.success).toBe(true);
+    expect(push.result).toMatchObject({ status: 'dry_run', sideEffectId: overlay.sideEffects[0].id });
+    expect(GitTool.prototype.push).not.toHaveBeenCalled();
+    expect(overlay.sideEffects).toEqual([
+      expect.objectContaining({
+        tool: 'git_push',
+        input: { branch: 'main', remote: 'origin', force: false, setUpstream: false },
+      }),
+    ]);
+
+    const read = await executor.execute({ name: 'read_file', input: { path: 'src/a.ts' } }, 1);
+    expect(read.result).toMatchObject({ content: 'export const a = 1;\n' });
+    expect(overlay.sideEffects).toHaveLength(1);
+  });
+});
+
+describe('dry runs in the agent loop', () => {
+  it('reports the diff and side effects, and applies them on request', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          toolCalls: [
+            { id: 'w1', name: 'write_file', input: { path: 'src/a.ts', content: 'export const a = 3;\n' } },
+            { id: 'c1', name: 'git_checkpoint', input: { message: 'Bump a' } },
+            { id: 'p1', name: 'git_push', input: {} },
+          ],
+        },
+        { text: 'Bumped a.' },
+      ],
+    });
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    const agent = new Agent(makeConfig(), memory, provider);
+    const events: AgentEvent[] = [];
+
+    const result = await agent.run('bump a', SESSION_ID, (e) => events.push(e), { dryRun: true });
+
+    // No approval was asked for, no CI gate ran and the repo was not touched
+    expect(events.some((e) => e.type === 'patch_approval_required')).toBe(false);
+    expect(events.some((e) => (e.data as any)?.toolName === 'run_ci')).toBe(false);
+    expect(GitTool.prototype.ensureRepo).not.toHaveBeenCalled();
+    expect(provider.requests[0].system).toEqual(expect.arrayContaining([expect.stringContaining('## Dry Run')]));
+    expect(await fs.readFile(path.join(workspace, 'src/a.ts'), 'utf8')).toBe('export const a = 1;\n');
+
+    expect(result.dryRun!.files.map((f) => f.path)).toEqual(['src/a.ts']);
+    expect(result.dryRun!.sideEffects.map((s) => s.tool)).toEqual(['git_checkpoint', 'git_push']);
+    expect(events.find((e) => e.type === 'complete')!.data).toMatchObject({ dryRun: result.dryRun });
+    expect(memory.getRunCheckpoint(SESSION_ID)!.dryRun).toBe(true);
+    await expect(agent.resume(SESSION_ID)).rejects.toThrow('completed');
+
+    (GitTool.prototype.checkpoint as jest.Mock).mockResolvedValue({ hash: 'abc123' });
+    const checkpointId = result.dryRun!.sideEffects[0].id;
+    const applied = await agent.applyDryRun(SESSION_ID, [checkpointId]);
+
+    expect(await fs.readFile(path.join(workspace, 'src/a.ts'), 'utf8')).toBe('export const a = 3;\n');
+    expect(applied.sideEffects.map((s) => [s.toolName, s.success])).toEqual([['git_checkpoint', true]]);
+    expect(GitTool.prototype.checkpoint).toHaveBeenCalledWith({ message: 'Bump a' });
+    expect(GitTool.prototype.push).not.toHaveBeenCalled();
+    // Applied once; the overlay is gone afterwards
+    expect(agent.getDryRun(SESSION_ID)).toBeUndefined();
+    await expect(agent.applyDryRun(SESSION_ID)).rejects.toThrow('no dry run');
+    memory.close();
+  });
+});
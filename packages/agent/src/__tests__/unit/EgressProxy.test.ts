@@ -0,0 +1,140 @@
+/**
+ * Tests for the sandbox egress proxy:
+ *   - allowlist matching by exact host and "*." subdomain patterns
+ *   - CONNECT tunnels to allowed hosts, 403 for everything else
+ *   - plain HTTP is forwarded to allowed hosts without the proxy credentials
+ *   - every host asked for is audited with the session from the proxy URL
+ *     and the user who owns it
+ *
+ * The "registry" is a local server on 127.0.0.1; nothing leaves the machine.
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+
+jest.mock('../../logger/audit', () => ({ audit: { sandboxEgress: jest.fn() } }));
+
+import { audit } from '../../logger/audit';
+import { EgressProxy, isHostAllowed } from '../../sandbox/EgressProxy';
+
+const sandboxEgress = audit.sandboxEgress as jest.Mock;
+
+let registry: http.Server;
+let registryPort: number;
+let proxy: EgressProxy;
+let proxyPort: number;
+let seenHeaders: http.IncomingHttpHeaders;
+
+beforeEach(async () => {
+  sandboxEgress.mockClear();
+  registry = http.createServer((req, res) => {
+    seenHeaders = req.headers;
+    res.end(`registry saw ${req.url}`);
+  });
+  await new Promise<void>((resolve) => registry.listen(0, '127.0.0.1', resolve));
+  registryPort = (registry.address() as net.AddressInfo).port;
+
+  proxy = new EgressProxy({
+    allowlist: ['127.0.0.1'],
+    ports: [registryPort],
+    sessionOwner: (sessionId) => (sessionId === 'session-1' ? 'u-ana' : undefined),
+  });
+  proxyPort = await proxy.listen(0, '127.0.0.1');
+});
+
+afterEach(async () => {
+  await proxy.close();
+  registry.closeAllConnections();
+  await new Promise((resolve) => registry.close(resolve));
+});
+
+const proxyAuth = `Basic ${Buffer.from('session-1:').toString('base64')}`;
+
+// Sends a CONNECT and resolves with the proxy's status line and the open socket
+function connect(authority: string): Promise<{ status: string; socket: net.Socket }> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(proxyPort, '127.0.0.1', () => {
+      socket.write(`CONNECT ${authority} HTTP/1.1\r\nHost: ${authority}\r\nProxy-Authorization: ${proxyAuth}\r\n\r\n`);
+    });
+    socket.once('data', (data) => resolve({ status: data.toString().split('\r\n')[0], socket }));
+    socket.once('error', reject);
+  });
+}
+
+function proxiedGet(url: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: '127.0.0.1', port: proxyPort, path: url, headers: { 'Proxy-Authorization': proxyAuth } },
+      (res) => {
+        let body = '';
+        res.on('data', (d) => (body += d));
+        res.on('end', () => resolve({ status: res.statusCode!, body }));
+      }
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+describe('isHostAllowed', () => {
+  it('matches exact hosts and subdomain patterns, case-insensitively', () => {
+    const allowlist = ['registry.npmjs.org', '*.pkg.github.com'];
+    expect(isHostAllowed('registry.npmjs.org', allowlist)).toBe(true);
+    expect(isHostAllowed('Registry.NPMJS.org.', allowlist)).toBe(true);
+    expect(isHostAllowed('npm.pkg.github.com', allowlist)).toBe(true);
+    expect(isHostAllowed('pkg.github.com', allowlist)).toBe(false);
+    expect(isHostAllowed('registry.npmjs.org.evil.com', allowlist)).toBe(false);
+    expect(isHostAllowed('evilregistry.npmjs.org', allowlist)).toBe(false);
+  });
+});
+
+describe('EgressProxy', () => {
+  it('tunnels CONNECT to an allowed host and audits it', async () => {
+    const { status, socket } = await connect(`127.0.0.1:${registryPort}`);
+    expect(status).toBe('HTTP/1.1 200 Connection Established');
+
+    const response = await new Promise<string>((resolve) => {
+      let data = '';
+      socket.on('data', (d) => (data += d));
+      socket.on('end', () => resolve(data));
+      socket.write('GET /left-pad HTTP/1.1\r\nHost: registry\r\nConnection: close\r\n\r\n');
+    });
+    expect(response).toContain('registry saw /left-pad');
+    expect(sandboxEgress).toHaveBeenCalledWith(
+      'session-1',
+      { method: 'CONNECT', host: '127.0.0.1', port: registryPort },
+      true,
+      'u-ana'
+    );
+  });
+
+  it('refuses hosts and ports off the allowlist, and audits the attempt', async () => {
+    const host = await connect('example.com:443');
+    expect(host.status).toBe('HTTP/1.1 403 Forbidden');
+    host.socket.destroy();
+
+    const port = await connect('127.0.0.1:22');
+    expect(port.status).toBe('HTTP/1.1 403 Forbidden');
+    port.socket.destroy();
+
+    expect(sandboxEgress.mock.calls).toEqual([
+      ['session-1', { method: 'CONNECT', host: 'example.com', port: 443 }, false, 'u-ana'],
+      ['session-1', { method: 'CONNECT', host: '127.0.0.1', port: 22 }, false, 'u-ana'],
+    ]);
+  });
+
+  it('forwards plain HTTP to allowed hosts without the proxy credentials', async () => {
+    const allowed = await proxiedGet(`http://127.0.0.1:${registryPort}/react?v=18`);
+    expect(allowed).toEqual({ status: 200, body: 'registry saw /react?v=18' });
+    expect(seenHeaders['proxy-authorization']).toBeUndefined();
+
+    const denied = await proxiedGet('http://example.com/');
+    expect(denied.status).toBe(403);
+    expect(sandboxEgress).toHaveBeenLastCalledWith(
+      'session-1',
+      { method: 'GET', host: 'example.com', port: 80 },
+      false,
+      'u-ana'
+    );
+  });
+});
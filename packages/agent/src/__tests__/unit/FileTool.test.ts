@@ -88,6 +88,26 @@ describe('FileTool - Unit Tests', () => {
         etcTool.readFile({ path: 'passwd', encoding: 'utf8' })
       ).rejects.toThrow('Access denied');
     });
+
+    it('should let the agent read workspace policy but never change it', async () => {
+      await fs.outputFile(path.join(workspace, '.agent', 'permissions.json'), '{"default":"ask"}');
+      await fs.outputFile(path.join(workspace, 'api', '.agent', 'commands.yml'), 'allow: [make]\n');
+
+      await expect(
+        fileTool.readFile({ path: '.agent/permissions.json', encoding: 'utf8' })
+      ).resolves.toMatchObject({ content: '{"default":"ask"}' });
+      await expect(
+        fileTool.writeFile({ path: '.agent/permissions.json', content: '{"default":"allow"}', createDirs: true })
+      ).rejects.toMatchObject({ code: 'PROTECTED_PATH' });
+      await expect(
+        fileTool.writeFile({ path: '.Agent/mcp.json', content: '{}', createDirs: true })
+      ).rejects.toMatchObject({ code: 'PROTECTED_PATH' });
+      await expect(fileTool.deleteFile({ path: 'api/.agent/commands.yml' })).rejects.toMatchObject({
+        code: 'PROTECTED_PATH',
+      });
+      expect(await fs.readFile(path.join(workspace, '.agent', 'permissions.json'), 'utf8')).toBe('{"default":"ask"}');
+      expect(await fs.pathExists(path.join(workspace, 'api', '.agent', 'commands.yml'))).toBe(true);
+    });
   });
 
   // ── Normal Operations ────────────────────────────────────────────────────
@@ -532,4 +552,43 @@ describe('FileTool - Additional Unit Tests', () => {
       expect(results.matches).toHaveLength(0);
     });
   });
+
+  // ── Change preview (patch approval) ──────────────────────────────────────
+
+  describe('previewChange', () => {
+    it('classifies a new file as create and does not write it', async () => {
+      const preview = await fileTool.previewChange('write_file', {
+        path: 'new.ts',
+        content: 'export {};\n',
+        createDirs: true,
+      });
+      expect(preview.operation).toBe('create');
+      expect(preview.diff).toContain('+export {};');
+      expect(await fs.pathExists(path.join(workspace, 'new.ts'))).toBe(false);
+    });
+
+    it('diffs successive edits to the same file against each other', async () => {
+      await fs.writeFile(path.join(workspace, 'a.txt'), 'one\n', 'utf8');
+      const overlay = new Map<string, string | null>();
+      await fileTool.previewChange(
+        'write_file',
+        { path: 'a.txt', content: 'two\n', createDirs: true },
+        overlay
+      );
+      const second = await fileTool.previewChange('delete_file', { path: 'a.txt' }, overlay);
+      expect(second.operation).toBe('delete');
+      expect(second.diff).toContain('-two');
+      expect(second.diff).not.toContain('-one');
+    });
+
+    it('throws when a patch does not apply', async () => {
+      await fs.writeFile(path.join(workspace, 'b.txt'), 'hello\n', 'utf8');
+      await expect(
+        fileTool.previewChange('apply_patch', {
+          path: 'b.txt',
+          patch: '--- b.txt\n+++ b.txt\n@@ -1 +1 @@\n-nope\n+yes\n',
+        })
+      ).rejects.toThrow('Failed to apply patch');
+    });
+  });
 });
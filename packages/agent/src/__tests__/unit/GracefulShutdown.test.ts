@@ -1,6 +1,7 @@
 /**
  * Tests for graceful shutdown behaviour:
  *   - server.stop() resolves cleanly (or rejects with expected error)
+ *   - a forced shutdown survives a closed database
  *   - memory.close() is called during shutdown
  *   - activeSessions reaches 0 after cancel
  */
@@ -84,6 +85,28 @@ describe('AgentServer.stop()', () => {
       expect((error as Error).message).toMatch(/not running/i);
     }
   });
+
+  it('forces shutdown after the timeout even when the database is already closed', async () => {
+    const config = { ...makeConfig(), shutdownTimeout: 50 };
+    const memory = new MockMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+    memory.markRunsInterrupted.mockImplementation(() => {
+      throw new TypeError('The database connection is not open');
+    });
+    const agent = new MockAgent(config, memory);
+    let activeSessions = 1;
+    Object.defineProperty(agent, 'activeSessionCount', { get: () => activeSessions });
+    const server = new AgentServer(agent, memory, config, config.port);
+    const io = (server as unknown as { io: { close: () => void } }).io;
+    const closeIo = jest.spyOn(io, 'close');
+
+    await expect(server.stop()).resolves.toBeUndefined();
+    expect(memory.markRunsInterrupted).toHaveBeenCalled();
+
+    // The completion poll is gone too: it does not close the server a second time
+    activeSessions = 0;
+    await new Promise((r) => setTimeout(r, 250));
+    expect(closeIo).toHaveBeenCalledTimes(1);
+  });
 });
 
 describe('Agent.cancel()', () => {
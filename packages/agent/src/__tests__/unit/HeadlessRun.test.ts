@@ -0,0 +1,188 @@
+/**
+ * Tests for `klaus run`:
+ *   - the final AgentRunResult, or every event as NDJSON, is all that is written
+ *   - the outcome — success, budget_exceeded, tool_limit_exceeded, cancelled or
+ *     error — picks the exit code
+ *   - the prompt comes from a file, or from stdin
+ *   - patches that need approval are rejected rather than left waiting
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { PassThrough } from 'stream';
+import { readPrompt, runHeadless, RUN_EXIT_CODES, type HeadlessRunOptions } from '../../cli/run';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { Agent } from '../../agent/Agent';
+import { ReplayProvider, REPLAY_MODEL, type ReplayTurn } from '../../providers';
+import type { Config } from '../../config';
+
+let workspace: string;
+let memory: DatabaseMemory;
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-run-')));
+  await fs.writeFile(path.join(workspace, 'a.txt'), 'one\n');
+  memory = new DatabaseMemory(':memory:');
+  await memory.initialize();
+});
+
+afterEach(async () => {
+  memory.close();
+  await fs.remove(workspace);
+});
+
+const READ_A = { toolCalls: [{ name: 'read_file', input: { path: 'a.txt' } }] };
+
+// Runs the prompt and returns its outcome and the JSON lines it wrote
+async function run(
+  turns: ReplayTurn[],
+  config: Partial<Config> = {},
+  options: Partial<HeadlessRunOptions> = {}
+) {
+  const agent = new Agent(makeConfig(config), memory, new ReplayProvider({ turns }));
+  const output = new PassThrough();
+  let written = '';
+  output.on('data', (chunk) => (written += chunk.toString()));
+  const outcome = await runHeadless({ agent, prompt: 'read a.txt', output, ...options });
+  const lines = written.trim().split('\n').map((line) => JSON.parse(line));
+  return { outcome, lines };
+}
+
+describe('runHeadless', () => {
+  it('writes the run result as one JSON object', async () => {
+    const { outcome, lines } = await run([READ_A, { text: 'It says one.' }]);
+
+    expect(outcome).toBe('success');
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({
+      outcome: 'success',
+      exitCode: 0,
+      toolCallsCount: 1,
+      finalMessage: 'It says one.',
+      model: REPLAY_MODEL,
+    });
+    expect(memory.getSession(lines[0].sessionId)).toBeDefined();
+  });
+
+  it('writes every event as a line of NDJSON with --events', async () => {
+    const { outcome, lines } = await run([READ_A, { text: 'It says one.' }], {}, { events: true });
+
+    expect(outcome).toBe('success');
+    const types = lines.map((event) => event.type);
+    expect(types).toEqual(expect.arrayContaining(['message', 'tool_call', 'tool_result', 'stream_delta']));
+    expect(types.at(-1)).toBe('complete');
+  });
+
+  it('ends with budget_exceeded when the token budget runs out', async () => {
+    const usage = { inputTokens: 600, outputTokens: 100 };
+    const { outcome, lines } = await run([{ ...READ_A, usage }, { ...READ_A, usage }, { text: 'Done.' }], {
+      tokenBudget: 1_000,
+    });
+
+    expect(outcome).toBe('budget_exceeded');
+    expect(lines[0]).toMatchObject({ outcome: 'budget_exceeded', exitCode: RUN_EXIT_CODES.budget_exceeded });
+  });
+
+  it('ends with tool_limit_exceeded when the tool call limit is hit', async () => {
+    const { outcome } = await run([READ_A, READ_A, { text: 'Done.' }], { maxToolCalls: 1 });
+    expect(outcome).toBe('tool_limit_exceeded');
+  });
+
+  it('rejects patches that need approval instead of waiting for a reviewer', async () => {
+    const write = { toolCalls: [{ name: 'write_file', input: { path: 'b.txt', content: 'two\n' } }] };
+    const { outcome, lines } = await run(
+      [write, { text: 'Could not write it.' }],
+      { requirePatchApproval: true, patchApprovalTimeout: 60_000 },
+      { events: true }
+    );
+
+    expect(outcome).toBe('success');
+    expect(lines.find((event) => event.type === 'patch_approval_resolved')?.data).toMatchObject({ approved: false });
+    expect(lines.find((event) => event.type === 'tool_result')?.data).toMatchObject({ toolName: 'write_file', success: false });
+    expect(await fs.pathExists(path.join(workspace, 'b.txt'))).toBe(false);
+  });
+
+  it('ends with cancelled when the signal aborts', async () => {
+    const abort = new AbortController();
+    abort.abort();
+
+    const { outcome, lines } = await run([READ_A, { text: 'Done.' }], {}, { signal: abort.signal });
+
+    expect(outcome).toBe('cancelled');
+    expect(lines[0]).toMatchObject({ outcome: 'cancelled', exitCode: RUN_EXIT_CODES.cancelled, toolCallsCount: 0 });
+  });
+
+  it('reports errors as JSON: an unknown model, an empty prompt, a run that throws', async () => {
+    const unknownModel = await run([], {}, { model: 'no-such-model' });
+    expect(unknownModel.outcome).toBe('error');
+    expect(unknownModel.lines[0]).toMatchObject({ outcome: 'error', exitCode: 1 });
+    expect(unknownModel.lines[0].error).toContain('Unknown model "no-such-model"');
+
+    const empty = await run([], {}, { prompt: '  \n' });
+    expect(empty.lines[0].error).toBe('The prompt is empty');
+
+    const thrown = await run([], { maxConcurrentSessions: 0 }, { events: true });
+    expect(thrown.outcome).toBe('error');
+    expect(thrown.lines[0]).toMatchObject({ type: 'error', data: { error: expect.stringContaining('Too many') } });
+  });
+
+  it('uses a distinct exit code per outcome', () => {
+    expect(new Set(Object.values(RUN_EXIT_CODES)).size).toBe(5);
+    expect(RUN_EXIT_CODES.success).toBe(0);
+  });
+});
+
+describe('readPrompt', () => {
+  it('reads the prompt from a file', async () => {
+    const file = path.join(workspace, 'prompt.md');
+    await fs.writeFile(file, 'fix the tests\n');
+    expect(await readPrompt(file)).toBe('fix the tests\n');
+  });
+
+  it('reads the prompt from stdin when no file, or "-", is given', async () => {
+    for (const file of [undefined, '-']) {
+      const stdin = new PassThrough();
+      stdin.end('from a pipe');
+      expect(await readPrompt(file, stdin)).toBe('from a pipe');
+    }
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for conversation history replay:
+ *   - assistant tool_use blocks and their tool_result rows replay as a paired transcript
+ *   - old tool outputs beyond the budget are elided to stubs
+ *   - missing results are stubbed and orphaned results dropped so the transcript stays valid
+ *   - a follow-up prompt in the same session sees the previous turn's tool calls
+ */
+
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs-extra';
+import { Agent } from '../../agent/Agent';
+import { appendHistory } from '../../agent/history';
+import { DatabaseMemory, MemoryEntry } from '../../memory/DatabaseMemory';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import { ToolExecutor } from '../../tools/ToolExecutor';
+
+let seq = 0;
+function row(role: MemoryEntry['role'], content: string, metadata: Record<string, unknown> = {}, toolName?: string): MemoryEntry {
+  return { id: `m${++seq}`, sessionId: 's', role, content, toolName, metadata, createdAt: new Date() };
+}
+
+function toolTurn(id: string, name: string, input: unknown, text = '') {
+  return row('assistant', text, {
+    blocks: [...(text ? [{ type: 'text', text }] : []), { type: 'tool_use', id, name, input }],
+  });
+}
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: '/tmp/test-workspace',
+    hostWorkspaceDir: '/tmp/test-workspace',
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 2,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+// ─── appendHistory ────────────────────────────────────────────────────────────
+
+describe('appendHistory', () => {
+  it('replays tool_use blocks with their paired tool_result rows', () => {
+    const messages = appendHistory([], [
+      row('user', 'read a.ts'),
+      toolTurn('t1', 'read_file', { path: 'a.ts' }, 'Reading.'),
+      row('tool', '{"content":"hello"}', { toolUseId: 't1', isError: false }, 'read_file'),
+      row('assistant', 'It says hello.', { blocks: [{ type: 'text', text: 'It says hello.' }] }),
+      row('user', 'now update the tests you touched'),
+    ]);
+
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+    expect(messages[1].content).toEqual([
+      { type: 'text', text: 'Reading.' },
+      { type: 'tool_use', id: 't1', name: 'read_file', input: { path: 'a.ts' } },
+    ]);
+    expect(messages[2].content).toEqual([
+      { type: 'tool_result', tool_use_id: 't1', content: '{"content":"hello"}' },
+    ]);
+  });
+
+  it('elides the oldest tool outputs once the budget is spent', () => {
+    const messages = appendHistory(
+      [],
+      [
+        row('user', 'go'),
+        toolTurn('t1', 'read_file', { path: 'old.ts' }),
+        row('tool', 'x'.repeat(50), { toolUseId: 't1' }, 'read_file'),
+        toolTurn('t2', 'read_file', { path: 'new.ts' }),
+        row('tool', 'y'.repeat(50), { toolUseId: 't2' }, 'read_file'),
+      ],
+      { toolOutputBudget: 60 }
+    );
+
+    const [oldResult] = messages[2].content as any[];
+    const [newResult] = messages[4].content as any[];
+    expect(oldResult.content).toMatch(/^\[Earlier read_file output elided \(50 chars\)/);
+    expect(newResult.content).toBe('y'.repeat(50));
+  });
+
+  it('stubs unrecorded results and drops orphaned ones', () => {
+    const messages = appendHistory([], [
+      row('tool', 'orphan', { toolUseId: 'gone' }, 'read_file'),
+      row('user', 'edit it'),
+      toolTurn('t1', 'write_file', { path: 'a.ts', content: '' }),
+      row('user', 'what happened?'),
+    ]);
+
+    expect(messages).toHaveLength(3);
+    expect(messages[2].content).toEqual([
+      expect.objectContaining({ type: 'tool_result', tool_use_id: 't1', is_error: true }),
+      { type: 'text', text: 'what happened?' },
+    ]);
+  });
+
+  it('replays legacy text-only rows and merges repeated roles', () => {
+    const messages = appendHistory([], [
+      toolTurn('t0', 'read_file', {}), // window opened mid-conversation
+      row('user', 'first'),
+      row('user', 'second'),
+      row('assistant', 'answer'),
+      row('tool', 'legacy output without an id', {}, 'read_file'),
+    ]);
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'first\n\nsecond' },
+      { role: 'assistant', content: 'answer' },
+    ]);
+  });
+});
+
+// ─── Agent follow-up prompts ──────────────────────────────────────────────────
+
+describe('Follow-up prompts in the same session', () => {
+  let memory: DatabaseMemory;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    dbPath = path.join(os.tmpdir(), `test-history-${Date.now()}.db`);
+    memory = new DatabaseMemory(dbPath);
+    await memory.initialize();
+    ToolExecutor.prototype.execute = jest.fn().mockResolvedValue({
+      toolCallId: 'x',
+      toolName: 'read_file',
+      result: { content: 'export const a = 1;' },
+      success: true,
+      durationMs: 1,
+    });
+  });
+
+  afterEach(() => {
+    memory.close();
+    fs.removeSync(dbPath);
+  });
+
+  it("sees the previous prompt's tool calls and results", async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'r1', name: 'read_file', input: { path: 'src/a.ts' } }] },
+        { text: 'a.ts exports a.' },
+        { text: 'Updating the tests for src/a.ts.' },
+      ],
+    });
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    const first = await agent.run('what does src/a.ts export?');
+    await agent.run('now also update the tests you touched', first.sessionId);
+
+    const followUp = provider.requests[2].messages;
+    expect(followUp.map((m) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+    expect(followUp[1].content).toEqual([
+      { type: 'tool_use', id: 'r1', name: 'read_file', input: { path: 'src/a.ts' } },
+    ]);
+    expect((followUp[2].content as any[])[0]).toMatchObject({
+      type: 'tool_result',
+      tool_use_id: 'r1',
+      content: expect.stringContaining('export const a = 1;'),
+    });
+    expect(followUp[4].content).toBe('now also update the tests you touched');
+  });
+});
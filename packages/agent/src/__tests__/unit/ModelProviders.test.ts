@@ -0,0 +1,420 @@
+/**
+ * Tests for the model provider layer:
+ *   - pricing and model selection come from provider metadata
+ *   - OpenAI-compatible provider: SSE streaming, tool-call assembly, usage,
+ *     transcript translation, retryable HTTP errors
+ *   - Anthropic provider: prompt-cache breakpoints and cache usage
+ *   - Replay provider drives a full Agent.run() deterministically
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import {
+  ANTHROPIC_MODELS,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  ReplayProvider,
+  REPLAY_MODEL,
+  estimateModelCost,
+  pricingForModel,
+} from '../../providers';
+import { toChatMessages } from '../../providers/OpenAICompatibleProvider';
+import type { Config } from '../../config';
+
+jest.mock('../../memory/DatabaseMemory');
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import { ToolExecutor } from '../../tools/ToolExecutor';
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: '/tmp/test-workspace',
+    hostWorkspaceDir: '/tmp/test-workspace',
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 2,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+function makeMemory(): jest.Mocked<DatabaseMemory> {
+  const m = new DatabaseMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+  m.getSession = jest.fn().mockReturnValue(null);
+  m.createSession = jest.fn();
+  m.addMessage = jest.fn();
+  m.getMessages = jest.fn().mockReturnValue([]);
+  m.getRecentMessages = jest.fn().mockReturnValue([]);
+  m.countMessages = jest.fn().mockReturnValue(0);
+  m.recordTokenUsage = jest.fn();
+  m.listKnowledge = jest.fn().mockReturnValue([]);
+  m.getKnowledge = jest.fn().mockReturnValue(null);
+  m.getSessionTokenUsage = jest.fn().mockReturnValue({
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  });
+  m.updateSessionSummary = jest.fn();
+  return m;
+}
+
+// ─── Catalog ──────────────────────────────────────────────────────────────────
+
+describe('Model catalog', () => {
+  it('prices Anthropic models from provider metadata', () => {
+    expect(pricingForModel('claude-sonnet-4-6')).toMatchObject({ input: 3, output: 15 });
+    expect(pricingForModel('claude-opus-4-5-20251101')).toMatchObject({ input: 15, output: 75 });
+    expect(estimateModelCost(1_000_000, 0, 'claude-haiku-4-5-20251001')).toBeCloseTo(0.8);
+  });
+
+  it('prices unlisted point releases by family and unknown models as Opus', () => {
+    expect(pricingForModel('claude-sonnet-4-9')).toMatchObject({ input: 3, output: 15 });
+    expect(pricingForModel('mystery-model')).toMatchObject({ input: 15, output: 75 });
+  });
+
+  it('prices cache reads and writes separately from uncached input', () => {
+    // Sonnet: $0.30/M read, $3.75/M write
+    expect(
+      estimateModelCost(0, 0, 'claude-sonnet-4-6', { readTokens: 1_000_000, creationTokens: 1_000_000 })
+    ).toBeCloseTo(4.05);
+    // Models without explicit cache prices fall back to 0.1× / 1.25× input
+    expect(estimateModelCost(0, 0, 'mystery-model', { readTokens: 1_000_000 })).toBeCloseTo(1.5);
+    expect(estimateModelCost(0, 0, 'mystery-model', { creationTokens: 1_000_000 })).toBeCloseTo(18.75);
+  });
+
+  it('prices registered local models at zero', () => {
+    new OpenAICompatibleProvider({ baseUrl: 'http://localhost:1/v1', models: ['llama3.1:8b'] });
+    expect(estimateModelCost(500_000, 500_000, 'llama3.1:8b')).toBe(0);
+  });
+
+  it('keeps Haiku out of the user-selectable set', () => {
+    const agent = new Agent(makeConfig(), makeMemory(), new ReplayProvider({ turns: [] }));
+    expect(agent.selectableModels).toEqual([REPLAY_MODEL]);
+    const haiku = ANTHROPIC_MODELS.find((m) => m.id.includes('haiku'));
+    expect(haiku?.userSelectable).toBe(false);
+  });
+});
+
+// ─── Anthropic ────────────────────────────────────────────────────────────────
+
+describe('AnthropicProvider', () => {
+  function withFakeStream(provider: AnthropicProvider, usage: Record<string, number>) {
+    const stream = jest.fn().mockReturnValue({
+      on: jest.fn(),
+      abort: jest.fn(),
+      finalMessage: jest.fn().mockResolvedValue({
+        content: [{ type: 'text', text: 'ok' }],
+        stop_reason: 'end_turn',
+        usage,
+      }),
+    });
+    (provider as any).client = { messages: { stream } };
+    return stream;
+  }
+
+  it('places cache breakpoints on tools, system segments and the latest message', async () => {
+    const provider = new AnthropicProvider('test-key');
+    const stream = withFakeStream(provider, { input_tokens: 1, output_tokens: 1 });
+    const messages = [
+      { role: 'user' as const, content: 'first' },
+      { role: 'assistant' as const, content: 'reply' },
+      { role: 'user' as const, content: 'second' },
+    ];
+    const tools = [
+      { name: 'read_file', description: 'Read', input_schema: { type: 'object' } },
+      { name: 'write_file', description: 'Write', input_schema: { type: 'object' } },
+    ];
+
+    await provider.stream({
+      model: 'claude-sonnet-4-6',
+      maxTokens: 64,
+      system: ['static prompt', '', 'workspace context'],
+      tools,
+      messages,
+    });
+
+    const params = stream.mock.calls[0][0];
+    expect(params.system).toEqual([
+      { type: 'text', text: 'static prompt', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'workspace context', cache_control: { type: 'ephemeral' } },
+    ]);
+    expect(params.tools[0].cache_control).toBeUndefined();
+    expect(params.tools[1].cache_control).toEqual({ type: 'ephemeral' });
+    expect(params.messages[0]).toEqual({ role: 'user', content: 'first' });
+    expect(params.messages[2].content).toEqual([
+      { type: 'text', text: 'second', cache_control: { type: 'ephemeral' } },
+    ]);
+    // The caller's transcript and tool list are left untouched
+    expect(messages[2].content).toBe('second');
+    expect(tools[1]).not.toHaveProperty('cache_control');
+  });
+
+  it('reports cache reads and writes separately from uncached input', async () => {
+    const provider = new AnthropicProvider('test-key');
+    withFakeStream(provider, {
+      input_tokens: 12,
+      output_tokens: 30,
+      cache_read_input_tokens: 4000,
+      cache_creation_input_tokens: 500,
+    });
+
+    const response = await provider.stream({
+      model: 'claude-sonnet-4-6',
+      maxTokens: 64,
+      system: 'sys',
+      tools: [],
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(response.usage).toEqual({
+      inputTokens: 12,
+      outputTokens: 30,
+      cacheReadTokens: 4000,
+      cacheCreationTokens: 500,
+    });
+  });
+});
+
+// ─── OpenAI-compatible ────────────────────────────────────────────────────────
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let lastBody: any;
+  let respond: (res: http.ServerResponse) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (c) => (raw += c));
+      req.on('end', () => {
+        lastBody = JSON.parse(raw);
+        respond(res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function sse(chunks: unknown[]) {
+    return (res: http.ServerResponse) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (const chunk of chunks) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      res.end('data: [DONE]\n\n');
+    };
+  }
+
+  it('streams text and assembles fragmented tool calls', async () => {
+    respond = sse([
+      { choices: [{ delta: { content: 'Reading ' } }] },
+      { choices: [{ delta: { content: 'file' } }] },
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                { index: 0, id: 'call_1', function: { name: 'read_file', arguments: '{"pa' } },
+              ],
+            },
+          },
+        ],
+      },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'th":"a.ts"}' } }] } }] },
+      { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+      { choices: [], usage: { prompt_tokens: 42, completion_tokens: 7 } },
+    ]);
+    const provider = new OpenAICompatibleProvider({ baseUrl, models: ['qwen2.5-coder'] });
+    const deltas: string[] = [];
+
+    const response = await provider.stream({
+      model: 'qwen2.5-coder',
+      maxTokens: 256,
+      system: 'sys',
+      tools: [{ name: 'read_file', description: 'Read', input_schema: { type: 'object' } }],
+      messages: [{ role: 'user', content: 'hi' }],
+      onText: (d) => deltas.push(d),
+    });
+
+    expect(deltas.join('')).toBe('Reading file');
+    expect(response.stopReason).toBe('tool_use');
+    expect(response.usage).toEqual({ inputTokens: 42, outputTokens: 7, cacheReadTokens: 0 });
+    expect(response.content).toEqual([
+      { type: 'text', text: 'Reading file' },
+      { type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'a.ts' } },
+    ]);
+    expect(lastBody.tools[0].function.name).toBe('read_file');
+    expect(lastBody.messages[0]).toEqual({ role: 'system', content: 'sys' });
+  });
+
+  it('reports cached prompt tokens separately from uncached input', async () => {
+    respond = sse([
+      { choices: [{ delta: { content: 'ok' }, finish_reason: 'stop' }] },
+      {
+        choices: [],
+        usage: { prompt_tokens: 1000, completion_tokens: 3, prompt_tokens_details: { cached_tokens: 800 } },
+      },
+    ]);
+    const provider = new OpenAICompatibleProvider({ baseUrl, models: ['m'] });
+    const response = await provider.stream({
+      model: 'm',
+      maxTokens: 16,
+      system: ['static', 'workspace'],
+      tools: [],
+      messages: [{ role: 'user', content: 'hi' }],
+    });
+
+    expect(response.usage).toEqual({ inputTokens: 200, outputTokens: 3, cacheReadTokens: 800 });
+    expect(lastBody.messages[0]).toEqual({ role: 'system', content: 'static\n\nworkspace' });
+  });
+
+  it('surfaces HTTP errors with a status the retry logic understands', async () => {
+    respond = (res) => {
+      res.writeHead(503);
+      res.end('overloaded');
+    };
+    const provider = new OpenAICompatibleProvider({ baseUrl, models: ['m'] });
+    await expect(
+      provider.stream({ model: 'm', maxTokens: 1, system: '', tools: [], messages: [] })
+    ).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('translates tool_use / tool_result history into chat messages', () => {
+    const out = toChatMessages('sys', [
+      { role: 'user', content: 'fix it' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Looking' },
+          { type: 'tool_use', id: 't1', name: 'read_file', input: { path: 'x' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 't1', content: 'contents' }],
+      },
+    ]);
+    expect(out).toEqual([
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: 'fix it' },
+      {
+        role: 'assistant',
+        content: 'Looking',
+        tool_calls: [
+          { id: 't1', type: 'function', function: { name: 'read_file', arguments: '{"path":"x"}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 't1', content: 'contents' },
+    ]);
+  });
+});
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+describe('ReplayProvider', () => {
+  beforeEach(() => {
+    ToolExecutor.prototype.execute = jest.fn().mockResolvedValue({
+      toolCallId: 'x',
+      toolName: 'read_file',
+      result: { content: 'hello' },
+      success: true,
+      durationMs: 1,
+    });
+  });
+
+  it('drives a full run deterministically', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { text: 'Let me look.', toolCalls: [{ id: 'r1', name: 'read_file', input: { path: 'a.ts' } }] },
+        { text: 'All done.', usage: { inputTokens: 10, outputTokens: 5 } },
+      ],
+      completions: ['Read a.ts'],
+    });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+    const events: AgentEvent[] = [];
+
+    const result = await agent.run('look at a.ts', undefined, (e) => events.push(e));
+
+    expect(result.success).toBe(true);
+    expect(provider.remainingTurns).toBe(0);
+    expect(ToolExecutor.prototype.execute).toHaveBeenCalledTimes(1);
+    // Second request carries the tool result back to the model
+    const lastMessage = provider.requests[1].messages.at(-1)!;
+    expect(lastMessage.role).toBe('user');
+    expect((lastMessage.content as any[])[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'r1' });
+    expect(events.filter((e) => e.type === 'stream_delta')).toHaveLength(2);
+  });
+
+  it('reports cache usage per turn and keeps cache reads out of the budget', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          text: 'Done.',
+          usage: { inputTokens: 20, outputTokens: 10, cacheReadTokens: 5_000, cacheCreationTokens: 300 },
+        },
+      ],
+      completions: ['Done'],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig({ tokenBudget: 1_000 }), memory, provider);
+    const events: AgentEvent[] = [];
+
+    const result = await agent.run('hello', undefined, (e) => events.push(e));
+
+    expect(result.success).toBe(true);
+    expect(Array.isArray(provider.requests[0].system)).toBe(true);
+    expect(memory.recordTokenUsage).toHaveBeenCalledWith(expect.any(String), 20, 10, REPLAY_MODEL, {
+      readTokens: 5_000,
+      creationTokens: 300,
+    });
+    const turn = events.find((e) => e.type === 'turn_complete')!.data as Record<string, unknown>;
+    expect(turn).toMatchObject({
+      cacheReadTokens: 5_000,
+      cacheCreationTokens: 300,
+      totalTokensThisTurn: 330,
+      totalCacheReadTokens: 5_000,
+      totalTokens: 330,
+    });
+    expect(events.some((e) => e.type === 'budget_exceeded')).toBe(false);
+  });
+
+  it('fails loudly when the script runs out', async () => {
+    const provider = new ReplayProvider({ turns: [] });
+    await expect(
+      provider.stream({ model: REPLAY_MODEL, maxTokens: 1, system: '', tools: [], messages: [] })
+    ).rejects.toThrow('Replay script exhausted');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for human-in-the-loop patch approval in Agent.run():
+ *   - write_file / apply_patch / delete_file pause for review when enabled
+ *   - per-file approve/reject within a single turn
+ *   - rejected edits are never executed and return a structured tool_result
+ *   - cancelling a run releases pending approvals
+ *
+ * FileTool runs for real against a temp workspace so diffs are genuine;
+ * the Anthropic SDK, ToolExecutor, GitTool and DatabaseMemory are mocked.
+ */
+
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs-extra';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import type { Config } from '../../config';
+
+jest.mock('@anthropic-ai/sdk');
+jest.mock('../../memory/DatabaseMemory');
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ToolExecutor } from '../../tools/ToolExecutor';
+const MockAnthropic = Anthropic as jest.MockedClass<typeof Anthropic>;
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: 'test-key',
+    workspaceDir: '/tmp/test-workspace',
+    hostWorkspaceDir: '/tmp/test-workspace',
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: 'claude-opus-4-5',
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 2,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: true,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+function makeMemory(): jest.Mocked<DatabaseMemory> {
+  const m = new DatabaseMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+  m.getSession = jest.fn().mockReturnValue(null);
+  m.createSession = jest.fn();
+  m.addMessage = jest.fn();
+  m.getMessages = jest.fn().mockReturnValue([]);
+  m.getRecentMessages = jest.fn().mockReturnValue([]);
+  m.countMessages = jest.fn().mockReturnValue(0);
+  m.recordTokenUsage = jest.fn();
+  m.listKnowledge = jest.fn().mockReturnValue([]);
+  m.getKnowledge = jest.fn().mockReturnValue(null);
+  m.getSessionTokenUsage = jest.fn().mockReturnValue({
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  });
+  m.updateSessionSummary = jest.fn();
+  return m;
+}
+
+// First turn proposes the given tool calls, second turn ends the run
+function scriptTurns(toolUses: Array<{ id: string; name: string; input: unknown }>) {
+  const stream = jest.fn();
+  stream.mockReturnValueOnce({
+    on: jest.fn().mockReturnThis(),
+    finalMessage: jest.fn().mockResolvedValue({
+      content: toolUses.map((t) => ({ type: 'tool_use', ...t })),
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 10 },
+    }),
+    abort: jest.fn(),
+  });
+  stream.mockReturnValue({
+    on: jest.fn().mockReturnThis(),
+    finalMessage: jest.fn().mockResolvedValue({
+      content: [{ type: 'text', text: 'Done.' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 10 },
+    }),
+    abort: jest.fn(),
+  });
+  MockAnthropic.prototype.messages = {
+    stream,
+  } as unknown as typeof MockAnthropic.prototype.messages;
+  return stream;
+}
+
+// Pull the tool_result blocks the agent sent back on the second turn
+function toolResultsSent(stream: jest.Mock): Array<{ tool_use_id: string; content: string; is_error?: boolean }> {
+  const messages = stream.mock.calls[1][0].messages as Array<{ role: string; content: unknown }>;
+  const userTurn = messages.filter((m) => m.role === 'user' && Array.isArray(m.content)).pop();
+  return userTurn!.content as Array<{ tool_use_id: string; content: string; is_error?: boolean }>;
+}
+
+describe('Patch approval in the tool loop', () => {
+  let workspace: string;
+  let execute: jest.Mock;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-approval-test-'));
+    await fs.writeFile(path.join(workspace, 'keep.txt'), 'original\n', 'utf8');
+    execute = jest.fn().mockImplementation(async (call: { name: string }) => ({
+      toolCallId: 'x',
+      toolName: call.name,
+      result: { ok: true },
+      success: true,
+      durationMs: 1,
+    }));
+    ToolExecutor.prototype.execute = execute;
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspace);
+  });
+
+  it('asks per file and only executes the approved edits', async () => {
+    const stream = scriptTurns([
+      { id: 'tu-write', name: 'write_file', input: { path: 'new.txt', content: 'hi\n' } },
+      { id: 'tu-delete', name: 'delete_file', input: { path: 'keep.txt' } },
+    ]);
+    const agent = new Agent(makeConfig({ workspaceDir: workspace }), makeMemory());
+    const events: AgentEvent[] = [];
+
+    await agent.run('edit things', undefined, (e) => {
+      events.push(e);
+      if (e.type === 'patch_approval_required') {
+        const d = e.data as { patchId: string };
+        // Approve the new file, reject the deletion
+        setImmediate(() => agent.resolvePatchApproval(d.patchId, d.patchId === 'tu-write'));
+      }
+    });
+
+    const requests = events
+      .filter((e) => e.type === 'patch_approval_required')
+      .map((e) => e.data as Record<string, unknown>);
+    expect(requests).toHaveLength(2);
+    expect(requests[0]).toMatchObject({ operation: 'create', filePath: 'new.txt', index: 0, total: 2 });
+    expect(requests[1]).toMatchObject({ operation: 'delete', filePath: 'keep.txt', index: 1, total: 2 });
+    expect(requests[0].batchId).toBe(requests[1].batchId);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls[0][0].name).toBe('write_file');
+
+    const rejected = toolResultsSent(stream).find((r) => r.tool_use_id === 'tu-delete')!;
+    expect(rejected.is_error).toBe(true);
+    expect(JSON.parse(rejected.content)).toMatchObject({
+      status: 'rejected',
+      reason: 'Rejected by reviewer',
+      path: 'keep.txt',
+    });
+  });
+
+  it('auto-rejects when no reviewer answers before the timeout', async () => {
+    const stream = scriptTurns([
+      { id: 'tu-write', name: 'write_file', input: { path: 'new.txt', content: 'hi\n' } },
+    ]);
+    const agent = new Agent(
+      makeConfig({ workspaceDir: workspace, patchApprovalTimeout: 20 }),
+      makeMemory()
+    );
+    const events: AgentEvent[] = [];
+
+    await agent.run('edit', undefined, (e) => events.push(e));
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(events.find((e) => e.type === 'patch_approval_resolved')?.data).toMatchObject({
+      approved: false,
+      timedOut: true,
+    });
+    expect(toolResultsSent(stream)[0].is_error).toBe(true);
+  });
+
+  it('does not ask for approval when requirePatchApproval is off', async () => {
+    scriptTurns([{ id: 'tu-write', name: 'write_file', input: { path: 'new.txt', content: 'hi\n' } }]);
+    const agent = new Agent(
+      makeConfig({ workspaceDir: workspace, requirePatchApproval: false }),
+      makeMemory()
+    );
+    const events: AgentEvent[] = [];
+
+    await agent.run('edit', undefined, (e) => events.push(e));
+
+    expect(events.some((e) => e.type === 'patch_approval_required')).toBe(false);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases pending approvals when the run is cancelled', async () => {
+    scriptTurns([{ id: 'tu-write', name: 'write_file', input: { path: 'new.txt', content: 'hi\n' } }]);
+    const agent = new Agent(makeConfig({ workspaceDir: workspace }), makeMemory());
+    const sid = '11111111-1111-1111-1111-111111111111';
+
+    await agent.run('edit', sid, (e) => {
+      if (e.type === 'patch_approval_required') {
+        expect(agent.listPendingApprovals(sid)).toHaveLength(1);
+        setImmediate(() => agent.cancel(sid));
+      }
+    });
+
+    expect(agent.listPendingApprovals(sid)).toHaveLength(0);
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Tests for per-workspace tool permissions (.agent/permissions.json):
+ *   - loading and validating the policy; the first matching rule decides
+ *   - denied calls are refused with a clear tool_result
+ *   - "ask" holds the call for the user; rejected and timed-out calls are refused
+ *   - an invalid file asks about every call; sub-agents keep their parent's policy
+ *   - a run cannot edit the policy that limits it
+ *   - the effective policy and pending calls over HTTP
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import request from 'supertest';
+import express from 'express';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { Agent, type AgentEvent, type PendingToolApproval } from '../../agent/Agent';
+import { AgentServer } from '../../server/AgentServer';
+import {
+  decidePermission,
+  loadPermissionPolicy,
+  PermissionPolicySchema,
+  PERMISSIONS_POLICY_FILE,
+} from '../../agent/permissions';
+import { ReplayProvider, REPLAY_MODEL, type ReplayTurn } from '../../providers';
+import type { Config } from '../../config';
+
+let workspace: string;
+let memory: DatabaseMemory;
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-permissions-')));
+  await fs.writeFile(path.join(workspace, 'a.txt'), 'original\n');
+  memory = new DatabaseMemory(':memory:');
+  await memory.initialize();
+});
+
+afterEach(async () => {
+  memory.close();
+  await fs.remove(workspace);
+});
+
+async function writePolicy(policy: unknown): Promise<void> {
+  const file = path.join(workspace, PERMISSIONS_POLICY_FILE);
+  await fs.ensureDir(path.dirname(file));
+  if (typeof policy === 'string') await fs.writeFile(file, policy);
+  else await fs.writeJson(file, policy);
+}
+
+const DELETE_A = { toolCalls: [{ id: 'del', name: 'delete_file', input: { path: 'a.txt' } }] };
+
+// The tool_result the model got for its first tool call
+function firstToolResult(provider: ReplayProvider) {
+  const blocks = provider.requests[1].messages.at(-1)!.content as Array<{ type: string; content?: string }>;
+  return blocks.find((b) => b.type === 'tool_result')?.content ?? '';
+}
+
+describe('permission policy', () => {
+  it('is absent without a file and rejects invalid files', async () => {
+    expect(await loadPermissionPolicy(workspace)).toBeNull();
+
+    await writePolicy({ rules: [{ tool: 'git_push', action: 'maybe' }] });
+    await expect(loadPermissionPolicy(workspace)).rejects.toThrow(`Invalid ${PERMISSIONS_POLICY_FILE}`);
+    await writePolicy('{ not json');
+    await expect(loadPermissionPolicy(workspace)).rejects.toThrow(`Invalid ${PERMISSIONS_POLICY_FILE}`);
+
+    await writePolicy({ rules: [{ tool: 'git_push', action: 'ask' }] });
+    expect(await loadPermissionPolicy(workspace)).toEqual({
+      default: 'allow',
+      rules: [{ tool: 'git_push', action: 'ask' }],
+    });
+  });
+
+  it('decides by the first rule matching the tool and its arguments', () => {
+    const policy = PermissionPolicySchema.parse({
+      default: 'allow',
+      rules: [
+        { tool: 'git_reset', when: { mode: 'hard' }, action: 'deny', reason: 'Hard resets lose work' },
+        { tool: 'git_push', when: { force: true }, action: 'deny' },
+        { tool: 'git_push', action: 'ask' },
+        { tool: 'deploy_*', action: 'ask' },
+        { tool: 'delete_file', when: { path: ['src/**', '*.md'] }, action: 'ask' },
+      ],
+    });
+
+    expect(decidePermission(policy, 'git_reset', { mode: 'hard' })).toEqual({
+      action: 'deny',
+      rule: 0,
+      reason: 'Hard resets lose work',
+    });
+    expect(decidePermission(policy, 'git_reset', { mode: 'soft' })).toEqual({ action: 'allow' });
+    expect(decidePermission(policy, 'git_reset', {})).toEqual({ action: 'allow' });
+    expect(decidePermission(policy, 'git_push', { force: true }).action).toBe('deny');
+    expect(decidePermission(policy, 'git_push', { force: false })).toEqual({ action: 'ask', rule: 2 });
+    expect(decidePermission(policy, 'deploy_netlify', {}).action).toBe('ask');
+    expect(decidePermission(policy, 'delete_file', { path: './src/app/a.ts' }).action).toBe('ask');
+    expect(decidePermission(policy, 'delete_file', { path: 'README.md' }).action).toBe('ask');
+    expect(decidePermission(policy, 'delete_file', { path: 'docs/notes.md' }).action).toBe('allow');
+    expect(decidePermission({ default: 'deny', rules: [] }, 'read_file', {}).action).toBe('deny');
+  });
+});
+
+describe('runs under a permission policy', () => {
+  function makeAgent(turns: ReplayTurn[], config: Partial<Config> = {}) {
+    const provider = new ReplayProvider({ turns });
+    return { agent: new Agent(makeConfig(config), memory, provider), provider };
+  }
+
+  it('refuses denied calls with the reason', async () => {
+    await writePolicy({ rules: [{ tool: 'delete_file', action: 'deny', reason: 'Files are never deleted here' }] });
+    const { agent, provider } = makeAgent([DELETE_A, { text: 'Could not delete.' }]);
+
+    await agent.run('delete a.txt', 's1');
+
+    expect(await fs.pathExists(path.join(workspace, 'a.txt'))).toBe(true);
+    const result = firstToolResult(provider);
+    expect(result).toContain(`Tool "delete_file" is denied by ${PERMISSIONS_POLICY_FILE}: Files are never deleted here`);
+    expect(result).toContain('Hint: The call was NOT made');
+  });
+
+  it('runs a call the user approves and refuses one they reject', async () => {
+    await writePolicy({ rules: [{ tool: 'delete_file', action: 'ask', reason: 'Deleting needs a yes' }] });
+
+    for (const approved of [false, true]) {
+      const { agent, provider } = makeAgent([DELETE_A, { text: 'Done.' }]);
+      const events: AgentEvent[] = [];
+      await agent.run('delete a.txt', `s-${approved}`, (e) => {
+        events.push(e);
+        if (e.type === 'tool_approval_required') {
+          const pending = e.data as PendingToolApproval;
+          expect(pending).toMatchObject({ toolName: 'delete_file', input: { path: 'a.txt' }, reason: 'Deleting needs a yes' });
+          expect(agent.listPendingToolApprovals(`s-${approved}`)).toHaveLength(1);
+          setImmediate(() => agent.resolveToolApproval(pending.approvalId, approved));
+        }
+      });
+
+      expect(events.find((e) => e.type === 'tool_approval_resolved')?.data).toMatchObject({ approved });
+      expect(await fs.pathExists(path.join(workspace, 'a.txt'))).toBe(!approved);
+      if (!approved) expect(firstToolResult(provider)).toContain('Tool "delete_file" was not approved by the user');
+    }
+  });
+
+  it('rejects calls nobody answers in time', async () => {
+    await writePolicy({ rules: [{ tool: 'delete_file', action: 'ask' }] });
+    const { agent } = makeAgent([DELETE_A, { text: 'Done.' }], { patchApprovalTimeout: 20 });
+    const events: AgentEvent[] = [];
+
+    await agent.run('delete a.txt', 's1', (e) => events.push(e));
+
+    expect(events.find((e) => e.type === 'tool_approval_resolved')?.data).toMatchObject({ approved: false, timedOut: true });
+    expect(await fs.pathExists(path.join(workspace, 'a.txt'))).toBe(true);
+  });
+
+  it('asks about every call while the file is invalid', async () => {
+    await writePolicy({ default: 'sometimes' });
+    const READ_A = { toolCalls: [{ name: 'read_file', input: { path: 'a.txt' } }] };
+    const { agent } = makeAgent([READ_A, { text: 'Done.' }]);
+    const events: AgentEvent[] = [];
+
+    await agent.run('read a.txt', 's1', (e) => {
+      events.push(e);
+      if (e.type === 'tool_approval_required') {
+        setImmediate(() => agent.resolveToolApproval((e.data as PendingToolApproval).approvalId, true));
+      }
+    });
+
+    const error = events.find((e) => e.type === 'error')?.data as { error: string };
+    expect(error.error).toContain('Every tool call needs approval for this run');
+    expect(events.find((e) => e.type === 'tool_approval_required')?.data).toMatchObject({ toolName: 'read_file' });
+  });
+
+  it('applies to sub-agents', async () => {
+    await fs.ensureDir(path.join(workspace, 'pkg'));
+    await fs.writeFile(path.join(workspace, 'pkg', 'b.txt'), 'b\n');
+    await writePolicy({ rules: [{ tool: 'delete_file', action: 'deny' }] });
+    const { agent } = makeAgent([
+      { toolCalls: [{ name: 'delegate_task', input: { task: 'delete b.txt', directory: 'pkg', tools: ['delete_file'] } }] },
+      { toolCalls: [{ name: 'delete_file', input: { path: 'b.txt' } }] },
+      { text: 'Could not delete.' },
+      { text: 'Done.' },
+    ]);
+
+    await agent.run('clean up pkg', 's1');
+
+    expect(await fs.pathExists(path.join(workspace, 'pkg', 'b.txt'))).toBe(true);
+  });
+
+  it('cannot be rewritten by the run it limits', async () => {
+    await writePolicy({ rules: [{ tool: 'delete_file', action: 'deny' }] });
+    const loosen = { path: PERMISSIONS_POLICY_FILE, content: '{"default":"allow"}' };
+    const first = makeAgent([{ toolCalls: [{ name: 'write_file', input: loosen }] }, { text: 'Done.' }]);
+
+    await first.agent.run('allow everything', 's1');
+
+    expect(firstToolResult(first.provider)).toContain('[PROTECTED_PATH]');
+    const second = makeAgent([DELETE_A, { text: 'Could not delete.' }]);
+    await second.agent.run('delete a.txt', 's1');
+    expect(firstToolResult(second.provider)).toContain('is denied by');
+    expect(await fs.pathExists(path.join(workspace, 'a.txt'))).toBe(true);
+  });
+
+  it('cancelling a run rejects its pending calls', async () => {
+    await writePolicy({ rules: [{ tool: 'delete_file', action: 'ask' }] });
+    const { agent } = makeAgent([DELETE_A, { text: 'Done.' }]);
+
+    await agent.run('delete a.txt', 's1', (e) => {
+      if (e.type === 'tool_approval_required') setImmediate(() => agent.cancel('s1'));
+    });
+
+    expect(agent.listPendingToolApprovals()).toEqual([]);
+    expect(await fs.pathExists(path.join(workspace, 'a.txt'))).toBe(true);
+  });
+});
+
+describe('permission routes', () => {
+  function buildApp(turns: ReplayTurn[] = []) {
+    const config = makeConfig();
+    const agent = new Agent(config, memory, new ReplayProvider({ turns }));
+    const server = new AgentServer(agent, memory, config, config.port);
+    return { agent, app: (server as unknown as { app: express.Application }).app };
+  }
+
+  it('shows the effective policy of a workspace', async () => {
+    const { app } = buildApp();
+
+    const none = await request(app).get('/api/workspace/permissions');
+    expect(none.body).toMatchObject({ configured: false, policy: { default: 'allow', rules: [] } });
+
+    await writePolicy({ rules: [{ tool: 'git_push', action: 'ask' }] });
+    const some = await request(app).get('/api/workspace/permissions');
+    expect(some.body).toMatchObject({
+      file: PERMISSIONS_POLICY_FILE,
+      configured: true,
+      policy: { default: 'allow', rules: [{ tool: 'git_push', action: 'ask' }] },
+    });
+
+    await writePolicy('{ not json');
+    const invalid = await request(app).get('/api/workspace/permissions');
+    expect(invalid.body.policy.default).toBe('ask');
+    expect(invalid.body.error).toContain(`Invalid ${PERMISSIONS_POLICY_FILE}`);
+
+    expect((await request(app).get('/api/workspace/permissions?workspaceId=nope')).status).toBe(404);
+  });
+
+  it('lists and answers pending calls', async () => {
+    await writePolicy({ rules: [{ tool: 'delete_file', action: 'ask' }] });
+    const { agent, app } = buildApp([DELETE_A, { text: 'Done.' }]);
+    let asked!: () => void;
+    const waiting = new Promise<void>((resolve) => (asked = resolve));
+
+    const run = agent.run('delete a.txt', 's1', (e) => {
+      if (e.type === 'tool_approval_required') asked();
+    });
+    await waiting;
+
+    const list = await request(app).get('/api/sessions/s1/tool-approvals');
+    expect(list.body.approvals).toMatchObject([{ approvalId: 'del', toolName: 'delete_file' }]);
+    expect((await request(app).post('/api/sessions/s1/tool-approvals/del').send({})).status).toBe(400);
+    expect((await request(app).post('/api/sessions/s1/tool-approvals/nope').send({ approved: true })).status).toBe(404);
+    const answered = await request(app).post('/api/sessions/s1/tool-approvals/del').send({ approved: true });
+    expect(answered.body).toMatchObject({ success: true, approved: true });
+
+    await run;
+    expect(await fs.pathExists(path.join(workspace, 'a.txt'))).toBe(false);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Tests for plan mode (RunOptions.mode = 'plan'):
+ *   - the planning phase offers only read-only tools plus propose_plan
+ *   - a proposed plan is emitted as plan_proposed and holds the run until the
+ *     user approves (optionally with edits), asks for changes, or rejects it
+ *   - once approved, the plan is pinned into the system prompt and every tool
+ *     becomes available
+ *
+ * The model is a ReplayProvider; DatabaseMemory, ToolExecutor and GitTool are mocked.
+ */
+
+import { Agent, AgentEvent, PendingPlan } from '../../agent/Agent';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+import type { Plan } from '../../tools/schemas';
+
+jest.mock('../../memory/DatabaseMemory');
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import { ToolExecutor } from '../../tools/ToolExecutor';
+
+const SESSION_ID = 'bbbbbbbb-0000-0000-0000-000000000000';
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: '/tmp/klaus-plan-workspace',
+    hostWorkspaceDir: '/tmp/klaus-plan-workspace',
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+function makeMemory(): jest.Mocked<DatabaseMemory> {
+  const m = new DatabaseMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+  m.getSession = jest.fn().mockReturnValue(null);
+  m.createSession = jest.fn();
+  m.addMessage = jest.fn();
+  m.getMessages = jest.fn().mockReturnValue([]);
+  m.getRecentMessages = jest.fn().mockReturnValue([]);
+  m.recordTokenUsage = jest.fn();
+  m.listKnowledge = jest.fn().mockReturnValue([]);
+  m.getSessionTokenUsage = jest.fn().mockReturnValue({
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  });
+  m.updateSessionSummary = jest.fn();
+  m.saveRunCheckpoint = jest.fn();
+  m.getRunCheckpoint = jest.fn().mockReturnValue(undefined);
+  m.setRunStatus = jest.fn();
+  return m;
+}
+
+const PLAN: Plan = {
+  summary: 'Rename a to alpha',
+  steps: ['Rename the export in a.ts', 'Update imports'],
+  files: [{ path: 'src/a.ts', change: 'modify' }],
+  risks: ['External consumers of a'],
+};
+
+// The tool_result the model received for the call answered in request `index`
+function lastToolResult(provider: ReplayProvider, index: number) {
+  const last = provider.requests[index].messages.at(-1)!;
+  return (last.content as any[]).find((b) => b.type === 'tool_result');
+}
+
+describe('plan mode', () => {
+  beforeEach(() => {
+    ToolExecutor.prototype.execute = jest.fn().mockResolvedValue({
+      toolCallId: 'x',
+      toolName: 'read_file',
+      result: { content: 'export const a = 1;' },
+      success: true,
+      durationMs: 1,
+    });
+  });
+
+  it('plans with read-only tools, then implements the approved plan with every tool', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'r1', name: 'read_file', input: { path: 'src/a.ts' } }] },
+        { toolCalls: [{ id: 'p1', name: 'propose_plan', input: PLAN }] },
+        { toolCalls: [{ id: 'w1', name: 'write_file', input: { path: 'src/a.ts', content: 'x' } }] },
+        { text: 'Renamed.' },
+      ],
+    });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+    const events: AgentEvent[] = [];
+    const edited = { ...PLAN, steps: [...PLAN.steps, 'Run the tests'] };
+
+    const result = await agent.run(
+      'rename a',
+      SESSION_ID,
+      (e) => {
+        events.push(e);
+        if (e.type === 'plan_proposed') {
+          agent.resolvePlan((e.data as PendingPlan).planId, { approved: true, plan: edited });
+        }
+      },
+      { mode: 'plan' }
+    );
+
+    expect(result.success).toBe(true);
+    expect(provider.remainingTurns).toBe(0);
+
+    // Planning phase: read-only tools and propose_plan only
+    const planningTools = provider.requests[0].tools.map((t) => t.name);
+    expect(planningTools).toContain('read_file');
+    expect(planningTools).toContain('propose_plan');
+    expect(planningTools).not.toContain('write_file');
+    expect(provider.requests[0].system[1]).toContain('## Plan Mode');
+
+    const proposed = events.find((e) => e.type === 'plan_proposed')!;
+    expect(proposed.data).toMatchObject({ planId: 'p1', sessionId: SESSION_ID, plan: PLAN });
+    expect(events.find((e) => e.type === 'plan_resolved')!.data).toMatchObject({
+      planId: 'p1',
+      approved: true,
+      edited: true,
+    });
+
+    // Coding phase: every tool, with the edited plan pinned
+    const codingRequest = provider.requests[2];
+    expect(codingRequest.tools.map((t) => t.name)).toContain('write_file');
+    expect(codingRequest.tools.map((t) => t.name)).not.toContain('propose_plan');
+    expect(codingRequest.system[1]).toContain('## Approved Plan');
+    expect(codingRequest.system[1]).toContain('3. Run the tests');
+    expect(codingRequest.system[1]).not.toContain('## Plan Mode');
+    expect(JSON.parse(lastToolResult(provider, 2).content)).toMatchObject({ status: 'approved', edited: true });
+    expect(ToolExecutor.prototype.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'write_file' }),
+      expect.anything(),
+      expect.anything()
+    );
+  });
+
+  it('refuses write tools while planning', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'w1', name: 'write_file', input: { path: 'a.ts', content: 'x' } }] },
+        { text: 'I will propose a plan first.' },
+      ],
+    });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+
+    await agent.run('rename a', SESSION_ID, undefined, { mode: 'plan' });
+
+    expect(ToolExecutor.prototype.execute).not.toHaveBeenCalled();
+    const toolResult = lastToolResult(provider, 1);
+    expect(toolResult).toMatchObject({ tool_use_id: 'w1', is_error: true });
+    expect(toolResult.content).toContain('not available while planning');
+  });
+
+  it('sends feedback back to the planner and ends the run on a plain rejection', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'p1', name: 'propose_plan', input: PLAN }] },
+        { toolCalls: [{ id: 'p2', name: 'propose_plan', input: { ...PLAN, risks: [] } }] },
+        { text: 'never reached' },
+      ],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig(), memory, provider);
+    const decisions = [
+      { approved: false, feedback: 'Keep a as a deprecated alias' },
+      { approved: false },
+    ];
+
+    await agent.run(
+      'rename a',
+      SESSION_ID,
+      (e) => {
+        if (e.type === 'plan_proposed') {
+          agent.resolvePlan((e.data as PendingPlan).planId, decisions.shift()!);
+        }
+      },
+      { mode: 'plan' }
+    );
+
+    const revision = lastToolResult(provider, 1);
+    expect(revision.is_error).toBe(true);
+    expect(revision.content).toContain('asked for changes to the plan: Keep a as a deprecated alias');
+    // Still planning after the feedback
+    expect(provider.requests[1].tools.map((t) => t.name)).not.toContain('write_file');
+    // The rejection ends the run without another model call
+    expect(provider.remainingTurns).toBe(1);
+    expect(memory.saveRunCheckpoint.mock.calls.at(-1)![0].status).toBe('completed');
+  });
+
+  it('returns an invalid plan to the model without asking the user', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'p1', name: 'propose_plan', input: { summary: 'x', steps: [] } }] },
+        { text: 'Let me fix that.' },
+      ],
+    });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+    const events: AgentEvent[] = [];
+
+    await agent.run('rename a', SESSION_ID, (e) => events.push(e), { mode: 'plan' });
+
+    expect(events.some((e) => e.type === 'plan_proposed')).toBe(false);
+    const toolResult = lastToolResult(provider, 1);
+    expect(toolResult.is_error).toBe(true);
+    expect(toolResult.content).toContain('Invalid plan');
+  });
+
+  it('rejects a pending plan when the run is cancelled', async () => {
+    const provider = new ReplayProvider({
+      turns: [{ toolCalls: [{ id: 'p1', name: 'propose_plan', input: PLAN }] }, { text: 'never reached' }],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    await agent.run(
+      'rename a',
+      SESSION_ID,
+      (e) => {
+        if (e.type === 'plan_proposed') agent.cancel(SESSION_ID);
+      },
+      { mode: 'plan' }
+    );
+
+    expect(agent.listPendingPlans()).toEqual([]);
+    expect(provider.remainingTurns).toBe(1);
+    expect(memory.saveRunCheckpoint.mock.calls.at(-1)![0].status).toBe('cancelled');
+  });
+
+  it('does not offer propose_plan in auto mode', async () => {
+    const provider = new ReplayProvider({ turns: [{ text: 'Done.' }] });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+
+    await agent.run('rename a', SESSION_ID);
+
+    const tools = provider.requests[0].tools.map((t) => t.name);
+    expect(tools).not.toContain('propose_plan');
+    expect(tools).toContain('write_file');
+  });
+});
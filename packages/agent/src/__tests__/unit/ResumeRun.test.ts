@@ -0,0 +1,231 @@
+/**
+ * Tests for resumable runs:
+ *   - Agent.run() checkpoints the transcript after setup and after every turn
+ *   - a batch cancelled part-way still answers every tool call in its checkpoint
+ *   - Agent.resume() continues from the checkpointed transcript and counters
+ *     instead of rebuilding context or re-storing the user message
+ *   - completed, missing and in-flight runs cannot be resumed
+ *
+ * The model is a ReplayProvider; DatabaseMemory, ToolExecutor and GitTool are mocked.
+ */
+
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { DatabaseMemory, RunCheckpoint } from '../../memory/DatabaseMemory';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../memory/DatabaseMemory');
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import { ToolExecutor } from '../../tools/ToolExecutor';
+
+const SESSION_ID = '11111111-2222-3333-4444-555555555555';
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: '/tmp/test-workspace',
+    hostWorkspaceDir: '/tmp/test-workspace',
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 2,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+function makeMemory(): jest.Mocked<DatabaseMemory> {
+  const m = new DatabaseMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+  m.getSession = jest.fn().mockReturnValue(null);
+  m.createSession = jest.fn();
+  m.addMessage = jest.fn();
+  m.getMessages = jest.fn().mockReturnValue([]);
+  m.getRecentMessages = jest.fn().mockReturnValue([]);
+  m.countMessages = jest.fn().mockReturnValue(0);
+  m.recordTokenUsage = jest.fn();
+  m.listKnowledge = jest.fn().mockReturnValue([]);
+  m.getKnowledge = jest.fn().mockReturnValue(null);
+  m.getSessionTokenUsage = jest.fn().mockReturnValue({
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  });
+  m.updateSessionSummary = jest.fn();
+  m.saveRunCheckpoint = jest.fn();
+  m.setRunStatus = jest.fn();
+  return m;
+}
+
+function makeCheckpoint(overrides: Partial<RunCheckpoint> = {}): RunCheckpoint {
+  return {
+    sessionId: SESSION_ID,
+    status: 'interrupted',
+    turn: 1,
+    userMessage: 'look at a.ts',
+    messages: [
+      { role: 'user', content: 'look at a.ts' },
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'r1', name: 'read_file', input: { path: 'a.ts' } }],
+      },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'r1', content: 'hello' }] },
+    ],
+    toolCallsCount: 1,
+    totalInputTokens: 100,
+    totalOutputTokens: 20,
+    inCodingPhase: false,
+    budgetWarningFired: false,
+    planningModel: REPLAY_MODEL,
+    codingModel: REPLAY_MODEL,
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Resumable runs', () => {
+  beforeEach(() => {
+    ToolExecutor.prototype.execute = jest.fn().mockResolvedValue({
+      toolCallId: 'x',
+      toolName: 'read_file',
+      result: { content: 'hello' },
+      success: true,
+      durationMs: 1,
+    });
+  });
+
+  it('checkpoints after every turn and marks the run completed', async () => {
+    const memory = makeMemory();
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'r1', name: 'read_file', input: { path: 'a.ts' } }] },
+        { text: 'Done.' },
+      ],
+    });
+    // Snapshot each checkpoint the way the database would serialize it
+    const saved: RunCheckpoint[] = [];
+    memory.saveRunCheckpoint = jest.fn((c) => {
+      saved.push(JSON.parse(JSON.stringify(c)));
+    });
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    await agent.run('look at a.ts', SESSION_ID);
+
+    expect(saved.map((c) => c.status)).toEqual(['running', 'running', 'completed']);
+    // The mid-run checkpoint carries the tool result so a resume can pick up there
+    const midRun = saved[1];
+    expect(midRun.turn).toBe(1);
+    expect((midRun.messages.at(-1) as any).content[0]).toMatchObject({
+      type: 'tool_result',
+      tool_use_id: 'r1',
+    });
+  });
+
+  it('answers every tool call of a batch cancelled part-way, so the checkpoint can be resumed', async () => {
+    const memory = makeMemory();
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          toolCalls: [
+            { id: 'w1', name: 'write_file', input: { path: 'a.ts', content: 'a' } },
+            { id: 'w2', name: 'write_file', input: { path: 'b.ts', content: 'b' } },
+          ],
+        },
+      ],
+    });
+    const saved: RunCheckpoint[] = [];
+    memory.saveRunCheckpoint = jest.fn((c) => {
+      saved.push(JSON.parse(JSON.stringify(c)));
+    });
+    const agent = new Agent(makeConfig(), memory, provider);
+    (ToolExecutor.prototype.execute as jest.Mock).mockImplementationOnce(async () => {
+      agent.cancel(SESSION_ID);
+      return { toolCallId: 'x', toolName: 'write_file', result: { ok: true }, success: true, durationMs: 1 };
+    });
+
+    await agent.run('write both', SESSION_ID);
+
+    expect(ToolExecutor.prototype.execute).toHaveBeenCalledTimes(1);
+    const last = saved.at(-1)!;
+    expect(last.status).toBe('cancelled');
+    const results = (last.messages.at(-1) as any).content;
+    expect(results.map((r: any) => r.tool_use_id)).toEqual(['w1', 'w2']);
+    expect(results[1]).toMatchObject({ type: 'tool_result', is_error: true });
+    expect(results[1].content).toContain('Cancelled');
+  });
+
+  it('continues from the checkpointed transcript without re-adding the prompt', async () => {
+    const memory = makeMemory();
+    const checkpoint = makeCheckpoint();
+    memory.getRunCheckpoint = jest.fn().mockReturnValue(checkpoint);
+    const provider = new ReplayProvider({
+      turns: [{ text: 'a.ts says hello.', usage: { inputTokens: 10, outputTokens: 5 } }],
+    });
+    const agent = new Agent(makeConfig(), memory, provider);
+    const events: AgentEvent[] = [];
+
+    const result = await agent.resume(SESSION_ID, (e) => events.push(e));
+
+    expect(result.success).toBe(true);
+    expect(provider.requests[0].messages).toEqual(checkpoint.messages);
+    expect(memory.addMessage).not.toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'user', content: 'look at a.ts' })
+    );
+    expect(events[0]).toMatchObject({
+      type: 'run_resumed',
+      data: { sessionId: SESSION_ID, turn: 1, previousStatus: 'interrupted' },
+    });
+    // Counters carry over from the checkpoint
+    expect(result.toolCallsCount).toBe(1);
+    expect(memory.saveRunCheckpoint).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'completed', totalInputTokens: 110, turn: 2 })
+    );
+  });
+
+  it('refuses to resume missing or completed runs', async () => {
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig(), memory, new ReplayProvider({ turns: [] }));
+
+    memory.getRunCheckpoint = jest.fn().mockReturnValue(undefined);
+    await expect(agent.resume(SESSION_ID)).rejects.toThrow('Nothing to resume');
+
+    memory.getRunCheckpoint = jest.fn().mockReturnValue(makeCheckpoint({ status: 'completed' }));
+    await expect(agent.resume(SESSION_ID)).rejects.toThrow('already completed');
+  });
+
+  it('marks the checkpoint failed when the run throws', async () => {
+    const memory = makeMemory();
+    memory.getRunCheckpoint = jest.fn().mockReturnValue(makeCheckpoint());
+    const agent = new Agent(makeConfig(), memory, new ReplayProvider({ turns: [] }));
+
+    await agent.resume(SESSION_ID).catch(() => undefined);
+
+    expect(memory.setRunStatus).toHaveBeenCalledWith(SESSION_ID, 'failed');
+  });
+});
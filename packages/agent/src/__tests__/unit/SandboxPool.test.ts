@@ -0,0 +1,324 @@
+/**
+ * Tests for persistent sandbox containers and workspace sandbox config:
+ *   - SandboxPool reuses a session's container, replaces it when the image
+ *     changes, reaps it once idle (never while busy) and reports its status
+ *   - DockerSandbox in persistent mode starts one container and execs into it,
+ *     and removes it when a command times out
+ *   - every container mounts the shared npm/pnpm cache volumes
+ *   - .agent/sandbox.json picks the limits once per run (never the image), or is rejected if invalid
+ *   - 'registry' commands join the internal egress network behind the proxy,
+ *     in their own container even in persistent mode
+ *
+ * dockerode is mocked; nothing here needs a Docker daemon.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { PassThrough, Writable } from 'stream';
+import type Docker from 'dockerode';
+
+type Output = { stdout?: string; stderr?: string; exitCode?: number; hang?: boolean };
+
+let next: Output;
+let containerCount: number;
+
+function outputStream(output: Output): PassThrough & { output: Output } {
+  return Object.assign(new PassThrough(), { output });
+}
+
+function fakeContainer(spec: Docker.ContainerCreateOptions) {
+  const id = `container${++containerCount}`.padEnd(64, '0');
+  return {
+    id,
+    spec,
+    start: jest.fn(async () => undefined),
+    kill: jest.fn(async () => undefined),
+    remove: jest.fn(async () => undefined),
+    wait: jest.fn(async () => ({ StatusCode: next.exitCode ?? 0 })),
+    attach: jest.fn(async () => outputStream(next)),
+    exec: jest.fn(async (_options: Docker.ExecCreateOptions) => {
+      const output = next;
+      return {
+        start: jest.fn(async () => outputStream(output)),
+        inspect: jest.fn(async () => ({ Running: false, ExitCode: output.exitCode ?? 0 })),
+      };
+    }),
+  };
+}
+
+const docker = {
+  ping: jest.fn(async () => 'OK'),
+  listImages: jest.fn(async () => [{ Id: 'sha256:abc' }]),
+  createVolume: jest.fn(async () => ({})),
+  createNetwork: jest.fn(async () => ({})),
+  getNetwork: jest.fn(() => ({
+    inspect: jest.fn(async () => {
+      throw Object.assign(new Error('network not found'), { statusCode: 404 });
+    }),
+  })),
+  createContainer: jest.fn(async (spec: Docker.ContainerCreateOptions) => fakeContainer(spec)),
+  modem: {
+    demuxStream: (stream: PassThrough & { output: Output }, stdout: Writable, stderr: Writable) => {
+      const { output } = stream;
+      if (output.hang) return;
+      if (output.stdout) stdout.write(output.stdout);
+      if (output.stderr) stderr.write(output.stderr);
+      stream.resume();
+      stream.end();
+    },
+  },
+};
+
+jest.mock('dockerode', () => jest.fn(() => docker));
+
+import { SandboxPool, sandboxPool } from '../../sandbox/SandboxPool';
+import { DockerSandbox, loadSandboxConfig, SANDBOX_CONFIG_FILE } from '../../sandbox/DockerSandbox';
+
+let workspace: string;
+
+beforeEach(async () => {
+  next = { stdout: 'ok\n' };
+  containerCount = 0;
+  docker.createContainer.mockClear();
+  docker.createVolume.mockClear();
+  docker.createNetwork.mockClear();
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-sandbox-'));
+});
+
+afterEach(async () => {
+  await sandboxPool.shutdown();
+  await fs.remove(workspace);
+});
+
+// The containers DockerSandbox created to run commands, without the cache volume setup
+function commandContainers(): ReturnType<typeof fakeContainer>[] {
+  return docker.createContainer.mock.results
+    .map((r) => r.value)
+    .filter(Boolean)
+    .map((p) => p as unknown as ReturnType<typeof fakeContainer>);
+}
+
+async function createdSpecs(): Promise<Docker.ContainerCreateOptions[]> {
+  const containers = await Promise.all(commandContainers());
+  return containers.map((c) => c.spec).filter((spec) => spec.User !== 'root');
+}
+
+describe('SandboxPool', () => {
+  const container = (id: string) => ({ id: id.padEnd(64, '0'), remove: jest.fn(async () => undefined) });
+
+  it('reuses the session container and replaces it when the image changes', async () => {
+    const pool = new SandboxPool();
+    const first = container('a');
+    const second = container('b');
+    const create = jest.fn().mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+
+    const lease1 = await pool.acquire('s1', 'node:20-alpine', 60_000, create);
+    lease1.release();
+    const lease2 = await pool.acquire('s1', 'node:20-alpine', 60_000, create);
+    lease2.release();
+    expect(lease2.container).toBe(first);
+    expect(create).toHaveBeenCalledTimes(1);
+
+    const lease3 = await pool.acquire('s1', 'acme/sandbox:py', 60_000, create);
+    expect(lease3.container).toBe(second);
+    expect(first.remove).toHaveBeenCalledWith({ force: true });
+    await pool.shutdown();
+    expect(second.remove).toHaveBeenCalled();
+  });
+
+  it('reaps idle containers but never a busy one', async () => {
+    const pool = new SandboxPool();
+    const idle = container('idle');
+    const busy = container('busy');
+
+    (await pool.acquire('idle', 'img', 1_000, async () => idle as any)).release();
+    await pool.acquire('busy', 'img', 1_000, async () => busy as any);
+
+    await expect(pool.reap(Date.now() + 500)).resolves.toBe(0);
+    await expect(pool.reap(Date.now() + 5_000)).resolves.toBe(1);
+    expect(idle.remove).toHaveBeenCalled();
+    expect(busy.remove).not.toHaveBeenCalled();
+    expect(pool.status().containers).toEqual([
+      expect.objectContaining({ sessionId: 'busy', state: 'busy', containerId: 'busy00000000', execs: 1 }),
+    ]);
+    await pool.shutdown();
+  });
+
+  it('forgets a container that failed to start', async () => {
+    const pool = new SandboxPool();
+    await expect(
+      pool.acquire('s1', 'img', 1_000, async () => {
+        throw new Error('no such image');
+      })
+    ).rejects.toThrow('no such image');
+    expect(pool.status().containers).toEqual([]);
+  });
+});
+
+describe('DockerSandbox', () => {
+  it('runs each command in a fresh container by default', async () => {
+    const sandbox = new DockerSandbox({ sessionId: 's1' });
+
+    await expect(sandbox.execute('npm test', workspace)).resolves.toEqual({ stdout: 'ok\n', stderr: '', exitCode: 0 });
+    await sandbox.execute('npx tsc --noEmit', workspace);
+
+    const specs = await createdSpecs();
+    expect(specs.map((s) => s.Cmd)).toEqual([
+      ['sh', '-c', 'npm test'],
+      ['sh', '-c', 'npx tsc --noEmit'],
+    ]);
+    expect(specs[0].HostConfig).toMatchObject({ AutoRemove: true, NetworkMode: 'none', CapDrop: ['ALL'] });
+    expect(sandboxPool.status().containers).toEqual([]);
+  });
+
+  it('mounts the shared cache volumes and points npm and pnpm at them', async () => {
+    await new DockerSandbox().execute('npm ci --prefer-offline', workspace);
+
+    const [spec] = await createdSpecs();
+    expect(spec.HostConfig?.Binds).toEqual([
+      `${workspace}:/workspace:rw`,
+      `${workspace}/.agent:/workspace/.agent:ro`,
+      'klaus-npm-cache:/cache/npm:rw',
+      'klaus-pnpm-store:/cache/pnpm:rw',
+    ]);
+    expect(spec.Env).toEqual(
+      expect.arrayContaining(['npm_config_cache=/cache/npm', 'npm_config_store_dir=/cache/pnpm'])
+    );
+    expect(docker.createVolume).toHaveBeenCalledWith(expect.objectContaining({ Name: 'klaus-npm-cache' }));
+  });
+
+  it('mounts the workspace policy directory read-only, creating it first if missing', async () => {
+    await fs.remove(path.join(workspace, '.agent'));
+    await new DockerSandbox().execute('npm test', workspace);
+
+    const [spec] = await createdSpecs();
+    expect(spec.HostConfig?.Binds).toEqual(
+      expect.arrayContaining([`${workspace}:/workspace:rw`, `${workspace}/.agent:/workspace/.agent:ro`])
+    );
+    expect(await fs.pathExists(path.join(workspace, '.agent'))).toBe(true);
+  });
+
+  it('in persistent mode starts one container per session and execs into it', async () => {
+    const sandbox = new DockerSandbox({ sessionId: 's1', persistent: true });
+
+    next = { stdout: 'PASS a.test.ts\n', exitCode: 0 };
+    const first = await sandbox.execute('npx jest', workspace, { env: { CI: 'true' } });
+    next = { stderr: 'error TS2322\n', exitCode: 2 };
+    const second = await sandbox.execute('npx tsc --noEmit', workspace);
+
+    expect(first).toEqual({ stdout: 'PASS a.test.ts\n', stderr: '', exitCode: 0 });
+    expect(second).toEqual({ stdout: '', stderr: 'error TS2322\n', exitCode: 2 });
+
+    const [spec] = await createdSpecs();
+    expect(await createdSpecs()).toHaveLength(1);
+    expect(spec).toMatchObject({
+      Cmd: ['tail', '-f', '/dev/null'],
+      Labels: { 'klaus.sandbox': 'pooled', 'klaus.session': 's1' },
+      HostConfig: expect.objectContaining({ AutoRemove: false, Init: true, ReadonlyRootfs: true }),
+    });
+
+    const pooled = (await Promise.all(commandContainers())).find((c) => c.spec === spec)!;
+    expect(pooled.exec.mock.calls.map(([opts]) => opts.Cmd)).toEqual([
+      ['sh', '-c', 'npx jest'],
+      ['sh', '-c', 'npx tsc --noEmit'],
+    ]);
+    expect(pooled.exec.mock.calls[0][0]).toMatchObject({ Env: ['CI=true'], User: '1000:1000', WorkingDir: '/workspace' });
+    expect(sandboxPool.status().containers).toEqual([
+      expect.objectContaining({ sessionId: 's1', image: 'node:20-alpine', state: 'idle', execs: 2 }),
+    ]);
+  });
+
+  it('removes the pooled container when a command times out', async () => {
+    const sandbox = new DockerSandbox({ sessionId: 's1', persistent: true });
+    next = { hang: true };
+
+    await expect(sandbox.execute('sleep 600', workspace, { timeout: 50 })).rejects.toThrow(
+      'Sandbox command timed out after 50ms'
+    );
+
+    const pooled = (await Promise.all(commandContainers())).find((c) => c.spec.User !== 'root')!;
+    expect(pooled.remove).toHaveBeenCalledWith({ force: true });
+    expect(sandboxPool.status().containers).toEqual([]);
+  });
+
+  it('uses the limits and persistence from .agent/sandbox.json, and the operator\'s image', async () => {
+    await fs.outputJson(path.join(workspace, SANDBOX_CONFIG_FILE), {
+      image: 'evil.example/any-image:latest',
+      persistent: true,
+      memoryMb: 2048,
+    });
+
+    const sandbox = new DockerSandbox({ sessionId: 's1', image: 'ghcr.io/acme/klaus-sandbox:py3.12-playwright' });
+    await sandbox.execute('npx playwright test', workspace);
+
+    const [spec] = await createdSpecs();
+    expect(spec.Image).toBe('ghcr.io/acme/klaus-sandbox:py3.12-playwright');
+    expect(spec.HostConfig?.Memory).toBe(2048 * 1024 * 1024);
+    expect(sandboxPool.status().containers).toEqual([
+      expect.objectContaining({ image: 'ghcr.io/acme/klaus-sandbox:py3.12-playwright' }),
+    ]);
+  });
+
+  it('reads .agent/sandbox.json once per run', async () => {
+    const sandbox = new DockerSandbox();
+    await sandbox.execute('npm test', workspace);
+    await fs.outputJson(path.join(workspace, SANDBOX_CONFIG_FILE), { memoryMb: 8192 });
+    await sandbox.execute('npm test', workspace);
+
+    const specs = await createdSpecs();
+    expect(specs.map((s) => s.HostConfig?.Memory)).toEqual([512 * 1024 * 1024, 512 * 1024 * 1024]);
+  });
+});
+
+describe('DockerSandbox network policy', () => {
+  const egress = { egressProxyUrl: 'http://agent:3128' };
+
+  it("puts 'registry' commands on the internal egress network behind the proxy", async () => {
+    const sandbox = new DockerSandbox({ sessionId: 's1', ...egress });
+    await sandbox.execute('npm install', workspace, { network: 'registry' });
+    await sandbox.execute('npx tsc --noEmit', workspace);
+
+    const [install, tsc] = await createdSpecs();
+    expect(install.HostConfig?.NetworkMode).toBe('klaus-sandbox-egress');
+    expect(install.NetworkDisabled).toBe(false);
+    expect(install.Env).toEqual(
+      expect.arrayContaining(['HTTPS_PROXY=http://s1@agent:3128/', 'http_proxy=http://s1@agent:3128/'])
+    );
+    expect(tsc.HostConfig?.NetworkMode).toBe('none');
+    expect(tsc.NetworkDisabled).toBe(true);
+    expect(tsc.Env?.some((e) => e.startsWith('HTTPS_PROXY='))).toBe(false);
+    expect(docker.createNetwork).toHaveBeenCalledTimes(1);
+    expect(docker.createNetwork).toHaveBeenCalledWith(
+      expect.objectContaining({ Name: 'klaus-sandbox-egress', Internal: true })
+    );
+  });
+
+  it('runs installs in their own container in persistent mode', async () => {
+    const sandbox = new DockerSandbox({ sessionId: 's1', persistent: true, ...egress });
+    await sandbox.execute('npm install', workspace, { network: 'registry' });
+
+    const [spec] = await createdSpecs();
+    expect(spec).toMatchObject({ Cmd: ['sh', '-c', 'npm install'], HostConfig: expect.objectContaining({ AutoRemove: true }) });
+    expect(sandboxPool.status().containers).toEqual([]);
+  });
+
+  it('stays offline without an egress proxy', async () => {
+    await new DockerSandbox({ sessionId: 's1' }).execute('npm install', workspace, { network: 'registry' });
+
+    const [spec] = await createdSpecs();
+    expect(spec.HostConfig?.NetworkMode).toBe('none');
+    expect(docker.createNetwork).not.toHaveBeenCalled();
+  });
+});
+
+describe('loadSandboxConfig', () => {
+  it('returns the defaults without a config file', async () => {
+    await expect(loadSandboxConfig(workspace)).resolves.toEqual({});
+  });
+
+  it('rejects an invalid config', async () => {
+    await fs.outputJson(path.join(workspace, SANDBOX_CONFIG_FILE), { memoryMb: 64 });
+    await expect(loadSandboxConfig(workspace)).rejects.toThrow('Invalid .agent/sandbox.json');
+  });
+});
@@ -208,6 +208,23 @@ describe('BuildTool sandbox routing', () => {
     const result = await tool.tscCheck({ packageDir: '.', emitFiles: false });
     expect(result.sandboxed).toBe(false);
   });
+
+  it('streams output to the listener in the sandbox and on the host', async () => {
+    const onOutput = jest.fn();
+    const sandbox = makeSandboxMock();
+    await new BuildTool(workspaceDir, sandbox).npmInstall({ packages: [], saveDev: false, packageDir: '.' }, onOutput);
+    expect(sandbox.execute).toHaveBeenCalledWith(
+      expect.any(String),
+      workspaceDir,
+      expect.objectContaining({ onOutput })
+    );
+
+    mockSpawn.mockReturnValue(
+      makeSpawnMock(0, 'added 3 packages\n') as unknown as ReturnType<typeof spawn>
+    );
+    await new BuildTool(workspaceDir, null).npmInstall({ packages: [], saveDev: false, packageDir: '.' }, onOutput);
+    expect(onOutput).toHaveBeenCalledWith('added 3 packages\n', 'stdout');
+  });
 });
 
 // ─── LintTool sandbox routing ─────────────────────────────────────────────────
@@ -395,6 +412,22 @@ describe('TestTool sandbox routing', () => {
     expect(mockSpawn).not.toHaveBeenCalled();
   });
 
+  it('passes the output listener to the sandbox', async () => {
+    const sandbox = makeSandboxMock(0, 'Tests: 3 passed, 3 total');
+    const onOutput = jest.fn();
+
+    await new TestTool(workspaceDir, sandbox).runTests(
+      { type: 'unit', coverage: false, updateSnapshots: false },
+      onOutput
+    );
+
+    expect(sandbox.execute).toHaveBeenCalledWith(
+      expect.any(String),
+      workspaceDir,
+      expect.objectContaining({ onOutput })
+    );
+  });
+
   it('uses --outputFile path inside /workspace so sandbox can write it', async () => {
     const sandbox = makeSandboxMock(0, 'Tests: 1 passed');
     const tool = new TestTool(workspaceDir, sandbox);
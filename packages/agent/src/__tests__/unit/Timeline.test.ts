@@ -0,0 +1,201 @@
+/**
+ * Tests for the session timeline:
+ *   - file edits keep the file's versions before and after them, and the
+ *     timeline lists edits, checkpoints (with the commit's files) and restores
+ *   - the workspace, or a single file, restores to any point, refusing files
+ *     changed since the session last wrote them unless forced
+ *   - reverting one edit keeps later, non-overlapping edits to the same file
+ *   - restores are timeline entries of their own, and can be reverted too
+ *
+ * Edits go through ToolExecutor in a real git repo in a temp directory.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import simpleGit from 'simple-git';
+import { ToolExecutor } from '../../tools/ToolExecutor';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { buildTimeline, restoreTimeline, revertTimelineEntry, TIMELINE_START } from '../../agent/timeline';
+import { Agent } from '../../agent/Agent';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+const SESSION_ID = 'tttttttt-0000-0000-0000-000000000000';
+
+let workspace: string;
+let memory: DatabaseMemory;
+let executor: ToolExecutor;
+
+function makeConfig(): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+  };
+}
+
+beforeEach(async () => {
+  workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-timeline-')));
+  const git = simpleGit(workspace);
+  await git.init();
+  await git.addConfig('user.email', 'klaus-code@localhost');
+  await git.addConfig('user.name', 'AI Agent');
+  await fs.outputFile(path.join(workspace, 'a.txt'), 'one\n');
+  await fs.outputFile(path.join(workspace, 'c.txt'), 'gone soon\n');
+  await git.add('.');
+  await git.commit('Initial commit');
+
+  memory = new DatabaseMemory(':memory:');
+  await memory.initialize();
+  memory.createSession(SESSION_ID, workspace);
+  executor = new ToolExecutor(makeConfig(), memory, SESSION_ID);
+});
+
+afterEach(async () => {
+  memory.close();
+  await fs.remove(workspace);
+});
+
+async function run(name: string, input: Record<string, unknown>): Promise<string> {
+  const result = await executor.execute({ name, input }, 1);
+  expect(result.error).toBeUndefined();
+  return result.toolCallId;
+}
+
+const read = (file: string) => fs.readFile(path.join(workspace, file), 'utf8');
+const exists = (file: string) => fs.pathExists(path.join(workspace, file));
+
+describe('session timeline', () => {
+  it('lists edits with their operations, checkpoints with their commit, in order', async () => {
+    await run('write_file', { path: 'a.txt', content: 'two\n' });
+    await run('write_file', { path: 'b.txt', content: 'new\n' });
+    await run('git_checkpoint', { message: 'Edit a, add b' });
+    await run('delete_file', { path: 'c.txt' });
+
+    const timeline = await buildTimeline(memory, SESSION_ID, workspace);
+
+    expect(timeline.map((e) => [e.kind, e.files.map((f) => `${f.operation} ${f.path}`)])).toEqual([
+      ['edit', ['modify a.txt']],
+      ['edit', ['create b.txt']],
+      ['checkpoint', ['modify a.txt', 'create b.txt']],
+      ['edit', ['delete c.txt']],
+    ]);
+    const head = (await simpleGit(workspace).log()).latest!;
+    expect(head.hash.startsWith(timeline[2].commit!.shortHash)).toBe(true);
+    expect(timeline[0].files[0].revertible).toBe(true);
+  });
+
+  it('restores the workspace to a point, and to the session start', async () => {
+    const first = await run('write_file', { path: 'a.txt', content: 'two\n' });
+    await run('write_file', { path: 'a.txt', content: 'three\n' });
+    await run('write_file', { path: 'b.txt', content: 'new\n' });
+    await run('delete_file', { path: 'c.txt' });
+
+    const restored = await restoreTimeline(memory, SESSION_ID, workspace, first);
+
+    expect(restored.files.map((f) => f.path).sort()).toEqual(['a.txt', 'b.txt', 'c.txt']);
+    expect(await read('a.txt')).toBe('two\n');
+    expect(await exists('b.txt')).toBe(false);
+    expect(await read('c.txt')).toBe('gone soon\n');
+
+    await restoreTimeline(memory, SESSION_ID, workspace, TIMELINE_START);
+    expect(await read('a.txt')).toBe('one\n');
+
+    // Each restore is an entry of its own, and can be undone like an edit
+    const timeline = await buildTimeline(memory, SESSION_ID, workspace);
+    expect(timeline.slice(-2).map((e) => e.kind)).toEqual(['restore', 'restore']);
+    await revertTimelineEntry(memory, SESSION_ID, workspace, timeline[timeline.length - 1].id);
+    expect(await read('a.txt')).toBe('two\n');
+  });
+
+  it('restores a single file, leaving the others alone', async () => {
+    const first = await run('write_file', { path: 'a.txt', content: 'two\n' });
+    await run('write_file', { path: 'a.txt', content: 'three\n' });
+    await run('write_file', { path: 'b.txt', content: 'new\n' });
+
+    await restoreTimeline(memory, SESSION_ID, workspace, first, { path: 'a.txt' });
+
+    expect(await read('a.txt')).toBe('two\n');
+    expect(await read('b.txt')).toBe('new\n');
+  });
+
+  it('refuses to overwrite a file changed since the session wrote it, unless forced', async () => {
+    await run('write_file', { path: 'a.txt', content: 'two\n' });
+    await fs.writeFile(path.join(workspace, 'a.txt'), 'edited by hand\n');
+
+    await expect(restoreTimeline(memory, SESSION_ID, workspace, TIMELINE_START)).rejects.toThrow('a.txt');
+    expect(await read('a.txt')).toBe('edited by hand\n');
+
+    await restoreTimeline(memory, SESSION_ID, workspace, TIMELINE_START, { force: true });
+    expect(await read('a.txt')).toBe('one\n');
+  });
+
+  it('reverts one edit and keeps later edits that do not overlap it', async () => {
+    await fs.writeFile(path.join(workspace, 'a.txt'), 'one\n2\n3\n4\n5\n6\n7\nend\n');
+    const top = await run('apply_patch', {
+      path: 'a.txt',
+      patch: '--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n-one\n+ONE\n 2\n 3\n',
+    });
+    await run('apply_patch', {
+      path: 'a.txt',
+      patch: '--- a/a.txt\n+++ b/a.txt\n@@ -6,3 +6,3 @@\n 6\n 7\n-end\n+END\n',
+    });
+
+    await revertTimelineEntry(memory, SESSION_ID, workspace, top);
+    expect(await read('a.txt')).toBe('one\n2\n3\n4\n5\n6\n7\nEND\n');
+  });
+
+  it('refuses to revert an edit that later edits overlap', async () => {
+    const first = await run('write_file', { path: 'a.txt', content: 'two\n' });
+    await run('write_file', { path: 'a.txt', content: 'three\n' });
+
+    await expect(revertTimelineEntry(memory, SESSION_ID, workspace, first)).rejects.toThrow('overlap');
+    expect(await read('a.txt')).toBe('three\n');
+  });
+});
+
+describe('session timeline through the agent', () => {
+  it('works in the session workspace, and not while the session runs', async () => {
+    const agent = new Agent(makeConfig(), memory, new ReplayProvider({ turns: [] }));
+    await run('write_file', { path: 'a.txt', content: 'two\n' });
+
+    expect((await agent.getTimeline(SESSION_ID)).map((e) => e.summary)).toEqual(['a.txt']);
+    (agent as any).cancelControllers.set(SESSION_ID, new AbortController());
+    await expect(agent.restoreTimeline(SESSION_ID, TIMELINE_START)).rejects.toThrow('running');
+    (agent as any).cancelControllers.delete(SESSION_ID);
+
+    await agent.restoreTimeline(SESSION_ID, TIMELINE_START);
+    expect(await read('a.txt')).toBe('one\n');
+    await expect(agent.getTimeline('no-such-session')).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for streamed tool output:
+ *   - milestone lines from jest, vitest, act, npm, tsc and eslint become the status
+ *   - ToolExecutor relays output in whole, redacted lines, keeps stdout/stderr
+ *     order, and only sends start/end progress — no simulated percentages
+ *   - the Agent tags tool_progress with the tool call's id, as tool_result does
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { z } from 'zod';
+import { parseMilestone } from '../../tools/milestones';
+import { defineTool, ToolRegistry } from '../../tools/ToolRegistry';
+import { ToolExecutor, type ToolProgress } from '../../tools/ToolExecutor';
+import { COMMANDS_POLICY_FILE } from '../../tools/CommandTool';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../tools/GitTool');
+
+describe('parseMilestone', () => {
+  it.each([
+    ['PASS src/api.test.ts (5.2 s)', 'PASS src/api.test.ts'],
+    ['\x1b[1m\x1b[31mFAIL\x1b[39m\x1b[22m src/db.test.ts', 'FAIL src/db.test.ts'],
+    ['Tests:       1 failed, 11 passed, 12 total', 'Tests: 1 failed, 11 passed, 12 total'],
+    ['Test Suites: 2 passed, 2 total', 'Test Suites: 2 passed, 2 total'],
+    [' Test Files  3 passed (3)', 'Test Files: 3 passed (3)'],
+    ['      Tests  12 passed (12)', 'Tests: 12 passed (12)'],
+    ['[CI/build] ⭐ Run Main npm test', 'build › npm test'],
+    ['[CI/build]   ✅  Success - Main npm test', 'build ✅ npm test'],
+    ['[lint]   ❌  Failure - Run eslint', 'lint ❌ Run eslint'],
+    ['[CI/build] 🏁  Job succeeded', 'build: Job succeeded'],
+    ['added 120 packages, and audited 121 packages in 3s', 'added 120 packages, and audited 121 packages in 3s'],
+    ['Found 3 errors in 2 files.', 'Found 3 errors in 2 files.'],
+    ['✖ 4 problems (3 errors, 1 warning)', '✖ 4 problems (3 errors, 1 warning)'],
+  ])('reads %j', (line, milestone) => {
+    expect(parseMilestone(line)).toBe(milestone);
+  });
+
+  it.each(['', 'console.log output', '  at Object.<anonymous> (src/a.ts:3:9)'])('ignores %j', (line) => {
+    expect(parseMilestone(line)).toBeUndefined();
+  });
+});
+
+describe('ToolExecutor output streaming', () => {
+  let memory: DatabaseMemory;
+
+  beforeEach(async () => {
+    memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    memory.createSession('session-1', os.tmpdir());
+  });
+
+  afterEach(() => {
+    memory.close();
+  });
+
+  const config = { workspaceDir: os.tmpdir(), maxToolResultSize: 10_240, dockerEnabled: false } as Config;
+
+  // Writes the chunks it is given, then returns
+  const streamTool = defineTool({
+    name: 'stream',
+    description: 'Write output.',
+    schema: z.object({ chunks: z.array(z.tuple([z.enum(['stdout', 'stderr']), z.string()])) }),
+    longRunning: true,
+    handler: async ({ chunks }, { onOutput }) => {
+      for (const [stream, chunk] of chunks) onOutput(chunk, stream);
+      return 'done';
+    },
+  });
+
+  async function run(chunks: Array<[string, string]>): Promise<ToolProgress[]> {
+    const events: ToolProgress[] = [];
+    const executor = new ToolExecutor(config, memory, 'session-1', new ToolRegistry([streamTool]));
+    await executor.execute({ name: 'stream', input: { chunks } }, 1, (p) => events.push(p));
+    return events;
+  }
+
+  it('sends whole lines, redacted, with the latest milestone as the status', async () => {
+    const events = await run([
+      ['stdout', 'PASS src/a.test.ts\nkey AKIA'],
+      ['stdout', 'ABCDEFGHIJKLMNOP\n'],
+      ['stdout', 'Tests:       2 passed, 2 total\nno newline at the end'],
+    ]);
+
+    expect(events).toEqual([
+      expect.objectContaining({ progress: 0, status: 'Starting...' }),
+      expect.objectContaining({
+        status: 'Tests: 2 passed, 2 total',
+        stream: 'stdout',
+        output:
+          'PASS src/a.test.ts\nkey [REDACTED:AWS Access Key]\nTests:       2 passed, 2 total\nno newline at the end',
+      }),
+      expect.objectContaining({ progress: 100, status: 'Complete' }),
+    ]);
+    expect(events[1].progress).toBeUndefined();
+  });
+
+  it('keeps stdout and stderr in the order they were written', async () => {
+    const events = await run([
+      ['stdout', 'one\n'],
+      ['stderr', 'warning\n'],
+      ['stdout', 'two\n'],
+    ]);
+
+    expect(events.filter((e) => e.output).map((e) => [e.stream, e.output])).toEqual([
+      ['stdout', 'one\n'],
+      ['stderr', 'warning\n'],
+      ['stdout', 'two\n'],
+    ]);
+  });
+
+  it('sends only start and end for a tool that streams nothing', async () => {
+    const events: ToolProgress[] = [];
+    const slowTool = defineTool({
+      name: 'slow',
+      description: 'Takes a while.',
+      schema: z.object({}),
+      longRunning: true,
+      handler: () => new Promise((resolve) => setTimeout(() => resolve('done'), 700)),
+    });
+    const executor = new ToolExecutor(config, memory, 'session-1', new ToolRegistry([slowTool]));
+
+    await executor.execute({ name: 'slow', input: {} }, 1, (p) => events.push(p));
+
+    expect(events.map((e) => [e.progress, e.status])).toEqual([
+      [0, 'Starting...'],
+      [100, 'Complete'],
+    ]);
+  });
+});
+
+describe('tool_progress in the agent loop', () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-progress-'));
+    await fs.outputFile(path.join(workspace, COMMANDS_POLICY_FILE), 'allow:\n  - node\n');
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspace);
+  });
+
+  it('tags progress with the tool call id and carries the output', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        {
+          toolCalls: [
+            { id: 'toolu_1', name: 'run_command', input: { command: 'node', args: ['-e', 'console.log("PASS a.test.ts")'] } },
+          ],
+        },
+        { text: 'Done.' },
+      ],
+    });
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    const config: Config = {
+      apiKey: '',
+      workspaceDir: workspace,
+      hostWorkspaceDir: workspace,
+      dbPath: ':memory:',
+      logDir: '/tmp/logs',
+      model: REPLAY_MODEL,
+      maxTokens: 1024,
+      maxRetries: 1,
+      apiSecret: undefined,
+      maxContextMessages: 10,
+      tokenBudget: 0,
+      maxToolCalls: 50,
+      maxConcurrentSessions: 3,
+      corsOrigin: 'http://localhost:5173',
+      maxPromptChars: 32_000,
+      trustProxy: false,
+      maxSearchResults: 500,
+      wsRateLimit: 30,
+      shutdownTimeout: 30_000,
+      webhookUrl: undefined,
+      maxToolResultSize: 10_240,
+      metricsEnabled: false,
+      sessionTtl: 86_400_000,
+      sessionCleanupInterval: 300_000,
+      requirePatchApproval: false,
+      apiRetryCount: 0,
+      apiRetryDelay: 1000,
+      apiRetryMaxDelay: 30_000,
+      maxToolOutputContext: 8_000,
+      debugMode: false,
+      dockerEnabled: false,
+      allowHostCommands: true,
+      port: 3001,
+    };
+    const agent = new Agent(config, memory, provider);
+    const events: AgentEvent[] = [];
+
+    await agent.run('run it', 'eeeeeeee-0000-0000-0000-000000000000', (e) => events.push(e));
+    memory.close();
+
+    const progress = events.filter((e) => e.type === 'tool_progress').map((e) => e.data as ToolProgress);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress.every((p) => p.toolCallId === 'toolu_1')).toBe(true);
+    expect(progress).toContainEqual(
+      expect.objectContaining({ output: 'PASS a.test.ts\n', status: 'PASS a.test.ts', stream: 'stdout' })
+    );
+  });
+});
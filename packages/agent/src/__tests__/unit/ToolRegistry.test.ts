@@ -0,0 +1,171 @@
+/**
+ * Tests for the tool registry:
+ *   - defineTool() schemas become the JSON input_schema the model sees
+ *   - registration rejects bad names, duplicates and non-object schemas
+ *   - the built-ins cover every tool with its read-only/long-running flags
+ *   - plugins load from a directory, all-or-none, and failures are reported
+ *   - ToolExecutor validates and runs a registered tool through its handler
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { z } from 'zod';
+import { defineTool, loadToolPlugins, ToolRegistry } from '../../tools/ToolRegistry';
+import { BUILTIN_TOOLS, toolRegistry } from '../../tools/builtins';
+import { ToolExecutor } from '../../tools/ToolExecutor';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import type { Config } from '../../config';
+
+const echoTool = defineTool({
+  name: 'echo',
+  description: 'Echo a message back.',
+  schema: z.object({
+    message: z.string().min(1).describe('Text to echo.'),
+    times: z.number().int().min(1).default(1),
+  }),
+  handler: ({ message, times }) => ({ echoed: Array(times).fill(message).join(' ') }),
+});
+
+describe('ToolRegistry', () => {
+  it('derives the input_schema from the zod schema', () => {
+    const registry = new ToolRegistry([echoTool]);
+
+    expect(registry.definitions()).toEqual([
+      {
+        name: 'echo',
+        description: 'Echo a message back.',
+        input_schema: {
+          type: 'object',
+          properties: {
+            message: { type: 'string', minLength: 1, description: 'Text to echo.' },
+            times: { type: 'integer', minimum: 1, default: 1 },
+          },
+          required: ['message'],
+          additionalProperties: false,
+        },
+      },
+    ]);
+  });
+
+  it.each([
+    ['an invalid name', { ...echoTool, name: 'echo tool' }, 'Invalid tool name'],
+    ['a missing description', { ...echoTool, description: ' ' }, 'needs a description'],
+    ['a non-object schema', { ...echoTool, schema: z.string() as any }, 'needs a zod object schema'],
+  ])('rejects %s', (_, definition, message) => {
+    expect(() => new ToolRegistry([definition])).toThrow(message);
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() => new ToolRegistry([echoTool, echoTool])).toThrow('Tool "echo" is already registered');
+  });
+
+  it('registers every built-in tool', () => {
+    expect(toolRegistry.names()).toEqual(BUILTIN_TOOLS.map((t) => t.name));
+    expect(toolRegistry.has('delegate_task')).toBe(false); // handled by the Agent
+    expect(toolRegistry.names().filter((n) => toolRegistry.isReadOnly(n)).sort()).toEqual([
+      'git_diff',
+      'git_status',
+      'list_files',
+      'memory_get',
+      'read_file',
+      'search_files',
+      'tsc_check',
+    ]);
+    expect(toolRegistry.isLongRunning('npm_install')).toBe(true);
+    expect(toolRegistry.isLongRunning('write_file')).toBe(false);
+  });
+});
+
+describe('loadToolPlugins', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-plugins-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('registers tools from every plugin file in the directory', async () => {
+    await fs.writeFile(
+      path.join(dir, 'a-factory.js'),
+      `module.exports = ({ defineTool, z }) => defineTool({
+        name: 'shout',
+        description: 'Upper-case a string.',
+        schema: z.object({ text: z.string() }),
+        handler: ({ text }) => text.toUpperCase(),
+      });`
+    );
+    await fs.writeFile(
+      path.join(dir, 'b-array.cjs'),
+      // As compiled from a TypeScript plugin with `export default`
+      `Object.defineProperty(exports, '__esModule', { value: true });
+      exports.default = ({ z }) => [
+        { name: 'one', description: 'One.', schema: z.object({}), readOnly: true, handler: () => 1 },
+        { name: 'two', description: 'Two.', schema: z.object({}), handler: () => 2 },
+      ];`
+    );
+    await fs.writeFile(path.join(dir, 'README.md'), 'not a plugin');
+    const registry = new ToolRegistry([echoTool]);
+
+    const loaded = await loadToolPlugins(registry, [dir]);
+
+    expect(loaded).toEqual([
+      { file: path.join(dir, 'a-factory.js'), tools: ['shout'] },
+      { file: path.join(dir, 'b-array.cjs'), tools: ['one', 'two'] },
+    ]);
+    expect(registry.names()).toEqual(['echo', 'shout', 'one', 'two']);
+    expect(registry.isReadOnly('one')).toBe(true);
+  });
+
+  it('skips a plugin that clashes or fails, without registering any of its tools', async () => {
+    await fs.writeFile(
+      path.join(dir, 'clash.js'),
+      `module.exports = ({ z }) => [
+        { name: 'fresh', description: 'New.', schema: z.object({}), handler: () => null },
+        { name: 'echo', description: 'Taken.', schema: z.object({}), handler: () => null },
+      ];`
+    );
+    await fs.writeFile(path.join(dir, 'broken.js'), `throw new Error('boom');`);
+    const registry = new ToolRegistry([echoTool]);
+
+    const loaded = await loadToolPlugins(registry, [dir, path.join(dir, 'missing')]);
+
+    expect(loaded).toEqual([
+      { file: path.join(dir, 'broken.js'), tools: [], error: 'boom' },
+      { file: path.join(dir, 'clash.js'), tools: [], error: 'Tool "echo" is already registered' },
+    ]);
+    expect(registry.names()).toEqual(['echo']);
+  });
+});
+
+describe('ToolExecutor with a custom registry', () => {
+  let memory: DatabaseMemory;
+
+  beforeEach(async () => {
+    memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    memory.createSession('session-1', os.tmpdir());
+  });
+
+  afterEach(() => {
+    memory.close();
+  });
+
+  const config = { workspaceDir: os.tmpdir(), maxToolResultSize: 10_240, dockerEnabled: false } as Config;
+
+  it('validates the input and runs the handler', async () => {
+    const executor = new ToolExecutor(config, memory, 'session-1', new ToolRegistry([echoTool]));
+
+    const ok = await executor.execute({ name: 'echo', input: { message: 'hi', times: 2 } });
+    const invalid = await executor.execute({ name: 'echo', input: {} }, 1);
+    const unknown = await executor.execute({ name: 'read_file', input: { path: 'a.ts' } });
+
+    expect(ok).toMatchObject({ success: true, result: { echoed: 'hi hi' } });
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toContain('Validation failed');
+    expect(unknown.error).toBe('Unknown tool: "read_file". Available tools: echo');
+  });
+});
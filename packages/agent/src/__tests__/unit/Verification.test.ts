@@ -0,0 +1,233 @@
+/**
+ * Tests for post-edit verification (.agent/verify.json):
+ *   - policy rules pick checks from the edited paths and scope them to those files
+ *   - the Agent runs the checks when the model ends its turn with unverified edits,
+ *     feeds failures back as a user turn, and stops after maxIterations
+ *   - the run result carries a verification report
+ *
+ * The model is a ReplayProvider; DatabaseMemory, ToolExecutor and GitTool are mocked.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Agent, AgentEvent } from '../../agent/Agent';
+import { planChecks, VerificationPolicySchema, type VerificationPolicy } from '../../agent/verification';
+import { globToRegExp } from '../../utils/glob';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+jest.mock('../../memory/DatabaseMemory');
+jest.mock('../../tools/ToolExecutor');
+jest.mock('../../tools/GitTool');
+
+import { ToolExecutor } from '../../tools/ToolExecutor';
+
+const SESSION_ID = 'cccccccc-0000-0000-0000-000000000000';
+
+const policy = (raw: unknown): VerificationPolicy => VerificationPolicySchema.parse(raw);
+
+describe('verification policy', () => {
+  it.each([
+    ['src/', 'src/agent/Agent.ts', true],
+    ['src/', 'test/a.ts', false],
+    ['src/**/*.ts', 'src/a.ts', true],
+    ['src/**/*.ts', 'src/agent/a.tsx', false],
+    ['*.json', 'package.json', true],
+    ['*.json', 'config/app.json', false],
+  ])('glob %s matches %s: %s', (glob, file, expected) => {
+    expect(globToRegExp(glob).test(file)).toBe(expected);
+  });
+
+  it('plans checks scoped to the edits that match each rule', () => {
+    const p = policy({
+      rules: [
+        { after: ['apply_patch'], paths: ['src/'], checks: ['tsc_check', 'run_tests'] },
+        { paths: ['src/', 'test/'], checks: ['eslint_check', 'tsc_check'] },
+      ],
+    });
+
+    const checks = planChecks(p, [
+      { tool: 'apply_patch', path: 'src/agent/Agent.ts' },
+      { tool: 'write_file', path: 'test/helpers.ts' },
+      { tool: 'apply_patch', path: 'README.md' },
+    ]);
+
+    expect(checks).toEqual([
+      { tool: 'tsc_check', input: {}, files: ['src/agent/Agent.ts', 'test/helpers.ts'] },
+      { tool: 'run_tests', input: { testPattern: 'Agent', coverage: false }, files: ['src/agent/Agent.ts'] },
+      { tool: 'eslint_check', input: { paths: ['src/agent/Agent.ts', 'test/helpers.ts'] }, files: ['src/agent/Agent.ts', 'test/helpers.ts'] },
+    ]);
+  });
+
+  it('does not lint deleted files and keeps explicit inputs', () => {
+    const p = policy({
+      rules: [{ checks: ['eslint_check', { tool: 'npm_run', input: { script: 'build' } }] }],
+    });
+
+    expect(planChecks(p, [{ tool: 'delete_file', path: 'src/old.ts' }])).toEqual([
+      { tool: 'npm_run', input: { script: 'build' }, files: ['src/old.ts'] },
+    ]);
+  });
+
+  it('rejects checks that are not verification tools', () => {
+    expect(VerificationPolicySchema.safeParse({ rules: [{ checks: ['git_push'] }] }).success).toBe(false);
+  });
+});
+
+// ─── Agent loop ───────────────────────────────────────────────────────────────
+
+let workspace: string;
+
+beforeAll(async () => {
+  workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-verify-'));
+});
+
+afterAll(async () => {
+  await fs.remove(workspace);
+});
+
+async function writePolicy(raw: unknown): Promise<void> {
+  await fs.outputJson(path.join(workspace, '.agent', 'verify.json'), raw);
+}
+
+function makeConfig(): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+  };
+}
+
+function makeMemory(): jest.Mocked<DatabaseMemory> {
+  const m = new DatabaseMemory(':memory:') as jest.Mocked<DatabaseMemory>;
+  m.getSession = jest.fn().mockReturnValue(null);
+  m.createSession = jest.fn();
+  m.addMessage = jest.fn();
+  m.getMessages = jest.fn().mockReturnValue([]);
+  m.getRecentMessages = jest.fn().mockReturnValue([]);
+  m.recordTokenUsage = jest.fn();
+  m.listKnowledge = jest.fn().mockReturnValue([]);
+  m.getSessionTokenUsage = jest.fn().mockReturnValue({
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  });
+  m.updateSessionSummary = jest.fn();
+  m.saveRunCheckpoint = jest.fn();
+  m.getRunCheckpoint = jest.fn().mockReturnValue(undefined);
+  m.setRunStatus = jest.fn();
+  return m;
+}
+
+const TSC_FAILURE = { success: false, stdout: "src/a.ts(1,7): error TS2322: Type 'string' is not assignable to type 'number'." };
+
+// Executor that applies edits and answers tsc_check from a queue of outcomes
+function mockExecutor(tscResults: Array<{ success: boolean; stdout?: string }>) {
+  ToolExecutor.prototype.execute = jest.fn().mockImplementation(async ({ name }) => ({
+    toolCallId: 'x',
+    toolName: name,
+    result: name === 'tsc_check' ? tscResults.shift() : { path: 'src/a.ts' },
+    success: true,
+    durationMs: 1,
+  }));
+}
+
+const editTurn = (id: string) => ({
+  toolCalls: [{ id, name: 'apply_patch', input: { path: 'src/a.ts', patch: '@@' } }],
+});
+
+describe('post-edit verification in the agent loop', () => {
+  afterEach(async () => {
+    await fs.remove(path.join(workspace, '.agent'));
+  });
+
+  it('feeds failing checks back to the model until they pass', async () => {
+    await writePolicy({ rules: [{ after: ['apply_patch'], paths: ['src/'], checks: ['tsc_check'] }] });
+    mockExecutor([TSC_FAILURE, { success: true, stdout: '' }]);
+    const provider = new ReplayProvider({
+      turns: [editTurn('e1'), { text: 'Done.' }, editTurn('e2'), { text: 'Fixed the type error.' }],
+    });
+    const memory = makeMemory();
+    const agent = new Agent(makeConfig(), memory, provider);
+    const events: AgentEvent[] = [];
+
+    const result = await agent.run('change a', SESSION_ID, (e) => events.push(e));
+
+    expect(provider.remainingTurns).toBe(0);
+    // The failure reached the model as a user turn
+    const feedback = provider.requests[2].messages.at(-1)!;
+    expect(feedback.role).toBe('user');
+    expect(feedback.content).toContain('tsc_check failed (after changes to src/a.ts)');
+    expect(feedback.content).toContain('error TS2322');
+    expect(memory.addMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'user', metadata: { verification: true, iteration: 1 } })
+    );
+
+    expect(result.verification).toMatchObject({ passed: true, iterations: 2, maxIterations: 3 });
+    expect(result.verification!.checks.map((c) => [c.tool, c.iteration, c.passed])).toEqual([
+      ['tsc_check', 1, false],
+      ['tsc_check', 2, true],
+    ]);
+    const rounds = events.filter((e) => e.type === 'verification').map((e) => (e.data as any).retrying);
+    expect(rounds).toEqual([true, false]);
+  });
+
+  it('stops after maxIterations and reports the failure', async () => {
+    await writePolicy({ maxIterations: 1, rules: [{ checks: ['tsc_check'] }] });
+    mockExecutor([TSC_FAILURE, TSC_FAILURE]);
+    const provider = new ReplayProvider({
+      turns: [editTurn('e1'), { text: 'Done.' }, { text: 'Still done.' }, { text: 'never reached' }],
+    });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+
+    const result = await agent.run('change a', SESSION_ID);
+
+    expect(provider.remainingTurns).toBe(1);
+    expect(result.verification).toMatchObject({ passed: false, iterations: 2, maxIterations: 1 });
+  });
+
+  it('runs nothing without a policy or without edits', async () => {
+    mockExecutor([]);
+    const provider = new ReplayProvider({ turns: [editTurn('e1'), { text: 'Done.' }] });
+    const agent = new Agent(makeConfig(), makeMemory(), provider);
+
+    const result = await agent.run('change a', SESSION_ID);
+
+    expect(result.verification).toBeUndefined();
+    expect(ToolExecutor.prototype.execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Tests for multiple workspaces in one server:
+ *   - the workspace registry in DatabaseMemory, and sessions listed per workspace
+ *   - a run in a registered workspace works in its directory, with its
+ *     settings (model, token budget, patch approval) over the global Config
+ *   - a session stays in its workspace; an unknown workspace is refused
+ *   - a workspace's host path for bind mounts follows AGENT_HOST_WORKSPACE
+ *   - the /api/workspaces routes and the workspaceId on prompts and sessions
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import request from 'supertest';
+import express from 'express';
+import { DatabaseMemory, DEFAULT_WORKSPACE_ID } from '../../memory/DatabaseMemory';
+import { Agent, type AgentEvent, type PendingPatchApproval } from '../../agent/Agent';
+import { AgentServer } from '../../server/AgentServer';
+import { applyWorkspaceSettings, withWorkspaceDir } from '../../agent/workspaces';
+import { ReplayProvider, REPLAY_MODEL, type ReplayTurn } from '../../providers';
+import type { Config } from '../../config';
+
+let defaultDir: string;
+let projectDir: string;
+let memory: DatabaseMemory;
+
+function makeConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    apiKey: '',
+    workspaceDir: defaultDir,
+    hostWorkspaceDir: defaultDir,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: 'a-valid-secret-longer-than-16-chars',
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  defaultDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-ws-default-')));
+  projectDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-ws-project-')));
+  await fs.writeFile(path.join(defaultDir, 'a.txt'), 'default\n');
+  await fs.writeFile(path.join(projectDir, 'a.txt'), 'project\n');
+  memory = new DatabaseMemory(':memory:');
+  await memory.initialize();
+});
+
+afterEach(async () => {
+  memory.close();
+  await fs.remove(defaultDir);
+  await fs.remove(projectDir);
+});
+
+const WRITE_A = { toolCalls: [{ name: 'write_file', input: { path: 'a.txt', content: 'edited\n' } }] };
+
+describe('workspace registry', () => {
+  it('registers, renames, reconfigures and removes workspaces', () => {
+    memory.createWorkspace({ id: 'w1', name: 'Project', path: projectDir, settings: { tokenBudget: 500 } });
+
+    expect(memory.getWorkspace('w1')).toMatchObject({ name: 'Project', path: projectDir, settings: { tokenBudget: 500 } });
+    expect(memory.getWorkspaceByPath(projectDir)?.id).toBe('w1');
+
+    const updated = memory.updateWorkspace('w1', { name: 'Renamed', settings: { model: REPLAY_MODEL } });
+    expect(updated).toMatchObject({ name: 'Renamed', path: projectDir, settings: { model: REPLAY_MODEL } });
+    expect(memory.updateWorkspace('missing', { name: 'x' })).toBeUndefined();
+
+    expect(memory.listWorkspaces().map((w) => w.id)).toEqual(['w1']);
+    expect(memory.deleteWorkspace('w1')).toBe(true);
+    expect(memory.listWorkspaces()).toEqual([]);
+  });
+
+  it('lists and searches sessions per workspace', () => {
+    memory.createWorkspace({ id: 'w1', name: 'Project', path: projectDir });
+    memory.createSession('s-default', defaultDir);
+    memory.createSession('s-project', projectDir, { workspaceId: 'w1' });
+    memory.updateSessionSummary('s-default', 'fix the login');
+    memory.updateSessionSummary('s-project', 'fix the build');
+
+    expect(memory.listSessions(20, { workspaceId: 'w1' }).map((s) => s.id)).toEqual(['s-project']);
+    expect(memory.listSessions(20, { workspaceId: DEFAULT_WORKSPACE_ID }).map((s) => s.id)).toEqual(['s-default']);
+    expect(memory.listSessions(20)).toHaveLength(2);
+    expect(memory.searchSessions('fix', 20, { workspaceId: 'w1' }).map((s) => s.id)).toEqual(['s-project']);
+    expect(memory.getSession('s-project')?.workspaceId).toBe('w1');
+    expect(memory.countWorkspaceSessions('w1')).toBe(1);
+  });
+
+  it('maps a workspace to its host path for sandbox bind mounts', () => {
+    // The agent in Docker: AGENT_WORKSPACE=/workspace is /srv/projects on the host
+    const config = makeConfig({ workspaceDir: '/workspace', hostWorkspaceDir: '/srv/projects' });
+    const at = (p: string) => ({ id: 'w1', name: 'W', path: p, settings: {}, createdAt: new Date(), updatedAt: new Date() });
+
+    expect(applyWorkspaceSettings(config, at('/workspace/api'))).toMatchObject({
+      workspaceDir: '/workspace/api',
+      hostWorkspaceDir: '/srv/projects/api',
+    });
+    expect(applyWorkspaceSettings(config, at('/workspace')).hostWorkspaceDir).toBe('/srv/projects');
+    expect(applyWorkspaceSettings(config, at('/data/other')).hostWorkspaceDir).toBe('/data/other');
+  });
+
+  it('moves the host path along with a --workspace override', () => {
+    const config = makeConfig({ workspaceDir: '/workspace', hostWorkspaceDir: '/srv/projects' });
+
+    expect(withWorkspaceDir(config, '/workspace/api')).toMatchObject({
+      workspaceDir: '/workspace/api',
+      hostWorkspaceDir: '/srv/projects/api',
+    });
+    // Outside the configured workspace the path is the same on the host
+    expect(withWorkspaceDir(config, projectDir).hostWorkspaceDir).toBe(projectDir);
+    expect(withWorkspaceDir(makeConfig(), projectDir).hostWorkspaceDir).toBe(projectDir);
+  });
+});
+
+describe('runs in a workspace', () => {
+  function makeAgent(turns: ReplayTurn[], config: Partial<Config> = {}) {
+    const provider = new ReplayProvider({ turns });
+    return { agent: new Agent(makeConfig(config), memory, provider), provider };
+  }
+
+  it("works in the workspace's directory with its model", async () => {
+    memory.createWorkspace({ id: 'w1', name: 'Project', path: projectDir, settings: { model: REPLAY_MODEL } });
+    const { agent, provider } = makeAgent([WRITE_A, { text: 'Done.' }], { model: 'global-model' });
+
+    const result = await agent.run('edit a.txt', 's1', undefined, { workspaceId: 'w1' });
+
+    expect(result.model).toBe(REPLAY_MODEL);
+    expect(provider.requests[0].model).toBe(REPLAY_MODEL);
+    expect(await fs.readFile(path.join(projectDir, 'a.txt'), 'utf8')).toBe('edited\n');
+    expect(await fs.readFile(path.join(defaultDir, 'a.txt'), 'utf8')).toBe('default\n');
+    expect(memory.getSession('s1')).toMatchObject({ workspaceId: 'w1', workspaceDir: projectDir });
+  });
+
+  it("applies the workspace's token budget", async () => {
+    memory.createWorkspace({ id: 'w1', name: 'Project', path: projectDir, settings: { tokenBudget: 1_000 } });
+    const usage = { inputTokens: 600, outputTokens: 100 };
+    const READ_A = { toolCalls: [{ name: 'read_file', input: { path: 'a.txt' } }], usage };
+    const { agent } = makeAgent([READ_A, READ_A, { text: 'Done.' }]);
+    const events: AgentEvent[] = [];
+
+    await agent.run('read a.txt', 's1', (e) => events.push(e), { workspaceId: 'w1' });
+
+    expect(events.some((e) => e.type === 'budget_exceeded')).toBe(true);
+  });
+
+  it('asks for patch approval when the workspace requires it', async () => {
+    memory.createWorkspace({ id: 'w1', name: 'Project', path: projectDir, settings: { requirePatchApproval: true } });
+    const { agent } = makeAgent([WRITE_A, { text: 'Done.' }]);
+    const events: AgentEvent[] = [];
+
+    await agent.run(
+      'edit a.txt',
+      's1',
+      (e) => {
+        events.push(e);
+        if (e.type === 'patch_approval_required') {
+          const { patchId } = e.data as PendingPatchApproval;
+          setImmediate(() => agent.resolvePatchApproval(patchId, false));
+        }
+      },
+      { workspaceId: 'w1' }
+    );
+
+    expect(events.some((e) => e.type === 'patch_approval_required')).toBe(true);
+    expect(await fs.readFile(path.join(projectDir, 'a.txt'), 'utf8')).toBe('project\n');
+  });
+
+  it('keeps a session in its workspace and refuses unknown workspaces', async () => {
+    memory.createWorkspace({ id: 'w1', name: 'Project', path: projectDir });
+    const { agent } = makeAgent([{ text: 'One.' }, { text: 'Two.' }]);
+
+    await expect(agent.run('hi', 's1', undefined, { workspaceId: 'nope' })).rejects.toThrow(
+      'Unknown workspace "nope"'
+    );
+    expect(agent.activeSessionCount).toBe(0);
+    await agent.run('hi', 's1', undefined, { workspaceId: 'w1' });
+    await expect(agent.run('again', 's1', undefined, { workspaceId: DEFAULT_WORKSPACE_ID })).rejects.toThrow(
+      'belongs to workspace "w1"'
+    );
+    // Without a workspace, a session carries on in its own
+    await agent.run('again', 's1');
+    expect(memory.getSession('s1')?.workspaceId).toBe('w1');
+  });
+});
+
+describe('workspace routes', () => {
+  function buildApp(turns: ReplayTurn[] = []) {
+    const config = makeConfig();
+    const agent = new Agent(config, memory, new ReplayProvider({ turns }));
+    const server = new AgentServer(agent, memory, config, config.port);
+    const app = (server as unknown as { app: express.Application }).app;
+    const auth = { Authorization: `Bearer ${config.apiSecret}` };
+    return { app, auth };
+  }
+
+  it('registers a workspace and lists it after the default one', async () => {
+    const { app, auth } = buildApp();
+
+    const created = await request(app).post('/api/workspaces').set(auth).send({ name: 'Project', path: projectDir });
+    expect(created.status).toBe(201);
+    const id = created.body.workspace.id;
+
+    const list = await request(app).get('/api/workspaces').set(auth);
+    expect(list.body.workspaces.map((w: { id: string }) => w.id)).toEqual([DEFAULT_WORKSPACE_ID, id]);
+    expect(list.body.workspaces[0]).toMatchObject({ path: defaultDir, isDefault: true });
+
+    const updated = await request(app)
+      .put(`/api/workspaces/${id}`)
+      .set(auth)
+      .send({ settings: { requirePatchApproval: true } });
+    expect(updated.body.workspace.settings).toEqual({ requirePatchApproval: true });
+
+    expect((await request(app).delete(`/api/workspaces/${id}`).set(auth)).status).toBe(200);
+    expect((await request(app).get(`/api/workspaces/${id}`).set(auth)).status).toBe(404);
+  });
+
+  it('rejects missing directories, duplicate paths, unknown models, bad images and unknown settings', async () => {
+    const { app, auth } = buildApp();
+    const post = (body: object) => request(app).post('/api/workspaces').set(auth).send(body);
+
+    expect((await post({ name: 'Gone', path: path.join(projectDir, 'missing') })).status).toBe(400);
+    expect((await post({ name: 'Relative', path: 'project' })).status).toBe(400);
+    expect((await post({ name: 'Default', path: defaultDir })).status).toBe(409);
+    expect((await post({ name: 'Model', path: projectDir, settings: { model: 'no-such-model' } })).body.error).toContain(
+      'Unknown model "no-such-model"'
+    );
+    expect((await post({ name: 'Extra', path: projectDir, settings: { maxToolCalls: 5 } })).status).toBe(400);
+    expect((await post({ name: 'Image', path: projectDir, settings: { sandboxImage: 'node:20 && rm -rf /' } })).status).toBe(
+      400
+    );
+    expect((await post({ name: 'Project', path: projectDir })).status).toBe(201);
+    expect((await post({ name: 'Again', path: projectDir })).status).toBe(409);
+  });
+
+  it('runs prompts in a workspace, filters its sessions and keeps it while it has sessions', async () => {
+    memory.createWorkspace({ id: 'w1', name: 'Project', path: projectDir });
+    const { app, auth } = buildApp([{ text: 'Hello.' }]);
+
+    const unknown = await request(app).post('/api/prompt').set(auth).send({ message: 'hi', workspaceId: 'nope' });
+    expect(unknown.status).toBe(400);
+
+    const prompt = await request(app).post('/api/prompt').set(auth).send({ message: 'hi', workspaceId: 'w1' });
+    expect(prompt.status).toBe(200);
+
+    const sessions = await request(app).get('/api/sessions?workspaceId=w1').set(auth);
+    expect(sessions.body.sessions.map((s: { id: string }) => s.id)).toEqual([prompt.body.sessionId]);
+    const others = await request(app).get(`/api/sessions?workspaceId=${DEFAULT_WORKSPACE_ID}`).set(auth);
+    expect(others.body.sessions).toEqual([]);
+
+    const tree = await request(app).get('/api/workspace/tree?workspaceId=w1').set(auth);
+    expect(tree.body.workspace).toBe(projectDir);
+    const file = await request(app).get('/api/workspace/file?path=a.txt&workspaceId=w1').set(auth);
+    expect(file.body.content).toBe('project\n');
+
+    expect((await request(app).delete('/api/workspaces/w1').set(auth)).status).toBe(409);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for session worktrees (AGENT_SESSION_WORKTREES):
+ *   - a session's worktree is a checkout of its own klaus/<id> branch, which
+ *     the main checkout neither sees nor commits
+ *   - finishing merges the branch (uncommitted edits included), squashes it
+ *     into one commit, or discards it — and removes worktree and branch
+ *   - a conflicting merge is aborted, leaving both checkouts as they were
+ *   - an agent run edits the session's worktree, not the shared workspace
+ *
+ * The workspace is a real git repo in a temp directory.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import simpleGit from 'simple-git';
+import { createWorktree, finishWorktree, worktreeStatus } from '../../agent/worktree';
+import { DatabaseMemory } from '../../memory/DatabaseMemory';
+import { Agent } from '../../agent/Agent';
+import { ReplayProvider, REPLAY_MODEL } from '../../providers';
+import type { Config } from '../../config';
+
+const SESSION_ID = 'aaaaaaaa-0000-0000-0000-000000000000';
+const BRANCH = 'klaus/aaaaaaaa';
+
+let workspace: string;
+
+beforeEach(async () => {
+  workspace = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-worktree-')));
+  const git = simpleGit(workspace);
+  await git.init();
+  await git.addConfig('user.email', 'test@localhost');
+  await git.addConfig('user.name', 'Test');
+  await fs.outputFile(path.join(workspace, 'a.txt'), 'one\n');
+  await git.add('.');
+  await git.commit('Initial commit');
+});
+
+afterEach(async () => {
+  await fs.remove(workspace);
+});
+
+function makeConfig(): Config {
+  return {
+    apiKey: '',
+    workspaceDir: workspace,
+    hostWorkspaceDir: workspace,
+    dbPath: ':memory:',
+    logDir: '/tmp/logs',
+    model: REPLAY_MODEL,
+    maxTokens: 1024,
+    maxRetries: 1,
+    apiSecret: undefined,
+    maxContextMessages: 10,
+    tokenBudget: 0,
+    maxToolCalls: 50,
+    maxConcurrentSessions: 3,
+    corsOrigin: 'http://localhost:5173',
+    maxPromptChars: 32_000,
+    trustProxy: false,
+    maxSearchResults: 500,
+    wsRateLimit: 30,
+    shutdownTimeout: 30_000,
+    webhookUrl: undefined,
+    maxToolResultSize: 10_240,
+    metricsEnabled: false,
+    sessionTtl: 86_400_000,
+    sessionCleanupInterval: 300_000,
+    sessionWorktrees: true,
+    requirePatchApproval: false,
+    apiRetryCount: 0,
+    apiRetryDelay: 1000,
+    apiRetryMaxDelay: 30_000,
+    maxToolOutputContext: 8_000,
+    debugMode: false,
+    dockerEnabled: false,
+    port: 3001,
+  };
+}
+
+async function branches(): Promise<string[]> {
+  return (await simpleGit(workspace).branchLocal()).all;
+}
+
+describe('session worktrees', () => {
+  it('checks the session branch out under .klaus/, which the main checkout ignores', async () => {
+    const worktree = (await createWorktree(workspace, SESSION_ID))!;
+
+    expect(worktree).toEqual({ path: path.join(workspace, '.klaus', 'worktrees', 'aaaaaaaa'), branch: BRANCH });
+    expect(await fs.readFile(path.join(worktree.path, 'a.txt'), 'utf8')).toBe('one\n');
+    expect(await branches()).toContain(BRANCH);
+    expect((await simpleGit(workspace).status()).isClean()).toBe(true);
+
+    await fs.writeFile(path.join(worktree.path, 'b.txt'), 'two\n');
+    expect(await worktreeStatus(workspace, worktree)).toMatchObject({ commits: 0, uncommitted: 1 });
+    expect(await fs.pathExists(path.join(workspace, 'b.txt'))).toBe(false);
+  });
+
+  it('is not created in a repo without commits', async () => {
+    const empty = await fs.mkdtemp(path.join(os.tmpdir(), 'klaus-worktree-empty-'));
+    await simpleGit(empty).init();
+    expect(await createWorktree(empty, SESSION_ID)).toBeNull();
+    await fs.remove(empty);
+  });
+
+  it('merges the branch, uncommitted edits included, then removes worktree and branch', async () => {
+    const worktree = (await createWorktree(workspace, SESSION_ID))!;
+    const session = simpleGit(worktree.path);
+    await fs.writeFile(path.join(worktree.path, 'b.txt'), 'two\n');
+    await session.add('.');
+    await session.commit('Add b');
+    await fs.writeFile(path.join(worktree.path, 'c.txt'), 'three\n');
+
+    const result = await finishWorktree(workspace, worktree, 'merge', 'Merge session');
+
+    expect(result).toMatchObject({ action: 'merge', branch: BRANCH, success: true, conflicts: [] });
+    expect(await fs.readFile(path.join(workspace, 'b.txt'), 'utf8')).toBe('two\n');
+    expect(await fs.readFile(path.join(workspace, 'c.txt'), 'utf8')).toBe('three\n');
+    expect((await simpleGit(workspace).log()).latest!.message).toBe('Merge session');
+    expect(await fs.pathExists(worktree.path)).toBe(false);
+    expect(await branches()).not.toContain(BRANCH);
+  });
+
+  it('squash-merges the branch into a single commit', async () => {
+    const worktree = (await createWorktree(workspace, SESSION_ID))!;
+    const session = simpleGit(worktree.path);
+    for (const name of ['b.txt', 'c.txt']) {
+      await fs.writeFile(path.join(worktree.path, name), `${name}\n`);
+      await session.add('.');
+      await session.commit(`Add ${name}`);
+    }
+
+    const result = await finishWorktree(workspace, worktree, 'squash', 'Squashed session');
+
+    expect(result.success).toBe(true);
+    const log = await simpleGit(workspace).log();
+    expect(log.all.map((c) => c.message)).toEqual(['Squashed session', 'Initial commit']);
+    expect(await fs.pathExists(path.join(workspace, 'c.txt'))).toBe(true);
+    expect(await branches()).not.toContain(BRANCH);
+  });
+
+  it('discards the branch and its changes', async () => {
+    const worktree = (await createWorktree(workspace, SESSION_ID))!;
+    await fs.writeFile(path.join(worktree.path, 'b.txt'), 'two\n');
+
+    expect((await finishWorktree(workspace, worktree, 'discard', '')).success).toBe(true);
+    expect(await fs.pathExists(worktree.path)).toBe(false);
+    expect(await fs.pathExists(path.join(workspace, 'b.txt'))).toBe(false);
+    expect(await branches()).not.toContain(BRANCH);
+  });
+
+  it.each(['merge', 'squash'] as const)('aborts a conflicting %s and keeps the worktree', async (action) => {
+    const worktree = (await createWorktree(workspace, SESSION_ID))!;
+    await fs.writeFile(path.join(worktree.path, 'a.txt'), 'session\n');
+    const main = simpleGit(workspace);
+    await fs.writeFile(path.join(workspace, 'a.txt'), 'main\n');
+    await main.add('.');
+    await main.commit('Edit a on main');
+
+    const result = await finishWorktree(workspace, worktree, action, 'Merge session');
+
+    expect(result).toMatchObject({ success: false, conflicts: ['a.txt'] });
+    expect(await fs.readFile(path.join(workspace, 'a.txt'), 'utf8')).toBe('main\n');
+    expect((await main.status()).isClean()).toBe(true);
+    expect(await fs.pathExists(worktree.path)).toBe(true);
+    expect(await branches()).toContain(BRANCH);
+  });
+});
+
+describe('session worktrees in the agent loop', () => {
+  it('edits the session worktree, and merges it back when finished', async () => {
+    const provider = new ReplayProvider({
+      turns: [
+        { toolCalls: [{ id: 'w1', name: 'write_file', input: { path: 'b.txt', content: 'from the agent\n' } }] },
+        { text: 'Wrote b.txt.' },
+      ],
+    });
+    const memory = new DatabaseMemory(':memory:');
+    await memory.initialize();
+    const agent = new Agent(makeConfig(), memory, provider);
+
+    await agent.run('write b', SESSION_ID);
+
+    const worktree = memory.getSession(SESSION_ID)!.worktree!;
+    expect(worktree.branch).toBe(BRANCH);
+    expect(await fs.readFile(path.join(worktree.path, 'b.txt'), 'utf8')).toBe('from the agent\n');
+    expect(await fs.pathExists(path.join(workspace, 'b.txt'))).toBe(false);
+    expect(await agent.getWorktree(SESSION_ID)).toMatchObject({ branch: BRANCH, uncommitted: 1 });
+
+    const result = await agent.finishWorktree(SESSION_ID, 'squash');
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(path.join(workspace, 'b.txt'), 'utf8')).toBe('from the agent\n');
+    expect(memory.getSession(SESSION_ID)!.worktree).toBeUndefined();
+    await expect(agent.finishWorktree(SESSION_ID, 'merge')).rejects.toThrow('no worktree');
+    memory.close();
+  });
+});
@@ -1,12 +1,72 @@
-import Anthropic from '@anthropic-ai/sdk';
+import type Anthropic from '@anthropic-ai/sdk';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { DatabaseMemory } from '../memory/DatabaseMemory';
-import { ToolExecutor, TOOL_DEFINITIONS } from '../tools/ToolExecutor';
+import {
+  DatabaseMemory,
+  DEFAULT_WORKSPACE_ID,
+  type MemoryEntry,
+  type RunCheckpoint,
+  type RunStatus,
+  type SessionWorktree,
+  type TokenUsage,
+  type UserRole,
+} from '../memory/DatabaseMemory';
+import { ToolExecutor, type ToolProgress, type ToolResult } from '../tools/ToolExecutor';
+import { toolRegistry } from '../tools/builtins';
+import { toProviderTool, type ToolRegistry } from '../tools/ToolRegistry';
+import { connectMcpServers, type McpConnections } from '../tools/McpClient';
+import { DelegateTaskSchema, PlanSchema, type Plan } from '../tools/schemas';
 import { GitTool } from '../tools/GitTool';
+import { FileTool, type FileChangePreview } from '../tools/FileTool';
+import { DryRunOverlay, type DryRunFileChange, type DryRunReport } from '../tools/DryRunOverlay';
+import { formatFinding, loadSecretScanner } from '../tools/SecretScanner';
 import { logger, createChildLogger, logApiDebug } from '../logger';
-import { AtomicCounter } from '../utils/Mutex';
+import { AtomicCounter, Mutex } from '../utils/Mutex';
+import {
+  contextWindowForModel,
+  createProvider,
+  estimateModelCost,
+  type CacheUsage,
+  type ModelProvider,
+} from '../providers';
+import { ContextManager, estimateTokens, transcriptToText } from './ContextManager';
+import { appendHistory, appendMessage, assistantBlocksForHistory } from './history';
+import { approvedPlanBrief, PLANNING_BRIEF, PROPOSE_PLAN_TOOL, type RunMode } from './plan';
+import {
+  checkPassed,
+  EDIT_TOOLS,
+  loadVerificationPolicy,
+  planChecks,
+  verificationFeedback,
+  type FileEdit,
+  type PlannedCheck,
+  type VerificationPolicy,
+  type VerificationReport,
+} from './verification';
+import {
+  decidePermission,
+  INVALID_FILE_PERMISSION_POLICY,
+  loadPermissionPolicy,
+  PERMISSIONS_POLICY_FILE,
+  type PermissionPolicy,
+} from './permissions';
+import {
+  buildTimeline,
+  restoreTimeline,
+  revertTimelineEntry,
+  type RestoreResult,
+  type TimelineEntry,
+} from './timeline';
+import {
+  createWorktree,
+  finishWorktree,
+  worktreeStatus,
+  type WorktreeAction,
+  type WorktreeFinishResult,
+  type WorktreeStatus,
+} from './worktree';
+import { applyWorkspaceSettings } from './workspaces';
 import type { Config } from '../config';
 import type { MessageParam } from '@anthropic-ai/sdk/resources/messages';
 
@@ -17,6 +77,9 @@ export interface AgentRunResult {
   success: boolean;
   durationMs: number;
   model: string;
+  finalMessage?: string; // last assistant text, before it is condensed into `summary`
+  verification?: VerificationReport; // set when the workspace's post-edit checks ran
+  dryRun?: DryRunReport; // set for a dry run: the changes and side effects it held back
   tokenUsage: {
     inputTokens: number;
     outputTokens: number;
@@ -24,6 +87,16 @@ export interface AgentRunResult {
   };
 }
 
+export interface RunOptions {
+  model?: string;
+  planningModel?: string;
+  codingModel?: string;
+  mode?: RunMode; // 'plan' = read-only planning phase and an approved plan before any writes
+  dryRun?: boolean; // edit an in-memory overlay and record side effects instead of performing them
+  workspaceId?: string; // registered workspace for a new session; an existing session keeps its own
+  user?: { id: string; role: UserRole }; // who runs it; unset (the CLI) has every tool
+}
+
 export interface AgentEvent {
   type:
     | 'thinking'
@@ -38,55 +111,71 @@ export interface AgentEvent {
     | 'tool_limit_exceeded' // fired when maxToolCalls hit — loop halted
     | 'turn_complete' // fired after each turn with token usage
     | 'patch_approval_required' // fired when patch needs user approval
+    | 'patch_approval_resolved' // fired when a pending patch is approved, rejected or times out
+    | 'plan_proposed' // fired when a plan-mode run submits its plan for review
+    | 'plan_resolved' // fired when a proposed plan is approved, rejected or times out
+    | 'tool_approval_required' // fired when the workspace's permissions ask about a tool call
+    | 'tool_approval_resolved' // fired when an asked-about tool call is approved, rejected or times out
+    | 'verification' // fired after each round of post-edit checks
+    | 'run_resumed' // fired when an interrupted run continues from its last checkpoint
+    | 'context_compacted' // fired when the transcript was shrunk to fit the model's context window
     | 'complete';
   data: unknown;
   timestamp: Date;
+  childSessionId?: string; // set on events relayed from a delegate_task sub-agent
 }
 
 type EventHandler = (event: AgentEvent) => void;
 
-// ─── Models for automated background tasks (not user-configurable) ───────────
-// Haiku: low-level tasks — title generation, conversation labeling (~20x cheaper than Opus)
-const HAIKU_MODEL = 'claude-haiku-4-5-20251001';
-// Sonnet: mid-level transformations — memory compression, context summarization
-const SONNET_INTERNAL_MODEL = 'claude-sonnet-4-6';
-
-// ─── Secret patterns scanned before every git checkpoint ──────────────────────
-const SECRET_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
-  { name: 'AWS Access Key', pattern: /AKIA[0-9A-Z]{16}/ },
-  { name: 'AWS Secret Key', pattern: /aws_secret_access_key\s*=\s*[^\s]+/i },
-  {
-    name: 'Generic API Key',
-    pattern: /api[_-]?key\s*[=:]\s*["']?[a-zA-Z0-9_-]{20,}/i,
-  },
-  {
-    name: 'Private Key Block',
-    pattern: /-----BEGIN (RSA |EC |OPENSSH )?PRIVATE KEY-----/,
-  },
-  { name: 'Anthropic Key', pattern: /sk-ant-[a-zA-Z0-9_-]{32,}/ },
-  { name: 'GitHub Token', pattern: /gh[pousr]_[A-Za-z0-9_]{36}/ },
-  {
-    name: 'Netlify Token',
-    pattern: /netlify[_-]?token\s*[=:]\s*["']?[a-zA-Z0-9_-]{20,}/i,
-  },
-  {
-    name: 'Vercel Token',
-    pattern: /vercel[_-]?token\s*[=:]\s*["']?[a-zA-Z0-9_-]{20,}/i,
-  },
-  {
-    name: 'Terraform Cloud Token',
-    pattern: /terraform[_-]?token\s*[=:]\s*["']?[a-zA-Z0-9_.-]{20,}/i,
-  },
-  {
-    name: 'Generic Secret',
-    pattern: /secret\s*[=:]\s*["']?[a-zA-Z0-9_-]{16,}/i,
-  },
-  {
-    name: 'DB Connection String',
-    pattern: /(postgres|mysql|mongodb):\/\/[^@]+:[^@]+@/,
-  },
-  { name: 'Bearer Token', pattern: /bearer\s+[a-zA-Z0-9_.-]{20,}/i },
-];
+// A child run started by delegate_task: confined to a directory of the parent's
+// workspace, limited to an allow-list of tools and a slice of the token budget
+interface Delegation {
+  parentSessionId: string;
+  workspaceDir: string; // absolute — becomes the child's workspace root
+  directory: string; // the same directory, relative to the parent workspace
+  tools: ReadonlySet<string>;
+  tokenBudget: number; // 0 = unlimited
+  registry: ToolRegistry; // the parent's tools, including its MCP servers'
+  dryRun: DryRunOverlay | null; // the parent's overlay — a sub-agent of a dry run is one too
+  permissions: PermissionPolicy | null; // the parent's tool permissions
+}
+
+export interface PendingPatchApproval {
+  patchId: string; // the tool_use id of the edit awaiting review
+  sessionId?: string;
+  batchId?: string; // shared by every edit proposed in the same turn
+  index?: number; // position within the batch (0-based)
+  total?: number; // number of edits in the batch
+  toolName?: string;
+  filePath: string;
+  diff: string;
+  operation: 'create' | 'modify' | 'delete';
+  requestedAt: Date;
+}
+
+export interface PendingToolApproval {
+  approvalId: string; // the tool_use id of the call awaiting approval
+  sessionId: string;
+  toolName: string;
+  input: unknown;
+  reason?: string; // from the rule that asked
+  requestedAt: Date;
+}
+
+export interface PendingPlan {
+  planId: string; // the tool_use id of the propose_plan call
+  sessionId: string;
+  plan: Plan;
+  requestedAt: Date;
+}
+
+// The reviewer's answer to a proposed plan. An approval may carry an edited
+// plan; a rejection with feedback sends the model back to planning.
+export interface PlanDecision {
+  approved: boolean;
+  plan?: Plan;
+  feedback?: string;
+}
 
 const SYSTEM_PROMPT = `
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -511,7 +600,6 @@ NOTES:
 `;
 
 export class Agent {
-  private client: Anthropic;
   private log = createChildLogger({ component: 'Agent' });
   private cancelControllers = new Map<string, AbortController>();
   // Atomic counter for concurrent session tracking.
@@ -519,21 +607,74 @@ export class Agent {
   // where multiple requests could exceed maxConcurrentSessions.
   private sessionCounter = new AtomicCounter();
 
-  // Pending patch approvals: patchId -> { resolve, reject }
+  // Pending patch approvals: patchId -> { resolve, reject, request }
   private pendingApprovals = new Map<
     string,
     {
       resolve: (approved: boolean) => void;
       reject: (reason: any) => void;
       timeout: NodeJS.Timeout;
+      request: PendingPatchApproval;
+      emit: (event: AgentEvent) => void;
+    }
+  >();
+
+  // Plans waiting on the user: planId -> { resolve, request }
+  private pendingPlans = new Map<
+    string,
+    {
+      resolve: (decision: PlanDecision) => void;
+      timeout: NodeJS.Timeout;
+      request: PendingPlan;
+      emit: (event: AgentEvent) => void;
+    }
+  >();
+
+  // Tool calls the workspace's permissions ask about: approvalId -> { resolve, request }
+  private pendingToolApprovals = new Map<
+    string,
+    {
+      resolve: (approved: boolean) => void;
+      timeout: NodeJS.Timeout;
+      request: PendingToolApproval;
+      emit: (event: AgentEvent) => void;
     }
   >();
 
+  // Overlays of finished dry runs, kept until applied: sessionId -> overlay
+  private dryRuns = new Map<string, DryRunOverlay>();
+
+  // Worktrees are added to and merged into the one main checkout, one at a time
+  private worktreeLock = new Mutex();
+
+  // Timeline restores and reverts, one at a time
+  private timelineLock = new Mutex();
+
+  // Models for automated background tasks (summaries, compaction) come from
+  // the provider's internalModels — they are never user-configurable.
+  private readonly provider: ModelProvider;
+  private readonly contextManager: ContextManager;
+
   constructor(
     private readonly config: Config,
-    private readonly memory: DatabaseMemory
+    private readonly memory: DatabaseMemory,
+    provider?: ModelProvider
   ) {
-    this.client = new Anthropic({ apiKey: config.apiKey });
+    this.provider = provider ?? createProvider(config);
+    this.contextManager = new ContextManager({
+      summarise: (messages) => this.summariseTranscript(messages),
+    });
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  // Models a user may pick per run (planning/coding model selectors)
+  get selectableModels(): string[] {
+    return this.provider.models
+      .filter((m) => m.userSelectable)
+      .flatMap((m) => [m.id, ...(m.aliases ?? [])]);
   }
 
   // ─── Cancel a running session ────────────────────────────────────────────
@@ -543,6 +684,16 @@ export class Agent {
     if (ctrl) {
       ctrl.abort();
       this.cancelControllers.delete(sessionId);
+      // Unblock a run that is waiting on a reviewer — nothing pending survives a cancel
+      for (const pending of this.listPendingApprovals(sessionId)) {
+        this.resolvePatchApproval(pending.patchId, false);
+      }
+      for (const pending of this.listPendingPlans(sessionId)) {
+        this.resolvePlan(pending.planId, { approved: false });
+      }
+      for (const pending of this.listPendingToolApprovals(sessionId)) {
+        this.resolveToolApproval(pending.approvalId, false);
+      }
       this.log.info('Agent run cancelled', { sessionId });
       return true;
     }
@@ -551,16 +702,23 @@ export class Agent {
 
   // ─── Patch approval resolution ────────────────────────────────────────────
 
-  resolvePatchApproval(patchId: string, approved: boolean): void {
+  // Returns false when the patch is unknown (already resolved, timed out, or never requested)
+  resolvePatchApproval(patchId: string, approved: boolean): boolean {
     const pending = this.pendingApprovals.get(patchId);
     if (pending) {
       clearTimeout(pending.timeout);
       this.pendingApprovals.delete(patchId);
       pending.resolve(approved);
+      pending.emit({
+        type: 'patch_approval_resolved',
+        data: { patchId, approved, sessionId: pending.request.sessionId },
+        timestamp: new Date(),
+      });
       this.log.info('Patch approval resolved', { patchId, approved });
-    } else {
-      this.log.warn('Patch approval not found', { patchId });
+      return true;
     }
+    this.log.warn('Patch approval not found', { patchId });
+    return false;
   }
 
   // Request patch approval from user, returns true if approved
@@ -570,52 +728,246 @@ export class Agent {
     diff: string,
     operation: 'create' | 'modify' | 'delete',
     emit: (event: AgentEvent) => void,
-    timeoutMs = 120000 // 2 minute timeout
+    timeoutMs = 120000, // 2 minute timeout
+    details: Pick<PendingPatchApproval, 'sessionId' | 'batchId' | 'index' | 'total' | 'toolName'> = {}
   ): Promise<boolean> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pendingApprovals.delete(patchId);
         this.log.warn('Patch approval timed out', { patchId });
+        emit({
+          type: 'patch_approval_resolved',
+          data: { patchId, approved: false, sessionId: details.sessionId, timedOut: true },
+          timestamp: new Date(),
+        });
         resolve(false); // Auto-reject on timeout
       }, timeoutMs);
 
-      this.pendingApprovals.set(patchId, { resolve, reject, timeout });
+      const request: PendingPatchApproval = {
+        patchId,
+        ...details,
+        filePath,
+        diff,
+        operation,
+        requestedAt: new Date(),
+      };
+      this.pendingApprovals.set(patchId, { resolve, reject, timeout, request, emit });
 
       emit({
         type: 'patch_approval_required',
-        data: { patchId, filePath, diff, operation },
+        data: request,
         timestamp: new Date(),
       });
     });
   }
 
+  // Patches currently waiting on a reviewer, optionally scoped to one session
+  listPendingApprovals(sessionId?: string): PendingPatchApproval[] {
+    return [...this.pendingApprovals.values()]
+      .map((p) => p.request)
+      .filter((r) => sessionId === undefined || r.sessionId === sessionId);
+  }
+
+  // ─── Tool call approval ───────────────────────────────────────────────────
+
+  // Returns false when the call is unknown (already resolved, timed out, or never asked about)
+  resolveToolApproval(approvalId: string, approved: boolean): boolean {
+    const pending = this.pendingToolApprovals.get(approvalId);
+    if (!pending) {
+      this.log.warn('Tool approval not found', { approvalId });
+      return false;
+    }
+    clearTimeout(pending.timeout);
+    this.pendingToolApprovals.delete(approvalId);
+    pending.resolve(approved);
+    pending.emit({
+      type: 'tool_approval_resolved',
+      data: { approvalId, approved, sessionId: pending.request.sessionId, toolName: pending.request.toolName },
+      timestamp: new Date(),
+    });
+    this.log.info('Tool approval resolved', { approvalId, tool: pending.request.toolName, approved });
+    return true;
+  }
+
+  // Holds a tool call until the user answers; unanswered calls are rejected
+  private requestToolApproval(
+    request: PendingToolApproval,
+    emit: (event: AgentEvent) => void,
+    timeoutMs: number
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingToolApprovals.delete(request.approvalId);
+        this.log.warn('Tool approval timed out', { approvalId: request.approvalId, tool: request.toolName });
+        emit({
+          type: 'tool_approval_resolved',
+          data: {
+            approvalId: request.approvalId,
+            approved: false,
+            sessionId: request.sessionId,
+            toolName: request.toolName,
+            timedOut: true,
+          },
+          timestamp: new Date(),
+        });
+        resolve(false);
+      }, timeoutMs);
+
+      this.pendingToolApprovals.set(request.approvalId, { resolve, timeout, request, emit });
+      emit({ type: 'tool_approval_required', data: request, timestamp: new Date() });
+    });
+  }
+
+  // Tool calls currently waiting on the user, optionally scoped to one session
+  listPendingToolApprovals(sessionId?: string): PendingToolApproval[] {
+    return [...this.pendingToolApprovals.values()]
+      .map((p) => p.request)
+      .filter((r) => sessionId === undefined || r.sessionId === sessionId);
+  }
+
+  // ─── Plan review ──────────────────────────────────────────────────────────
+
+  // Returns false when the plan is unknown (already resolved, timed out, or never proposed)
+  resolvePlan(planId: string, decision: PlanDecision): boolean {
+    const pending = this.pendingPlans.get(planId);
+    if (!pending) {
+      this.log.warn('Pending plan not found', { planId });
+      return false;
+    }
+    clearTimeout(pending.timeout);
+    this.pendingPlans.delete(planId);
+    const edited =
+      decision.approved &&
+      !!decision.plan &&
+      JSON.stringify(decision.plan) !== JSON.stringify(pending.request.plan);
+    pending.resolve(decision);
+    pending.emit({
+      type: 'plan_resolved',
+      data: {
+        planId,
+        sessionId: pending.request.sessionId,
+        approved: decision.approved,
+        edited,
+        feedback: decision.feedback,
+      },
+      timestamp: new Date(),
+    });
+    this.log.info('Plan resolved', { planId, approved: decision.approved, edited });
+    return true;
+  }
+
+  // Holds a proposed plan until the user answers; unanswered plans are rejected
+  private requestPlanApproval(
+    request: PendingPlan,
+    emit: (event: AgentEvent) => void,
+    timeoutMs: number
+  ): Promise<PlanDecision> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        this.pendingPlans.delete(request.planId);
+        this.log.warn('Plan approval timed out', { planId: request.planId });
+        emit({
+          type: 'plan_resolved',
+          data: {
+            planId: request.planId,
+            sessionId: request.sessionId,
+            approved: false,
+            edited: false,
+            timedOut: true,
+          },
+          timestamp: new Date(),
+        });
+        resolve({ approved: false });
+      }, timeoutMs);
+
+      this.pendingPlans.set(request.planId, { resolve, timeout, request, emit });
+      emit({ type: 'plan_proposed', data: request, timestamp: new Date() });
+    });
+  }
+
+  // Plans currently waiting on the user, optionally scoped to one session
+  listPendingPlans(sessionId?: string): PendingPlan[] {
+    return [...this.pendingPlans.values()]
+      .map((p) => p.request)
+      .filter((r) => sessionId === undefined || r.sessionId === sessionId);
+  }
+
+  // Validates a propose_plan call and waits for the user's decision. A plain
+  // rejection (or no answer) ends the run; feedback sends the model back to planning.
+  private async reviewPlan(
+    sessionId: string,
+    toolUse: Anthropic.ToolUseBlock,
+    emit: EventHandler
+  ): Promise<{ result: ToolResult; approvedPlan?: Plan; endRun?: boolean }> {
+    const start = Date.now();
+    const toolResult = (result: unknown, error?: string): ToolResult => ({
+      toolCallId: toolUse.id,
+      toolName: toolUse.name,
+      result,
+      success: !error,
+      error,
+      durationMs: Date.now() - start,
+    });
+
+    const parsed = PlanSchema.safeParse(toolUse.input);
+    if (!parsed.success) {
+      const error = `Invalid plan: ${JSON.stringify(parsed.error.flatten())}`;
+      return { result: toolResult({ error }, error) };
+    }
+
+    const decision = await this.requestPlanApproval(
+      { planId: toolUse.id, sessionId, plan: parsed.data, requestedAt: new Date() },
+      emit,
+      this.config.planApprovalTimeout ?? 1_800_000
+    );
+
+    if (decision.approved) {
+      const plan = decision.plan ?? parsed.data;
+      const edited = JSON.stringify(plan) !== JSON.stringify(parsed.data);
+      return {
+        result: toolResult({
+          status: 'approved',
+          edited,
+          ...(edited && { plan }),
+          instructions:
+            (edited ? 'The user edited the plan — follow the version pinned to your instructions. ' : '') +
+            'Implement the approved plan now; every tool is available.',
+        }),
+        approvedPlan: plan,
+      };
+    }
+    // Only the error text of a failed result reaches the model
+    if (decision.feedback) {
+      return {
+        result: toolResult(
+          { status: 'changes_requested', feedback: decision.feedback },
+          `The user asked for changes to the plan: ${decision.feedback}\n` +
+            'Revise the plan to address this and call propose_plan again. Do not start implementing.'
+        ),
+      };
+    }
+    return {
+      result: toolResult(
+        { status: 'rejected' },
+        'The user rejected the plan. Nothing was changed — wait for their next prompt.'
+      ),
+      endRun: true,
+    };
+  }
+
   get activeSessionCount(): number {
     return this.sessionCounter.value;
   }
 
   // ─── Cost estimation ─────────────────────────────────────────────────────
-  // Pricing per million tokens (Anthropic pricing as of Jan 2025)
+  // Pricing comes from the provider's model metadata (see providers/catalog)
   private estimateCost(
     inputTokens: number,
     outputTokens: number,
-    modelName?: string
+    modelName?: string,
+    cache?: CacheUsage
   ): number {
-    const model = (modelName || this.config.model).toLowerCase();
-    let inputPrice = 15.0; // Opus default ($/M tokens)
-    let outputPrice = 75.0;
-
-    if (model.includes('haiku')) {
-      inputPrice = 0.8;
-      outputPrice = 4.0;
-    } else if (model.includes('sonnet')) {
-      inputPrice = 3.0;
-      outputPrice = 15.0;
-    }
-
-    return (
-      (inputTokens / 1_000_000) * inputPrice +
-      (outputTokens / 1_000_000) * outputPrice
-    );
+    return estimateModelCost(inputTokens, outputTokens, modelName || this.config.model, cache);
   }
 
   // ─── Main run loop ───────────────────────────────────────────────────────
@@ -624,24 +976,71 @@ export class Agent {
     userMessage: string,
     sessionId?: string,
     onEvent?: EventHandler,
-    options?: { model?: string; planningModel?: string; codingModel?: string }
+    options?: RunOptions
+  ): Promise<AgentRunResult> {
+    return this.runLoop(userMessage, sessionId, onEvent, options);
+  }
+
+  // ─── Resume an interrupted run ────────────────────────────────────────────
+  // Continues from the last per-turn checkpoint: the exact message array
+  // (tool_use and tool_result blocks included), counters and model phase are
+  // restored. A turn that was mid-flight when the server died is re-requested.
+
+  async resume(sessionId: string, onEvent?: EventHandler, user?: RunOptions['user']): Promise<AgentRunResult> {
+    const checkpoint = this.memory.getRunCheckpoint(sessionId);
+    if (!checkpoint) {
+      throw new Error(`Nothing to resume: session ${sessionId} has no run checkpoint`);
+    }
+    if (this.cancelControllers.has(sessionId)) {
+      throw new Error(`Session ${sessionId} is already running`);
+    }
+    if (checkpoint.status === 'completed') {
+      throw new Error(`Session ${sessionId} already completed — send a new prompt instead`);
+    }
+    if (checkpoint.dryRun) {
+      throw new Error(`Session ${sessionId} was a dry run; its changes were lost with the process — run it again`);
+    }
+    // A sub-agent's scope and tool allow-list live in its parent's turn, not the checkpoint
+    const parentSessionId = this.memory.getSession(sessionId)?.parentSessionId;
+    if (parentSessionId) {
+      throw new Error(
+        `Session ${sessionId} is a delegated subtask — resume its parent session ${parentSessionId} instead`
+      );
+    }
+    return this.runLoop(
+      checkpoint.userMessage,
+      sessionId,
+      onEvent,
+      {
+        planningModel: checkpoint.planningModel,
+        codingModel: checkpoint.codingModel,
+        mode: checkpoint.mode,
+        user,
+      },
+      { resumeFrom: checkpoint }
+    );
+  }
+
+  private async runLoop(
+    userMessage: string,
+    sessionId: string | undefined,
+    onEvent: EventHandler | undefined,
+    options: RunOptions | undefined,
+    { resumeFrom, delegation }: { resumeFrom?: RunCheckpoint; delegation?: Delegation } = {}
   ): Promise<AgentRunResult> {
     const sid = sessionId ?? uuidv4();
     const start = Date.now();
 
-    // Model override (validated against allowed list)
-    // Haiku is intentionally excluded — it is reserved for automated internal tasks only
-    const allowedModels = new Set([
-      // Opus 4.5 — user-selectable
-      'claude-opus-4-5',
-      'claude-opus-4-5-20251101',
-      // Sonnet 4.6 (current) and 4.5 (legacy) — user-selectable
-      'claude-sonnet-4-6',
-      'claude-sonnet-4-5',
-      'claude-sonnet-4-5-20250929',
-    ]);
+    // Plan mode opens with a read-only phase that ends in a plan the user approves.
+    // Sub-agents never plan — their parent already decided what they do.
+    const mode: RunMode = delegation ? 'auto' : (options?.mode ?? 'auto');
+    // The workspace's root and settings stand in for the global Config
+    const { workspaceId, base } = this.runWorkspace(sid, options?.workspaceId, delegation);
+    // Model override (validated against the provider's user-selectable models)
+    // Internal-only models (e.g. Haiku) are excluded by their metadata
+    const allowedModels = new Set(this.selectableModels);
     const validateModel = (m?: string): string => {
-      if (!m || !allowedModels.has(m)) return this.config.model;
+      if (!m || !allowedModels.has(m)) return base.model;
       return m;
     };
 
@@ -649,8 +1048,10 @@ export class Agent {
     // Coding model: used once any code-writing tool is invoked — stays active for the rest of the session
     const planningModel = validateModel(options?.planningModel ?? options?.model);
     const codingModel = validateModel(options?.codingModel ?? options?.planningModel ?? options?.model);
-    let model = planningModel;
-    let inCodingPhase = false;
+    let inCodingPhase = resumeFrom?.inCodingPhase ?? false;
+    let model = inCodingPhase ? codingModel : planningModel;
+    let approvedPlan = resumeFrom?.approvedPlan;
+    let planning = mode === 'plan' && !approvedPlan;
 
     // ── Concurrent session limit (atomic check-and-increment) ─────────────
     const maxConcurrent = this.config.maxConcurrentSessions;
@@ -686,70 +1087,192 @@ export class Agent {
       codingModel,
     });
 
-    // Abort controller for cancel support
-    const abortController = new AbortController();
-    this.cancelControllers.set(sid, abortController);
+    // MCP servers from the workspace's .agent/mcp.json run for as long as this
+    // run does, if the operator allows them; sub-agents use their parent's
+    let mcp: McpConnections | undefined;
+
+    // always decrement activeSessions whether we return normally, throw, or break —
+    // setup included, so a failed session insert or worktree never leaks the slot
+    try {
+      // Abort controller for cancel support
+      const abortController = new AbortController();
+      this.cancelControllers.set(sid, abortController);
+
+      const emit = (event: AgentEvent) => {
+        try {
+          onEvent?.(event);
+        } catch {
+          /* handler errors never crash the agent */
+        }
+      };
+
+      // Session
+      if (!this.memory.getSession(sid)) {
+        if (delegation) {
+          this.memory.createSession(sid, delegation.workspaceDir, {
+            parentSessionId: delegation.parentSessionId,
+            workspaceId,
+            userId: options?.user?.id,
+          });
+        } else {
+          this.memory.createSession(sid, base.workspaceDir, { workspaceId, userId: options?.user?.id });
+        }
+      }
+
+      // Top-level sessions may work in a worktree of their own; sub-agents see a
+      // narrower workspace, tool set and budget than their parent
+      const worktree = delegation ? null : await this.sessionWorktree(sid, base.workspaceDir, !!options?.dryRun, emit);
+      const workspaceDir = delegation?.workspaceDir ?? worktree?.path ?? base.workspaceDir;
+      const runConfig: Config = delegation
+        ? { ...this.workspaceConfig(workspaceDir, base), tokenBudget: delegation.tokenBudget }
+        : this.workspaceConfig(workspaceDir, base);
+      // A dry run edits an overlay instead of the workspace; sub-agents share their parent's
+      const dryRun = delegation ? delegation.dryRun : options?.dryRun ? new DryRunOverlay(workspaceDir) : null;
+
+      let messages: MessageParam[];
+      if (resumeFrom) {
+        // The user message is already stored — replay the checkpointed transcript as-is
+        messages = [...(resumeFrom.messages as MessageParam[])];
+        this.log.info('Resuming run from checkpoint', {
+          sessionId: sid,
+          turn: resumeFrom.turn,
+          previousStatus: resumeFrom.status,
+        });
+        emit({
+          type: 'run_resumed',
+          data: { sessionId: sid, turn: resumeFrom.turn, previousStatus: resumeFrom.status },
+          timestamp: new Date(),
+        });
+      } else {
+        this.memory.addMessage({
+          id: uuidv4(),
+          sessionId: sid,
+          role: 'user',
+          content: userMessage,
+          metadata: { workspaceDir },
+        });
+        emit({
+          type: 'message',
+          data: { role: 'user', content: userMessage },
+          timestamp: new Date(),
+        });
+
+        // Context window management — summarise if over limit
+        messages = this.buildContext(sid, userMessage);
+      }
+
+      // Knowledge injection
+      const knowledge = this.memory.listKnowledge();
+      const knowledgeContext =
+        knowledge.length > 0
+          ? '\n\n## Persistent Knowledge:\n' +
+            knowledge
+              .map((k) => `[${k.category}] ${k.key}: ${k.value}`)
+              .join('\n')
+          : '';
+
+      // Custom project context — read .agentcontext or .agent/context.md if present
+      const projectContext = await this.loadProjectContext(workspaceDir);
+
+      const delegationContext = delegation ? delegationBrief(delegation) : '';
+      const dryRunContext = dryRun ? DRY_RUN_BRIEF : '';
+
+      if (!dryRun) {
+        const git = new GitTool(workspaceDir);
+        await git.ensureRepo();
+      }
 
-    const emit = (event: AgentEvent) => {
+      // Post-edit checks from the workspace's .agent/verify.json — off when absent.
+      // A dry run skips them: they would check the files on disk, not the overlay.
+      let verifyPolicy: VerificationPolicy | null = null;
       try {
-        onEvent?.(event);
-      } catch {
-        /* handler errors never crash the agent */
+        if (!dryRun) verifyPolicy = await loadVerificationPolicy(workspaceDir);
+      } catch (err: any) {
+        this.log.warn('Verification policy ignored', { sessionId: sid, error: err.message });
+        emit({
+          type: 'error',
+          data: { error: `Post-edit verification is off for this run: ${err.message}` },
+          timestamp: new Date(),
+        });
       }
-    };
 
-    // Session
-    if (!this.memory.getSession(sid)) {
-      this.memory.createSession(sid, this.config.workspaceDir);
-    }
+      // Tool permissions from the workspace's .agent/permissions.json — sub-agents
+      // keep their parent's. An invalid file is not ignored like the checks above.
+      let permissions: PermissionPolicy | null = delegation?.permissions ?? null;
+      if (!delegation) {
+        try {
+          permissions = await loadPermissionPolicy(workspaceDir);
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          this.log.warn('Permission policy invalid, asking about every tool call', { sessionId: sid, error });
+          emit({
+            type: 'error',
+            data: { error: `Every tool call needs approval for this run: ${error}` },
+            timestamp: new Date(),
+          });
+          permissions = INVALID_FILE_PERMISSION_POLICY;
+        }
+      }
+      const verifyMaxIterations = verifyPolicy?.maxIterations ?? this.config.verifyMaxIterations ?? 3;
+      let unverifiedEdits: FileEdit[] = [];
+      let verification: VerificationReport | undefined;
+
+      let toolCallsCount = resumeFrom?.toolCallsCount ?? 0;
+      let finalSummary = '';
+      let totalInputTokens = resumeFrom?.totalInputTokens ?? 0;
+      let totalOutputTokens = resumeFrom?.totalOutputTokens ?? 0;
+      let totalCacheReadTokens = resumeFrom?.totalCacheReadTokens ?? 0;
+      let totalCacheCreationTokens = resumeFrom?.totalCacheCreationTokens ?? 0;
+      let turnCount = resumeFrom?.turn ?? 0;
+      // Track unique tool names used for better summary generation
+      const toolsUsed = new Set<string>();
+      // Tracks whether the 80% budget warning has already fired this run.
+      // A boolean avoids the fragile "infer from previous turn total" approach.
+      let budgetWarningFired = resumeFrom?.budgetWarningFired ?? false;
+      const toolCallLimit = this.config.maxToolCalls;
+
+      // Persist loop state so the run can be resumed after a crash or shutdown.
+      // Written whenever the transcript ends on a user turn (ready for the next API call).
+      const saveCheckpoint = (status: RunStatus) =>
+        this.memory.saveRunCheckpoint({
+          sessionId: sid,
+          status,
+          turn: turnCount,
+          userMessage,
+          messages,
+          toolCallsCount,
+          totalInputTokens,
+          totalOutputTokens,
+          totalCacheReadTokens,
+          totalCacheCreationTokens,
+          inCodingPhase,
+          budgetWarningFired,
+          planningModel,
+          codingModel,
+          mode,
+          approvedPlan,
+          dryRun: !!dryRun,
+        });
+      saveCheckpoint('running');
 
-    this.memory.addMessage({
-      id: uuidv4(),
-      sessionId: sid,
-      role: 'user',
-      content: userMessage,
-      metadata: { workspaceDir: this.config.workspaceDir },
-    });
-    emit({
-      type: 'message',
-      data: { role: 'user', content: userMessage },
-      timestamp: new Date(),
-    });
+      if (!delegation && runConfig.allowMcpServers) {
+        mcp = await connectMcpServers(workspaceDir);
+        for (const failure of mcp.failures) {
+          emit({
+            type: 'error',
+            data: { error: `${failure.error} — its tools are not available in this run`, mcpServer: failure.server },
+            timestamp: new Date(),
+          });
+        }
+      }
+      // Built per run so plugin tools (registered at startup) and MCP tools are included
+      const registry = delegation?.registry ?? toolRegistry.extend(mcp?.tools ?? []);
+      const withheld = withheldTools(registry, options?.user);
+      const allTools = [...registry.definitions(), DELEGATE_TASK_TOOL].filter((t) => !withheld.has(t.name));
+      const tools = delegation ? allTools.filter((t) => delegation.tools.has(t.name)) : allTools;
+      const planningTools = [...allTools.filter((t) => registry.isReadOnly(t.name)), PROPOSE_PLAN_TOOL];
+      const executor = new ToolExecutor(runConfig, this.memory, sid, registry, dryRun);
 
-    // Context window management — summarise if over limit
-    const messages = await this.buildContext(sid, userMessage);
-
-    // Knowledge injection
-    const knowledge = this.memory.listKnowledge();
-    const knowledgeContext =
-      knowledge.length > 0
-        ? '\n\n## Persistent Knowledge:\n' +
-          knowledge
-            .map((k) => `[${k.category}] ${k.key}: ${k.value}`)
-            .join('\n')
-        : '';
-
-    // Custom project context — read .agentcontext or .agent/context.md if present
-    const projectContext = await this.loadProjectContext();
-
-    const executor = new ToolExecutor(this.config, this.memory, sid);
-    const git = new GitTool(this.config.workspaceDir);
-    await git.ensureRepo();
-
-    let toolCallsCount = 0;
-    let finalSummary = '';
-    let totalInputTokens = 0;
-    let totalOutputTokens = 0;
-    let turnCount = 0;
-    // Track unique tool names used for better summary generation
-    const toolsUsed = new Set<string>();
-    // Tracks whether the 80% budget warning has already fired this run.
-    // A boolean avoids the fragile "infer from previous turn total" approach.
-    let budgetWarningFired = false;
-    const toolCallLimit = this.config.maxToolCalls;
-
-    // always decrement activeSessions whether we return normally, throw, or break
-    try {
       // ─── Agentic loop ──────────────────────────────────────────────────────
       // eslint-disable-next-line no-constant-condition
       while (true) {
@@ -779,16 +1302,43 @@ export class Agent {
         let stopReason = '';
         let inputTokens = 0;
         let outputTokens = 0;
+        let cacheReadTokens = 0;
+        let cacheCreationTokens = 0;
         let rawContent: Anthropic.ContentBlock[] = [];
 
-        const systemPrompt = SYSTEM_PROMPT + knowledgeContext + projectContext;
+        // Static prompt first, workspace context second — each is a cache segment
+        const planContext = planning
+          ? PLANNING_BRIEF
+          : approvedPlan
+            ? approvedPlanBrief(approvedPlan)
+            : '';
+        const systemPrompt = [
+          SYSTEM_PROMPT,
+          knowledgeContext + projectContext + delegationContext + dryRunContext + planContext,
+        ];
+        const turnTools = planning ? planningTools : tools;
+
+        // ── Context window ──────────────────────────────────────────────────
+        const compacted = await this.contextManager.fit(
+          messages,
+          this.contextBudget(model, systemPrompt, turnTools)
+        );
+        if (compacted.report) {
+          messages = compacted.messages;
+          this.log.info('Context compacted', { sessionId: sid, model, ...compacted.report });
+          emit({
+            type: 'context_compacted',
+            data: { sessionId: sid, model, ...compacted.report },
+            timestamp: new Date(),
+          });
+        }
 
         // Debug log the request
         logApiDebug('request', {
           sessionId: sid,
           model: model,
           messages: messages,
-          tools: TOOL_DEFINITIONS.map((t) => t.name),
+          tools: turnTools.map((t) => t.name),
         });
 
         // Retry loop for transient API errors
@@ -823,44 +1373,29 @@ export class Agent {
             fullText = '';
             toolUseBlocks.length = 0;
 
-            const stream = this.client.messages.stream({
-              model: model,
-              max_tokens: this.config.maxTokens,
-              // Use prompt caching for the system prompt to reduce costs on subsequent calls
-              // The ~3,500 token system prompt is cached at 90% discount after first call
-              system: [
-                {
-                  type: 'text',
-                  text: systemPrompt,
-                  cache_control: { type: 'ephemeral' },
-                } as any,
-              ],
-              tools: TOOL_DEFINITIONS as any,
+            const finalMsg = await this.provider.stream({
+              model,
+              maxTokens: this.config.maxTokens,
+              system: systemPrompt,
+              tools: turnTools,
               messages,
+              signal: abortController.signal,
+              // Stream text deltas to UI in real time
+              onText: (delta: string) => {
+                fullText += delta;
+                emit({
+                  type: 'stream_delta',
+                  data: { delta, sessionId: sid },
+                  timestamp: new Date(),
+                });
+              },
             });
-
-            // Stream text deltas to UI in real time
-            stream.on('text', (delta: string) => {
-              fullText += delta;
-              emit({
-                type: 'stream_delta',
-                data: { delta, sessionId: sid },
-                timestamp: new Date(),
-              });
-            });
-
-            // Check for cancel mid-stream
-            abortController.signal.addEventListener(
-              'abort',
-              () => stream.abort(),
-              { once: true }
-            );
-
-            const finalMsg = await stream.finalMessage();
             rawContent = finalMsg.content;
-            stopReason = finalMsg.stop_reason ?? '';
-            inputTokens = finalMsg.usage.input_tokens;
-            outputTokens = finalMsg.usage.output_tokens;
+            stopReason = finalMsg.stopReason;
+            inputTokens = finalMsg.usage.inputTokens;
+            outputTokens = finalMsg.usage.outputTokens;
+            cacheReadTokens = finalMsg.usage.cacheReadTokens ?? 0;
+            cacheCreationTokens = finalMsg.usage.cacheCreationTokens ?? 0;
 
             for (const block of rawContent) {
               if (block.type === 'tool_use') toolUseBlocks.push(block);
@@ -932,10 +1467,15 @@ export class Agent {
         // Record token usage
         totalInputTokens += inputTokens;
         totalOutputTokens += outputTokens;
-        this.memory.recordTokenUsage(sid, inputTokens, outputTokens, model);
+        totalCacheReadTokens += cacheReadTokens;
+        totalCacheCreationTokens += cacheCreationTokens;
+        const cacheUsage = { readTokens: cacheReadTokens, creationTokens: cacheCreationTokens };
+        this.memory.recordTokenUsage(sid, inputTokens, outputTokens, model, cacheUsage);
 
-        const totalUsed = totalInputTokens + totalOutputTokens;
-        const budget = this.config.tokenBudget;
+        // Cache reads are billed at ~10% and re-read the same prefix every turn,
+        // so they are reported but do not count toward the token budget
+        const totalUsed = totalInputTokens + totalCacheCreationTokens + totalOutputTokens;
+        const budget = runConfig.tokenBudget;
 
         this.log.debug('API response', {
           stopReason,
@@ -951,7 +1491,8 @@ export class Agent {
         const estimatedCostThisTurn = this.estimateCost(
           inputTokens,
           outputTokens,
-          model
+          model,
+          cacheUsage
         );
         emit({
           type: 'turn_complete',
@@ -960,10 +1501,14 @@ export class Agent {
             turn: turnCount,
             inputTokens,
             outputTokens,
-            totalTokensThisTurn: inputTokens + outputTokens,
+            cacheReadTokens,
+            cacheCreationTokens,
+            totalTokensThisTurn: inputTokens + cacheCreationTokens + outputTokens,
             estimatedCostThisTurn,
             totalInputTokens,
             totalOutputTokens,
+            totalCacheReadTokens,
+            totalCacheCreationTokens,
             totalTokens: totalUsed,
             budgetUsedPercent:
               budget > 0 ? Math.round((totalUsed / budget) * 100) : null,
@@ -1047,12 +1592,21 @@ export class Agent {
             data: { role: 'assistant', content: fullText },
             timestamp: new Date(),
           });
+        }
+        // Persist the full turn — tool_use blocks included — so later prompts
+        // in this session can replay it faithfully
+        if (fullText || toolUseBlocks.length > 0) {
           this.memory.addMessage({
             id: uuidv4(),
             sessionId: sid,
             role: 'assistant',
             content: fullText,
-            metadata: { model, inputTokens, outputTokens },
+            metadata: {
+              model,
+              inputTokens,
+              outputTokens,
+              blocks: assistantBlocksForHistory(rawContent),
+            },
           });
         }
 
@@ -1062,31 +1616,149 @@ export class Agent {
           stopReason === 'end_turn' ||
           stopReason !== 'tool_use' ||
           toolUseBlocks.length === 0
-        )
-          break;
+        ) {
+          // ── Post-edit verification ───────────────────────────────────────
+          // Before finishing, run the checks the workspace requires for the
+          // files edited since the last passing round
+          const planned =
+            verifyPolicy && !abortController.signal.aborted
+              ? planChecks(verifyPolicy, unverifiedEdits)
+              : [];
+          if (planned.length === 0) break;
+
+          const iteration = (verification?.iterations ?? 0) + 1;
+          const outcomes = await this.runVerificationChecks(executor, planned, iteration, emit);
+          const failures = outcomes.filter(({ result }) => !checkPassed(result));
+          const retrying = failures.length > 0 && iteration <= verifyMaxIterations;
+          verification = {
+            passed: failures.length === 0,
+            iterations: iteration,
+            maxIterations: verifyMaxIterations,
+            checks: [
+              ...(verification?.checks ?? []),
+              ...outcomes.map(({ check, result }) => ({
+                tool: check.tool,
+                input: check.input,
+                iteration,
+                passed: checkPassed(result),
+                durationMs: result.durationMs,
+                files: check.files,
+                ...(result.error && { error: result.error }),
+              })),
+            ],
+          };
+          this.log.info('Post-edit verification', {
+            sessionId: sid,
+            iteration,
+            passed: verification.passed,
+            failed: failures.map(({ check }) => check.tool),
+          });
+          emit({
+            type: 'verification',
+            data: { sessionId: sid, ...verification, retrying },
+            timestamp: new Date(),
+          });
+          // Edits stay unverified until their checks pass
+          if (failures.length === 0) unverifiedEdits = [];
+          if (!retrying) break;
+
+          // Failures go back to the model as a user turn
+          const feedback = verificationFeedback(failures, iteration, verifyMaxIterations);
+          this.memory.addMessage({
+            id: uuidv4(),
+            sessionId: sid,
+            role: 'user',
+            content: feedback,
+            metadata: { verification: true, iteration },
+          });
+          messages.push({ role: 'user', content: feedback });
+          saveCheckpoint('running');
+          continue;
+        }
 
         // ── Parallel tool execution ──────────────────────────────────────────
         // Classify which tools are safe to run in parallel (reads/memory) vs
         // must run sequentially (writes, shell, git — to avoid race conditions)
-        const { parallel, sequential } = classifyTools(toolUseBlocks);
+        // Sub-agents may only call the tools they were given, and the planning
+        // phase only the read-only ones; admin-only tools are refused to everyone
+        // else, and calls the workspace's permissions deny or the user rejects
+        // are refused too. delegate_task calls are pulled out and run as child
+        // sessions; a proposed plan waits for the user.
+        const offered = new Set(turnTools.map((t) => t.name));
+        const unavailable = toolUseBlocks.filter(
+          (t) => withheld.has(t.name) || ((delegation || planning) && !offered.has(t.name))
+        );
+        const refused = permissions
+          ? await this.checkPermissions(
+              sid,
+              permissions,
+              toolUseBlocks.filter((t) => !unavailable.includes(t)),
+              emit,
+              !!dryRun
+            )
+          : new Map<string, { error: string; hint: string }>();
+        unavailable.push(...toolUseBlocks.filter((t) => refused.has(t.id)));
+        const delegations = delegation
+          ? []
+          : toolUseBlocks.filter((t) => t.name === 'delegate_task' && !unavailable.includes(t));
+        const proposals = planning
+          ? toolUseBlocks.filter((t) => t.name === PROPOSE_PLAN_TOOL.name)
+          : [];
+        const { parallel, sequential } = classifyTools(
+          toolUseBlocks.filter(
+            (t) => !unavailable.includes(t) && !delegations.includes(t) && !proposals.includes(t)
+          ),
+          registry
+        );
 
         const toolResults: Anthropic.ToolResultBlockParam[] = [];
 
-        // Progress callback for long-running tools
-        const onToolProgress = (progress: {
-          toolCallId: string;
-          toolName: string;
-          progress: number;
-          status: string;
-          elapsedMs: number;
-        }) => {
+        // Progress and streamed output for a tool call, keyed by the id its
+        // tool_call and tool_result events carry (not the executor's own id)
+        const onToolProgress = (toolUseId: string) => (progress: ToolProgress) => {
           emit({
             type: 'tool_progress',
-            data: progress,
+            data: { ...progress, toolCallId: toolUseId },
             timestamp: new Date(),
           });
         };
 
+        for (const toolUse of unavailable) {
+          toolCallsCount++;
+          const refusal = refused.get(toolUse.id);
+          const error = refusal
+            ? refusal.error
+            : withheld.has(toolUse.name)
+            ? `Tool "${toolUse.name}" needs the admin role`
+            : delegation
+            ? `Tool "${toolUse.name}" is not available to this sub-agent. ` +
+              `Available tools: ${[...delegation.tools].join(', ')}`
+            : `Tool "${toolUse.name}" is not available while planning — propose a plan first. ` +
+              `Available tools: ${[...offered].join(', ')}`;
+          const result = {
+            toolCallId: toolUse.id,
+            toolName: toolUse.name,
+            result: null,
+            success: false,
+            error,
+            ...(refusal && { hint: refusal.hint }),
+            durationMs: 0,
+          };
+          emit({
+            type: 'tool_call',
+            data: { name: toolUse.name, input: toolUse.input, id: toolUse.id },
+            timestamp: new Date(),
+          });
+          emit({
+            type: 'tool_result',
+            data: { toolCallId: toolUse.id, toolName: toolUse.name, success: false, result: null, durationMs: 0 },
+            timestamp: new Date(),
+          });
+          const { param, serialized } = buildToolResultParam(toolUse.id, result);
+          this.persistToolResult(sid, toolUse, result, serialized);
+          toolResults.push(param);
+        }
+
         // Run read-only tools in parallel
         if (parallel.length > 0) {
           this.log.debug('Running tools in parallel', {
@@ -1109,7 +1781,7 @@ export class Agent {
               const result = await executor.execute(
                 { name: toolUse.name, input: toolUse.input },
                 this.config.maxRetries,
-                onToolProgress
+                onToolProgress(toolUse.id)
               );
               emit({
                 type: 'tool_result',
@@ -1119,6 +1791,7 @@ export class Agent {
                   success: result.success,
                   result: result.result,
                   durationMs: result.durationMs,
+                  ...(result.errorCode && { errorCode: result.errorCode }),
                 },
                 timestamp: new Date(),
               });
@@ -1136,15 +1809,172 @@ export class Agent {
           }
         }
 
+        // Delegated subtasks run concurrently, each in its own child session
+        // with an equal share of whatever token budget is left
+        if (delegations.length > 0) {
+          const budgetShare =
+            budget > 0 ? Math.max(1, Math.floor((budget - totalUsed) / delegations.length)) : 0;
+          const outcomes = await Promise.all(
+            delegations.map(async (toolUse) => {
+              toolCallsCount++;
+              toolsUsed.add(toolUse.name);
+              emit({
+                type: 'tool_call',
+                data: { name: toolUse.name, input: toolUse.input, id: toolUse.id },
+                timestamp: new Date(),
+              });
+              const outcome = await this.delegate(
+                sid,
+                workspaceDir,
+                toolUse,
+                registry,
+                budgetShare,
+                { planningModel, codingModel, user: options?.user },
+                abortController.signal,
+                emit,
+                dryRun,
+                permissions
+              );
+              emit({
+                type: 'tool_result',
+                data: {
+                  toolCallId: toolUse.id,
+                  toolName: toolUse.name,
+                  success: outcome.result.success,
+                  result: outcome.result.result,
+                  durationMs: outcome.result.durationMs,
+                },
+                timestamp: new Date(),
+              });
+              return { toolUse, ...outcome };
+            })
+          );
+          for (const { toolUse, result, usage } of outcomes) {
+            // Sub-agent tokens count against this run's budget as well
+            totalInputTokens += usage.inputTokens;
+            totalOutputTokens += usage.outputTokens;
+            totalCacheReadTokens += usage.cacheReadTokens;
+            totalCacheCreationTokens += usage.cacheCreationTokens;
+            const { param, serialized } = buildToolResultParam(
+              toolUse.id,
+              result,
+              this.config.maxToolOutputContext
+            );
+            this.persistToolResult(sid, toolUse, result, serialized);
+            toolResults.push(param);
+          }
+        }
+
+        // A proposed plan holds the run until the user answers it. Only the
+        // first proposal in a turn is reviewed.
+        let planRejected = false;
+        for (const [i, toolUse] of proposals.entries()) {
+          toolCallsCount++;
+          toolsUsed.add(toolUse.name);
+          emit({
+            type: 'tool_call',
+            data: { name: toolUse.name, input: toolUse.input, id: toolUse.id },
+            timestamp: new Date(),
+          });
+          const outcome: Awaited<ReturnType<Agent['reviewPlan']>> =
+            i === 0
+              ? await this.reviewPlan(sid, toolUse, emit)
+              : {
+                  result: {
+                    toolCallId: toolUse.id,
+                    toolName: toolUse.name,
+                    result: null,
+                    success: false,
+                    error: 'Only one plan can be proposed per turn',
+                    durationMs: 0,
+                  },
+                };
+          emit({
+            type: 'tool_result',
+            data: {
+              toolCallId: toolUse.id,
+              toolName: toolUse.name,
+              success: outcome.result.success,
+              result: outcome.result.result,
+              durationMs: outcome.result.durationMs,
+            },
+            timestamp: new Date(),
+          });
+          const { param, serialized } = buildToolResultParam(toolUse.id, outcome.result);
+          this.persistToolResult(sid, toolUse, outcome.result, serialized);
+          toolResults.push(param);
+
+          if (outcome.approvedPlan) {
+            approvedPlan = outcome.approvedPlan;
+            planning = false;
+            // The approved plan is implemented by the coding model
+            inCodingPhase = true;
+            model = codingModel;
+          }
+          if (outcome.endRun) planRejected = true;
+        }
+
+        // Human-in-the-loop review of file edits — every edit in this turn is
+        // proposed at once so the reviewer can approve or reject them per file.
+        // A dry run's edits are reviewed together when it ends instead.
+        const rejectedEdits = runConfig.requirePatchApproval && !dryRun
+          ? await this.reviewFileEdits(sid, sequential, emit, workspaceDir)
+          : new Map<string, FileChangePreview>();
+
         // Run write/side-effect tools sequentially
         for (const toolUse of sequential) {
           if (abortController.signal.aborted) break;
           toolCallsCount++;
           toolsUsed.add(toolUse.name); // Track for summary generation
 
-          // Secret scan before any git checkpoint
-          if (toolUse.name === 'git_checkpoint') {
-            const secretHits = await this.scanForSecrets();
+          const rejection = rejectedEdits.get(toolUse.id);
+          if (rejection) {
+            const result = {
+              toolCallId: toolUse.id,
+              toolName: toolUse.name,
+              result: {
+                status: 'rejected',
+                reason: 'Rejected by reviewer',
+                path: rejection.path,
+                operation: rejection.operation,
+                instructions:
+                  'The change was NOT applied. Do not retry it unchanged — ' +
+                  'ask the user what they want or propose a different edit.',
+              },
+              success: false,
+              error: 'Rejected by reviewer',
+              durationMs: 0,
+            };
+            emit({
+              type: 'tool_call',
+              data: { name: toolUse.name, input: toolUse.input, id: toolUse.id },
+              timestamp: new Date(),
+            });
+            emit({
+              type: 'tool_result',
+              data: {
+                toolCallId: toolUse.id,
+                toolName: toolUse.name,
+                success: false,
+                result: result.result,
+                durationMs: 0,
+              },
+              timestamp: new Date(),
+            });
+            const serialized = JSON.stringify(result.result);
+            this.persistToolResult(sid, toolUse, result, serialized);
+            toolResults.push({
+              type: 'tool_result',
+              tool_use_id: toolUse.id,
+              content: serialized,
+              is_error: true,
+            });
+            continue;
+          }
+
+          // Secret scan before any git checkpoint (a dry run only records it)
+          if (toolUse.name === 'git_checkpoint' && !dryRun) {
+            const secretHits = await this.scanForSecrets(workspaceDir);
             if (secretHits.length > 0) {
               const warning = `⚠️ Secret scan blocked checkpoint: ${secretHits.join(', ')}. Remove secrets before committing.`;
               this.log.warn('Secret scan blocked git checkpoint', {
@@ -1156,6 +1986,7 @@ export class Agent {
                 data: { error: warning },
                 timestamp: new Date(),
               });
+              this.persistToolResult(sid, toolUse, { success: false, error: warning, durationMs: 0 }, warning);
               toolResults.push({
                 type: 'tool_result',
                 tool_use_id: toolUse.id,
@@ -1167,7 +1998,7 @@ export class Agent {
           }
 
           // CI gate before any git push — runs GitHub Actions locally via `act`
-          if (toolUse.name === 'git_push') {
+          if (toolUse.name === 'git_push' && !dryRun) {
             this.log.info('Running CI gate before git_push', { sessionId: sid });
             emit({
               type: 'tool_call',
@@ -1178,7 +2009,7 @@ export class Agent {
             const ciResult = await executor.execute(
               { name: 'run_ci', input: {} },
               this.config.maxRetries,
-              onToolProgress,
+              onToolProgress('ci-gate-auto'),
             );
 
             emit({
@@ -1235,6 +2066,7 @@ export class Agent {
                 data: { error: warning },
                 timestamp: new Date(),
               });
+              this.persistToolResult(sid, toolUse, { success: false, error: warning, durationMs: 0 }, warning);
               toolResults.push({
                 type: 'tool_result',
                 tool_use_id: toolUse.id,
@@ -1255,7 +2087,7 @@ export class Agent {
           const result = await executor.execute(
             { name: toolUse.name, input: toolUse.input },
             this.config.maxRetries,
-            onToolProgress
+            onToolProgress(toolUse.id)
           );
           emit({
             type: 'tool_result',
@@ -1265,6 +2097,7 @@ export class Agent {
               success: result.success,
               result: result.result,
               durationMs: result.durationMs,
+              ...(result.errorCode && { errorCode: result.errorCode }),
             },
             timestamp: new Date(),
           });
@@ -1275,6 +2108,33 @@ export class Agent {
           );
           this.persistToolResult(sid, toolUse, result, serialized);
           toolResults.push(param);
+
+          const editedPath = (toolUse.input as { path?: unknown })?.path;
+          if (
+            result.success &&
+            (EDIT_TOOLS as readonly string[]).includes(toolUse.name) &&
+            typeof editedPath === 'string'
+          ) {
+            const relative = path.relative(workspaceDir, path.resolve(workspaceDir, editedPath));
+            unverifiedEdits.push({ tool: toolUse.name, path: relative.split(path.sep).join('/') });
+          }
+        }
+
+        // A cancel skips the batch's remaining calls. Each still gets a result,
+        // or the checkpoint's history would be invalid to resume from.
+        const answered = new Set(toolResults.map((r) => r.tool_use_id));
+        for (const toolUse of toolUseBlocks.filter((t) => !answered.has(t.id))) {
+          const result = {
+            toolCallId: toolUse.id,
+            toolName: toolUse.name,
+            result: { status: 'cancelled' },
+            success: false,
+            error: 'Cancelled by user before this call ran',
+            durationMs: 0,
+          };
+          const { param, serialized } = buildToolResultParam(toolUse.id, result);
+          this.persistToolResult(sid, toolUse, result, serialized);
+          toolResults.push(param);
         }
 
         // Switch to coding model once any code-writing/exec tool has been invoked.
@@ -1286,11 +2146,15 @@ export class Agent {
         }
 
         messages.push({ role: 'user', content: toolResults });
+        saveCheckpoint('running');
+        if (planRejected) break;
       }
 
+      saveCheckpoint(abortController.signal.aborted ? 'cancelled' : 'completed');
       this.cancelControllers.delete(sid);
+      const finalMessage = finalSummary;
 
-      // Generate a high-quality summary using Haiku (cheap) instead of truncating
+      // Generate a high-quality summary with the cheap summary model instead of truncating
       // This creates much better session titles for the session list
       if (finalSummary || toolsUsed.size > 0) {
         try {
@@ -1303,8 +2167,8 @@ export class Agent {
             finalSummary = betterSummary;
           }
         } catch (err) {
-          // Fall back to truncated response if Haiku call fails
-          this.log.warn('Failed to generate session summary with Haiku', {
+          // Fall back to truncated response if the summary call fails
+          this.log.warn('Failed to generate session summary', {
             error: (err as Error).message,
           });
         }
@@ -1316,6 +2180,10 @@ export class Agent {
       const durationMs = Date.now() - start;
       const tokenUsageSummary = this.memory.getSessionTokenUsage(sid);
 
+      // The parent reports a dry run for its sub-agents too
+      const dryRunReport = dryRun && !delegation ? dryRun.report() : undefined;
+      if (dryRun && !delegation) this.keepDryRun(sid, dryRun);
+
       this.log.info('Agent run finished', {
         sessionId: sid,
         toolCallsCount,
@@ -1333,6 +2201,8 @@ export class Agent {
           durationMs,
           summary: finalSummary,
           tokenUsage: tokenUsageSummary,
+          verification,
+          dryRun: dryRunReport,
         },
         timestamp: new Date(),
       });
@@ -1344,9 +2214,21 @@ export class Agent {
         success: true,
         durationMs,
         model,
+        finalMessage,
         tokenUsage: tokenUsageSummary,
+        verification,
+        dryRun: dryRunReport,
       };
+    } catch (err) {
+      try {
+        this.memory.setRunStatus(sid, 'failed');
+      } catch {
+        /* database may already be closed during shutdown */
+      }
+      throw err;
     } finally {
+      await mcp?.close();
+      this.cancelControllers.delete(sid);
       // Always release the slot — even if we threw, cancelled, or hit a limit
       // Note: decrement is async but we don't await in finally to avoid blocking.
       // The AtomicCounter ensures thread-safety regardless.
@@ -1369,126 +2251,65 @@ export class Agent {
 
   // ─── Context window management ───────────────────────────────────────────
 
-  private async buildContext(
-    sessionId: string,
-    currentMessage: string
-  ): Promise<MessageParam[]> {
-    const messageCount = this.memory.countMessages(sessionId);
-    const limit = this.config.maxContextMessages;
-
-    if (messageCount <= limit) {
-      const history = this.memory.getMessages(sessionId, limit);
-      return this.historyToParams(history, currentMessage);
-    }
-
-    // Over limit — check if we already have a stored summary
-    const existingSummary = this.memory.getKnowledge(
-      `ctx_summary_${sessionId}`
+  // Loads stored history for a follow-up prompt. Whether it fits the model is
+  // decided per API call by the ContextManager, not by message count.
+  private buildContext(sessionId: string, currentMessage: string): MessageParam[] {
+    const history = this.memory.getRecentMessages(
+      sessionId,
+      this.config.maxContextMessages
     );
-
-    // Summarise the oldest messages, keep the most recent verbatim.
-    // getRecentMessages returns the LAST N messages by created_at, which is
-    // what we need — the previous code used getMessages(limit).slice() which
-    // only returned the first `limit` rows and silently dropped anything newer.
-    const halfLimit = Math.floor(limit / 2);
-    const oldMessages = this.memory.getMessages(sessionId, halfLimit);
-    const recentMessages = this.memory.getRecentMessages(sessionId, halfLimit);
-
-    if (!existingSummary || messageCount % Math.floor(limit / 2) === 0) {
-      this.log.info(
-        'Context window limit reached — summarising older messages',
-        { sessionId, messageCount }
-      );
-      const summary = await this.summariseMessages(oldMessages);
-      this.memory.setKnowledge(`ctx_summary_${sessionId}`, summary, 'context');
-      this.log.info('Context summary stored', {
-        sessionId,
-        summaryLength: summary.length,
-      });
-    }
-
-    const summaryText =
-      this.memory.getKnowledge(`ctx_summary_${sessionId}`) ??
-      existingSummary ??
-      '';
-    const messages: MessageParam[] = [];
-
-    if (summaryText) {
-      messages.push({
-        role: 'user',
-        content: `[CONTEXT SUMMARY — earlier conversation]\n${summaryText}`,
-      });
-      messages.push({
-        role: 'assistant',
-        content: 'Understood. Continuing from where we left off.',
-      });
-    }
-
-    for (const entry of recentMessages) {
-      if (entry.role === 'user' || entry.role === 'assistant') {
-        messages.push({ role: entry.role, content: entry.content });
-      }
-    }
-
-    // Ensure current message is the last
-    const last = messages[messages.length - 1];
-    if (!last || last.role !== 'user' || last.content !== currentMessage) {
-      messages.push({ role: 'user', content: currentMessage });
-    }
-
-    return messages;
+    return this.historyToParams([], history, currentMessage);
   }
 
-  private async summariseMessages(messages: any[]): Promise<string> {
-    const content = messages
-      .map((m) => `${m.role.toUpperCase()}: ${m.content.slice(0, 500)}`)
-      .join('\n\n');
+  // Tokens available to the transcript: the model's window minus the system
+  // prompt, tool definitions and the reply, with 10% slack for estimation error
+  private contextBudget(
+    model: string,
+    systemPrompt: readonly string[],
+    tools: readonly unknown[]
+  ): number {
+    const fixed =
+      estimateTokens(systemPrompt.join('')) +
+      estimateTokens(JSON.stringify(tools)) +
+      this.config.maxTokens;
+    return Math.floor(contextWindowForModel(model) * CONTEXT_FILL_RATIO) - fixed;
+  }
 
-    const response = await this.client.messages.create({
-      model: SONNET_INTERNAL_MODEL, // Sonnet for summarization — mid-level transformation
-      max_tokens: 1024,
-      messages: [
-        {
-          role: 'user',
-          content:
-            `Summarise the following conversation history into a concise 2-4 paragraph context summary. ` +
-            `Preserve: decisions made, files changed, patterns established, errors encountered and resolved.\n\n${content}`,
-        },
-      ],
+  private async summariseTranscript(messages: MessageParam[]): Promise<string> {
+    return this.provider.complete({
+      model: this.provider.internalModels.compaction, // mid-level transformation
+      maxTokens: 1024,
+      prompt:
+        `Summarise the following conversation history into a concise 2-4 paragraph context summary. ` +
+        `Preserve: decisions made, files read or changed, patterns established, errors encountered and resolved.\n\n` +
+        transcriptToText(messages),
     });
-
-    return (response.content[0] as any)?.text ?? '';
   }
 
   // ─── Generate session summary using cheap model ─────────────────────────────
   // Creates a one-line summary of what was accomplished, used for session list display.
-  // Uses Haiku to generate a high-quality summary at minimal cost (~$0.0001 per summary).
+  // Uses the provider's cheap summary model (Haiku on Anthropic, ~$0.0001 per summary).
   private async generateSessionSummary(
     userMessage: string,
     assistantResponse: string,
     toolsUsed: string[]
   ): Promise<string> {
     try {
-      const response = await this.client.messages.create({
-        model: HAIKU_MODEL,
-        max_tokens: 100,
-        messages: [
-          {
-            role: 'user',
-            content: `Generate a concise one-line summary (max 80 chars) of this coding session.
+      const response = await this.provider.complete({
+        model: this.provider.internalModels.summary,
+        maxTokens: 100,
+        prompt: `Generate a concise one-line summary (max 80 chars) of this coding session.
 User asked: "${userMessage.slice(0, 200)}"
 Assistant did: ${toolsUsed.length > 0 ? `Used tools: ${toolsUsed.join(', ')}. ` : ''}${assistantResponse.slice(0, 300)}
 
 Summary (be specific about what was done, e.g. "Added auth middleware to Express API"):`,
-          },
-        ],
       });
 
-      const summary = ((response.content[0] as any)?.text ?? '').trim();
+      const summary = response.trim();
       // Ensure it's not too long and remove any quotes
       return summary.replace(/^["']|["']$/g, '').slice(0, 100);
     } catch (err) {
-      this.log.warn('Failed to generate session summary with Haiku', {
+      this.log.warn('Failed to generate session summary', {
         error: (err as Error).message,
       });
       // Fallback to simple truncation
@@ -1497,55 +2318,581 @@ Summary (be specific about what was done, e.g. "Added auth middleware to Express
   }
 
   private historyToParams(
-    history: any[],
+    messages: MessageParam[],
+    history: MemoryEntry[],
     currentMessage: string
   ): MessageParam[] {
-    const messages: MessageParam[] = [];
-    for (const entry of history) {
-      if (entry.role === 'user' || entry.role === 'assistant') {
-        // Merge adjacent same-role messages to satisfy Claude's alternation requirement
-        const last = messages[messages.length - 1];
-        if (last && last.role === entry.role) {
-          // Append to previous message with separator
-          last.content = `${last.content}\n\n${entry.content}`;
-        } else {
-          messages.push({ role: entry.role, content: entry.content });
+    appendHistory(messages, history, {
+      toolOutputBudget: this.config.historyToolOutputBudget ?? 24_000,
+    });
+    // The current prompt is normally the last stored row; add it if it fell outside the window
+    const last = messages[messages.length - 1];
+    const tail =
+      last?.role !== 'user'
+        ? undefined
+        : typeof last.content === 'string'
+          ? last.content
+          : (last.content.at(-1) as { text?: string } | undefined)?.text;
+    if (tail !== currentMessage && !tail?.endsWith(`\n\n${currentMessage}`)) {
+      appendMessage(messages, 'user', currentMessage);
+    }
+    return messages;
+  }
+
+  // ─── Post-edit verification ───────────────────────────────────────────────
+
+  // Runs one round of post-edit checks through the executor, surfaced in the
+  // tool log like any other call
+  private async runVerificationChecks(
+    executor: ToolExecutor,
+    planned: PlannedCheck[],
+    iteration: number,
+    emit: EventHandler
+  ): Promise<Array<{ check: PlannedCheck; result: ToolResult }>> {
+    const outcomes: Array<{ check: PlannedCheck; result: ToolResult }> = [];
+    for (const [i, check] of planned.entries()) {
+      const id = `verify-${iteration}-${i}`;
+      emit({
+        type: 'tool_call',
+        data: { name: check.tool, input: check.input, id },
+        timestamp: new Date(),
+      });
+      const result = await executor.execute(
+        { name: check.tool, input: check.input },
+        this.config.maxRetries
+      );
+      emit({
+        type: 'tool_result',
+        data: {
+          toolCallId: id,
+          toolName: check.tool,
+          success: checkPassed(result),
+          result: result.result,
+          durationMs: result.durationMs,
+        },
+        timestamp: new Date(),
+      });
+      outcomes.push({ check, result });
+    }
+    return outcomes;
+  }
+
+  // ─── Sub-agent delegation ────────────────────────────────────────────────
+  // Runs one delegate_task call as a child session and condenses the outcome
+  // into a tool result. The child takes its own concurrency slot, relays its
+  // events through the parent's handler tagged with its session id, and is
+  // cancelled along with the parent.
+
+  private async delegate(
+    parentSessionId: string,
+    root: string, // the parent's workspace
+    toolUse: Anthropic.ToolUseBlock,
+    registry: ToolRegistry,
+    budgetShare: number, // 0 = the parent has no budget
+    options: RunOptions,
+    signal: AbortSignal,
+    emit: EventHandler,
+    dryRun: DryRunOverlay | null,
+    permissions: PermissionPolicy | null
+  ): Promise<{ result: ToolResult; usage: TokenUsage }> {
+    const start = Date.now();
+    const noUsage: TokenUsage = {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheCreationTokens: 0,
+      totalTokens: 0,
+      estimatedCostUsd: 0,
+    };
+    const fail = (error: string, usage = noUsage) => ({
+      result: {
+        toolCallId: toolUse.id,
+        toolName: toolUse.name,
+        result: { error },
+        success: false,
+        error,
+        durationMs: Date.now() - start,
+      },
+      usage,
+    });
+
+    const parsed = DelegateTaskSchema.safeParse(toolUse.input);
+    if (!parsed.success) {
+      return fail(`Invalid delegate_task input: ${JSON.stringify(parsed.error.flatten())}`);
+    }
+    const input = parsed.data;
+
+    const workspaceDir = path.resolve(root, input.directory);
+    const directory = path.relative(root, workspaceDir) || '.';
+    if (directory.startsWith('..') || path.isAbsolute(directory)) {
+      return fail(`Directory "${input.directory}" is outside the workspace`);
+    }
+    if (!(await fs.pathExists(workspaceDir)) || !(await fs.stat(workspaceDir)).isDirectory()) {
+      return fail(`Directory "${input.directory}" does not exist`);
+    }
+
+    // A sub-agent gets no tool its parent is denied
+    const tools = input.tools ?? DEFAULT_DELEGATE_TOOLS;
+    const withheld = withheldTools(registry, options.user);
+    const unknown = tools.filter((name) => !registry.has(name) || withheld.has(name));
+    if (unknown.length > 0) {
+      return fail(`Tools not available to sub-agents: ${unknown.join(', ')}`);
+    }
+    if (signal.aborted) return fail('Cancelled before the subtask started');
+
+    const requested = input.tokenBudget ?? 0;
+    const tokenBudget = budgetShare > 0 ? Math.min(requested || budgetShare, budgetShare) : requested;
+    const childSessionId = uuidv4();
+    const cancelChild = () => this.cancel(childSessionId);
+    signal.addEventListener('abort', cancelChild, { once: true });
+
+    this.log.info('Delegating subtask', {
+      parentSessionId,
+      childSessionId,
+      directory,
+      tools,
+      tokenBudget,
+    });
+    try {
+      const run = await this.runLoop(
+        input.task,
+        childSessionId,
+        (event) => emit({ ...event, childSessionId }),
+        options,
+        {
+          delegation: {
+            parentSessionId,
+            workspaceDir,
+            directory,
+            tools: new Set(tools),
+            tokenBudget,
+            registry,
+            dryRun,
+            permissions,
+          },
         }
-      }
+      );
+      const report = run.finalMessage ?? '';
+      return {
+        result: {
+          toolCallId: toolUse.id,
+          toolName: toolUse.name,
+          success: true,
+          durationMs: Date.now() - start,
+          result: {
+            childSessionId,
+            status: this.memory.getRunCheckpoint(childSessionId)?.status ?? 'completed',
+            summary: run.summary,
+            report:
+              report.length > DELEGATE_REPORT_MAX_CHARS
+                ? report.slice(0, DELEGATE_REPORT_MAX_CHARS) + '\n...[report truncated]'
+                : report,
+            toolCallsCount: run.toolCallsCount,
+            tokenUsage: run.tokenUsage,
+            verification: run.verification,
+          },
+        },
+        usage: this.memory.getSessionTokenUsage(childSessionId),
+      };
+    } catch (err: any) {
+      this.log.warn('Delegated subtask failed', {
+        parentSessionId,
+        childSessionId,
+        error: err.message,
+      });
+      // Tokens the child spent before failing still count against the parent
+      const usage = this.memory.getSession(childSessionId)
+        ? this.memory.getSessionTokenUsage(childSessionId)
+        : noUsage;
+      return fail(`Subtask failed: ${err.message}`, usage);
+    } finally {
+      signal.removeEventListener('abort', cancelChild);
     }
-    const last = messages[messages.length - 1];
-    if (!last || last.role !== 'user' || last.content !== currentMessage) {
-      // Merge if last is also user
-      if (last && last.role === 'user') {
-        last.content = `${last.content}\n\n${currentMessage}`;
-      } else {
-        messages.push({ role: 'user', content: currentMessage });
+  }
+
+  // ─── Session worktrees ───────────────────────────────────────────────────
+
+  /**
+   * The session's worktree, created on its first run when session worktrees
+   * are on. Dry runs use an existing one but never create one. Without a
+   * worktree the session works in the shared workspace.
+   */
+  private async sessionWorktree(
+    sessionId: string,
+    root: string,
+    dryRun: boolean,
+    emit: EventHandler
+  ): Promise<SessionWorktree | null> {
+    const existing = this.memory.getSession(sessionId)?.worktree;
+    if (existing && (await fs.pathExists(existing.path))) return existing;
+    if (!this.config.sessionWorktrees || dryRun) return null;
+
+    try {
+      const worktree = await this.worktreeLock.runExclusive(() =>
+        createWorktree(root, sessionId)
+      );
+      if (!worktree) {
+        this.log.warn('Workspace has no commits to branch from — using the shared workspace', { sessionId });
+        return null;
       }
+      this.memory.setSessionWorktree(sessionId, worktree);
+      this.log.info('Session worktree created', { sessionId, ...worktree });
+      return worktree;
+    } catch (err: any) {
+      this.log.warn('Session worktree not created', { sessionId, error: err.message });
+      emit({
+        type: 'error',
+        data: { error: `Working in the shared workspace — the session worktree failed: ${err.message}` },
+        timestamp: new Date(),
+      });
+      return null;
     }
-    return messages;
+  }
+
+  // Config whose workspace is a directory inside the main one: a worktree or a
+  // sub-agent's scope. Sandbox bind mounts need the matching host path.
+  private workspaceConfig(workspaceDir: string, base: Config = this.config): Config {
+    if (workspaceDir === base.workspaceDir) return base;
+    const relative = path.relative(base.workspaceDir, workspaceDir);
+    const hostRoot = base.hostWorkspaceDir ?? base.workspaceDir;
+    return { ...base, workspaceDir, hostWorkspaceDir: path.join(hostRoot, relative) };
+  }
+
+  // ─── Workspaces ──────────────────────────────────────────────────────────
+
+  // The global Config, or a registered workspace's root and settings over it
+  private baseConfig(workspaceId: string | undefined): Config {
+    const workspace = workspaceId ? this.memory.getWorkspace(workspaceId) : undefined;
+    return workspace ? applyWorkspaceSettings(this.config, workspace) : this.config;
+  }
+
+  private sessionBaseConfig(sessionId: string): Config {
+    return this.baseConfig(this.memory.getSession(sessionId)?.workspaceId);
+  }
+
+  /**
+   * The workspace a run works in. A session stays in the workspace it was
+   * started in and sub-agents share their parent's; only a new session takes
+   * the requested one. Asking for another workspace than the session's throws.
+   */
+  private runWorkspace(
+    sessionId: string,
+    requested: string | undefined,
+    delegation: Delegation | undefined
+  ): { workspaceId: string | undefined; base: Config } {
+    if (delegation) {
+      const workspaceId = this.memory.getSession(delegation.parentSessionId)?.workspaceId;
+      return { workspaceId, base: this.baseConfig(workspaceId) };
+    }
+    const wanted = requested === DEFAULT_WORKSPACE_ID ? undefined : requested;
+    if (wanted && !this.memory.getWorkspace(wanted)) {
+      throw new Error(`Unknown workspace "${wanted}"`);
+    }
+    const session = this.memory.getSession(sessionId);
+    if (session && requested !== undefined && session.workspaceId !== wanted) {
+      throw new Error(
+        `Session ${sessionId} belongs to workspace "${session.workspaceId ?? DEFAULT_WORKSPACE_ID}"`
+      );
+    }
+    const workspaceId = session ? session.workspaceId : wanted;
+    return { workspaceId, base: this.baseConfig(workspaceId) };
+  }
+
+  /** The session's worktree with its unmerged commits and changes, if it has one. */
+  async getWorktree(sessionId: string): Promise<WorktreeStatus | null> {
+    const worktree = this.memory.getSession(sessionId)?.worktree;
+    return worktree ? worktreeStatus(this.sessionBaseConfig(sessionId).workspaceDir, worktree) : null;
+  }
+
+  /**
+   * Merges, squash-merges or discards the session's branch into the main
+   * checkout and removes its worktree. A conflicting merge is aborted and
+   * reported, and the worktree is kept so the session can carry on.
+   */
+  async finishWorktree(sessionId: string, action: WorktreeAction): Promise<WorktreeFinishResult> {
+    const worktree = this.memory.getSession(sessionId)?.worktree;
+    if (!worktree) {
+      throw new Error(`Session ${sessionId} has no worktree`);
+    }
+    if (this.cancelControllers.has(sessionId)) {
+      throw new Error(`Session ${sessionId} is running — wait for it to finish`);
+    }
+
+    const verb = action === 'squash' ? 'Squash' : 'Merge';
+    const root = this.sessionBaseConfig(sessionId).workspaceDir;
+    const result = await this.worktreeLock.runExclusive(() =>
+      finishWorktree(root, worktree, action, `[AI Agent] ${verb} ${worktree.branch}`)
+    );
+    if (result.success) {
+      this.memory.setSessionWorktree(sessionId, null);
+      // A pending dry run was made against the worktree that is now gone
+      this.dryRuns.delete(sessionId);
+    }
+    this.log.info('Session worktree finished', { sessionId, action, success: result.success });
+    return result;
+  }
+
+  // ─── Session timeline ────────────────────────────────────────────────────
+
+  // Where the session's edits were made: its worktree, or its workspace
+  private sessionWorkspaceDir(sessionId: string): string {
+    const session = this.memory.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    return session.worktree?.path ?? session.workspaceDir;
+  }
+
+  /** The session's file edits, checkpoints and restores, oldest first. */
+  async getTimeline(sessionId: string): Promise<TimelineEntry[]> {
+    return buildTimeline(this.memory, sessionId, this.sessionWorkspaceDir(sessionId));
+  }
+
+  /**
+   * Restores the session's files — or one of them, with `options.path` — to
+   * how they were right after a timeline entry, or before its first edit.
+   */
+  async restoreTimeline(
+    sessionId: string,
+    to: string,
+    options: { path?: string; force?: boolean } = {}
+  ): Promise<RestoreResult> {
+    const workspaceDir = this.sessionWorkspaceDir(sessionId);
+    if (this.cancelControllers.has(sessionId)) {
+      throw new Error(`Session ${sessionId} is running — wait for it to finish`);
+    }
+    const result = await this.timelineLock.runExclusive(() =>
+      restoreTimeline(this.memory, sessionId, workspaceDir, to, options)
+    );
+    this.log.info('Session timeline restored', { sessionId, to, path: options.path, files: result.files.length });
+    return result;
+  }
+
+  /** Reverts the file changes of one timeline entry, keeping later ones. */
+  async revertTimelineEntry(sessionId: string, entryId: string): Promise<RestoreResult> {
+    const workspaceDir = this.sessionWorkspaceDir(sessionId);
+    if (this.cancelControllers.has(sessionId)) {
+      throw new Error(`Session ${sessionId} is running — wait for it to finish`);
+    }
+    const result = await this.timelineLock.runExclusive(() =>
+      revertTimelineEntry(this.memory, sessionId, workspaceDir, entryId)
+    );
+    this.log.info('Session timeline entry reverted', { sessionId, entryId, files: result.files.length });
+    return result;
+  }
+
+  // ─── Dry runs ────────────────────────────────────────────────────────────
+
+  private keepDryRun(sessionId: string, overlay: DryRunOverlay): void {
+    this.dryRuns.delete(sessionId);
+    this.dryRuns.set(sessionId, overlay);
+    // Oldest first: Map keeps insertion order
+    for (const oldest of this.dryRuns.keys()) {
+      if (this.dryRuns.size <= MAX_PENDING_DRY_RUNS) break;
+      this.dryRuns.delete(oldest);
+    }
+  }
+
+  /** The report of a session's finished dry run, if it has not been applied yet. */
+  getDryRun(sessionId: string): DryRunReport | undefined {
+    return this.dryRuns.get(sessionId)?.report();
+  }
+
+  /**
+   * Writes a finished dry run's file changes to the workspace, then runs the
+   * recorded side effects picked by id, in the order the run asked for them.
+   * Nothing is applied if a file changed on disk since the dry run read it.
+   */
+  async applyDryRun(
+    sessionId: string,
+    sideEffectIds: readonly string[] = []
+  ): Promise<{ files: DryRunFileChange[]; sideEffects: ToolResult[] }> {
+    const overlay = this.dryRuns.get(sessionId);
+    if (!overlay) {
+      throw new Error(`Session ${sessionId} has no dry run to apply`);
+    }
+    if (this.cancelControllers.has(sessionId)) {
+      throw new Error(`Session ${sessionId} is running — wait for it to finish`);
+    }
+    const known = new Set(overlay.sideEffects.map((s) => s.id));
+    const unknown = sideEffectIds.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown side effects for session ${sessionId}: ${unknown.join(', ')}`);
+    }
+
+    const files = await overlay.apply();
+    this.dryRuns.delete(sessionId);
+    this.log.info('Dry run applied', { sessionId, files: files.length, sideEffects: sideEffectIds.length });
+
+    const selected = new Set(sideEffectIds);
+    const executor = new ToolExecutor(
+      this.workspaceConfig(overlay.root, this.sessionBaseConfig(sessionId)),
+      this.memory,
+      sessionId
+    );
+    const sideEffects: ToolResult[] = [];
+    for (const intent of overlay.sideEffects.filter((s) => selected.has(s.id))) {
+      const result = await executor.execute({ name: intent.tool, input: intent.input }, this.config.maxRetries);
+      sideEffects.push(result);
+      // Later side effects usually depend on earlier ones (checkpoint, then push)
+      if (!result.success) break;
+    }
+    return { files, sideEffects };
   }
 
   // ─── Secret scanning ─────────────────────────────────────────────────────
 
-  private async scanForSecrets(): Promise<string[]> {
-    const hits: string[] = [];
+  // Findings on the staged changes, as "path:line (rule)"
+  private async scanForSecrets(workspaceDir: string): Promise<string[]> {
     try {
-      const git = new GitTool(this.config.workspaceDir);
+      const git = new GitTool(workspaceDir);
       // Use async .diff() instead of blocking execSync to avoid stalling the event loop
       const diff = await git.diff(['--cached']);
       if (!diff) return [];
-
-      for (const { name, pattern } of SECRET_PATTERNS) {
-        if (pattern.test(diff)) hits.push(name);
-      }
+      const scanner = await loadSecretScanner(workspaceDir);
+      return scanner.scanDiff(diff).map(formatFinding);
     } catch {
       // Not a git repo yet or no staged files — skip
+      return [];
     }
-    return hits;
   }
 
   // ─── Helpers ──────────────────────────────────────────────────────────────
 
+  // ─── Patch review ───────────────────────────────────────────────────────────
+  // Previews every write_file / apply_patch / delete_file in the turn, asks for
+  // approval of each one concurrently, and returns the edits that were rejected
+  // keyed by tool_use id. Edits that cannot be previewed (bad patch, blocked
+  // path) are not sent for review — the tool itself will report the error.
+
+  private async reviewFileEdits(
+    sessionId: string,
+    toolUses: Anthropic.ToolUseBlock[],
+    emit: (event: AgentEvent) => void,
+    workspaceDir: string
+  ): Promise<Map<string, FileChangePreview>> {
+    const rejected = new Map<string, FileChangePreview>();
+    const edits = toolUses.filter((t) => PATCH_APPROVAL_TOOLS.has(t.name));
+    if (edits.length === 0) return rejected;
+
+    const fileTool = new FileTool(workspaceDir);
+    const overlay = new Map<string, string | null>();
+    const previews: Array<{ toolUse: Anthropic.ToolUseBlock; preview: FileChangePreview }> = [];
+    for (const toolUse of edits) {
+      try {
+        const preview = await fileTool.previewChange(
+          toolUse.name as 'write_file' | 'apply_patch' | 'delete_file',
+          toolUse.input as any,
+          overlay
+        );
+        previews.push({ toolUse, preview });
+      } catch (err: any) {
+        this.log.debug('Edit could not be previewed, skipping review', {
+          sessionId,
+          tool: toolUse.name,
+          error: err.message,
+        });
+      }
+    }
+
+    const batchId = uuidv4();
+    const decisions = await Promise.all(
+      previews.map(async ({ toolUse, preview }, index) => {
+        const approved = await this.requestPatchApproval(
+          toolUse.id,
+          preview.path,
+          preview.diff,
+          preview.operation,
+          emit,
+          this.config.patchApprovalTimeout ?? 120_000,
+          { sessionId, batchId, index, total: previews.length, toolName: toolUse.name }
+        );
+        return { toolUse, preview, approved };
+      })
+    );
+
+    for (const { toolUse, preview, approved } of decisions) {
+      if (!approved) {
+        rejected.set(toolUse.id, preview);
+      }
+    }
+    this.log.info('Patch review complete', {
+      sessionId,
+      batchId,
+      proposed: previews.length,
+      rejected: rejected.size,
+    });
+    return rejected;
+  }
+
+  // ─── Tool permissions ─────────────────────────────────────────────────────
+  // Checks every call in the turn against the workspace's policy, asks the user
+  // about the ones it says to ask about — all at once — and returns the calls
+  // that must not run keyed by tool_use id, with the error and hint the model
+  // gets instead. A proposed plan is already reviewed and is not checked.
+  // A dry run performs nothing, so it only refuses denied calls.
+
+  private async checkPermissions(
+    sessionId: string,
+    policy: PermissionPolicy,
+    toolUses: Anthropic.ToolUseBlock[],
+    emit: (event: AgentEvent) => void,
+    dryRun: boolean
+  ): Promise<Map<string, { error: string; hint: string }>> {
+    const refused = new Map<string, { error: string; hint: string }>();
+    const asks: Array<{ toolUse: Anthropic.ToolUseBlock; reason?: string }> = [];
+
+    for (const toolUse of toolUses) {
+      if (toolUse.name === PROPOSE_PLAN_TOOL.name) continue;
+      const decision = decidePermission(policy, toolUse.name, toolUse.input);
+      const because = decision.reason ? `: ${decision.reason}` : '';
+      if (decision.action === 'deny') {
+        refused.set(toolUse.id, {
+          error: `Tool "${toolUse.name}" is denied by ${PERMISSIONS_POLICY_FILE}${because}`,
+          hint:
+            'The call was NOT made, and this workspace never allows it. ' +
+            'Do not retry it — find another way, or tell the user it is not allowed.',
+        });
+      } else if (decision.action === 'ask' && !dryRun) {
+        asks.push({ toolUse, reason: decision.reason });
+      }
+    }
+    if (refused.size > 0) {
+      this.log.info('Tool calls denied by permissions', {
+        sessionId,
+        tools: toolUses.filter((t) => refused.has(t.id)).map((t) => t.name),
+      });
+    }
+
+    const decisions = await Promise.all(
+      asks.map(async ({ toolUse, reason }) => {
+        const approved = await this.requestToolApproval(
+          {
+            approvalId: toolUse.id,
+            sessionId,
+            toolName: toolUse.name,
+            input: toolUse.input,
+            ...(reason && { reason }),
+            requestedAt: new Date(),
+          },
+          emit,
+          this.config.patchApprovalTimeout ?? 120_000
+        );
+        return { toolUse, approved };
+      })
+    );
+    for (const { toolUse, approved } of decisions) {
+      if (approved) continue;
+      refused.set(toolUse.id, {
+        error: `Tool "${toolUse.name}" was not approved by the user`,
+        hint:
+          'The call was NOT made. Do not retry it unchanged — ' +
+          'ask the user what they want or take a different approach.',
+      });
+    }
+    return refused;
+  }
+
   private persistToolResult(
     sessionId: string,
     toolUse: Anthropic.ToolUseBlock,
@@ -1560,7 +2907,12 @@ Summary (be specific about what was done, e.g. "Added auth middleware to Express
       content: output,
       toolName: toolUse.name,
       toolResult: result.error,
-      metadata: { durationMs: result.durationMs, success: result.success },
+      metadata: {
+        durationMs: result.durationMs,
+        success: result.success,
+        toolUseId: toolUse.id,
+        isError: !result.success,
+      },
     });
   }
 
@@ -1568,8 +2920,7 @@ Summary (be specific about what was done, e.g. "Added auth middleware to Express
   // Reads .agentcontext or .agent/context.md from workspace for project-specific
   // instructions like coding standards, tech stack notes, etc.
 
-  private async loadProjectContext(): Promise<string> {
-    const workspace = this.config.workspaceDir;
+  private async loadProjectContext(workspace: string): Promise<string> {
     const contextPaths = [
       path.join(workspace, '.agentcontext'),
       path.join(workspace, '.agent', 'context.md'),
@@ -1607,32 +2958,94 @@ Summary (be specific about what was done, e.g. "Added auth middleware to Express
   }
 }
 
-// ─── Parallel tool classification ─────────────────────────────────────────────
-// Read-only tools are safe to parallelise. Anything that writes files, runs
-// shell commands, or touches git must be sequential to avoid race conditions.
+// Share of the model's context window the request may fill (token counts are estimates)
+const CONTEXT_FILL_RATIO = 0.9;
 
-const READ_ONLY_TOOLS = new Set([
-  // File reads — no side effects, safe to parallelise
+// Deploys and infrastructure changes are kept from users below admin; unset
+// (the CLI) has every tool
+function withheldTools(registry: ToolRegistry, user: RunOptions['user']): Set<string> {
+  return new Set(user && user.role !== 'admin' ? registry.names().filter((name) => registry.isAdminOnly(name)) : []);
+}
+
+// ─── Delegation defaults ──────────────────────────────────────────────────────
+
+// Handled here rather than by ToolExecutor: it starts a child run
+const DELEGATE_TASK_TOOL = toProviderTool({
+  name: 'delegate_task',
+  description:
+    'Hand a self-contained subtask to a sub-agent that works on it independently and reports back. ' +
+    'Use it when a task splits cleanly, e.g. "update the API in packages/a" and "update the client in packages/b" — ' +
+    'several delegate_task calls in one turn run in parallel. The sub-agent only sees files under `directory`, ' +
+    'can only use the listed `tools`, and cannot delegate further. Its final report comes back as the result.',
+  schema: DelegateTaskSchema,
+});
+
+// Tools a sub-agent gets when delegate_task names none: enough to edit and
+// verify code, nothing that pushes, deploys or rewrites history
+const DEFAULT_DELEGATE_TOOLS = [
   'read_file',
+  'write_file',
+  'apply_patch',
+  'delete_file',
   'list_files',
   'search_files',
-  // Git reads
+  'tsc_check',
+  'eslint_check',
+  'prettier_format',
+  'npm_run',
+  'run_tests',
   'git_status',
   'git_diff',
-  // Memory reads
   'memory_get',
-  // Type checking (reads only, --noEmit default)
-  'tsc_check',
-]);
+];
+
+// Characters of a sub-agent's final message returned to the parent
+const DELEGATE_REPORT_MAX_CHARS = 4_000;
+
+// Appended to a sub-agent's system prompt. Nobody answers a sub-agent's
+// questions, so it must finish on its own and report back.
+function delegationBrief(delegation: Delegation): string {
+  return (
+    `\n\n## Delegated Subtask\n` +
+    `You are a sub-agent working on one subtask for a parent agent. Nobody will reply to questions — ` +
+    `do not ask for a review mode or approval; complete the task on your own.\n` +
+    `- Your workspace root is \`${delegation.directory}\` of the project; files outside it are not reachable.\n` +
+    `- Available tools: ${[...delegation.tools].join(', ')}.\n` +
+    `- Finish with a concise report for the parent: files changed, check and test results, anything left undone.`
+  );
+}
+
+// Finished dry runs kept for applying; the oldest is dropped beyond this
+const MAX_PENDING_DRY_RUNS = 20;
+
+// Appended to the system prompt of a dry run, sub-agents included
+const DRY_RUN_BRIEF =
+  `\n\n## Dry Run\n` +
+  `This run is a dry run. File edits go to an in-memory copy of the workspace that your reads see, ` +
+  `but nothing is written to disk. Every other tool with side effects (git, npm, tests, deploys, terraform) ` +
+  `is not run; it is recorded for the user to apply after reviewing the run, and returns status "dry_run". ` +
+  `Do not retry recorded tools or try to work around them — carry on as if they succeeded, ` +
+  `and finish with what you changed and which recorded steps the user should apply.`;
 
-function classifyTools(blocks: Anthropic.ToolUseBlock[]): {
+// File tools that pause for review when config.requirePatchApproval is set
+const PATCH_APPROVAL_TOOLS = new Set(['write_file', 'apply_patch', 'delete_file']);
+
+// ─── Parallel tool classification ─────────────────────────────────────────────
+// Read-only tools (readOnly in the registry) are safe to parallelise. Anything
+// that writes files, runs shell commands, or touches git must be sequential to
+// avoid race conditions.
+
+function classifyTools(
+  blocks: Anthropic.ToolUseBlock[],
+  registry: ToolRegistry
+): {
   parallel: Anthropic.ToolUseBlock[];
   sequential: Anthropic.ToolUseBlock[];
 } {
   const parallel: Anthropic.ToolUseBlock[] = [];
   const sequential: Anthropic.ToolUseBlock[] = [];
   for (const block of blocks) {
-    (READ_ONLY_TOOLS.has(block.name) ? parallel : sequential).push(block);
+    (registry.isReadOnly(block.name) ? parallel : sequential).push(block);
   }
   return { parallel, sequential };
 }
@@ -1801,6 +3214,13 @@ function summarizeLargeOutput(
   );
 }
 
+// What the model reads for a failed call: the code, so it can tell a bad patch
+// from a missing file, and the hint on what to try instead
+function formatToolError(result: { error?: string; errorCode?: string; hint?: string }): string {
+  const code = result.errorCode ? ` [${result.errorCode}]` : '';
+  return `ERROR${code}: ${result.error}` + (result.hint ? `\nHint: ${result.hint}` : '');
+}
+
 function buildToolResultParam(
   toolUseId: string,
   result: any,
@@ -1808,7 +3228,7 @@ function buildToolResultParam(
 ): { param: Anthropic.ToolResultBlockParam; serialized: string } {
   let serialized = result.success
     ? JSON.stringify(result.result, null, 2)
-    : `ERROR: ${result.error}`;
+    : formatToolError(result);
 
   // Summarize large outputs to save context space
   if (maxOutputContext > 0 && serialized.length > maxOutputContext) {
@@ -0,0 +1,208 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { MessageParam } from '@anthropic-ai/sdk/resources/messages';
+
+// ─── Token-aware context management ───────────────────────────────────────────
+// Keeps the transcript inside the model's context window. Sizes are estimated
+// (~4 characters per token) rather than counted, so budgets leave headroom.
+// When the transcript is over budget the strategies run in order, each only
+// if the previous one was not enough:
+//   1. elide_tool_results — replace old tool outputs with short stubs
+//   2. summarise          — fold the oldest turns into a model-written summary
+//   3. drop               — discard the oldest turns outright
+// The most recent messages are never compacted.
+
+export type CompactionStrategy = 'elide_tool_results' | 'summarise' | 'drop';
+
+export interface CompactionReport {
+  strategies: CompactionStrategy[];
+  budget: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  elidedToolResults: number;
+  summarisedMessages: number;
+  droppedMessages: number;
+}
+
+export interface ContextManagerOptions {
+  // Turns a slice of the transcript into prose. Without it, strategy 2 is skipped.
+  summarise?: (messages: MessageParam[]) => Promise<string>;
+  keepRecentMessages?: number; // default 6
+}
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const ELIDE_MIN_CHARS = 256; // outputs shorter than this cost less than their stub is worth
+const SUMMARY_ALLOWANCE_TOKENS = 1_024; // room reserved for the summary itself
+
+export function estimateTokens(value: string | MessageParam | readonly MessageParam[]): number {
+  if (typeof value === 'string') return Math.ceil(value.length / CHARS_PER_TOKEN);
+  if (Array.isArray(value)) {
+    return (value as readonly MessageParam[]).reduce((sum, m) => sum + estimateTokens(m), 0);
+  }
+  const { content } = value as MessageParam;
+  const chars = typeof content === 'string' ? content.length : JSON.stringify(content).length;
+  return Math.ceil(chars / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export class ContextManager {
+  private readonly keepRecent: number;
+
+  constructor(private readonly options: ContextManagerOptions = {}) {
+    this.keepRecent = options.keepRecentMessages ?? 6;
+  }
+
+  /**
+   * Returns the transcript unchanged when it fits `budget` tokens, otherwise a
+   * compacted copy plus a report of what was done. The input is never mutated.
+   */
+  async fit(
+    messages: MessageParam[],
+    budget: number
+  ): Promise<{ messages: MessageParam[]; report: CompactionReport | null }> {
+    const tokensBefore = estimateTokens(messages);
+    if (tokensBefore <= budget) return { messages, report: null };
+
+    const report: CompactionReport = {
+      strategies: [],
+      budget,
+      tokensBefore,
+      tokensAfter: tokensBefore,
+      elidedToolResults: 0,
+      summarisedMessages: 0,
+      droppedMessages: 0,
+    };
+    const protectedFrom = Math.max(0, messages.length - this.keepRecent);
+
+    // 1. Elide old tool outputs, oldest first
+    let working = messages.map((m) =>
+      Array.isArray(m.content) ? { ...m, content: [...m.content] } : m
+    ) as MessageParam[];
+    let tokens = tokensBefore;
+    for (let i = 0; i < protectedFrom && tokens > budget; i++) {
+      const message = working[i];
+      if (message.role !== 'user' || !Array.isArray(message.content)) continue;
+      const blocks = message.content as Anthropic.ToolResultBlockParam[];
+      for (let b = 0; b < blocks.length && tokens > budget; b++) {
+        const block = blocks[b];
+        if (block.type !== 'tool_result') continue;
+        const size = JSON.stringify(block.content ?? '').length;
+        if (size < ELIDE_MIN_CHARS) continue;
+        const stub = `[Tool output elided to save context (${size.toLocaleString('en-US')} chars) — run the tool again if you need it]`;
+        blocks[b] = { ...block, content: stub };
+        tokens -= Math.ceil((size - stub.length) / CHARS_PER_TOKEN);
+        report.elidedToolResults++;
+      }
+    }
+    if (report.elidedToolResults > 0) report.strategies.push('elide_tool_results');
+    tokens = estimateTokens(working);
+
+    // 2 + 3. Cut the oldest turns. Cuts land on assistant messages so the kept
+    // tail never starts with a tool_result whose tool_use was removed.
+    if (tokens > budget) {
+      const cuts = working
+        .map((m, i) => (m.role === 'assistant' && i > 0 && i <= protectedFrom ? i : -1))
+        .filter((i) => i > 0);
+      if (cuts.length > 0) {
+        const target = budget - SUMMARY_ALLOWANCE_TOKENS;
+        const summaryCut =
+          cuts.find((i) => estimateTokens(working.slice(i)) <= target) ?? cuts[cuts.length - 1];
+
+        let summary: string | null = null;
+        if (this.options.summarise) {
+          try {
+            summary = (await this.options.summarise(working.slice(0, summaryCut))).trim() || null;
+          } catch {
+            summary = null; // fall through to dropping
+          }
+        }
+        if (summary) {
+          report.strategies.push('summarise');
+          report.summarisedMessages = summaryCut;
+        }
+
+        // Still too big (or no summary): drop further turns, keeping the last exchange
+        const source = working;
+        const compose = (at: number) => [
+          headMessage(source, at, summary, summary ? at - summaryCut : at),
+          ...source.slice(at),
+        ];
+        let cut = summaryCut;
+        let candidate = compose(cut);
+        for (let i = cut + 1; i < source.length - 1; i++) {
+          if (estimateTokens(candidate) <= budget) break;
+          if (source[i].role !== 'assistant') continue;
+          cut = i;
+          candidate = compose(cut);
+        }
+        const dropped = summary ? cut - summaryCut : cut;
+        if (dropped > 0) {
+          report.strategies.push('drop');
+          report.droppedMessages = dropped;
+        }
+        working = candidate;
+      }
+    }
+
+    report.tokensAfter = estimateTokens(working);
+    return { messages: working, report };
+  }
+}
+
+// First message of a compacted transcript: the summary and/or a drop notice,
+// plus the latest user request if it was among the removed messages.
+function headMessage(
+  messages: MessageParam[],
+  cut: number,
+  summary: string | null,
+  droppedCount: number
+): MessageParam {
+  const parts: string[] = [];
+  if (summary) parts.push(`[CONTEXT SUMMARY — earlier conversation]\n${summary}`);
+  if (droppedCount > 0) {
+    parts.push(`[${droppedCount} earlier message(s) were dropped to fit the context window]`);
+  }
+  const keptRequest = messages.slice(cut).some(isUserPrompt);
+  if (!keptRequest) {
+    const request = [...messages.slice(0, cut)].reverse().find(isUserPrompt);
+    if (request) parts.push(`[CURRENT REQUEST]\n${promptText(request)}`);
+  }
+  return { role: 'user', content: parts.join('\n\n') };
+}
+
+// A user turn with typed text (it may also carry tool results from the turn before)
+function isUserPrompt(message: MessageParam): boolean {
+  if (message.role !== 'user') return false;
+  if (typeof message.content === 'string') return true;
+  return message.content.some((b) => b.type === 'text');
+}
+
+function promptText(message: MessageParam): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+    .map((b) => b.text)
+    .join('\n');
+}
+
+/** Flattens a transcript slice into plain text for the summarisation prompt. */
+export function transcriptToText(messages: MessageParam[], maxCharsPerBlock = 500): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    const role = message.role.toUpperCase();
+    if (typeof message.content === 'string') {
+      lines.push(`${role}: ${message.content.slice(0, maxCharsPerBlock)}`);
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        lines.push(`${role}: ${block.text.slice(0, maxCharsPerBlock)}`);
+      } else if (block.type === 'tool_use') {
+        lines.push(`${role} → ${block.name}(${JSON.stringify(block.input).slice(0, 200)})`);
+      } else if (block.type === 'tool_result') {
+        const output = typeof block.content === 'string' ? block.content : JSON.stringify(block.content);
+        lines.push(`TOOL RESULT${block.is_error ? ' (error)' : ''}: ${(output ?? '').slice(0, 300)}`);
+      }
+    }
+  }
+  return lines.join('\n\n');
+}
@@ -0,0 +1,151 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { MessageParam } from '@anthropic-ai/sdk/resources/messages';
+import type { MemoryEntry } from '../memory/DatabaseMemory';
+
+// ─── Conversation history replay ──────────────────────────────────────────────
+// Rebuilds the model transcript from stored messages. Assistant rows carry their
+// original content blocks (text + tool_use) in metadata.blocks and tool rows carry
+// the tool_use id they answer, so a follow-up prompt sees exactly which files
+// were read and which edits were made. Rows written before blocks were stored
+// replay as plain text, as they always did.
+
+type ContentBlock = Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam | Anthropic.ToolResultBlockParam;
+
+export interface ReplayOptions {
+  // Characters of tool output replayed verbatim, newest first; older outputs
+  // become stubs. 0 = no limit.
+  toolOutputBudget?: number;
+}
+
+/** Content blocks worth persisting for an assistant turn. */
+export function assistantBlocksForHistory(
+  content: ReadonlyArray<{ type: string }>
+): Array<Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam> {
+  const blocks: Array<Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam> = [];
+  for (const block of content) {
+    if (block.type === 'text') {
+      const { text } = block as Anthropic.TextBlock;
+      if (text) blocks.push({ type: 'text', text });
+    } else if (block.type === 'tool_use') {
+      const { id, name, input } = block as Anthropic.ToolUseBlock;
+      blocks.push({ type: 'tool_use', id, name, input });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Appends stored history to `messages`, merging with its last message where
+ * roles repeat. Every replayed tool_use is paired with a tool_result — results
+ * that were never recorded (cancelled turn, crash) get an error stub so the
+ * transcript stays valid. Tool rows whose tool_use is outside the window are dropped.
+ */
+export function appendHistory(
+  messages: MessageParam[],
+  history: MemoryEntry[],
+  options: ReplayOptions = {}
+): MessageParam[] {
+  const elided = elidedToolRows(history, options.toolOutputBudget ?? 0);
+  let pending: Map<string, string> | null = null; // tool_use id → tool name
+  let results: Anthropic.ToolResultBlockParam[] = [];
+
+  const flushResults = () => {
+    if (!pending) return;
+    for (const [id, name] of pending) {
+      results.push({
+        type: 'tool_result',
+        tool_use_id: id,
+        content: `[No result was recorded for this ${name} call — it may not have run]`,
+        is_error: true,
+      });
+    }
+    messages.push({ role: 'user', content: results });
+    pending = null;
+    results = [];
+  };
+
+  for (const entry of history) {
+    if (entry.role === 'tool') {
+      const toolUseId = entry.metadata?.toolUseId;
+      if (!pending || typeof toolUseId !== 'string' || !pending.has(toolUseId)) continue;
+      pending.delete(toolUseId);
+      results.push({
+        type: 'tool_result',
+        tool_use_id: toolUseId,
+        content: elided.has(entry.id) ? elisionStub(entry) : entry.content,
+        ...(entry.metadata.isError ? { is_error: true } : {}),
+      });
+      continue;
+    }
+
+    if (entry.role === 'assistant') {
+      flushResults();
+      // The transcript must open with a user turn
+      if (messages.length === 0) continue;
+      const stored = entry.metadata?.blocks;
+      const blocks = Array.isArray(stored) ? (stored as ContentBlock[]) : null;
+      if (blocks && blocks.length > 0) {
+        appendMessage(messages, 'assistant', blocks);
+        const toolUses = blocks.filter(
+          (b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use'
+        );
+        if (toolUses.length > 0) pending = new Map(toolUses.map((b) => [b.id, b.name]));
+      } else if (entry.content) {
+        appendMessage(messages, 'assistant', entry.content);
+      }
+      continue;
+    }
+
+    if (entry.role === 'user') {
+      flushResults();
+      appendMessage(messages, 'user', entry.content);
+    }
+  }
+  flushResults();
+  return messages;
+}
+
+/** Appends to the last message when it has the same role, keeping roles alternating. */
+export function appendMessage(
+  messages: MessageParam[],
+  role: 'user' | 'assistant',
+  content: string | ContentBlock[]
+): void {
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== role) {
+    messages.push({ role, content: typeof content === 'string' ? content : [...content] });
+    return;
+  }
+  if (typeof last.content === 'string' && typeof content === 'string') {
+    last.content = `${last.content}\n\n${content}`;
+    return;
+  }
+  last.content = [...toBlocks(last.content), ...toBlocks(content)] as MessageParam['content'];
+}
+
+function toBlocks(content: MessageParam['content'] | ContentBlock[]): ContentBlock[] {
+  if (typeof content === 'string') return content ? [{ type: 'text', text: content }] : [];
+  return content as ContentBlock[];
+}
+
+// Walks tool rows newest-first and returns the ids of those past the budget
+function elidedToolRows(history: MemoryEntry[], budget: number): Set<string> {
+  const elided = new Set<string>();
+  if (budget <= 0) return elided;
+  let used = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const entry = history[i];
+    if (entry.role !== 'tool') continue;
+    used += entry.content.length;
+    if (used > budget) elided.add(entry.id);
+  }
+  return elided;
+}
+
+function elisionStub(entry: MemoryEntry): string {
+  const tool = entry.toolName ?? 'tool';
+  return (
+    `[Earlier ${tool} output elided (${entry.content.length.toLocaleString('en-US')} chars) — ` +
+    `call ${tool} again if you need it]`
+  );
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { z } from 'zod';
+import { globToRegExp } from '../utils/glob';
+
+// ─── Tool permissions ─────────────────────────────────────────────────────────
+// A workspace can say which tool calls the agent may make on its own, which it
+// must ask the user about first, and which it may never make — e.g. "ask before
+// git_push, deny git_reset with mode hard, ask before any deploy_*". The policy
+// lives in .agent/permissions.json. Rules are checked in order and the first
+// one that matches the call decides; calls no rule matches get the default.
+
+export const PERMISSIONS_POLICY_FILE = path.join('.agent', 'permissions.json');
+
+export const PERMISSION_ACTIONS = ['allow', 'ask', 'deny'] as const;
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+// A string is a glob matched against a string argument ("src/**"); a number or
+// boolean must equal the argument; a list matches when any entry does
+const ArgValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+const ArgMatcherSchema = z.union([ArgValueSchema, z.array(ArgValueSchema).min(1)]);
+
+const RuleSchema = z.object({
+  tool: z.string().min(1).describe('A tool name, or a glob such as "deploy_*".'),
+  when: z.record(ArgMatcherSchema).optional().describe('Arguments the call must have; all must match.'),
+  action: z.enum(PERMISSION_ACTIONS),
+  reason: z.string().min(1).max(500).optional().describe('Shown to the user and the model.'),
+});
+
+export const PermissionPolicySchema = z.object({
+  default: z.enum(PERMISSION_ACTIONS).default('allow'),
+  rules: z.array(RuleSchema).default([]),
+});
+
+export type PermissionPolicy = z.infer<typeof PermissionPolicySchema>;
+export type PermissionRule = z.infer<typeof RuleSchema>;
+
+export interface PermissionDecision {
+  action: PermissionAction;
+  rule?: number; // index of the deciding rule; unset when the default decided
+  reason?: string;
+}
+
+// Without a policy file every call is allowed
+export const DEFAULT_PERMISSION_POLICY: PermissionPolicy = { default: 'allow', rules: [] };
+
+// In place of an invalid file every call is asked about, so nothing it meant to refuse slips by
+export const INVALID_FILE_PERMISSION_POLICY: PermissionPolicy = { default: 'ask', rules: [] };
+
+/** The workspace's policy, or null when it has none. Throws on an invalid file. */
+export async function loadPermissionPolicy(workspaceDir: string): Promise<PermissionPolicy | null> {
+  const file = path.join(workspaceDir, PERMISSIONS_POLICY_FILE);
+  if (!(await fs.pathExists(file))) return null;
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(file);
+  } catch (err) {
+    throw new Error(`Invalid ${PERMISSIONS_POLICY_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const parsed = PermissionPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${PERMISSIONS_POLICY_FILE}: ${JSON.stringify(parsed.error.flatten())}`);
+  }
+  return parsed.data;
+}
+
+/** What the policy says about calling `toolName` with `input`. */
+export function decidePermission(policy: PermissionPolicy, toolName: string, input: unknown): PermissionDecision {
+  const args = input && typeof input === 'object' ? (input as Record<string, unknown>) : {};
+  for (const [index, rule] of policy.rules.entries()) {
+    if (!globToRegExp(rule.tool).test(toolName)) continue;
+    const when = Object.entries(rule.when ?? {});
+    if (!when.every(([name, matcher]) => argMatches(args[name], matcher))) continue;
+    return { action: rule.action, rule: index, ...(rule.reason && { reason: rule.reason }) };
+  }
+  return { action: policy.default };
+}
+
+function argMatches(value: unknown, matcher: z.infer<typeof ArgMatcherSchema>): boolean {
+  if (Array.isArray(matcher)) return matcher.some((m) => argMatches(value, m));
+  if (typeof matcher !== 'string') return value === matcher;
+  if (typeof value !== 'string' && typeof value !== 'number') return false;
+  // Paths are written both ways; "./src/a.ts" is "src/a.ts"
+  return globToRegExp(matcher).test(String(value).replace(/^\.\//, ''));
+}
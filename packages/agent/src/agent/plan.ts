@@ -0,0 +1,50 @@
+import type { ProviderToolDefinition } from '../providers';
+import { toProviderTool } from '../tools/ToolRegistry';
+import { PlanSchema, type Plan } from '../tools/schemas';
+
+// ─── Plan mode ────────────────────────────────────────────────────────────────
+// A run started with mode 'plan' opens with a read-only phase: the model may
+// only explore, and ends the phase by calling propose_plan. The plan is held
+// for the user to edit or approve; once approved it is pinned into the system
+// prompt and the run continues with the full tool set.
+
+export type RunMode = 'plan' | 'auto';
+
+export const PROPOSE_PLAN_TOOL: ProviderToolDefinition = toProviderTool({
+  name: 'propose_plan',
+  description:
+    'Submit your implementation plan for the user to review. Call it once, after exploring, ' +
+    'and stop there — nothing may be written until the user approves the plan. ' +
+    'The result tells you whether it was approved (possibly with edits) or what to change.',
+  schema: PlanSchema,
+});
+
+// Appended to the system prompt while the plan is being drafted
+export const PLANNING_BRIEF =
+  `\n\n## Plan Mode\n` +
+  `You are in the planning phase. Only read-only tools are available. Explore as much as you need, ` +
+  `then call propose_plan with the steps, the files you will touch and the risks you see. ` +
+  `Do not claim any change has been made — implementation starts only after the user approves the plan.`;
+
+// Appended to the system prompt for the rest of the run once the plan is approved
+export function approvedPlanBrief(plan: Plan): string {
+  return (
+    `\n\n## Approved Plan\n` +
+    `The user approved this plan. Implement it step by step; if you must deviate, say why.\n\n` +
+    formatPlan(plan)
+  );
+}
+
+export function formatPlan(plan: Plan): string {
+  const lines = [plan.summary, '', 'Steps:', ...plan.steps.map((step, i) => `${i + 1}. ${step}`)];
+  if (plan.files.length > 0) {
+    lines.push('', 'Files:');
+    for (const f of plan.files) {
+      lines.push(`- ${f.change} \`${f.path}\`${f.reason ? ` — ${f.reason}` : ''}`);
+    }
+  }
+  if (plan.risks.length > 0) {
+    lines.push('', 'Risks:', ...plan.risks.map((r) => `- ${r}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,287 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { applyPatch, createTwoFilesPatch } from 'diff';
+import { v4 as uuidv4 } from 'uuid';
+import { GitTool, type ChangedFile } from '../tools/GitTool';
+import type { DatabaseMemory, FileChangeRecord, FileSnapshot } from '../memory/DatabaseMemory';
+
+// ─── Session timeline ─────────────────────────────────────────────────────────
+// Every write_file, apply_patch and delete_file is stored with the file's
+// versions before and after it, as git blobs (see ToolExecutor). With the
+// session's git_checkpoint commits, that makes a timeline the user can move
+// back along: restore the workspace or a single file to any point, or revert
+// one edit. Restores change files but never git history — the next checkpoint
+// commits them — and are timeline entries themselves, so they can be undone.
+
+// Tool name a restore is recorded under, so it shows up among the file changes
+export const RESTORE_TOOL = 'timeline_restore';
+
+// The point before the session's first edit
+export const TIMELINE_START = 'start';
+
+export interface TimelineFile {
+  path: string; // relative to the session's workspace
+  operation: 'create' | 'modify' | 'delete';
+  revertible: boolean; // its versions were kept
+}
+
+export interface TimelineEntry {
+  id: string; // the tool call's id
+  kind: 'edit' | 'checkpoint' | 'restore';
+  toolName: string;
+  summary: string; // the edited path, or the commit or restore message
+  success: boolean;
+  files: TimelineFile[];
+  commit?: { hash: string; shortHash: string; message: string; files: ChangedFile[] };
+  createdAt: Date;
+}
+
+export interface RestoreResult {
+  id: string | null; // the restore's own timeline entry; null when nothing changed
+  files: TimelineFile[];
+}
+
+// What a restore writes: a file's new content (null deletes it) and the
+// version it replaces
+interface FileWrite {
+  path: string;
+  current: string | null;
+  content: Buffer | string | null;
+}
+
+const EDIT_OPERATIONS: Record<string, TimelineFile['operation']> = {
+  write_file: 'modify',
+  apply_patch: 'modify',
+  delete_file: 'delete',
+};
+
+const GIT_STATUS_OPERATIONS: Record<ChangedFile['status'], TimelineFile['operation']> = {
+  A: 'create',
+  M: 'modify',
+  D: 'delete',
+  R: 'modify',
+};
+
+function operation(snapshot: FileSnapshot): TimelineFile['operation'] {
+  if (snapshot.before === null) return 'create';
+  return snapshot.after === null ? 'delete' : 'modify';
+}
+
+function byToolCall(snapshots: FileSnapshot[]): Map<string, FileSnapshot[]> {
+  const grouped = new Map<string, FileSnapshot[]>();
+  for (const s of snapshots) {
+    if (!grouped.has(s.toolCallId)) grouped.set(s.toolCallId, []);
+    grouped.get(s.toolCallId)!.push(s);
+  }
+  return grouped;
+}
+
+function checkpointHash(change: FileChangeRecord): string | undefined {
+  try {
+    const output = JSON.parse(change.output ?? '{}');
+    return output.filesChanged > 0 ? output.hash : undefined;
+  } catch {
+    return undefined; // truncated or not JSON
+  }
+}
+
+/** The session's edits, checkpoints and restores, oldest first. */
+export async function buildTimeline(
+  memory: DatabaseMemory,
+  sessionId: string,
+  workspaceDir: string
+): Promise<TimelineEntry[]> {
+  const snapshots = byToolCall(memory.getFileSnapshots(sessionId));
+  const git = new GitTool(workspaceDir);
+  const entries: TimelineEntry[] = [];
+
+  for (const change of memory.getFileChanges(sessionId)) {
+    const base = {
+      id: change.id,
+      toolName: change.toolName,
+      summary: change.filePath,
+      success: change.success,
+      createdAt: change.createdAt,
+    };
+
+    if (change.toolName === 'git_checkpoint') {
+      const hash = checkpointHash(change);
+      // The commit may be gone since — amended, rebased or in a removed worktree
+      const commit = hash ? await git.agentShow(hash).catch(() => undefined) : undefined;
+      entries.push({
+        ...base,
+        kind: 'checkpoint',
+        files: (commit?.files ?? []).map((f) => ({
+          path: f.path,
+          operation: GIT_STATUS_OPERATIONS[f.status] ?? 'modify',
+          revertible: false,
+        })),
+        commit: commit && {
+          hash: commit.hash,
+          shortHash: commit.shortHash,
+          message: commit.message,
+          files: commit.files,
+        },
+      });
+      continue;
+    }
+
+    const kept = snapshots.get(change.id) ?? [];
+    const restore = change.toolName === RESTORE_TOOL;
+    entries.push({
+      ...base,
+      kind: restore ? 'restore' : 'edit',
+      files:
+        kept.length > 0 || restore
+          ? kept.map((s) => ({ path: s.path, operation: operation(s), revertible: true }))
+          : [{ path: change.filePath, operation: EDIT_OPERATIONS[change.toolName] ?? 'modify', revertible: false }],
+    });
+  }
+  return entries;
+}
+
+/**
+ * Restores files to how they were right after timeline entry `to`, or before
+ * the session's first edit for TIMELINE_START: every file the session changed
+ * after that point, or only `options.path`. Refuses, changing nothing, when
+ * such a file was changed since the session last wrote it, unless `force`.
+ */
+export async function restoreTimeline(
+  memory: DatabaseMemory,
+  sessionId: string,
+  workspaceDir: string,
+  to: string,
+  options: { path?: string; force?: boolean } = {}
+): Promise<RestoreResult> {
+  const changes = memory.getFileChanges(sessionId);
+  const cut = to === TIMELINE_START ? 0 : changes.findIndex((c) => c.id === to) + 1;
+  if (cut === 0 && to !== TIMELINE_START) {
+    throw new Error(`Session ${sessionId} has no timeline entry ${to}`);
+  }
+
+  // Per file: its version at the cut, and the version the session wrote last
+  const snapshots = byToolCall(memory.getFileSnapshots(sessionId));
+  const versions = new Map<string, { target: string | null; latest: string | null; changedAfter: boolean }>();
+  changes.forEach((change, index) => {
+    for (const s of snapshots.get(change.id) ?? []) {
+      if (options.path && s.path !== options.path) continue;
+      const version = versions.get(s.path);
+      if (index < cut) versions.set(s.path, { target: s.after, latest: s.after, changedAfter: false });
+      else if (!version) versions.set(s.path, { target: s.before, latest: s.after, changedAfter: true });
+      else Object.assign(version, { latest: s.after, changedAfter: true });
+    }
+  });
+
+  const git = new GitTool(workspaceDir);
+  const writes: FileWrite[] = [];
+  const conflicts: string[] = [];
+  for (const [file, version] of versions) {
+    if (!version.changedAfter) continue;
+    const current = await git.storeBlob(path.resolve(workspaceDir, file));
+    if (current === version.target) continue;
+    if (current !== version.latest) conflicts.push(file);
+    writes.push({
+      path: file,
+      current,
+      content: version.target === null ? null : await git.readBlob(version.target),
+    });
+  }
+  if (conflicts.length > 0 && !options.force) {
+    throw new Error(
+      `Changed since the session last wrote them: ${conflicts.join(', ')}. Restore with force to overwrite them.`
+    );
+  }
+
+  const point = to === TIMELINE_START ? 'the session start' : `entry ${to}`;
+  const subject = options.path ?? `${writes.length} file(s)`;
+  return writeVersions(memory, sessionId, workspaceDir, writes, {
+    to,
+    path: options.path,
+    message: `Restore ${subject} to ${point}`,
+  });
+}
+
+/**
+ * Reverts one edit or restore: each file it changed goes back to its version
+ * from before it. Later changes to the same file are kept where they do not
+ * overlap the reverted one; when they do, nothing is changed.
+ */
+export async function revertTimelineEntry(
+  memory: DatabaseMemory,
+  sessionId: string,
+  workspaceDir: string,
+  entryId: string
+): Promise<RestoreResult> {
+  const snapshots = memory.getFileSnapshots(sessionId).filter((s) => s.toolCallId === entryId);
+  if (snapshots.length === 0) {
+    throw new Error(`Timeline entry ${entryId} has no kept file versions to revert`);
+  }
+
+  const git = new GitTool(workspaceDir);
+  const text = async (hash: string | null) => (hash === null ? null : (await git.readBlob(hash)).toString('utf8'));
+  const writes: FileWrite[] = [];
+  const conflicts: string[] = [];
+  for (const s of snapshots) {
+    const current = await git.storeBlob(path.resolve(workspaceDir, s.path));
+    if (current === s.before) continue; // already reverted
+    if (current === s.after) {
+      writes.push({ path: s.path, current, content: await text(s.before) });
+      continue;
+    }
+    // Changed again since: undo just this edit's hunks on top of the later changes
+    const [before, after, now] = await Promise.all([text(s.before), text(s.after), text(current)]);
+    const reverted =
+      before !== null && after !== null && now !== null
+        ? applyPatch(now, createTwoFilesPatch(s.path, s.path, after, before))
+        : false;
+    if (reverted === false) conflicts.push(s.path);
+    else writes.push({ path: s.path, current, content: reverted });
+  }
+  if (conflicts.length > 0) {
+    throw new Error(`Later changes overlap entry ${entryId} in: ${conflicts.join(', ')}`);
+  }
+
+  return writeVersions(memory, sessionId, workspaceDir, writes, {
+    revert: entryId,
+    message: `Revert entry ${entryId}`,
+  });
+}
+
+// Writes the files and records the restore as a timeline entry of its own
+async function writeVersions(
+  memory: DatabaseMemory,
+  sessionId: string,
+  workspaceDir: string,
+  writes: FileWrite[],
+  input: Record<string, unknown>
+): Promise<RestoreResult> {
+  if (writes.length === 0) return { id: null, files: [] };
+
+  const start = Date.now();
+  const id = uuidv4();
+  const git = new GitTool(workspaceDir);
+  const snapshots: FileSnapshot[] = [];
+  for (const write of writes) {
+    const absolute = path.resolve(workspaceDir, write.path);
+    if (write.content === null) {
+      await fs.remove(absolute);
+    } else {
+      await fs.ensureDir(path.dirname(absolute));
+      await fs.writeFile(absolute, write.content);
+    }
+    snapshots.push({ toolCallId: id, path: write.path, before: write.current, after: await git.storeBlob(absolute) });
+  }
+
+  const files = snapshots.map((s) => ({ path: s.path, operation: operation(s), revertible: true }));
+  memory.recordToolCall({
+    id,
+    sessionId,
+    toolName: RESTORE_TOOL,
+    input: JSON.stringify(input),
+    output: JSON.stringify({ files: files.map((f) => f.path) }),
+    success: true,
+    durationMs: Date.now() - start,
+  });
+  memory.recordFileSnapshots(sessionId, snapshots);
+  return { id, files };
+}
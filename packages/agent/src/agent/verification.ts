@@ -0,0 +1,185 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { z } from 'zod';
+import type { ToolResult } from '../tools/ToolExecutor';
+import { escapeRegExp, globToRegExp } from '../utils/glob';
+
+// ─── Post-edit verification ───────────────────────────────────────────────────
+// A workspace can ask for checks to run after the agent edits files, e.g. "after
+// any apply_patch in src/, run tsc_check and the tests matching the changed
+// files". The policy lives in .agent/verify.json. When the model ends its turn
+// with unverified edits, the Agent runs the matching checks; failures go back
+// to the model as a user turn until they pass or maxIterations is reached.
+
+export const VERIFY_POLICY_FILE = path.join('.agent', 'verify.json');
+
+// File-editing tools whose paths feed verification
+export const EDIT_TOOLS = ['write_file', 'apply_patch', 'delete_file'] as const;
+
+// Tools a policy may run as a check — all report pass/fail and write nothing
+const CHECK_TOOLS = ['tsc_check', 'eslint_check', 'run_tests', 'npm_run'] as const;
+
+const CheckSchema = z.union([
+  z.enum(CHECK_TOOLS),
+  z.object({
+    tool: z.enum(CHECK_TOOLS),
+    // Passed as-is; without it the input is derived from the changed files
+    input: z.record(z.unknown()).optional(),
+  }),
+]);
+
+const RuleSchema = z.object({
+  after: z.array(z.enum(EDIT_TOOLS)).min(1).default([...EDIT_TOOLS]),
+  paths: z.array(z.string().min(1)).min(1).default(['**']),
+  checks: z.array(CheckSchema).min(1),
+});
+
+export const VerificationPolicySchema = z.object({
+  maxIterations: z.number().int().min(0).max(10).optional(),
+  rules: z.array(RuleSchema).min(1),
+});
+
+export type VerificationPolicy = z.infer<typeof VerificationPolicySchema>;
+
+export interface FileEdit {
+  tool: string;
+  path: string; // relative to the workspace root, forward slashes
+}
+
+export interface PlannedCheck {
+  tool: string;
+  input: Record<string, unknown>;
+  files: string[]; // the edits that triggered it
+}
+
+export interface VerificationCheck {
+  tool: string;
+  input: Record<string, unknown>;
+  iteration: number; // 1 = checks after the first end_turn with edits
+  passed: boolean;
+  durationMs: number;
+  files: string[];
+  error?: string;
+}
+
+export interface VerificationReport {
+  passed: boolean; // every check in the last round passed
+  iterations: number; // rounds of checks that ran
+  maxIterations: number;
+  checks: VerificationCheck[];
+}
+
+/**
+ * Reads .agent/verify.json from the workspace. A missing file turns
+ * verification off; an invalid one throws so the mistake is not silently ignored.
+ */
+export async function loadVerificationPolicy(workspaceDir: string): Promise<VerificationPolicy | null> {
+  const file = path.join(workspaceDir, VERIFY_POLICY_FILE);
+  if (!(await fs.pathExists(file))) return null;
+  const parsed = VerificationPolicySchema.safeParse(await fs.readJson(file));
+  if (!parsed.success) {
+    throw new Error(`Invalid ${VERIFY_POLICY_FILE}: ${JSON.stringify(parsed.error.flatten())}`);
+  }
+  return parsed.data;
+}
+
+/** The checks the policy requires for these edits, de-duplicated across rules. */
+export function planChecks(policy: VerificationPolicy, edits: readonly FileEdit[]): PlannedCheck[] {
+  const planned = new Map<string, PlannedCheck>();
+  // A file whose last edit deleted it cannot be linted
+  const deleted = new Set<string>();
+  for (const e of edits) {
+    if (e.tool === 'delete_file') deleted.add(e.path);
+    else deleted.delete(e.path);
+  }
+
+  for (const rule of policy.rules) {
+    const patterns = rule.paths.map(globToRegExp);
+    const files = [
+      ...new Set(
+        edits
+          .filter((e) => (rule.after as readonly string[]).includes(e.tool))
+          .filter((e) => patterns.some((p) => p.test(e.path)))
+          .map((e) => e.path)
+      ),
+    ];
+    if (files.length === 0) continue;
+
+    for (const check of rule.checks) {
+      const tool = typeof check === 'string' ? check : check.tool;
+      const input =
+        (typeof check === 'object' && check.input) || defaultInput(tool, files, deleted);
+      if (!input) continue;
+      const key = `${tool}:${JSON.stringify(input)}`;
+      const existing = planned.get(key);
+      if (existing) {
+        existing.files = [...new Set([...existing.files, ...files])];
+      } else {
+        planned.set(key, { tool, input, files });
+      }
+    }
+  }
+  return [...planned.values()];
+}
+
+// Checks scoped to what changed: lint the changed files that still exist and
+// run the tests whose path mentions a changed module. null = nothing to check.
+function defaultInput(
+  tool: string,
+  files: string[],
+  deleted: ReadonlySet<string>
+): Record<string, unknown> | null {
+  switch (tool) {
+    case 'eslint_check': {
+      const existing = files.filter((f) => !deleted.has(f));
+      return existing.length > 0 ? { paths: existing } : null;
+    }
+    case 'run_tests': {
+      const modules = [
+        ...new Set(files.map((f) => path.posix.basename(f).replace(/(\.test|\.spec)?\.[^.]+$/, ''))),
+      ];
+      return { testPattern: modules.map(escapeRegExp).join('|'), coverage: false };
+    }
+    default:
+      return {};
+  }
+}
+
+/** Whether a check's tool result counts as passing. */
+export function checkPassed(result: ToolResult): boolean {
+  if (!result.success) return false;
+  const r = result.result as { passed?: boolean; success?: boolean } | null;
+  return r?.passed !== false && r?.success !== false;
+}
+
+// Output of a failed check, trimmed for the feedback turn
+function failureDetail(result: ToolResult, maxChars: number): string {
+  const r = result.result as Record<string, unknown> | null;
+  const text =
+    result.error ??
+    [r?.failure_summary, r?.stdout, r?.stderr, r?.raw_output]
+      .filter((v): v is string => typeof v === 'string' && v.trim().length > 0)
+      .join('\n');
+  const detail = text || JSON.stringify(r);
+  return detail.length > maxChars ? `${detail.slice(0, maxChars)}\n...[TRUNCATED]` : detail;
+}
+
+/** The synthetic user turn that sends failing checks back to the model. */
+export function verificationFeedback(
+  failures: ReadonlyArray<{ check: PlannedCheck; result: ToolResult }>,
+  iteration: number,
+  maxIterations: number,
+  maxCharsPerCheck = 4_000
+): string {
+  const sections = failures.map(
+    ({ check, result }) =>
+      `### ${check.tool} failed (after changes to ${check.files.join(', ')})\n` +
+      failureDetail(result, maxCharsPerCheck)
+  );
+  return (
+    `[Automatic verification ${iteration}/${maxIterations}] ` +
+    `The workspace's verification policy ran after your changes and these checks failed:\n\n` +
+    sections.join('\n\n') +
+    `\n\nFix the failures, then finish your turn — the checks will run again.`
+  );
+}
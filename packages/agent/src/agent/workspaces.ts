@@ -0,0 +1,53 @@
+import * as path from 'path';
+import { z } from 'zod';
+import type { Config } from '../config';
+import type { Workspace, WorkspaceSettings } from '../memory/DatabaseMemory';
+
+// ─── Workspaces ───────────────────────────────────────────────────────────────
+// One server can serve several project directories. Besides the default
+// workspace (AGENT_WORKSPACE) more are registered at runtime; a session belongs
+// to the workspace it was started in, and runs there with the global Config
+// overridden by the workspace's settings.
+
+export const WorkspaceSettingsSchema = z
+  .object({
+    model: z.string().min(1).optional(),
+    tokenBudget: z.number().int().min(0).optional(),
+    sandboxImage: z.string().regex(/^\w[\w./:@-]{0,254}$/, 'Not a Docker image reference').optional(),
+    requirePatchApproval: z.boolean().optional(),
+  })
+  .strict();
+
+export const CreateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  path: z.string().min(1, 'path is required').describe('Absolute path of the project directory.'),
+  settings: WorkspaceSettingsSchema.default({}),
+});
+
+export const UpdateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  settings: WorkspaceSettingsSchema.optional(),
+});
+
+/** The Config a run in `workspace` starts from: its root, and its settings over the global ones. */
+export function applyWorkspaceSettings(config: Config, workspace: Workspace): Config {
+  const overrides = Object.fromEntries(
+    Object.entries(workspace.settings).filter(([, value]) => value !== undefined)
+  ) as WorkspaceSettings;
+  return withWorkspaceDir({ ...config, ...overrides }, workspace.path);
+}
+
+/** `config` rooted at another directory (e.g. the CLI's --workspace), with the host path to match. */
+export function withWorkspaceDir(config: Config, workspaceDir: string): Config {
+  return { ...config, workspaceDir, hostWorkspaceDir: hostPath(config, workspaceDir) };
+}
+
+// Where the Docker host sees a workspace, for sandbox bind mounts. A path under
+// AGENT_WORKSPACE sits at the same place under AGENT_HOST_WORKSPACE (the agent
+// itself in Docker); any other path is taken to be the same on the host.
+function hostPath(config: Config, workspacePath: string): string {
+  const hostRoot = config.hostWorkspaceDir ?? config.workspaceDir;
+  const relative = path.relative(config.workspaceDir, workspacePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return path.resolve(workspacePath);
+  return path.join(hostRoot, relative);
+}
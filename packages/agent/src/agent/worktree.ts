@@ -0,0 +1,98 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { GitTool } from '../tools/GitTool';
+import type { SessionWorktree } from '../memory/DatabaseMemory';
+
+// ─── Session worktrees ────────────────────────────────────────────────────────
+// With AGENT_SESSION_WORKTREES=true, each top-level session edits a git worktree
+// of its own, on a klaus/<session-short-id> branch, so concurrent sessions
+// cannot clobber each other's edits or checkpoints. Worktrees live under
+// .klaus/worktrees/ in the workspace, which the repo ignores through
+// .git/info/exclude. Finishing a session merges its branch into whatever the
+// workspace has checked out — as a merge commit or one squashed commit — or
+// discards it; either way the worktree and the branch are removed.
+
+export const WORKTREES_DIR = path.join('.klaus', 'worktrees');
+
+export const WORKTREE_ACTIONS = ['merge', 'squash', 'discard'] as const;
+export type WorktreeAction = (typeof WORKTREE_ACTIONS)[number];
+
+export interface WorktreeStatus extends SessionWorktree {
+  commits: number; // on the branch but not yet in the workspace's HEAD
+  uncommitted: number; // changed files in the worktree, not yet checkpointed
+}
+
+export interface WorktreeFinishResult {
+  action: WorktreeAction;
+  branch: string;
+  success: boolean;
+  conflicts: string[]; // set when a merge was aborted; the worktree is kept
+  message: string;
+}
+
+export function worktreeBranch(sessionId: string): string {
+  return `klaus/${sessionId.slice(0, 8)}`;
+}
+
+/**
+ * Creates a session's worktree, branched from the workspace's HEAD. Returns
+ * null when the workspace is not a repo with a commit to branch from yet.
+ */
+export async function createWorktree(workspaceDir: string, sessionId: string): Promise<SessionWorktree | null> {
+  const git = new GitTool(workspaceDir);
+  if (!(await git.hasCommits())) return null;
+
+  await git.excludeLocally('/.klaus/');
+  const worktree = {
+    path: path.join(workspaceDir, WORKTREES_DIR, sessionId.slice(0, 8)),
+    branch: worktreeBranch(sessionId),
+  };
+  await git.addWorktree(worktree.path, worktree.branch);
+  return worktree;
+}
+
+export async function worktreeStatus(workspaceDir: string, worktree: SessionWorktree): Promise<WorktreeStatus> {
+  const commits = await new GitTool(workspaceDir).commitsAhead(worktree.branch);
+  const uncommitted = (await fs.pathExists(worktree.path))
+    ? (await new GitTool(worktree.path).status({})).files.length
+    : 0;
+  return { ...worktree, commits, uncommitted };
+}
+
+/**
+ * Merges, squash-merges or discards a session's branch, then removes its
+ * worktree and branch. Uncommitted edits in the worktree are checkpointed
+ * first, so a merge takes everything the session did. A merge that conflicts
+ * is aborted and reported, and the worktree is kept.
+ */
+export async function finishWorktree(
+  workspaceDir: string,
+  worktree: SessionWorktree,
+  action: WorktreeAction,
+  message: string
+): Promise<WorktreeFinishResult> {
+  const git = new GitTool(workspaceDir);
+
+  if (action !== 'discard') {
+    if (await fs.pathExists(worktree.path)) {
+      await new GitTool(worktree.path).checkpoint({ message: `Uncommitted changes on ${worktree.branch}` });
+    }
+    const merged = await git.mergeBranch(worktree.branch, { squash: action === 'squash', message });
+    if (!merged.success) {
+      return { action, branch: worktree.branch, success: false, conflicts: merged.conflicts, message: merged.message };
+    }
+    await git.removeWorktree(worktree.path);
+    await git.deleteBranch(worktree.branch);
+    return { action, branch: worktree.branch, success: true, conflicts: [], message: merged.message };
+  }
+
+  await git.removeWorktree(worktree.path);
+  await git.deleteBranch(worktree.branch);
+  return {
+    action,
+    branch: worktree.branch,
+    success: true,
+    conflicts: [],
+    message: `Discarded '${worktree.branch}'`,
+  };
+}
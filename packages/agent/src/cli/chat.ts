@@ -0,0 +1,416 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createInterface, type Interface } from 'readline';
+import { v4 as uuidv4 } from 'uuid';
+import type { Agent, AgentEvent, PendingPatchApproval, PendingToolApproval } from '../agent/Agent';
+import type { DatabaseMemory } from '../memory/DatabaseMemory';
+import { sessionToMarkdown } from '../memory/sessionExport';
+import { GitTool } from '../tools/GitTool';
+import { SECRETS_POLICY_FILE } from '../tools/SecretScanner';
+import type { Config } from '../config';
+
+// ─── Interactive chat ─────────────────────────────────────────────────────────
+// `klaus chat`: a terminal REPL over one session. Each line is a prompt, run
+// with the session's history; the reply streams in as it is written, with
+// every tool call and result on a line of its own. Lines starting with "/"
+// are commands (see /help). Patches that need approval, and tool calls the
+// workspace's permissions ask about, are asked about in the terminal, and
+// Ctrl-C cancels the running turn — or, when idle, quits.
+
+const RESET = '\x1b[0m';
+const DIM = '\x1b[2m';
+const BOLD = '\x1b[1m';
+const RED = '\x1b[31m';
+const GREEN = '\x1b[32m';
+const YELLOW = '\x1b[33m';
+const CYAN = '\x1b[36m';
+
+// Diff lines shown with a patch approval question
+const MAX_APPROVAL_DIFF_LINES = 80;
+
+const HELP = [
+  '/model [name]   Show the model, or use another one for the next prompts',
+  '/budget         Show the tokens this session has used and the budget per run',
+  '/undo           Revert the last file edit that is still in place',
+  '/diff           Show uncommitted changes in the session workspace',
+  '/export [file]  Write the session as Markdown (default: session-<id>.md)',
+  '/exit           Quit (or Ctrl-C / Ctrl-D when idle)',
+];
+
+// A question waiting on a y/N answer
+type Approval = { kind: 'patch'; request: PendingPatchApproval } | { kind: 'tool'; request: PendingToolApproval };
+
+export interface ChatOptions {
+  agent: Agent;
+  memory: DatabaseMemory;
+  config: Config;
+  sessionId?: string; // an existing session to continue; a new one otherwise
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+export class ChatRepl {
+  readonly sessionId: string;
+
+  private readonly agent: Agent;
+  private readonly memory: DatabaseMemory;
+  private readonly config: Config;
+  private readonly output: NodeJS.WritableStream;
+  private readonly rl: Interface;
+
+  private model: string | undefined; // set by /model; the configured model otherwise
+  private running = false;
+  private closed = false;
+  // Lines are handled one at a time; lines typed during a turn wait for it
+  private queue: Promise<void> = Promise.resolve();
+  // Bumped by Ctrl-C so lines queued behind a cancelled turn are dropped
+  private generation = 0;
+  // Patches and tool calls waiting on an answer, asked about oldest first
+  private approvals: Approval[] = [];
+  // Whether the cursor is mid-line after streamed text
+  private midLine = false;
+  private streamed = false;
+  private runTokens = 0;
+
+  constructor(options: ChatOptions) {
+    this.agent = options.agent;
+    this.memory = options.memory;
+    this.config = options.config;
+    this.sessionId = options.sessionId ?? uuidv4();
+    this.output = options.output ?? process.stdout;
+    this.rl = createInterface({
+      input: options.input ?? process.stdin,
+      output: this.output,
+      prompt: `${BOLD}klaus›${RESET} `,
+    });
+  }
+
+  /** Runs until the input ends or the user quits; resolves once any running turn is done. */
+  start(): Promise<void> {
+    const session = this.memory.getSession(this.sessionId);
+    this.print(
+      `${BOLD}klaus chat${RESET} ${DIM}— session ${this.sessionId}${session ? ' (continued)' : ''}, ` +
+        `model ${this.currentModel}. /help for commands, Ctrl-C to cancel a turn.${RESET}`
+    );
+    this.rl.prompt();
+
+    this.rl.on('line', (line) => this.onLine(line));
+    this.rl.on('SIGINT', () => this.interrupt());
+
+    return new Promise((resolve) => {
+      this.rl.on('close', () => {
+        this.closed = true;
+        // Nobody is left to answer: reject what is pending and finish the turn
+        for (const pending of this.approvals) this.answer(pending, false);
+        this.approvals = [];
+        void this.queue.then(() => resolve());
+      });
+    });
+  }
+
+  /** Ctrl-C: cancels the running turn and drops queued lines; quits when idle. */
+  interrupt(): void {
+    if (!this.running) {
+      this.endLine();
+      this.rl.close();
+      return;
+    }
+    this.generation++;
+    this.approvals = [];
+    if (this.agent.cancel(this.sessionId)) {
+      this.print(`${YELLOW}Cancelling…${RESET}`);
+    }
+  }
+
+  private get currentModel(): string {
+    return this.model ?? this.config.model;
+  }
+
+  private onLine(line: string): void {
+    const pending = this.approvals[0];
+    if (pending) {
+      this.approvals.shift();
+      this.answer(pending, /^y(es)?$/i.test(line.trim()));
+      this.askNextApproval();
+      return;
+    }
+
+    const generation = this.generation;
+    this.queue = this.queue.then(async () => {
+      if (generation !== this.generation) return;
+      await this.handle(line.trim());
+      if (!this.closed) this.rl.prompt();
+    });
+  }
+
+  private async handle(line: string): Promise<void> {
+    if (!line) return;
+    if (!line.startsWith('/')) return this.send(line);
+
+    const [command, ...args] = line.slice(1).split(/\s+/);
+    try {
+      switch (command) {
+        case 'help':
+          return this.print(HELP.join('\n'));
+        case 'model':
+          return this.setModel(args[0]);
+        case 'budget':
+          return this.showBudget();
+        case 'undo':
+          return await this.undo();
+        case 'diff':
+          return await this.showDiff();
+        case 'export':
+          return await this.exportSession(args[0]);
+        case 'exit':
+        case 'quit':
+          this.rl.close();
+          return;
+        default:
+          this.print(`${RED}Unknown command /${command}.${RESET} /help lists the commands.`);
+      }
+    } catch (err) {
+      this.print(`${RED}/${command} failed: ${(err as Error).message}${RESET}`);
+    }
+  }
+
+  // ── Prompts ─────────────────────────────────────────────────────────────────
+
+  private async send(message: string): Promise<void> {
+    this.running = true;
+    this.streamed = false;
+    this.runTokens = 0;
+    try {
+      const result = await this.agent.run(
+        message,
+        this.sessionId,
+        (event) => this.render(event),
+        this.model ? { model: this.model } : undefined
+      );
+      if (!this.streamed && result.finalMessage) this.print(result.finalMessage);
+      this.endLine();
+      const seconds = (result.durationMs / 1000).toFixed(1);
+      this.print(
+        `${DIM}— ${result.toolCallsCount} tool call(s) · ${this.runTokens.toLocaleString()} tokens · ${seconds}s${RESET}`
+      );
+    } catch (err) {
+      this.endLine();
+      this.print(`${RED}${(err as Error).message}${RESET}`);
+    } finally {
+      this.running = false;
+      this.approvals = [];
+    }
+  }
+
+  private render(event: AgentEvent): void {
+    const data = event.data as Record<string, any>;
+    // Sub-agents stream too; only their tool calls are shown, marked as theirs
+    const from = event.childSessionId ? `${DIM}↳ ${RESET}` : '';
+
+    switch (event.type) {
+      case 'stream_delta':
+        if (event.childSessionId) return;
+        this.streamed = true;
+        this.output.write(data.delta);
+        this.midLine = !String(data.delta).endsWith('\n');
+        return;
+      case 'tool_call':
+        return this.print(`${from}${CYAN}⚙ ${data.name}${RESET} ${DIM}${describeInput(data.input)}${RESET}`);
+      case 'tool_result': {
+        const ms = `${DIM}${data.durationMs}ms${RESET}`;
+        if (data.success) return this.print(`${from}${GREEN}✓ ${data.toolName}${RESET} ${ms}`);
+        const code = data.errorCode ? ` [${data.errorCode}]` : '';
+        const error = firstLine(data.result?.error ?? data.result ?? '');
+        this.print(`${from}${RED}✗ ${data.toolName}${code}${RESET} ${error} ${ms}`);
+        if (data.errorCode === 'SECRET_DETECTED') {
+          this.print(`${DIM}  Not a real secret? Allowlist it in ${SECRETS_POLICY_FILE}.${RESET}`);
+        }
+        return;
+      }
+      case 'turn_complete':
+        if (!event.childSessionId) this.runTokens = data.totalTokens;
+        return;
+      case 'patch_approval_required':
+        return this.queueApproval({ kind: 'patch', request: data as PendingPatchApproval });
+      case 'patch_approval_resolved':
+        if (data.timedOut) {
+          this.approvals = this.approvals.filter((p) => p.kind !== 'patch' || p.request.patchId !== data.patchId);
+          this.print(`${YELLOW}Approval for patch ${data.patchId} timed out — rejected.${RESET}`);
+        }
+        return;
+      case 'tool_approval_required':
+        return this.queueApproval({ kind: 'tool', request: data as PendingToolApproval });
+      case 'tool_approval_resolved':
+        if (data.timedOut) {
+          this.approvals = this.approvals.filter(
+            (p) => p.kind !== 'tool' || p.request.approvalId !== data.approvalId
+          );
+          this.print(`${YELLOW}Approval for ${data.toolName} timed out — rejected.${RESET}`);
+        }
+        return;
+      case 'budget_warning':
+        return this.print(`${YELLOW}Token budget ${data.percentUsed}% used (${data.totalUsed}/${data.budget}).${RESET}`);
+      case 'budget_exceeded':
+        return this.print(`${RED}Token budget reached (${data.totalUsed}/${data.budget}) — run halted.${RESET}`);
+      case 'tool_limit_exceeded':
+        return this.print(`${RED}${data.message}${RESET}`);
+      case 'verification':
+        return this.print(
+          data.passed
+            ? `${GREEN}✓ post-edit checks passed${RESET}`
+            : `${RED}✗ post-edit checks failed${data.retrying ? ' — sending the failures back' : ''}${RESET}`
+        );
+      case 'error':
+        return this.print(`${data.retrying ? YELLOW : RED}${from}${data.error}${RESET}`);
+    }
+  }
+
+  private queueApproval(approval: Approval): void {
+    if (this.closed) {
+      this.answer(approval, false);
+      return;
+    }
+    this.approvals.push(approval);
+    if (this.approvals.length === 1) this.askNextApproval();
+  }
+
+  private answer(approval: Approval, approved: boolean): void {
+    if (approval.kind === 'patch') this.agent.resolvePatchApproval(approval.request.patchId, approved);
+    else this.agent.resolveToolApproval(approval.request.approvalId, approved);
+  }
+
+  private askNextApproval(): void {
+    const next = this.approvals[0];
+    if (!next) return;
+    if (next.kind === 'tool') {
+      const { toolName, input, reason } = next.request;
+      this.print(`${BOLD}${toolName}${RESET} ${DIM}${JSON.stringify(input)}${RESET}`);
+      if (reason) this.print(`${DIM}${reason}${RESET}`);
+      this.output.write(`Allow this call? [y/N] `);
+      return;
+    }
+    const pending = next.request;
+    const position = pending.total && pending.total > 1 ? ` (${(pending.index ?? 0) + 1}/${pending.total})` : '';
+    this.print(`${BOLD}${pending.operation} ${pending.filePath}${RESET}${position}`);
+    const lines = pending.diff.split('\n');
+    for (const line of lines.slice(0, MAX_APPROVAL_DIFF_LINES)) this.print(colourDiffLine(line));
+    if (lines.length > MAX_APPROVAL_DIFF_LINES) {
+      this.print(`${DIM}… ${lines.length - MAX_APPROVAL_DIFF_LINES} more lines${RESET}`);
+    }
+    this.output.write(`Apply this change? [y/N] `);
+  }
+
+  // ── Commands ────────────────────────────────────────────────────────────────
+
+  private setModel(name: string | undefined): void {
+    const models = this.agent.selectableModels;
+    if (!name) {
+      this.print(`Model: ${this.currentModel}`);
+      this.print(`${DIM}Available: ${models.join(', ')}${RESET}`);
+      return;
+    }
+    if (!models.includes(name)) {
+      this.print(`${RED}Unknown model "${name}".${RESET} Available: ${models.join(', ')}`);
+      return;
+    }
+    this.model = name;
+    this.print(`Model set to ${name} for the next prompts.`);
+  }
+
+  private showBudget(): void {
+    const usage = this.memory.getSessionTokenUsage(this.sessionId);
+    const budget = this.config.tokenBudget;
+    this.print(
+      `Session: ${usage.totalTokens.toLocaleString()} tokens ` +
+        `(${usage.inputTokens.toLocaleString()} in, ${usage.outputTokens.toLocaleString()} out) · ` +
+        `$${usage.estimatedCostUsd.toFixed(4)}`
+    );
+    this.print(`Budget per run: ${budget > 0 ? `${budget.toLocaleString()} tokens` : 'unlimited'}`);
+  }
+
+  // Reverts the newest edit whose changes are still in place, so each /undo steps back one more
+  private async undo(): Promise<void> {
+    if (!this.memory.getSession(this.sessionId)) {
+      this.print('Nothing to undo yet.');
+      return;
+    }
+    const edits = (await this.agent.getTimeline(this.sessionId))
+      .filter((e) => e.kind === 'edit' && e.files.some((f) => f.revertible))
+      .reverse();
+    for (const edit of edits) {
+      const result = await this.agent.revertTimelineEntry(this.sessionId, edit.id);
+      if (result.id) {
+        this.print(`Reverted ${edit.toolName} ${edit.summary}: ${result.files.map((f) => f.path).join(', ')}`);
+        return;
+      }
+    }
+    this.print('Nothing to undo — no edit of this session is still in place.');
+  }
+
+  private async showDiff(): Promise<void> {
+    const session = this.memory.getSession(this.sessionId);
+    const workspaceDir = session?.worktree?.path ?? session?.workspaceDir ?? this.config.workspaceDir;
+    const git = new GitTool(workspaceDir);
+    const [diff, status] = await Promise.all([git.diff(['HEAD']), git.status({})]);
+    if (!diff && status.not_added.length === 0) {
+      this.print('No uncommitted changes.');
+      return;
+    }
+    for (const line of diff.trimEnd().split('\n')) {
+      if (line) this.print(colourDiffLine(line));
+    }
+    for (const file of status.not_added) this.print(`${GREEN}new file: ${file}${RESET}`);
+  }
+
+  private async exportSession(file: string | undefined): Promise<void> {
+    const session = this.memory.getSession(this.sessionId);
+    if (!session) {
+      this.print('Nothing to export yet.');
+      return;
+    }
+    const target = path.resolve(file ?? `session-${this.sessionId.slice(0, 8)}.md`);
+    await fs.writeFile(target, sessionToMarkdown(this.memory, session));
+    this.print(`Exported to ${target}`);
+  }
+
+  // ── Output ──────────────────────────────────────────────────────────────────
+
+  private print(text: string): void {
+    this.endLine();
+    this.output.write(`${text}\n`);
+  }
+
+  // Ends streamed text that stopped mid-line
+  private endLine(): void {
+    if (this.midLine) this.output.write('\n');
+    this.midLine = false;
+  }
+}
+
+// The argument that says most about a tool call, e.g. the path or the command
+function describeInput(input: unknown): string {
+  if (!input || typeof input !== 'object') return '';
+  const fields = input as Record<string, unknown>;
+  for (const key of ['path', 'command', 'scriptPath', 'script', 'pattern', 'query', 'message']) {
+    if (typeof fields[key] === 'string') return truncate(fields[key] as string);
+  }
+  const json = JSON.stringify(input);
+  return json === '{}' ? '' : truncate(json);
+}
+
+function truncate(text: string, max = 80): string {
+  const line = firstLine(text);
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+function firstLine(value: unknown): string {
+  return String(value).split('\n')[0];
+}
+
+function colourDiffLine(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return `${BOLD}${line}${RESET}`;
+  if (line.startsWith('+')) return `${GREEN}${line}${RESET}`;
+  if (line.startsWith('-')) return `${RED}${line}${RESET}`;
+  if (line.startsWith('@@')) return `${CYAN}${line}${RESET}`;
+  return line;
+}
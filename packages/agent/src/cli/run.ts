@@ -0,0 +1,101 @@
+import * as fs from 'fs-extra';
+import { v4 as uuidv4 } from 'uuid';
+import type { Agent, AgentEvent } from '../agent/Agent';
+
+// ─── Headless runs ────────────────────────────────────────────────────────────
+// `klaus run`: one prompt, read from a file or stdin, run without a terminal
+// for shell scripts and cron jobs. stdout carries only JSON — the final
+// AgentRunResult, or every AgentEvent as a line of its own with --events — and
+// the exit code says how the run ended, so scripts can branch on it.
+
+export const RUN_OUTCOMES = ['success', 'error', 'budget_exceeded', 'tool_limit_exceeded', 'cancelled'] as const;
+export type RunOutcome = (typeof RUN_OUTCOMES)[number];
+
+export const RUN_EXIT_CODES: Record<RunOutcome, number> = {
+  success: 0,
+  error: 1,
+  budget_exceeded: 2,
+  tool_limit_exceeded: 3,
+  cancelled: 4,
+};
+
+export interface HeadlessRunOptions {
+  agent: Agent;
+  prompt: string;
+  events?: boolean; // print every event as NDJSON instead of the final result
+  model?: string;
+  signal?: AbortSignal; // aborting cancels the run, e.g. on SIGINT / SIGTERM
+  output?: NodeJS.WritableStream;
+}
+
+/** Runs the prompt, writes its JSON to `output`, and returns how the run ended. */
+export async function runHeadless(options: HeadlessRunOptions): Promise<RunOutcome> {
+  const { agent, prompt, signal } = options;
+  const output = options.output ?? process.stdout;
+  const sessionId = uuidv4();
+  const writeLine = (value: unknown) => output.write(`${JSON.stringify(value)}\n`);
+
+  const fail = (error: string): RunOutcome => {
+    if (options.events) {
+      writeLine({ type: 'error', data: { error, sessionId }, timestamp: new Date() });
+    } else {
+      writeLine({ outcome: 'error', exitCode: RUN_EXIT_CODES.error, sessionId, error });
+    }
+    return 'error';
+  };
+
+  if (!prompt.trim()) return fail('The prompt is empty');
+  if (options.model && !agent.selectableModels.includes(options.model)) {
+    return fail(`Unknown model "${options.model}". Available: ${agent.selectableModels.join(', ')}`);
+  }
+
+  // A cancel can arrive before the run registers; it is retried on the next event
+  let cancelRequested = signal?.aborted ?? false;
+  let cancelled = false;
+  const cancel = () => {
+    cancelRequested = true;
+    cancelled = agent.cancel(sessionId) || cancelled;
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  let halted: RunOutcome | null = null;
+  const onEvent = (event: AgentEvent) => {
+    if (cancelRequested && !cancelled) cancel();
+    // Sub-agents hitting their own share of the budget do not end this run
+    if (!event.childSessionId) {
+      if (event.type === 'budget_exceeded') halted = 'budget_exceeded';
+      if (event.type === 'tool_limit_exceeded') halted = 'tool_limit_exceeded';
+    }
+    if (options.events) writeLine(event);
+    // Nobody is there to answer: calls the workspace's permissions ask about, and
+    // patches AGENT_REQUIRE_PATCH_APPROVAL holds for review, are refused at once
+    if (event.type === 'tool_approval_required') {
+      agent.resolveToolApproval((event.data as { approvalId: string }).approvalId, false);
+    }
+    if (event.type === 'patch_approval_required') {
+      agent.resolvePatchApproval((event.data as { patchId: string }).patchId, false);
+    }
+  };
+
+  try {
+    const result = await agent.run(prompt, sessionId, onEvent, options.model ? { model: options.model } : undefined);
+    const outcome: RunOutcome = cancelled ? 'cancelled' : (halted ?? 'success');
+    if (!options.events) writeLine({ ...result, outcome, exitCode: RUN_EXIT_CODES[outcome] });
+    return outcome;
+  } catch (err) {
+    return fail((err as Error).message);
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/** The prompt from a file, or from stdin when the path is absent or "-". */
+export async function readPrompt(file?: string, stdin: NodeJS.ReadableStream = process.stdin): Promise<string> {
+  if (file && file !== '-') return fs.readFile(file, 'utf8');
+  if ((stdin as NodeJS.ReadStream).isTTY) {
+    throw new Error('No prompt: pass a prompt file, or pipe the prompt on stdin');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of stdin) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
@@ -3,7 +3,8 @@ import * as path from 'path';
 import * as os from 'os';
 
 const ConfigSchema = z.object({
-  ANTHROPIC_API_KEY: z.string().min(1, 'ANTHROPIC_API_KEY is required'),
+  // Only required for the default anthropic provider (checked below)
+  ANTHROPIC_API_KEY: z.string().default(''),
   AGENT_WORKSPACE: z.string().default(process.cwd()),
   // Host path for workspace - used by Docker sandbox for bind mounts in DooD mode.
   // In Docker, AGENT_WORKSPACE is /workspace (container path), but sandbox containers
@@ -16,10 +17,25 @@ const ConfigSchema = z.object({
     .string()
     .default(path.join(os.homedir(), '.klaus-code', 'logs')),
   AGENT_MODEL: z.string().default('claude-opus-4-5'),
+
+  // ─── Model provider ───────────────────────────────────────────────────────
+  // anthropic: Claude via the Anthropic API (default)
+  // openai:    any OpenAI-compatible /chat/completions server (Ollama, vLLM, llama.cpp)
+  // replay:    plays back a scripted JSON file — deterministic, no network
+  AGENT_PROVIDER: z.enum(['anthropic', 'openai', 'replay']).default('anthropic'),
+  AGENT_OPENAI_BASE_URL: z.string().url().default('http://localhost:11434/v1'),
+  AGENT_OPENAI_API_KEY: z.string().optional(),
+  // Comma-separated model names the endpoint serves. Defaults to AGENT_MODEL.
+  AGENT_OPENAI_MODELS: z.string().optional(),
+  // Context window (tokens) of the served models — drives context compaction
+  AGENT_OPENAI_CONTEXT_WINDOW: z.coerce.number().int().positive().default(32_768),
+  AGENT_REPLAY_FILE: z.string().optional(),
   AGENT_MAX_TOKENS: z.coerce.number().default(8192),
   AGENT_MAX_RETRIES: z.coerce.number().default(3),
   AGENT_API_SECRET: z.string().min(16).optional(),
-  AGENT_MAX_CONTEXT_MESSAGES: z.coerce.number().default(30),
+  // Upper bound on stored messages loaded when a session continues. What fits is
+  // decided by the model's token window (see agent/ContextManager.ts).
+  AGENT_MAX_CONTEXT_MESSAGES: z.coerce.number().default(200),
 
   // Per-session token budget. Loop halts when input+output tokens reach this.
   // Set to 0 to disable (not recommended for unattended use).
@@ -84,11 +100,43 @@ const ConfigSchema = z.object({
     .min(60_000)
     .default(300_000),
 
+  // Give each top-level session its own git worktree on a klaus/<session-id>
+  // branch, so concurrent sessions cannot clobber each other's edits
+  AGENT_SESSION_WORKTREES: z
+    .string()
+    .transform((v: string) => v === 'true')
+    .default('false'),
+
   // Require human approval for file-modifying patches (diff preview)
   AGENT_REQUIRE_PATCH_APPROVAL: z
     .string()
     .transform((v: string) => v === 'true')
     .default('false'),
+  // How long a pending patch waits for a reviewer before it is auto-rejected (ms)
+  AGENT_PATCH_APPROVAL_TIMEOUT: z.coerce.number().min(1000).default(120_000),
+  // How long a proposed plan (mode 'plan') waits for the user before it is rejected (ms)
+  AGENT_PLAN_APPROVAL_TIMEOUT: z.coerce.number().min(1000).default(1_800_000),
+
+  // Fix rounds after failed post-edit checks (.agent/verify.json) before the run gives up
+  AGENT_VERIFY_MAX_ITERATIONS: z.coerce.number().int().min(0).max(10).default(3),
+
+  // Comma-separated directories of tool plugins (.js/.cjs) loaded at startup.
+  // Plugins run inside the agent process, outside the Docker sandbox — only list code you trust.
+  AGENT_PLUGIN_DIRS: z.string().default(''),
+
+  // Let run_command run allowed commands (.agent/commands.yml) on the host when
+  // DOCKER_ENABLED=false. Off by default: without the sandbox it refuses to run.
+  AGENT_ALLOW_HOST_COMMANDS: z
+    .string()
+    .transform((v: string) => v === 'true')
+    .default('false'),
+
+  // Start the MCP servers a workspace lists in .agent/mcp.json. They run on the
+  // host, outside the sandbox, so a workspace cannot turn them on by itself.
+  AGENT_ALLOW_MCP_SERVERS: z
+    .string()
+    .transform((v: string) => v === 'true')
+    .default('false'),
 
   // ─── API Retry Settings ───────────────────────────────────────────────────
   // Number of retries for transient API errors (429, 500, 503, network errors)
@@ -102,6 +150,9 @@ const ConfigSchema = z.object({
   // Maximum characters of tool output to include in Claude's context.
   // Larger outputs are summarized to save tokens. Set to 0 for no limit.
   AGENT_MAX_TOOL_OUTPUT_CONTEXT: z.coerce.number().min(0).default(8_000),
+  // Characters of earlier tool output replayed verbatim when a session continues.
+  // Older outputs are replaced by short stubs. Set to 0 to replay everything.
+  AGENT_HISTORY_TOOL_OUTPUT_BUDGET: z.coerce.number().min(0).default(24_000),
 
   // ─── Debug Mode ───────────────────────────────────────────────────────────
   // When enabled, logs full prompts/responses to debug log file for troubleshooting.
@@ -120,7 +171,42 @@ const ConfigSchema = z.object({
     .string()
     .transform((v: string) => v !== 'false')
     .default('true'),
+  // Sandbox image; a registered workspace's sandboxImage setting overrides it
+  AGENT_SANDBOX_IMAGE: z.string().optional(),
+  // Keep one sandbox container per session and exec into it, instead of a new
+  // container per command. A workspace's .agent/sandbox.json can override it.
+  AGENT_SANDBOX_PERSISTENT: z
+    .string()
+    .transform((v: string) => v === 'true')
+    .default('false'),
+  // How long a session's sandbox container may sit unused before it is removed (ms)
+  AGENT_SANDBOX_IDLE_TIMEOUT: z.coerce.number().min(10_000).default(600_000),
+  // Egress proxy URL as the sandbox sees it, e.g. http://agent:3128. Tools with
+  // network policy 'registry' (npm_install) reach the network only through it;
+  // unset, they run offline like every other tool.
+  AGENT_SANDBOX_EGRESS_PROXY: z.string().url().optional(),
+  // Internal Docker network those commands join — the proxy must be on it too
+  AGENT_SANDBOX_EGRESS_NETWORK: z.string().default('klaus-sandbox-egress'),
+  // Port for the built-in allowlisting egress proxy; unset, it is not started
+  AGENT_EGRESS_PROXY_PORT: z.coerce.number().int().min(1).max(65535).optional(),
+  // Comma-separated hosts the egress proxy lets through ("*.example.com" for subdomains)
+  AGENT_EGRESS_ALLOWLIST: z.string().default('registry.npmjs.org,registry.yarnpkg.com'),
   PORT: z.coerce.number().default(3001),
+}).superRefine((env, ctx) => {
+  if (env.AGENT_PROVIDER === 'anthropic' && !env.ANTHROPIC_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['ANTHROPIC_API_KEY'],
+      message: 'ANTHROPIC_API_KEY is required',
+    });
+  }
+  if (env.AGENT_PROVIDER === 'replay' && !env.AGENT_REPLAY_FILE) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['AGENT_REPLAY_FILE'],
+      message: 'AGENT_REPLAY_FILE is required when AGENT_PROVIDER=replay',
+    });
+  }
 });
 
 export type Config = {
@@ -130,6 +216,12 @@ export type Config = {
   dbPath: string;
   logDir: string;
   model: string;
+  provider?: 'anthropic' | 'openai' | 'replay'; // defaults to anthropic
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  openaiModels?: string[];
+  openaiContextWindow?: number;
+  replayFile?: string;
   maxTokens: number;
   maxRetries: number;
   apiSecret?: string;
@@ -148,16 +240,31 @@ export type Config = {
   metricsEnabled: boolean;
   sessionTtl: number;
   sessionCleanupInterval: number;
+  sessionWorktrees?: boolean; // one git worktree and branch per top-level session (default false)
   requirePatchApproval: boolean;
+  patchApprovalTimeout?: number; // ms before a pending patch is auto-rejected (default 2 min)
+  planApprovalTimeout?: number; // ms before a proposed plan is auto-rejected (default 30 min)
+  verifyMaxIterations?: number; // fix rounds after failed post-edit checks (default 3)
+  pluginDirs?: string[]; // directories of tool plugins loaded at startup
+  allowHostCommands?: boolean; // run_command may run on the host without Docker (default false)
+  allowMcpServers?: boolean; // start the servers in a workspace's .agent/mcp.json (default false)
   apiRetryCount: number;
   apiRetryDelay: number;
   apiRetryMaxDelay: number;
   maxToolOutputContext: number;
+  historyToolOutputBudget?: number; // chars of past tool output replayed in full (default 24k)
   debugMode: boolean;
   netlifyToken?: string;
   netlifySiteId?: string;
   vercelToken?: string;
   dockerEnabled: boolean;
+  sandboxImage?: string; // default image for sandboxed commands (default node:20-alpine)
+  sandboxPersistent?: boolean; // one long-lived sandbox container per session (default false)
+  sandboxIdleTimeout?: number; // ms before an unused session container is removed (default 10 min)
+  sandboxEgressProxy?: string; // egress proxy URL as seen from the sandbox; unset = installs run offline
+  sandboxEgressNetwork?: string; // internal Docker network for 'registry' commands (default klaus-sandbox-egress)
+  egressProxyPort?: number; // port of the built-in egress proxy; unset = not started
+  egressAllowlist?: string[]; // hosts the egress proxy lets through (default the npm and yarn registries)
   port: number;
 };
 
@@ -187,8 +294,8 @@ export function loadConfig(): Config {
   }
   if (!env.AGENT_API_SECRET) {
     console.warn(
-      '\n⚠️  WARNING: AGENT_API_SECRET not set — API endpoints are unauthenticated.\n' +
-        '   Generate one: openssl rand -hex 32\n'
+      '\n⚠️  WARNING: AGENT_API_SECRET not set — API endpoints are unauthenticated until a user is added.\n' +
+        '   Generate one: openssl rand -hex 32, or add users: klaus users add <name> --role admin\n'
     );
   }
   if (env.AGENT_CORS_ORIGIN === '*') {
@@ -213,6 +320,14 @@ export function loadConfig(): Config {
     dbPath: env.AGENT_DB_PATH,
     logDir: env.AGENT_LOG_DIR,
     model: env.AGENT_MODEL,
+    provider: env.AGENT_PROVIDER,
+    openaiBaseUrl: env.AGENT_OPENAI_BASE_URL,
+    openaiApiKey: env.AGENT_OPENAI_API_KEY,
+    openaiModels: env.AGENT_OPENAI_MODELS
+      ? env.AGENT_OPENAI_MODELS.split(',').map((m) => m.trim()).filter(Boolean)
+      : undefined,
+    openaiContextWindow: env.AGENT_OPENAI_CONTEXT_WINDOW,
+    replayFile: env.AGENT_REPLAY_FILE,
     maxTokens: env.AGENT_MAX_TOKENS,
     maxRetries: env.AGENT_MAX_RETRIES,
     apiSecret: env.AGENT_API_SECRET,
@@ -231,16 +346,31 @@ export function loadConfig(): Config {
     metricsEnabled: env.AGENT_METRICS_ENABLED,
     sessionTtl: env.AGENT_SESSION_TTL,
     sessionCleanupInterval: env.AGENT_SESSION_CLEANUP_INTERVAL,
+    sessionWorktrees: env.AGENT_SESSION_WORKTREES,
     requirePatchApproval: env.AGENT_REQUIRE_PATCH_APPROVAL,
+    patchApprovalTimeout: env.AGENT_PATCH_APPROVAL_TIMEOUT,
+    planApprovalTimeout: env.AGENT_PLAN_APPROVAL_TIMEOUT,
+    verifyMaxIterations: env.AGENT_VERIFY_MAX_ITERATIONS,
+    pluginDirs: env.AGENT_PLUGIN_DIRS.split(',').map((d) => d.trim()).filter(Boolean),
+    allowHostCommands: env.AGENT_ALLOW_HOST_COMMANDS,
+    allowMcpServers: env.AGENT_ALLOW_MCP_SERVERS,
     apiRetryCount: env.AGENT_API_RETRY_COUNT,
     apiRetryDelay: env.AGENT_API_RETRY_DELAY,
     apiRetryMaxDelay: env.AGENT_API_RETRY_MAX_DELAY,
     maxToolOutputContext: env.AGENT_MAX_TOOL_OUTPUT_CONTEXT,
+    historyToolOutputBudget: env.AGENT_HISTORY_TOOL_OUTPUT_BUDGET,
     debugMode: env.AGENT_DEBUG_MODE,
     netlifyToken: env.NETLIFY_AUTH_TOKEN,
     netlifySiteId: env.NETLIFY_SITE_ID,
     vercelToken: env.VERCEL_TOKEN,
     dockerEnabled: env.DOCKER_ENABLED,
+    sandboxImage: env.AGENT_SANDBOX_IMAGE,
+    sandboxPersistent: env.AGENT_SANDBOX_PERSISTENT,
+    sandboxIdleTimeout: env.AGENT_SANDBOX_IDLE_TIMEOUT,
+    sandboxEgressProxy: env.AGENT_SANDBOX_EGRESS_PROXY,
+    sandboxEgressNetwork: env.AGENT_SANDBOX_EGRESS_NETWORK,
+    egressProxyPort: env.AGENT_EGRESS_PROXY_PORT,
+    egressAllowlist: env.AGENT_EGRESS_ALLOWLIST.split(',').map((h) => h.trim()).filter(Boolean),
     port: env.PORT,
   };
 }
@@ -1,10 +1,16 @@
 import { program } from 'commander';
+import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs-extra';
 import { AgentServer } from './server/AgentServer';
 import { Agent } from './agent/Agent';
-import { logger } from './logger';
-import { DatabaseMemory } from './memory/DatabaseMemory';
+import { withWorkspaceDir } from './agent/workspaces';
+import { logger, logToStderr } from './logger';
+import { DatabaseMemory, USER_ROLES } from './memory/DatabaseMemory';
 import { loadConfig } from './config';
+import { toolRegistry } from './tools/builtins';
+import { loadToolPlugins } from './tools/ToolRegistry';
+import { startEgressProxy } from './sandbox/EgressProxy';
+import { CreateUserSchema, generateApiKey } from './server/auth';
 
 // Specific option types for each CLI command
 interface ServeOptions {
@@ -40,6 +46,24 @@ interface PromptOptions {
   workspace: string;
 }
 
+interface RunOptions {
+  workspace: string;
+  model?: string;
+  tokenBudget?: string;
+  maxToolCalls?: string;
+  events?: boolean;
+}
+
+interface UserAddOptions {
+  role: string;
+}
+
+interface ChatOptions {
+  workspace?: string;
+  session?: string;
+  requireApproval?: boolean;
+}
+
 async function main(): Promise<void> {
   const config = loadConfig();
 
@@ -89,10 +113,15 @@ async function main(): Promise<void> {
       // Validate Docker is reachable before accepting any requests
       if (config.dockerEnabled) {
         const { DockerSandbox } = await import('./sandbox/DockerSandbox');
-        const sandbox = new DockerSandbox();
+        const sandbox = new DockerSandbox({ image: config.sandboxImage });
         await sandbox.initialize();
       }
 
+      // The sandbox's only route to package registries, for npm_install
+      const egressProxy = await startEgressProxy(config, (sid) => memory.getSession(sid)?.userId);
+
+      await loadToolPlugins(toolRegistry, config.pluginDirs ?? []);
+
       const agent = new Agent(config, memory);
       const server = new AgentServer(
         agent,
@@ -133,6 +162,19 @@ async function main(): Promise<void> {
           logger.warn('Error closing HTTP server', { error: err?.message });
         }
 
+        try {
+          const { sandboxPool } = await import('./sandbox/SandboxPool');
+          await sandboxPool.shutdown();
+        } catch (err: any) {
+          logger.warn('Error removing pooled sandbox containers', { error: err?.message });
+        }
+
+        try {
+          await egressProxy?.close();
+        } catch (err: any) {
+          logger.warn('Error closing sandbox egress proxy', { error: err?.message });
+        }
+
         try {
           memory.close();
           logger.info('Database closed');
@@ -169,13 +211,120 @@ async function main(): Promise<void> {
       });
       const memory = new DatabaseMemory(config.dbPath);
       await memory.initialize();
+      await loadToolPlugins(toolRegistry, config.pluginDirs ?? []);
+      const egressProxy = await startEgressProxy(config);
       const agent = new Agent(
-        { ...config, workspaceDir: opts.workspace },
+        withWorkspaceDir(config, opts.workspace),
         memory
       );
       const result = await agent.run(message);
       console.log('\n--- Agent Result ---\n');
       console.log(result.summary);
+      // A persistent sandbox container would otherwise outlive the command
+      const { sandboxPool } = await import('./sandbox/SandboxPool');
+      await sandboxPool.shutdown();
+      await egressProxy?.close();
+      memory.close();
+    });
+
+  program
+    .command('run [file]')
+    .description('Run one prompt from a file or stdin without a terminal; prints JSON, exits with the outcome')
+    .option('--workspace <path>', 'Workspace directory', process.cwd())
+    .option('--model <name>', 'Model for this run')
+    .option('--token-budget <n>', 'Token budget for this run (0 = unlimited)')
+    .option('--max-tool-calls <n>', 'Tool call limit for this run (0 = unlimited)')
+    .option('--events', 'Print every agent event as NDJSON instead of the final result')
+    .action(async (file: string | undefined, opts: RunOptions) => {
+      // stdout is for JSON only
+      logToStderr();
+      const { readPrompt, runHeadless, RUN_EXIT_CODES } = await import('./cli/run');
+
+      const limit = (value: string | undefined, name: string, fallback: number): number => {
+        if (value === undefined) return fallback;
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 0) {
+          logger.error(`${name} must be a whole number of 0 or more, got "${value}"`);
+          process.exit(RUN_EXIT_CODES.error);
+        }
+        return n;
+      };
+      const tokenBudget = limit(opts.tokenBudget, '--token-budget', config.tokenBudget);
+      const maxToolCalls = limit(opts.maxToolCalls, '--max-tool-calls', config.maxToolCalls);
+      if (!(await fs.pathExists(opts.workspace))) {
+        logger.error(`Workspace does not exist: ${opts.workspace}`);
+        process.exit(RUN_EXIT_CODES.error);
+      }
+      let prompt: string;
+      try {
+        prompt = await readPrompt(file);
+      } catch (err: any) {
+        logger.error(`Could not read the prompt: ${err.message}`);
+        process.exit(RUN_EXIT_CODES.error);
+      }
+
+      const memory = new DatabaseMemory(config.dbPath);
+      await memory.initialize();
+      await loadToolPlugins(toolRegistry, config.pluginDirs ?? []);
+      const egressProxy = await startEgressProxy(config);
+      const agent = new Agent(
+        { ...withWorkspaceDir(config, opts.workspace), tokenBudget, maxToolCalls },
+        memory
+      );
+
+      const abort = new AbortController();
+      process.once('SIGINT', () => abort.abort());
+      process.once('SIGTERM', () => abort.abort());
+      const outcome = await runHeadless({
+        agent,
+        prompt,
+        events: opts.events,
+        model: opts.model,
+        signal: abort.signal,
+      });
+
+      // A persistent sandbox container would otherwise outlive the command
+      const { sandboxPool } = await import('./sandbox/SandboxPool');
+      await sandboxPool.shutdown();
+      await egressProxy?.close();
+      memory.close();
+      process.exit(RUN_EXIT_CODES[outcome]);
+    });
+
+  program
+    .command('chat')
+    .description('Chat with the agent in the terminal, with streaming replies')
+    .option('--workspace <path>', 'Workspace directory (default: the session\'s, or the current directory)')
+    .option('--session <id>', 'Continue an existing session')
+    .option('--require-approval', 'Ask before applying each file edit')
+    .action(async (opts: ChatOptions) => {
+      const memory = new DatabaseMemory(config.dbPath);
+      await memory.initialize();
+      const session = opts.session ? memory.getSession(opts.session) : undefined;
+      if (opts.session && !session) {
+        logger.error(`Session not found: ${opts.session}`);
+        memory.close();
+        process.exit(1);
+      }
+      const workspace = opts.workspace ?? session?.workspaceDir ?? process.cwd();
+      if (!(await fs.pathExists(workspace))) {
+        logger.error(`Workspace does not exist: ${workspace}`);
+        memory.close();
+        process.exit(1);
+      }
+      await loadToolPlugins(toolRegistry, config.pluginDirs ?? []);
+      const egressProxy = await startEgressProxy(config);
+      const chatConfig = {
+        ...withWorkspaceDir(config, workspace),
+        requirePatchApproval: config.requirePatchApproval || !!opts.requireApproval,
+      };
+      const agent = new Agent(chatConfig, memory);
+      const { ChatRepl } = await import('./cli/chat');
+      await new ChatRepl({ agent, memory, config: chatConfig, sessionId: opts.session }).start();
+      // A persistent sandbox container would otherwise outlive the command
+      const { sandboxPool } = await import('./sandbox/SandboxPool');
+      await sandboxPool.shutdown();
+      await egressProxy?.close();
       memory.close();
     });
 
@@ -394,12 +543,14 @@ async function main(): Promise<void> {
         apply_patch: 'MODIFY',
         delete_file: 'DELETE',
         git_checkpoint: 'COMMIT',
+        timeline_restore: 'RESTORE',
       };
       const TOOL_COLOUR: Record<string, string> = {
         write_file: '\x1b[32m', // green
         apply_patch: '\x1b[33m', // yellow
         delete_file: '\x1b[31m', // red
         git_checkpoint: '\x1b[36m', // cyan
+        timeline_restore: '\x1b[35m', // magenta
       };
       const RESET = '\x1b[0m';
       const DIM = '\x1b[2m';
@@ -621,6 +772,111 @@ async function main(): Promise<void> {
       );
     });
 
+  // ── users — accounts and API keys for the server ────────────────────────────
+
+  const users = program
+    .command('users')
+    .description('Manage the users who may call the server, their roles and API keys');
+
+  // Prints a new key once; it cannot be shown again
+  const issueKey = (memory: DatabaseMemory, userId: string, name: string): void => {
+    const { key, hash, prefix } = generateApiKey();
+    memory.addApiKey({ id: uuidv4(), userId, keyHash: hash, prefix });
+    console.log(`✓ API key for ${name}: ${key}`);
+    console.log('  Store it now — only its hash is kept.');
+  };
+
+  users
+    .command('add <name>')
+    .description('Add a user and print their first API key')
+    .option('--role <role>', `One of: ${USER_ROLES.join(', ')}`, 'operator')
+    .action(async (name: string, opts: UserAddOptions) => {
+      const parsed = CreateUserSchema.safeParse({ name, role: opts.role });
+      if (!parsed.success) {
+        logger.error(`Invalid user: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+        process.exit(1);
+      }
+      const memory = new DatabaseMemory(config.dbPath);
+      await memory.initialize();
+      if (memory.getUserByName(parsed.data.name)) {
+        logger.error(`User "${parsed.data.name}" already exists`);
+        memory.close();
+        process.exit(1);
+      }
+      const user = memory.createUser({ id: uuidv4(), ...parsed.data });
+      console.log(`✓ Added ${user.name} (${user.role})`);
+      issueKey(memory, user.id, user.name);
+      memory.close();
+    });
+
+  users
+    .command('list')
+    .description('List users, their roles and API key prefixes')
+    .action(async () => {
+      const memory = new DatabaseMemory(config.dbPath);
+      await memory.initialize();
+      const all = memory.listUsers();
+      if (all.length === 0) {
+        console.log('No users. Add one with: klaus users add <name> --role admin');
+      }
+      for (const user of all) {
+        const keys = memory.listApiKeys(user.id).map((k) => `${k.prefix}…`);
+        console.log(`  ${user.name.padEnd(20)} ${user.role.padEnd(9)} ${keys.join(', ') || '(no keys)'}`);
+      }
+      memory.close();
+    });
+
+  users
+    .command('key <name>')
+    .description('Issue another API key for a user')
+    .action(async (name: string) => {
+      const memory = new DatabaseMemory(config.dbPath);
+      await memory.initialize();
+      const user = memory.getUserByName(name);
+      if (!user) {
+        logger.error(`No user named "${name}"`);
+        memory.close();
+        process.exit(1);
+      }
+      issueKey(memory, user.id, user.name);
+      memory.close();
+    });
+
+  users
+    .command('revoke <name> <prefix>')
+    .description("Revoke one of a user's API keys, named by its prefix")
+    .action(async (name: string, prefix: string) => {
+      const memory = new DatabaseMemory(config.dbPath);
+      await memory.initialize();
+      const user = memory.getUserByName(name);
+      const key = user && memory.listApiKeys(user.id).find((k) => k.prefix === prefix.replace(/…$/, ''));
+      if (!user || !key) {
+        logger.error(`No API key ${prefix} for "${name}"`);
+        memory.close();
+        process.exit(1);
+      }
+      memory.deleteApiKey(user.id, key.id);
+      memory.close();
+      console.log(`✓ Revoked ${key.prefix}… for ${user.name}`);
+    });
+
+  users
+    .command('remove <name>')
+    .description('Remove a user and their API keys. Their sessions are kept.')
+    .action(async (name: string) => {
+      const memory = new DatabaseMemory(config.dbPath);
+      await memory.initialize();
+      const user = memory.getUserByName(name);
+      if (!user) {
+        logger.error(`No user named "${name}"`);
+        memory.close();
+        process.exit(1);
+      }
+      memory.deleteUser(user.id);
+      memory.close();
+      console.log(`✓ Removed ${user.name}`);
+    });
+
   program.parse(process.argv);
 
   if (process.argv.length < 3) {
@@ -1 +1 @@
-export { logger, createChildLogger, debugLogger, logApiDebug } from './logger/index';
+export { logger, createChildLogger, debugLogger, logApiDebug, logToStderr } from './logger/index';
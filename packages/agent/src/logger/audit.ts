@@ -12,8 +12,13 @@ import * as os from 'os';
  * - Workspace rollback
  * - Authentication failures
  * - Rate limit events
+ * - Sandbox network egress
+ * - Applying a dry run to the workspace
+ * - Registering, changing or removing a workspace
+ * - Managing users and their API keys
+ * - Clearing the database
  * 
- * Logs include timestamps, IPs, and operation details for compliance
+ * Logs include timestamps, IPs, user ids, and operation details for compliance
  * and security forensics.
  */
 
@@ -52,18 +57,27 @@ export type AuditAction =
   | 'rate_limit_exceeded'
   | 'session_create'
   | 'workspace_modify'
-  | 'config_change';
+  | 'config_change'
+  | 'sandbox_egress'
+  | 'user_manage'
+  | 'database_clear';
 
 export interface AuditEntry {
   action: AuditAction;
   ip?: string;
   sessionId?: string;
-  userId?: string;  // For future auth integration
+  userId?: string;  // The authenticated user, or the owner of the session
   details?: Record<string, unknown>;
   success: boolean;
   errorMessage?: string;
 }
 
+// Who did it: the request's IP and authenticated user
+export interface AuditActor {
+  ip?: string;
+  userId?: string;
+}
+
 /**
  * Log an audit event. All sensitive operations should call this.
  */
@@ -78,51 +92,172 @@ export function logAudit(entry: AuditEntry): void {
  * Convenience methods for common audit events
  */
 export const audit = {
-  sessionDelete: (ip: string | undefined, sessionId: string, success: boolean, error?: string) => {
+  sessionDelete: (actor: AuditActor, sessionId: string, success: boolean, error?: string) => {
     logAudit({
       action: 'session_delete',
-      ip,
+      ...actor,
       sessionId,
       success,
       errorMessage: error,
     });
   },
 
-  sessionExport: (ip: string | undefined, sessionId: string, format: string, success: boolean) => {
+  sessionExport: (actor: AuditActor, sessionId: string, format: string, success: boolean) => {
     logAudit({
       action: 'session_export',
-      ip,
+      ...actor,
       sessionId,
       details: { format },
       success,
     });
   },
 
-  workspaceRollback: (ip: string | undefined, sessionId: string | undefined, success: boolean, error?: string) => {
+  workspaceRollback: (actor: AuditActor, sessionId: string | undefined, success: boolean, error?: string) => {
+    logAudit({
+      action: 'session_rollback',
+      ...actor,
+      sessionId,
+      success,
+      errorMessage: error,
+    });
+  },
+
+  // Files restored from a session's timeline: to a point, or one entry reverted
+  timelineRestore: (
+    actor: AuditActor,
+    sessionId: string,
+    details: { to?: string; revert?: string; path?: string; force?: boolean; files?: string[] },
+    success: boolean,
+    error?: string
+  ) => {
     logAudit({
       action: 'session_rollback',
-      ip,
+      ...actor,
       sessionId,
+      details,
       success,
       errorMessage: error,
     });
   },
 
-  authFailure: (ip: string | undefined, path: string, reason: string) => {
+  authFailure: (actor: AuditActor, path: string, reason: string) => {
     logAudit({
       action: 'auth_failure',
-      ip,
+      ...actor,
       details: { path, reason },
       success: false,
     });
   },
 
-  rateLimitExceeded: (ip: string | undefined, type: 'http' | 'websocket', count: number) => {
+  rateLimitExceeded: (actor: AuditActor, type: 'http' | 'websocket', count: number) => {
     logAudit({
       action: 'rate_limit_exceeded',
-      ip,
+      ...actor,
       details: { type, count },
       success: false,
     });
   },
+
+  // One entry per host the sandbox asks the egress proxy for, allowed or not
+  sandboxEgress: (
+    sessionId: string | undefined,
+    target: { method: string; host: string; port: number },
+    allowed: boolean,
+    userId?: string
+  ) => {
+    logAudit({
+      action: 'sandbox_egress',
+      sessionId,
+      userId,
+      details: target,
+      success: allowed,
+      errorMessage: allowed ? undefined : 'host not on the egress allowlist',
+    });
+  },
+
+  // A session's worktree branch merged into the workspace, or thrown away
+  worktreeFinish: (
+    actor: AuditActor,
+    sessionId: string,
+    details: { action: string; branch?: string; conflicts?: string[] },
+    success: boolean,
+    error?: string
+  ) => {
+    logAudit({
+      action: 'workspace_modify',
+      ...actor,
+      sessionId,
+      details,
+      success,
+      errorMessage: error,
+    });
+  },
+
+  // A dry run's changes written to the workspace, with the side effects run after them
+  dryRunApply: (
+    actor: AuditActor,
+    sessionId: string,
+    details: { files: string[]; sideEffects: string[] },
+    success: boolean,
+    error?: string
+  ) => {
+    logAudit({
+      action: 'workspace_modify',
+      ...actor,
+      sessionId,
+      details,
+      success,
+      errorMessage: error,
+    });
+  },
+
+  // A workspace registered, its name or settings changed, or removed
+  workspaceChange: (
+    actor: AuditActor,
+    workspaceId: string,
+    details: { change: 'create' | 'update' | 'delete'; path?: string; settings?: Record<string, unknown> },
+    success: boolean,
+    error?: string
+  ) => {
+    logAudit({
+      action: 'config_change',
+      ...actor,
+      details: { workspaceId, ...details },
+      success,
+      errorMessage: error,
+    });
+  },
+
+  // A user added, their role changed, or removed; an API key issued or revoked
+  userChange: (
+    actor: AuditActor,
+    targetUserId: string,
+    details: { change: 'create' | 'update' | 'delete' | 'key_create' | 'key_revoke'; role?: string; keyPrefix?: string },
+    success: boolean,
+    error?: string
+  ) => {
+    logAudit({
+      action: 'user_manage',
+      ...actor,
+      details: { targetUserId, ...details },
+      success,
+      errorMessage: error,
+    });
+  },
+
+  // Sessions or knowledge entries wiped from the database
+  databaseClear: (
+    actor: AuditActor,
+    details: { target: string; category?: string; deleted?: { sessions?: number; knowledge?: number } },
+    success: boolean,
+    error?: string
+  ) => {
+    logAudit({
+      action: 'database_clear',
+      ...actor,
+      details,
+      success,
+      errorMessage: error,
+    });
+  },
 };
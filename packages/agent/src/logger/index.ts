@@ -107,6 +107,19 @@ export function createChildLogger(meta: Record<string, unknown>): winston.Logger
   return logger.child(meta);
 }
 
+/**
+ * Moves console logging to stderr, leaving stdout to a command's own output —
+ * `klaus run` prints JSON there for scripts to parse.
+ */
+export function logToStderr(): void {
+  for (const transport of logger.transports.filter((t) => t instanceof winston.transports.Console)) {
+    logger.remove(transport);
+  }
+  logger.add(
+    new winston.transports.Console({ format: consoleFormat, stderrLevels: Object.keys(logger.levels) })
+  );
+}
+
 // HTTP access log level (used by morgan middleware)
 if (!Object.prototype.hasOwnProperty.call(winston.config.npm.levels, 'http')) {
   // 'http' sits between 'info' and 'verbose' in severity
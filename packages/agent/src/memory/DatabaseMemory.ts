@@ -2,6 +2,12 @@ import Database from 'better-sqlite3';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { logger } from '../logger';
+// Pricing comes from provider model metadata; unknown models fall back to Opus rates
+import { estimateModelCost, type CacheUsage } from '../providers';
+import type { Plan } from '../tools/schemas';
+
+// Stands for the default AGENT_WORKSPACE wherever a workspace id is expected
+export const DEFAULT_WORKSPACE_ID = 'default';
 
 export interface MemoryEntry {
   id: string;
@@ -22,10 +28,63 @@ export interface Session {
   totalOutputTokens: number;
   pinned: boolean;
   tags: string[];
+  parentSessionId?: string; // set on sub-agent sessions started by delegate_task
+  workspaceId?: string; // registered workspace; unset for the default AGENT_WORKSPACE
+  userId?: string; // the user who started it; unset for sessions from before users or the CLI
+  worktree?: SessionWorktree; // set while the session has a git worktree of its own
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface SessionWorktree {
+  path: string; // absolute, under <workspace>/.klaus/worktrees/
+  branch: string; // klaus/<session-short-id>
+}
+
+// Overrides of the global Config for runs in one workspace; unset = global value
+export interface WorkspaceSettings {
+  model?: string;
+  tokenBudget?: number;
+  sandboxImage?: string;
+  requirePatchApproval?: boolean;
+}
+
+// A project directory registered with the server, next to the default AGENT_WORKSPACE
+export interface Workspace {
+  id: string;
+  name: string;
+  path: string; // absolute; fixed once registered
+  settings: WorkspaceSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Which sessions to list: one workspace's, one user's, or both
+export interface SessionFilter {
+  workspaceId?: string; // DEFAULT_WORKSPACE_ID selects AGENT_WORKSPACE's sessions
+  userId?: string;
+}
+
+// viewer reads sessions, operator also runs prompts, admin also deploys and manages the server
+export const USER_ROLES = ['viewer', 'operator', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+  createdAt: Date;
+}
+
+// Only the SHA-256 hash of a key is stored; the prefix identifies it in listings
+export interface ApiKey {
+  id: string;
+  userId: string;
+  prefix: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
 export interface KnowledgeEntry {
   key: string;
   value: string;
@@ -34,12 +93,22 @@ export interface KnowledgeEntry {
 }
 
 export interface TokenUsage {
-  inputTokens: number;
+  inputTokens: number; // uncached input
   outputTokens: number;
-  totalTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  totalTokens: number; // input + cache writes + output; cache reads are reported separately
   estimatedCostUsd: number;
 }
 
+// A file's versions around one edit, as git blob hashes in the workspace repo
+export interface FileSnapshot {
+  toolCallId: string;
+  path: string; // relative to the session's workspace, forward slashes
+  before: string | null; // null = the file did not exist
+  after: string | null;
+}
+
 export interface FileChangeRecord {
   id: string;
   sessionId: string;
@@ -53,40 +122,33 @@ export interface FileChangeRecord {
   createdAt: Date;
 }
 
-// ─── Model pricing ($ per million tokens) ─────────────────────────────────────
-// Looked up by prefix so new point releases don't require code changes.
-// Falls back to Opus pricing if the model string is unrecognised — better to
-// over-estimate cost than under-estimate.
-interface ModelPricing {
-  input: number;
-  output: number;
-}
-
-const MODEL_PRICING: Array<{ prefix: string; pricing: ModelPricing }> = [
-  { prefix: 'claude-haiku', pricing: { input: 0.8, output: 4.0 } },
-  { prefix: 'claude-sonnet', pricing: { input: 3.0, output: 15.0 } },
-  { prefix: 'claude-opus', pricing: { input: 15.0, output: 75.0 } },
-];
-
-const DEFAULT_PRICING: ModelPricing = { input: 15.0, output: 75.0 }; // Opus fallback
-
-function pricingForModel(model: string): ModelPricing {
-  const lower = model.toLowerCase();
-  for (const { prefix, pricing } of MODEL_PRICING) {
-    if (lower.includes(prefix)) return pricing;
-  }
-  return DEFAULT_PRICING;
-}
+// running:     a loop is (or was, before a crash) executing this session
+// interrupted: the server stopped mid-run — resumable
+// failed:      the run threw (API error etc.) — resumable
+// cancelled:   stopped by the user — resumable
+// completed:   finished normally
+export type RunStatus = 'running' | 'interrupted' | 'failed' | 'cancelled' | 'completed';
 
-function estimateCost(
-  inputTokens: number,
-  outputTokens: number,
-  model?: string
-): number {
-  const p = model ? pricingForModel(model) : DEFAULT_PRICING;
-  return (
-    (inputTokens / 1_000_000) * p.input + (outputTokens / 1_000_000) * p.output
-  );
+export interface RunCheckpoint {
+  sessionId: string;
+  status: RunStatus;
+  turn: number;
+  userMessage: string;
+  // Exact Messages API transcript, tool_use and tool_result blocks included
+  messages: unknown[];
+  toolCallsCount: number;
+  totalInputTokens: number;
+  totalOutputTokens: number;
+  totalCacheReadTokens?: number;
+  totalCacheCreationTokens?: number;
+  inCodingPhase: boolean;
+  budgetWarningFired: boolean;
+  planningModel: string;
+  codingModel: string;
+  mode?: 'plan' | 'auto';
+  approvedPlan?: Plan; // pinned into the system prompt once a plan-mode run is approved
+  dryRun?: boolean; // its overlay lived in memory, so a dry run cannot be resumed
+  updatedAt: Date;
 }
 
 export class DatabaseMemory {
@@ -113,10 +175,36 @@ export class DatabaseMemory {
         total_output_tokens INTEGER NOT NULL DEFAULT 0,
         pinned INTEGER NOT NULL DEFAULT 0,
         tags TEXT DEFAULT '[]',
+        parent_session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
 
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        path TEXT NOT NULL UNIQUE,
+        settings TEXT NOT NULL DEFAULT '{}',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL CHECK (role IN ('viewer', 'operator', 'admin')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        key_hash TEXT NOT NULL UNIQUE,
+        prefix TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME
+      );
+
       CREATE TABLE IF NOT EXISTS messages (
         id TEXT PRIMARY KEY,
         session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
@@ -151,6 +239,17 @@ export class DatabaseMemory {
       CREATE INDEX IF NOT EXISTS idx_tool_calls_session ON tool_calls(session_id);
       CREATE INDEX IF NOT EXISTS idx_tool_calls_name ON tool_calls(tool_name);
 
+      CREATE TABLE IF NOT EXISTS file_snapshots (
+        tool_call_id TEXT NOT NULL,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        path TEXT NOT NULL,
+        before_blob TEXT,
+        after_blob TEXT,
+        PRIMARY KEY (tool_call_id, path)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_file_snapshots_session ON file_snapshots(session_id);
+
       CREATE TABLE IF NOT EXISTS token_usage (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
@@ -161,6 +260,16 @@ export class DatabaseMemory {
       );
 
       CREATE INDEX IF NOT EXISTS idx_token_usage_session ON token_usage(session_id);
+
+      CREATE TABLE IF NOT EXISTS run_checkpoints (
+        session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+        status TEXT NOT NULL DEFAULT 'running',
+        turn INTEGER NOT NULL DEFAULT 0,
+        user_message TEXT NOT NULL,
+        messages TEXT NOT NULL,
+        state TEXT NOT NULL DEFAULT '{}',
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
     `);
 
     // Migration: Add pinned and tags columns if they don't exist (for existing databases)
@@ -176,15 +285,65 @@ export class DatabaseMemory {
     } catch {
       /* Column already exists */
     }
+    try {
+      this.db.exec(
+        `ALTER TABLE sessions ADD COLUMN parent_session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE`
+      );
+    } catch {
+      /* Column already exists */
+    }
+    this.db.exec(
+      `CREATE INDEX IF NOT EXISTS idx_sessions_parent ON sessions(parent_session_id)`
+    );
+    try {
+      this.db.exec(`ALTER TABLE sessions ADD COLUMN worktree TEXT`);
+    } catch {
+      /* Column already exists */
+    }
+    try {
+      this.db.exec(`ALTER TABLE sessions ADD COLUMN workspace_id TEXT REFERENCES workspaces(id)`);
+    } catch {
+      /* Column already exists */
+    }
+    this.db.exec(
+      `CREATE INDEX IF NOT EXISTS idx_sessions_workspace ON sessions(workspace_id)`
+    );
+    try {
+      this.db.exec(`ALTER TABLE sessions ADD COLUMN user_id TEXT`);
+    } catch {
+      /* Column already exists */
+    }
+    this.db.exec(`CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)`);
+    try {
+      this.db.exec(`ALTER TABLE tool_calls ADD COLUMN error_code TEXT`);
+    } catch {
+      /* Column already exists */
+    }
+    for (const column of ['cache_read_tokens', 'cache_creation_tokens']) {
+      try {
+        this.db.exec(
+          `ALTER TABLE token_usage ADD COLUMN ${column} INTEGER NOT NULL DEFAULT 0`
+        );
+      } catch {
+        /* Column already exists */
+      }
+    }
   }
 
   // ─── Sessions ──────────────────────────────────────────────────────────────
 
-  createSession(id: string, workspaceDir: string): Session {
+  createSession(
+    id: string,
+    workspaceDir: string,
+    origin: { parentSessionId?: string; workspaceId?: string; userId?: string } = {}
+  ): Session {
+    const { parentSessionId, workspaceId, userId } = origin;
     this.db
-      .prepare('INSERT INTO sessions (id, workspace_dir) VALUES (?, ?)')
-      .run(id, workspaceDir);
-    logger.debug('Session created', { sessionId: id, workspaceDir });
+      .prepare(
+        'INSERT INTO sessions (id, workspace_dir, parent_session_id, workspace_id, user_id) VALUES (?, ?, ?, ?, ?)'
+      )
+      .run(id, workspaceDir, parentSessionId ?? null, workspaceId ?? null, userId ?? null);
+    logger.debug('Session created', { sessionId: id, workspaceDir, ...origin });
     return this.getSession(id)!;
   }
 
@@ -196,17 +355,29 @@ export class DatabaseMemory {
     return this.rowToSession(row);
   }
 
-  listSessions(limit = 20): Session[] {
+  listSessions(limit = 20, filter: SessionFilter = {}): Session[] {
+    const where = sessionConditions(filter);
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM sessions ${where.sql ? `WHERE ${where.sql}` : ''} ORDER BY pinned DESC, updated_at DESC LIMIT ?`
+      )
+      .all(...where.params, limit) as any[];
+    return rows.map(this.rowToSession.bind(this));
+  }
+
+  // Sub-agent sessions started from this session, oldest first
+  listChildSessions(parentSessionId: string): Session[] {
     const rows = this.db
       .prepare(
-        'SELECT * FROM sessions ORDER BY pinned DESC, updated_at DESC LIMIT ?'
+        'SELECT * FROM sessions WHERE parent_session_id = ? ORDER BY created_at ASC, rowid ASC'
       )
-      .all(limit) as any[];
+      .all(parentSessionId) as any[];
     return rows.map(this.rowToSession.bind(this));
   }
 
-  searchSessions(query: string, limit = 20): Session[] {
+  searchSessions(query: string, limit = 20, filter: SessionFilter = {}): Session[] {
     const like = `%${query}%`;
+    const where = sessionConditions(filter);
     // Two-pass approach: first match by session summary (fast, indexed),
     // then match by recent message content with a bounded inner query.
     // This avoids a full table scan across all messages in the database.
@@ -222,12 +393,12 @@ export class DatabaseMemory {
           ORDER BY created_at DESC
           LIMIT 500
         )
-      )
+      ) ${where.sql ? `AND ${where.sql}` : ''}
       ORDER BY updated_at DESC
       LIMIT ?
     `
       )
-      .all(like, like, limit) as any[];
+      .all(like, like, ...where.params, limit) as any[];
     return rows.map(this.rowToSession);
   }
 
@@ -239,6 +410,13 @@ export class DatabaseMemory {
       .run(summary, sessionId);
   }
 
+  // null once the worktree is merged or discarded
+  setSessionWorktree(sessionId: string, worktree: SessionWorktree | null): void {
+    this.db
+      .prepare('UPDATE sessions SET worktree = ? WHERE id = ?')
+      .run(worktree ? JSON.stringify(worktree) : null, sessionId);
+  }
+
   /**
    * Toggle the pinned status of a session.
    * Returns the new pinned status.
@@ -305,6 +483,12 @@ export class DatabaseMemory {
     } catch {
       /* Invalid JSON, use empty array */
     }
+    let worktree: SessionWorktree | undefined;
+    try {
+      worktree = row.worktree ? JSON.parse(row.worktree) : undefined;
+    } catch {
+      /* Invalid JSON, no worktree */
+    }
 
     return {
       id: row.id,
@@ -314,11 +498,134 @@ export class DatabaseMemory {
       totalOutputTokens: row.total_output_tokens ?? 0,
       pinned: Boolean(row.pinned),
       tags,
+      parentSessionId: row.parent_session_id ?? undefined,
+      workspaceId: row.workspace_id ?? undefined,
+      userId: row.user_id ?? undefined,
+      worktree,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
     };
   }
 
+  // ─── Workspaces ────────────────────────────────────────────────────────────
+
+  createWorkspace(params: { id: string; name: string; path: string; settings?: WorkspaceSettings }): Workspace {
+    this.db
+      .prepare('INSERT INTO workspaces (id, name, path, settings) VALUES (?, ?, ?, ?)')
+      .run(params.id, params.name, params.path, JSON.stringify(params.settings ?? {}));
+    logger.info('Workspace registered', { workspaceId: params.id, path: params.path });
+    return this.getWorkspace(params.id)!;
+  }
+
+  getWorkspace(id: string): Workspace | undefined {
+    const row = this.db.prepare('SELECT * FROM workspaces WHERE id = ?').get(id) as any;
+    return row ? rowToWorkspace(row) : undefined;
+  }
+
+  getWorkspaceByPath(workspacePath: string): Workspace | undefined {
+    const row = this.db.prepare('SELECT * FROM workspaces WHERE path = ?').get(workspacePath) as any;
+    return row ? rowToWorkspace(row) : undefined;
+  }
+
+  listWorkspaces(): Workspace[] {
+    const rows = this.db.prepare('SELECT * FROM workspaces ORDER BY name COLLATE NOCASE, created_at').all() as any[];
+    return rows.map(rowToWorkspace);
+  }
+
+  // Settings are replaced as a whole
+  updateWorkspace(id: string, changes: { name?: string; settings?: WorkspaceSettings }): Workspace | undefined {
+    const workspace = this.getWorkspace(id);
+    if (!workspace) return undefined;
+    this.db
+      .prepare('UPDATE workspaces SET name = ?, settings = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+      .run(changes.name ?? workspace.name, JSON.stringify(changes.settings ?? workspace.settings), id);
+    return this.getWorkspace(id);
+  }
+
+  deleteWorkspace(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM workspaces WHERE id = ?').run(id);
+    if (result.changes > 0) logger.info('Workspace removed', { workspaceId: id });
+    return result.changes > 0;
+  }
+
+  countWorkspaceSessions(id: string): number {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS n FROM sessions WHERE workspace_id = ?')
+      .get(id) as { n: number };
+    return row.n;
+  }
+
+  // ─── Users & API keys ──────────────────────────────────────────────────────
+
+  createUser(params: { id: string; name: string; role: UserRole }): User {
+    this.db.prepare('INSERT INTO users (id, name, role) VALUES (?, ?, ?)').run(params.id, params.name, params.role);
+    logger.info('User created', { userId: params.id, name: params.name, role: params.role });
+    return this.getUser(params.id)!;
+  }
+
+  getUser(id: string): User | undefined {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id) as any;
+    return row ? rowToUser(row) : undefined;
+  }
+
+  getUserByName(name: string): User | undefined {
+    const row = this.db.prepare('SELECT * FROM users WHERE name = ?').get(name) as any;
+    return row ? rowToUser(row) : undefined;
+  }
+
+  listUsers(): User[] {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY created_at, name').all() as any[];
+    return rows.map(rowToUser);
+  }
+
+  countUsers(): number {
+    return (this.db.prepare('SELECT COUNT(*) AS n FROM users').get() as { n: number }).n;
+  }
+
+  setUserRole(id: string, role: UserRole): User | undefined {
+    this.db.prepare('UPDATE users SET role = ? WHERE id = ?').run(role, id);
+    return this.getUser(id);
+  }
+
+  // Their API keys go with them; their sessions stay, visible to admins
+  deleteUser(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+    if (result.changes > 0) logger.info('User deleted', { userId: id });
+    return result.changes > 0;
+  }
+
+  addApiKey(params: { id: string; userId: string; keyHash: string; prefix: string }): ApiKey {
+    this.db
+      .prepare('INSERT INTO api_keys (id, user_id, key_hash, prefix) VALUES (?, ?, ?, ?)')
+      .run(params.id, params.userId, params.keyHash, params.prefix);
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE id = ?').get(params.id) as any;
+    return rowToApiKey(row);
+  }
+
+  listApiKeys(userId: string): ApiKey[] {
+    const rows = this.db
+      .prepare('SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at, rowid')
+      .all(userId) as any[];
+    return rows.map(rowToApiKey);
+  }
+
+  deleteApiKey(userId: string, keyId: string): boolean {
+    const result = this.db.prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?').run(keyId, userId);
+    return result.changes > 0;
+  }
+
+  /** The user a key hash belongs to; marks the key as used. */
+  findUserByKeyHash(keyHash: string): User | undefined {
+    const row = this.db
+      .prepare(
+        'SELECT users.*, api_keys.id AS key_id FROM api_keys JOIN users ON users.id = api_keys.user_id WHERE key_hash = ?'
+      )
+      .get(keyHash) as any;
+    if (!row) return undefined;
+    this.db.prepare('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?').run(row.key_id);
+    return rowToUser(row);
+  }
+
   // ─── Messages ──────────────────────────────────────────────────────────────
 
   addMessage(entry: Omit<MemoryEntry, 'createdAt'>): void {
@@ -348,7 +655,8 @@ export class DatabaseMemory {
   getMessages(sessionId: string, limit = 100): MemoryEntry[] {
     const rows = this.db
       .prepare(
-        'SELECT * FROM messages WHERE session_id = ? ORDER BY created_at ASC LIMIT ?'
+        // created_at has one-second resolution — rowid keeps same-second rows in insert order
+        'SELECT * FROM messages WHERE session_id = ? ORDER BY created_at ASC, rowid ASC LIMIT ?'
       )
       .all(sessionId, limit) as any[];
     return rows.map((row) => ({
@@ -380,9 +688,9 @@ export class DatabaseMemory {
       .prepare(
         `
         SELECT * FROM (
-          SELECT * FROM messages WHERE session_id = ?
-          ORDER BY created_at DESC LIMIT ?
-        ) sub ORDER BY created_at ASC
+          SELECT *, rowid AS seq FROM messages WHERE session_id = ?
+          ORDER BY created_at DESC, rowid DESC LIMIT ?
+        ) sub ORDER BY created_at ASC, seq ASC
       `
       )
       .all(sessionId, limit) as any[];
@@ -445,12 +753,13 @@ export class DatabaseMemory {
     output?: string;
     success: boolean;
     durationMs?: number;
+    errorCode?: string; // a ToolErrorCode, for failed calls
   }): void {
     this.db
       .prepare(
         `
-      INSERT INTO tool_calls (id, session_id, tool_name, input, output, success, duration_ms)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO tool_calls (id, session_id, tool_name, input, output, success, duration_ms, error_code)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `
       )
       .run(
@@ -460,10 +769,24 @@ export class DatabaseMemory {
         params.input,
         params.output ?? null,
         params.success ? 1 : 0,
-        params.durationMs ?? null
+        params.durationMs ?? null,
+        params.errorCode ?? null
       );
   }
 
+  /** Failed tool calls by error code, e.g. { PATCH_CONTEXT_MISMATCH: 3 }. */
+  getToolErrorCounts(sessionId?: string): Record<string, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT error_code, COUNT(*) AS count
+         FROM tool_calls
+         WHERE error_code IS NOT NULL ${sessionId ? 'AND session_id = ?' : ''}
+         GROUP BY error_code`
+      )
+      .all(...(sessionId ? [sessionId] : [])) as { error_code: string; count: number }[];
+    return Object.fromEntries(rows.map((r) => [r.error_code, r.count]));
+  }
+
   getToolCallStats(
     sessionId?: string
   ): Record<string, { calls: number; successes: number; avgDuration: number }> {
@@ -514,22 +837,137 @@ export class DatabaseMemory {
     return false;
   }
 
+  // ─── Run checkpoints ───────────────────────────────────────────────────────
+  // One row per session holding the state of its latest turn, overwritten
+  // after every turn so a run can be resumed after a crash or shutdown.
+
+  saveRunCheckpoint(checkpoint: Omit<RunCheckpoint, 'updatedAt'>): void {
+    const state = {
+      toolCallsCount: checkpoint.toolCallsCount,
+      totalInputTokens: checkpoint.totalInputTokens,
+      totalOutputTokens: checkpoint.totalOutputTokens,
+      totalCacheReadTokens: checkpoint.totalCacheReadTokens ?? 0,
+      totalCacheCreationTokens: checkpoint.totalCacheCreationTokens ?? 0,
+      inCodingPhase: checkpoint.inCodingPhase,
+      budgetWarningFired: checkpoint.budgetWarningFired,
+      planningModel: checkpoint.planningModel,
+      codingModel: checkpoint.codingModel,
+      mode: checkpoint.mode,
+      approvedPlan: checkpoint.approvedPlan,
+      dryRun: checkpoint.dryRun,
+    };
+    this.db
+      .prepare(
+        `
+      INSERT INTO run_checkpoints (session_id, status, turn, user_message, messages, state, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(session_id) DO UPDATE SET
+        status = excluded.status,
+        turn = excluded.turn,
+        user_message = excluded.user_message,
+        messages = excluded.messages,
+        state = excluded.state,
+        updated_at = CURRENT_TIMESTAMP
+    `
+      )
+      .run(
+        checkpoint.sessionId,
+        checkpoint.status,
+        checkpoint.turn,
+        checkpoint.userMessage,
+        JSON.stringify(checkpoint.messages),
+        JSON.stringify(state)
+      );
+  }
+
+  getRunCheckpoint(sessionId: string): RunCheckpoint | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM run_checkpoints WHERE session_id = ?')
+      .get(sessionId) as any;
+    if (!row) return undefined;
+    const state = JSON.parse(row.state);
+    return {
+      sessionId: row.session_id,
+      status: row.status,
+      turn: row.turn,
+      userMessage: row.user_message,
+      messages: JSON.parse(row.messages),
+      toolCallsCount: state.toolCallsCount ?? 0,
+      totalInputTokens: state.totalInputTokens ?? 0,
+      totalOutputTokens: state.totalOutputTokens ?? 0,
+      totalCacheReadTokens: state.totalCacheReadTokens ?? 0,
+      totalCacheCreationTokens: state.totalCacheCreationTokens ?? 0,
+      inCodingPhase: !!state.inCodingPhase,
+      budgetWarningFired: !!state.budgetWarningFired,
+      planningModel: state.planningModel,
+      codingModel: state.codingModel,
+      mode: state.mode,
+      approvedPlan: state.approvedPlan,
+      dryRun: !!state.dryRun,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  setRunStatus(sessionId: string, status: RunStatus): void {
+    this.db
+      .prepare(
+        'UPDATE run_checkpoints SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE session_id = ?'
+      )
+      .run(status, sessionId);
+  }
+
+  /** Status of each session's latest run, for the sessions list. */
+  getRunStatuses(sessionIds: string[]): Map<string, RunStatus> {
+    const statuses = new Map<string, RunStatus>();
+    if (sessionIds.length === 0) return statuses;
+    const rows = this.db
+      .prepare(
+        `SELECT session_id, status FROM run_checkpoints
+         WHERE session_id IN (${sessionIds.map(() => '?').join(',')})`
+      )
+      .all(...sessionIds) as any[];
+    for (const row of rows) statuses.set(row.session_id, row.status);
+    return statuses;
+  }
+
+  /**
+   * Flags every run still marked 'running' as interrupted. Called when the
+   * server starts (nothing can be running yet) and when shutdown gives up
+   * waiting on in-flight runs. Returns the number of runs flagged.
+   */
+  markRunsInterrupted(): number {
+    const result = this.db
+      .prepare(
+        `UPDATE run_checkpoints SET status = 'interrupted', updated_at = CURRENT_TIMESTAMP
+         WHERE status = 'running'`
+      )
+      .run();
+    if (result.changes > 0) {
+      logger.warn('Marked in-flight runs as interrupted', { count: result.changes });
+    }
+    return result.changes;
+  }
+
   // ─── Token usage ───────────────────────────────────────────────────────────
 
   recordTokenUsage(
     sessionId: string,
     inputTokens: number,
     outputTokens: number,
-    model: string
+    model: string,
+    cache: CacheUsage = {}
   ): void {
+    const cacheReadTokens = cache.readTokens ?? 0;
+    const cacheCreationTokens = cache.creationTokens ?? 0;
     this.db
       .prepare(
         `
-      INSERT INTO token_usage (session_id, input_tokens, output_tokens, model)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO token_usage
+        (session_id, input_tokens, output_tokens, model, cache_read_tokens, cache_creation_tokens)
+      VALUES (?, ?, ?, ?, ?, ?)
     `
       )
-      .run(sessionId, inputTokens, outputTokens, model);
+      .run(sessionId, inputTokens, outputTokens, model, cacheReadTokens, cacheCreationTokens);
 
     // Roll up into session totals for fast reads
     this.db
@@ -548,6 +986,8 @@ export class DatabaseMemory {
       sessionId,
       inputTokens,
       outputTokens,
+      cacheReadTokens,
+      cacheCreationTokens,
       model,
     });
   }
@@ -556,59 +996,51 @@ export class DatabaseMemory {
     const rows = this.db
       .prepare(
         `
-      SELECT input_tokens, output_tokens, model
+      SELECT input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, model
       FROM token_usage WHERE session_id = ?
     `
       )
       .all(sessionId) as any[];
-
-    let inputTokens = 0;
-    let outputTokens = 0;
-    let costUsd = 0;
-
-    for (const row of rows) {
-      inputTokens += row.input_tokens;
-      outputTokens += row.output_tokens;
-      costUsd += estimateCost(row.input_tokens, row.output_tokens, row.model);
-    }
-
-    return {
-      inputTokens,
-      outputTokens,
-      totalTokens: inputTokens + outputTokens,
-      estimatedCostUsd: costUsd,
-    };
+    return sumTokenUsage(rows);
   }
 
-  getTotalTokenUsage(): TokenUsage {
+  // Usage across every session, or only the sessions a filter selects
+  getTotalTokenUsage(filter: SessionFilter = {}): TokenUsage {
+    const where = sessionConditions(filter);
     const rows = this.db
       .prepare(
         `
-      SELECT input_tokens, output_tokens, model
+      SELECT input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, model
       FROM token_usage
+      ${where.sql ? `WHERE session_id IN (SELECT id FROM sessions WHERE ${where.sql})` : ''}
     `
       )
-      .all() as any[];
-
-    let inputTokens = 0;
-    let outputTokens = 0;
-    let costUsd = 0;
+      .all(...where.params) as any[];
+    return sumTokenUsage(rows);
+  }
 
-    for (const row of rows) {
-      inputTokens += row.input_tokens;
-      outputTokens += row.output_tokens;
-      costUsd += estimateCost(row.input_tokens, row.output_tokens, row.model);
-    }
+  // ─── Database maintenance ──────────────────────────────────────────────────
 
-    return {
-      inputTokens,
-      outputTokens,
-      totalTokens: inputTokens + outputTokens,
-      estimatedCostUsd: costUsd,
-    };
+  recordFileSnapshots(sessionId: string, snapshots: FileSnapshot[]): void {
+    const insert = this.db.prepare(
+      'INSERT OR REPLACE INTO file_snapshots (tool_call_id, session_id, path, before_blob, after_blob) VALUES (?, ?, ?, ?, ?)'
+    );
+    this.db.transaction(() => {
+      for (const s of snapshots) insert.run(s.toolCallId, sessionId, s.path, s.before, s.after);
+    })();
   }
 
-  // ─── Database maintenance ──────────────────────────────────────────────────
+  getFileSnapshots(sessionId: string): FileSnapshot[] {
+    const rows = this.db
+      .prepare('SELECT * FROM file_snapshots WHERE session_id = ?')
+      .all(sessionId) as any[];
+    return rows.map((row) => ({
+      toolCallId: row.tool_call_id,
+      path: row.path,
+      before: row.before_blob ?? null,
+      after: row.after_blob ?? null,
+    }));
+  }
 
   /**
    * Return all tool calls for a session (or all sessions) that mutated files,
@@ -624,6 +1056,7 @@ export class DatabaseMemory {
       'apply_patch',
       'delete_file',
       'git_checkpoint',
+      'timeline_restore', // a restore or revert from the session timeline
     ];
     const placeholders = FILE_MUTATING_TOOLS.map(() => '?').join(', ');
 
@@ -636,7 +1069,7 @@ export class DatabaseMemory {
            JOIN sessions s ON s.id = tc.session_id
            WHERE tc.session_id = ?
              AND tc.tool_name IN (${placeholders})
-           ORDER BY tc.created_at ASC`
+           ORDER BY tc.created_at ASC, tc.rowid ASC`
             )
             .all(sessionId, ...FILE_MUTATING_TOOLS)
         : this.db
@@ -645,7 +1078,7 @@ export class DatabaseMemory {
            FROM tool_calls tc
            JOIN sessions s ON s.id = tc.session_id
            WHERE tc.tool_name IN (${placeholders})
-           ORDER BY tc.created_at ASC`
+           ORDER BY tc.created_at ASC, tc.rowid ASC`
             )
             .all(...FILE_MUTATING_TOOLS)
     ) as any[];
@@ -662,7 +1095,7 @@ export class DatabaseMemory {
       const filePath: string =
         input.path ?? // write_file, delete_file
         input.file ?? // apply_patch
-        input.message ?? // git_checkpoint — show commit message instead
+        input.message ?? // git_checkpoint, timeline_restore — show the message instead
         '(unknown)';
 
       return {
@@ -711,8 +1144,10 @@ export class DatabaseMemory {
     if (ttlMs <= 0) return 0; // TTL disabled
 
     const cutoff = new Date(Date.now() - ttlMs).toISOString();
+    // Sessions with a worktree stay until it is merged or discarded — their
+    // branch would otherwise be orphaned
     const result = this.db
-      .prepare('DELETE FROM sessions WHERE updated_at < ?')
+      .prepare('DELETE FROM sessions WHERE updated_at < ? AND worktree IS NULL')
       .run(cutoff);
 
     if (result.changes > 0) {
@@ -784,3 +1219,75 @@ export class DatabaseMemory {
     this.db.close();
   }
 }
+
+// SQL conditions, joined with AND, for the sessions a filter selects; empty when it selects all
+function sessionConditions(filter: SessionFilter): { sql: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.workspaceId === DEFAULT_WORKSPACE_ID) {
+    conditions.push('workspace_id IS NULL');
+  } else if (filter.workspaceId !== undefined) {
+    conditions.push('workspace_id = ?');
+    params.push(filter.workspaceId);
+  }
+  if (filter.userId !== undefined) {
+    conditions.push('user_id = ?');
+    params.push(filter.userId);
+  }
+  return { sql: conditions.join(' AND '), params };
+}
+
+function rowToUser(row: any): User {
+  return { id: row.id, name: row.name, role: row.role, createdAt: new Date(row.created_at) };
+}
+
+function rowToApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    prefix: row.prefix,
+    createdAt: new Date(row.created_at),
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+  };
+}
+
+function rowToWorkspace(row: any): Workspace {
+  let settings: WorkspaceSettings = {};
+  try {
+    settings = JSON.parse(row.settings || '{}');
+  } catch {
+    /* Invalid JSON, no overrides */
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    path: row.path,
+    settings,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// Rows are priced individually — each may have run on a different model
+function sumTokenUsage(rows: any[]): TokenUsage {
+  const usage: TokenUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+  };
+  for (const row of rows) {
+    usage.inputTokens += row.input_tokens;
+    usage.outputTokens += row.output_tokens;
+    usage.cacheReadTokens += row.cache_read_tokens;
+    usage.cacheCreationTokens += row.cache_creation_tokens;
+    usage.estimatedCostUsd += estimateModelCost(row.input_tokens, row.output_tokens, row.model, {
+      readTokens: row.cache_read_tokens,
+      creationTokens: row.cache_creation_tokens,
+    });
+  }
+  usage.totalTokens = usage.inputTokens + usage.cacheCreationTokens + usage.outputTokens;
+  return usage;
+}
@@ -0,0 +1,59 @@
+import type { DatabaseMemory, Session } from './DatabaseMemory';
+
+// ─── Session export ───────────────────────────────────────────────────────────
+// The Markdown form of a session — summary, token usage and conversation — as
+// served by GET /api/sessions/:id/export and written by the chat REPL's /export.
+
+export function sessionToMarkdown(memory: DatabaseMemory, session: Session): string {
+  const messages = memory.getMessages(session.id, 1000);
+  const tokenUsage = memory.getSessionTokenUsage(session.id);
+
+  const lines: string[] = [
+    `# AI Agent Session`,
+    ``,
+    `**Session ID:** ${session.id}`,
+    `**Workspace:** ${session.workspaceDir}`,
+    `**Created:** ${session.createdAt}`,
+    `**Updated:** ${session.updatedAt}`,
+    ``,
+    `## Summary`,
+    ``,
+    session.summary || '_No summary available_',
+    ``,
+    `## Token Usage`,
+    ``,
+    `- Input tokens: ${tokenUsage.inputTokens.toLocaleString()}`,
+    `- Output tokens: ${tokenUsage.outputTokens.toLocaleString()}`,
+    `- Total tokens: ${tokenUsage.totalTokens.toLocaleString()}`,
+    `- Estimated cost: $${tokenUsage.estimatedCostUsd.toFixed(4)}`,
+    ``,
+    `## Conversation`,
+    ``,
+  ];
+
+  for (const msg of messages) {
+    if (msg.role === 'user') {
+      lines.push(`### 👤 User`);
+      lines.push(``);
+      lines.push(msg.content);
+      lines.push(``);
+    } else if (msg.role === 'assistant' && msg.content) {
+      // Tool-only turns have no text; their tool rows follow
+      lines.push(`### 🤖 Assistant`);
+      lines.push(``);
+      lines.push(msg.content);
+      lines.push(``);
+    } else if (msg.role === 'tool') {
+      lines.push(`### 🔧 Tool: ${msg.toolName || 'unknown'}`);
+      lines.push(``);
+      lines.push('```json');
+      lines.push(msg.content.slice(0, 500) + (msg.content.length > 500 ? '...' : ''));
+      lines.push('```');
+      lines.push(``);
+    }
+  }
+
+  lines.push(`---`);
+  lines.push(`_Exported at ${new Date().toISOString()}_`);
+  return lines.join('\n');
+}
@@ -0,0 +1,148 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { registerModels } from './catalog';
+import type {
+  CompleteRequest,
+  ModelInfo,
+  ModelProvider,
+  ModelResponse,
+  ProviderMessage,
+  StreamRequest,
+} from './ModelProvider';
+
+// Pricing per million tokens (Anthropic pricing as of Jan 2025)
+export const ANTHROPIC_MODELS: readonly ModelInfo[] = [
+  // Opus 4.5 — user-selectable
+  {
+    id: 'claude-opus-4-5',
+    aliases: ['claude-opus-4-5-20251101'],
+    family: 'claude-opus',
+    pricing: { input: 15.0, output: 75.0, cacheRead: 1.5, cacheWrite: 18.75 },
+    contextWindow: 200_000,
+    userSelectable: true,
+  },
+  // Sonnet 4.6 (current) and 4.5 (legacy) — user-selectable
+  {
+    id: 'claude-sonnet-4-6',
+    family: 'claude-sonnet',
+    pricing: { input: 3.0, output: 15.0, cacheRead: 0.3, cacheWrite: 3.75 },
+    contextWindow: 200_000,
+    userSelectable: true,
+  },
+  {
+    id: 'claude-sonnet-4-5',
+    aliases: ['claude-sonnet-4-5-20250929'],
+    family: 'claude-sonnet',
+    pricing: { input: 3.0, output: 15.0, cacheRead: 0.3, cacheWrite: 3.75 },
+    contextWindow: 200_000,
+    userSelectable: true,
+  },
+  // Haiku is intentionally not selectable — it is reserved for automated internal tasks only
+  {
+    id: 'claude-haiku-4-5-20251001',
+    family: 'claude-haiku',
+    pricing: { input: 0.8, output: 4.0, cacheRead: 0.08, cacheWrite: 1.0 },
+    contextWindow: 200_000,
+    userSelectable: false,
+  },
+];
+
+// Registered at load so stored usage is priced correctly even before a provider exists
+registerModels(ANTHROPIC_MODELS);
+
+export class AnthropicProvider implements ModelProvider {
+  readonly name = 'anthropic';
+  readonly models = ANTHROPIC_MODELS;
+  readonly internalModels = {
+    // Haiku: low-level tasks — title generation, conversation labeling (~20x cheaper than Opus)
+    summary: 'claude-haiku-4-5-20251001',
+    // Sonnet: mid-level transformations — memory compression, context summarization
+    compaction: 'claude-sonnet-4-6',
+  };
+
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async stream(request: StreamRequest): Promise<ModelResponse> {
+    const stream = this.client.messages.stream({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      // Prompt caching: tools → system → messages form one prefix. Breakpoints
+      // after the tools, after each system segment and on the latest message
+      // (4, the API maximum) mean each turn re-reads everything before its new
+      // messages at ~10% of the input price.
+      system: systemBlocks(request.system),
+      tools: withToolBreakpoint(request.tools),
+      messages: withConversationBreakpoint(request.messages),
+    });
+
+    if (request.onText) stream.on('text', request.onText);
+
+    // Check for cancel mid-stream
+    request.signal?.addEventListener('abort', () => stream.abort(), { once: true });
+
+    const finalMsg = await stream.finalMessage();
+    const usage = finalMsg.usage as UsageWithCache;
+    return {
+      content: finalMsg.content,
+      stopReason: finalMsg.stop_reason ?? '',
+      usage: {
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+      },
+    };
+  }
+
+  async complete(request: CompleteRequest): Promise<string> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+    const block = response.content[0];
+    return block?.type === 'text' ? block.text : '';
+  }
+}
+
+// ─── Cache breakpoints ────────────────────────────────────────────────────────
+// Each helper copies what it marks — the agent's transcript is never mutated.
+
+const EPHEMERAL = { type: 'ephemeral' } as const;
+
+// Cache counters are reported by the API but not yet typed by this SDK version
+type UsageWithCache = Anthropic.Usage & {
+  cache_read_input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+};
+
+function systemBlocks(system: StreamRequest['system']): Anthropic.TextBlockParam[] {
+  const segments = typeof system === 'string' ? [system] : system;
+  return segments
+    .filter((text) => text.length > 0)
+    .map((text) => ({ type: 'text', text, cache_control: EPHEMERAL }));
+}
+
+function withToolBreakpoint(tools: StreamRequest['tools']): Anthropic.Tool[] {
+  return tools.map((tool, i) => ({
+    ...(tool as Anthropic.Tool),
+    ...(i === tools.length - 1 ? { cache_control: EPHEMERAL } : {}),
+  }));
+}
+
+function withConversationBreakpoint(messages: ProviderMessage[]): ProviderMessage[] {
+  const last = messages[messages.length - 1];
+  if (!last) return messages;
+  const blocks =
+    typeof last.content === 'string'
+      ? [{ type: 'text' as const, text: last.content }]
+      : last.content;
+  if (blocks.length === 0) return messages;
+  const marked = blocks.map((block, i) =>
+    i === blocks.length - 1 ? { ...block, cache_control: EPHEMERAL } : block
+  );
+  return [...messages.slice(0, -1), { ...last, content: marked as ProviderMessage['content'] }];
+}
@@ -0,0 +1,75 @@
+import type Anthropic from '@anthropic-ai/sdk';
+
+// ─── Provider contract ────────────────────────────────────────────────────────
+// The agent keeps its transcript in Anthropic's Messages format (text, tool_use
+// and tool_result blocks). Every provider accepts that shape and returns
+// content in the same shape, translating to and from its own wire protocol.
+
+export type ProviderMessage = Anthropic.MessageParam;
+export type ProviderContentBlock = Anthropic.ContentBlock; // text | tool_use
+
+export interface ProviderToolDefinition {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface ModelPricing {
+  input: number; // $ per million input tokens
+  output: number; // $ per million output tokens
+  cacheRead?: number; // $ per million prompt-cache hits (default 0.1× input)
+  cacheWrite?: number; // $ per million tokens written to the cache (default 1.25× input)
+}
+
+export interface ModelInfo {
+  id: string;
+  aliases?: string[]; // dated snapshots etc. that resolve to the same model
+  family?: string; // prefix used to price point releases not listed explicitly
+  pricing: ModelPricing;
+  contextWindow?: number; // input tokens the model accepts; catalog default when unset
+  userSelectable: boolean; // false = reserved for internal tasks (summaries, compaction)
+}
+
+export interface ModelUsage {
+  inputTokens: number; // uncached input only
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheCreationTokens?: number;
+}
+
+export interface StreamRequest {
+  model: string;
+  maxTokens: number;
+  // Segments in order from most to least stable (static prompt, then workspace
+  // context). Providers with prompt caching put a cache breakpoint after each.
+  system: string | readonly string[];
+  tools: readonly ProviderToolDefinition[];
+  messages: ProviderMessage[];
+  signal?: AbortSignal;
+  onText?: (delta: string) => void;
+}
+
+export interface ModelResponse {
+  content: ProviderContentBlock[];
+  stopReason: string; // normalised to Anthropic's vocabulary: end_turn | tool_use | max_tokens
+  usage: ModelUsage;
+}
+
+export interface CompleteRequest {
+  model: string;
+  maxTokens: number;
+  prompt: string;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  readonly models: readonly ModelInfo[];
+  // Models used for automated background work, never chosen by the user
+  readonly internalModels: { summary: string; compaction: string };
+
+  // One assistant turn with tools, streaming text deltas through onText
+  stream(request: StreamRequest): Promise<ModelResponse>;
+
+  // Single-shot, tool-less completion returning plain text
+  complete(request: CompleteRequest): Promise<string>;
+}
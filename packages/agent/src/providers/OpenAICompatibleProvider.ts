@@ -0,0 +1,275 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { createChildLogger } from '../logger';
+import { registerModels } from './catalog';
+import type {
+  CompleteRequest,
+  ModelInfo,
+  ModelProvider,
+  ModelResponse,
+  ModelUsage,
+  ProviderContentBlock,
+  ProviderMessage,
+  ProviderToolDefinition,
+  StreamRequest,
+} from './ModelProvider';
+
+// ─── OpenAI-compatible chat completions ───────────────────────────────────────
+// Talks to any server exposing POST {baseUrl}/chat/completions with SSE
+// streaming and function calling: Ollama, vLLM, llama.cpp server, LM Studio.
+// Local models are priced at zero unless the caller supplies pricing.
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey?: string;
+  models: string[]; // first entry is also used for internal tasks
+  contextWindow?: number; // shared by all listed models (default 32k)
+}
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+      }>;
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+  length: 'max_tokens',
+};
+
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly name = 'openai';
+  readonly models: readonly ModelInfo[];
+  readonly internalModels: { summary: string; compaction: string };
+
+  private log = createChildLogger({ component: 'OpenAICompatibleProvider' });
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    if (options.models.length === 0) {
+      throw new Error('OpenAI-compatible provider needs at least one model');
+    }
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.models = options.models.map((id) => ({
+      id,
+      pricing: { input: 0, output: 0 },
+      contextWindow: options.contextWindow ?? 32_768,
+      userSelectable: true,
+    }));
+    this.internalModels = { summary: options.models[0], compaction: options.models[0] };
+    registerModels(this.models);
+  }
+
+  async stream(request: StreamRequest): Promise<ModelResponse> {
+    const res = await this.post(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: toChatMessages(
+          typeof request.system === 'string' ? request.system : request.system.join('\n\n'),
+          request.messages
+        ),
+        tools: request.tools.map(toFunctionTool),
+      },
+      request.signal
+    );
+
+    let text = '';
+    let finishReason = '';
+    const usage: ModelUsage = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0 };
+    // Tool call arguments arrive as JSON fragments keyed by index
+    const calls = new Map<number, { id: string; name: string; args: string }>();
+
+    for await (const chunk of readEvents(res.body!)) {
+      if (chunk.usage) {
+        // prompt_tokens includes cache hits; report them separately like Anthropic does
+        const cached = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0;
+        usage.inputTokens = (chunk.usage.prompt_tokens ?? 0) - cached;
+        usage.outputTokens = chunk.usage.completion_tokens ?? 0;
+        usage.cacheReadTokens = cached;
+      }
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+
+      const delta = choice.delta ?? {};
+      if (typeof delta.content === 'string' && delta.content) {
+        text += delta.content;
+        request.onText?.(delta.content);
+      }
+      for (const tc of delta.tool_calls ?? []) {
+        const index = tc.index ?? 0;
+        const call = calls.get(index) ?? { id: '', name: '', args: '' };
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        if (tc.function?.arguments) call.args += tc.function.arguments;
+        calls.set(index, call);
+      }
+    }
+
+    const content: ProviderContentBlock[] = [];
+    if (text) content.push({ type: 'text', text });
+    for (const [index, call] of [...calls.entries()].sort((a, b) => a[0] - b[0])) {
+      content.push({
+        type: 'tool_use',
+        id: call.id || `call_${index}`,
+        name: call.name,
+        input: parseArguments(call.args),
+      });
+    }
+
+    // Some servers report "stop" even when they returned tool calls
+    const stopReason =
+      calls.size > 0 ? 'tool_use' : FINISH_REASONS[finishReason] ?? 'end_turn';
+    return { content, stopReason, usage };
+  }
+
+  async complete(request: CompleteRequest): Promise<string> {
+    const res = await this.post({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+    const body = (await res.json()) as { choices?: Array<{ message?: { content?: string | null } }> };
+    return body?.choices?.[0]?.message?.content ?? '';
+  }
+
+  private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      this.log.warn('Chat completion request failed', { status: res.status, detail: detail.slice(0, 500) });
+      // `status` lets the agent's retry logic treat 429/5xx as transient
+      throw Object.assign(
+        new Error(`OpenAI-compatible endpoint returned ${res.status}: ${detail.slice(0, 200)}`),
+        { status: res.status }
+      );
+    }
+    return res;
+  }
+}
+
+// ─── Format translation ───────────────────────────────────────────────────────
+
+function toFunctionTool(tool: ProviderToolDefinition) {
+  return {
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  };
+}
+
+export function toChatMessages(system: string, messages: ProviderMessage[]): ChatMessage[] {
+  const out: ChatMessage[] = [{ role: 'system', content: system }];
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      out.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const blocks = message.content as Array<Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam>;
+      const text = blocks
+        .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+        .map((b) => b.text)
+        .join('');
+      const toolCalls = blocks
+        .filter((b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use')
+        .map((b) => ({
+          id: b.id,
+          type: 'function' as const,
+          function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      out.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // User turns carry tool results (one chat message each) and/or text
+    const texts: string[] = [];
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        out.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: stringifyToolContent(block.content),
+        });
+      } else if (block.type === 'text') {
+        texts.push(block.text);
+      }
+    }
+    if (texts.length > 0) out.push({ role: 'user', content: texts.join('\n') });
+  }
+
+  return out;
+}
+
+function stringifyToolContent(content: Anthropic.ToolResultBlockParam['content']): string {
+  if (content === undefined) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .map((part) => (part.type === 'text' ? part.text : `[${part.type}]`))
+    .join('\n');
+}
+
+function parseArguments(args: string): unknown {
+  if (!args.trim()) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    // Hand the raw string to schema validation so the model sees a useful error
+    return { _raw: args };
+  }
+}
+
+// Parses a text/event-stream body into JSON payloads, stopping at [DONE]
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      try {
+        yield JSON.parse(data);
+      } catch {
+        // Ignore keep-alives and malformed fragments
+      }
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs-extra';
+import { registerModels } from './catalog';
+import type {
+  CompleteRequest,
+  ModelInfo,
+  ModelProvider,
+  ModelResponse,
+  ModelUsage,
+  ProviderContentBlock,
+  StreamRequest,
+} from './ModelProvider';
+
+// ─── Scripted replay provider ─────────────────────────────────────────────────
+// Deterministic stand-in for a real model: each stream() call plays back the
+// next scripted turn. Used by tests and for reproducing a session offline
+// (AGENT_PROVIDER=replay AGENT_REPLAY_FILE=script.json).
+
+export interface ReplayTurn {
+  text?: string;
+  toolCalls?: Array<{ id?: string; name: string; input: unknown }>;
+  stopReason?: string; // defaults to tool_use when toolCalls are present, else end_turn
+  usage?: ModelUsage;
+}
+
+export interface ReplayScript {
+  turns: ReplayTurn[];
+  completions?: string[]; // answers for complete(), in order; falls back to ''
+  contextWindow?: number; // lets tests exercise context compaction with small transcripts
+}
+
+export const REPLAY_MODEL = 'replay';
+
+export class ReplayProvider implements ModelProvider {
+  readonly name = 'replay';
+  readonly models: readonly ModelInfo[];
+  readonly internalModels = { summary: REPLAY_MODEL, compaction: REPLAY_MODEL };
+
+  // Every request received, for assertions in tests
+  readonly requests: StreamRequest[] = [];
+  private turnIndex = 0;
+  private completionIndex = 0;
+
+  constructor(private readonly script: ReplayScript) {
+    this.models = [
+      {
+        id: REPLAY_MODEL,
+        pricing: { input: 0, output: 0 },
+        contextWindow: script.contextWindow,
+        userSelectable: true,
+      },
+    ];
+    registerModels(this.models);
+  }
+
+  static fromFile(filePath: string): ReplayProvider {
+    return new ReplayProvider(fs.readJsonSync(filePath) as ReplayScript);
+  }
+
+  get remainingTurns(): number {
+    return this.script.turns.length - this.turnIndex;
+  }
+
+  async stream(request: StreamRequest): Promise<ModelResponse> {
+    // Snapshot the transcript — the agent keeps appending to the same array
+    this.requests.push({ ...request, messages: [...request.messages] });
+    const turn = this.script.turns[this.turnIndex];
+    if (!turn) {
+      throw new Error(`Replay script exhausted after ${this.script.turns.length} turn(s)`);
+    }
+    this.turnIndex++;
+
+    const content: ProviderContentBlock[] = [];
+    if (turn.text) {
+      request.onText?.(turn.text);
+      content.push({ type: 'text', text: turn.text });
+    }
+    (turn.toolCalls ?? []).forEach((call, i) => {
+      content.push({
+        type: 'tool_use',
+        id: call.id ?? `replay_${this.turnIndex}_${i}`,
+        name: call.name,
+        input: call.input,
+      });
+    });
+
+    return {
+      content,
+      stopReason: turn.stopReason ?? (turn.toolCalls?.length ? 'tool_use' : 'end_turn'),
+      usage: turn.usage ?? { inputTokens: 0, outputTokens: 0 },
+    };
+  }
+
+  async complete(_request: CompleteRequest): Promise<string> {
+    return this.script.completions?.[this.completionIndex++] ?? '';
+  }
+}
@@ -0,0 +1,62 @@
+import type { ModelInfo, ModelPricing } from './ModelProvider';
+
+// ─── Model catalog ────────────────────────────────────────────────────────────
+// Every provider publishes its models here when it is constructed, so cost
+// estimation (Agent, DatabaseMemory, /api/usage) prices whatever model actually
+// ran. Unknown models fall back to Opus pricing — better to over-estimate cost
+// than under-estimate.
+
+export const DEFAULT_PRICING: ModelPricing = { input: 15.0, output: 75.0 }; // Opus fallback
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+const registered = new Map<string, ModelInfo>();
+
+export function registerModels(models: readonly ModelInfo[]): void {
+  for (const model of models) {
+    registered.set(model.id.toLowerCase(), model);
+    for (const alias of model.aliases ?? []) {
+      registered.set(alias.toLowerCase(), model);
+    }
+  }
+}
+
+export function findModel(model: string): ModelInfo | undefined {
+  const lower = model.toLowerCase();
+  const exact = registered.get(lower);
+  if (exact) return exact;
+  // Point releases: "claude-sonnet-4-7" prices like the rest of claude-sonnet
+  for (const info of registered.values()) {
+    if (info.family && lower.includes(info.family)) return info;
+  }
+  return undefined;
+}
+
+export function pricingForModel(model?: string): ModelPricing {
+  return (model && findModel(model)?.pricing) || DEFAULT_PRICING;
+}
+
+export interface CacheUsage {
+  readTokens?: number;
+  creationTokens?: number;
+}
+
+export function estimateModelCost(
+  inputTokens: number,
+  outputTokens: number,
+  model?: string,
+  cache: CacheUsage = {}
+): number {
+  const p = pricingForModel(model);
+  const cacheRead = p.cacheRead ?? p.input * 0.1;
+  const cacheWrite = p.cacheWrite ?? p.input * 1.25;
+  return (
+    (inputTokens / 1_000_000) * p.input +
+    (outputTokens / 1_000_000) * p.output +
+    ((cache.readTokens ?? 0) / 1_000_000) * cacheRead +
+    ((cache.creationTokens ?? 0) / 1_000_000) * cacheWrite
+  );
+}
+
+export function contextWindowForModel(model?: string): number {
+  return (model && findModel(model)?.contextWindow) || DEFAULT_CONTEXT_WINDOW;
+}
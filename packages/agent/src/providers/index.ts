@@ -0,0 +1,40 @@
+import type { Config } from '../config';
+import { AnthropicProvider } from './AnthropicProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { ReplayProvider } from './ReplayProvider';
+import type { ModelProvider } from './ModelProvider';
+
+export * from './ModelProvider';
+export { AnthropicProvider, ANTHROPIC_MODELS } from './AnthropicProvider';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+export { ReplayProvider, REPLAY_MODEL } from './ReplayProvider';
+export type { ReplayScript, ReplayTurn } from './ReplayProvider';
+export {
+  registerModels,
+  findModel,
+  pricingForModel,
+  estimateModelCost,
+  contextWindowForModel,
+  DEFAULT_CONTEXT_WINDOW,
+} from './catalog';
+export type { CacheUsage } from './catalog';
+
+// Builds the provider selected by AGENT_PROVIDER
+export function createProvider(config: Config): ModelProvider {
+  switch (config.provider ?? 'anthropic') {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.openaiBaseUrl ?? 'http://localhost:11434/v1',
+        apiKey: config.openaiApiKey,
+        models: config.openaiModels?.length ? config.openaiModels : [config.model],
+        contextWindow: config.openaiContextWindow,
+      });
+    case 'replay':
+      if (!config.replayFile) {
+        throw new Error('AGENT_PROVIDER=replay requires AGENT_REPLAY_FILE');
+      }
+      return ReplayProvider.fromFile(config.replayFile);
+    default:
+      return new AnthropicProvider(config.apiKey);
+  }
+}
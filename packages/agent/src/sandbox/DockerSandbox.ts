@@ -1,6 +1,11 @@
 import Docker from 'dockerode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
 import { Writable } from 'stream';
+import { z } from 'zod';
 import { logger } from '../logger';
+import { sandboxPool, type SandboxLease } from './SandboxPool';
+import { SandboxUnavailableError } from '../tools/ToolError';
 
 export interface SandboxResult {
   stdout: string;
@@ -8,32 +13,125 @@ export interface SandboxResult {
   exitCode: number;
 }
 
+export type OutputStream = 'stdout' | 'stderr';
+
+// Receives each chunk of a running process's output as it arrives
+export type OutputListener = (chunk: string, stream: OutputStream) => void;
+
+// 'none': no network at all. 'registry': the egress network, whose only route
+// out is the allowlisting egress proxy (see EgressProxy.ts).
+export type SandboxNetwork = 'none' | 'registry';
+
 export interface SandboxOptions {
   timeout?: number;   // ms, default 60000
   memoryMb?: number;  // default 512
   cpus?: number;      // default 1.0
   env?: Record<string, string>;
+  network?: SandboxNetwork; // default 'none'
+  onOutput?: OutputListener;
+}
+
+export interface DockerSandboxOptions {
+  // Session whose pooled container persistent mode execs into
+  sessionId?: string;
+  // Keep one container per session and `docker exec` into it (default false)
+  persistent?: boolean;
+  // How long a pooled container may sit unused before it is removed (ms)
+  idleTimeoutMs?: number;
+  // Image to run commands in: AGENT_SANDBOX_IMAGE, or the workspace's sandboxImage setting
+  image?: string;
+  // Egress proxy URL as seen from inside the sandbox; without it 'registry' runs offline
+  egressProxyUrl?: string;
+  // Internal Docker network that 'registry' commands join (default klaus-sandbox-egress)
+  egressNetwork?: string;
+  // Host path of the workspace for bind mounts (default AGENT_HOST_WORKSPACE);
+  // differs per session when sessions work in worktrees
+  hostWorkspaceDir?: string;
 }
 
-// The image used for all sandboxed execution.
+// The default image for sandboxed execution.
 // node:20-alpine is small, has npm/npx/node/git pre-installed, and has no
 // unnecessary system tools. Pin to a digest in production for full reproducibility.
-const SANDBOX_IMAGE = 'node:20-alpine';
+export const SANDBOX_IMAGE = 'node:20-alpine';
+
+// UID/GID of the non-root user we run as inside the container. Numeric, so it
+// works in workspace images without a "node" user (uid 1000 in node:20-alpine).
+const SANDBOX_USER = '1000:1000';
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 600_000;
+
+export const EGRESS_NETWORK = 'klaus-sandbox-egress';
+
+// Every spelling npm, pnpm, yarn and curl look for
+const PROXY_ENV_KEYS = ['HTTP_PROXY', 'HTTPS_PROXY', 'http_proxy', 'https_proxy'];
+
+// ─── Dependency caches ────────────────────────────────────────────────────────
+// Named volumes shared by every sandbox container, so packages downloaded once
+// are not downloaded again by the next container. npm's cache and pnpm's store
+// are content-addressed and verify integrity, so sharing them across
+// workspaces is safe.
+
+const CACHE_VOLUMES = [
+  { name: 'klaus-npm-cache', target: '/cache/npm', env: 'npm_config_cache' },
+  { name: 'klaus-pnpm-store', target: '/cache/pnpm', env: 'npm_config_store_dir' },
+];
+
+// ─── Workspace sandbox config ─────────────────────────────────────────────────
+
+export const SANDBOX_CONFIG_FILE = path.join('.agent', 'sandbox.json');
+
+// The image is not set here but by the operator (AGENT_SANDBOX_IMAGE or the
+// workspace registry): what runs the agent's commands is not the workspace's call
+export const SandboxConfigSchema = z.object({
+  // Overrides AGENT_SANDBOX_PERSISTENT for this workspace
+  persistent: z.boolean().optional(),
+  memoryMb: z.number().int().min(128).max(16_384).optional(),
+  cpus: z.number().min(0.1).max(16).optional(),
+});
+
+export type SandboxConfig = z.infer<typeof SandboxConfigSchema>;
+
+/**
+ * Reads .agent/sandbox.json from the workspace. A missing file means the
+ * defaults; an invalid one throws.
+ */
+export async function loadSandboxConfig(workspaceDir: string): Promise<SandboxConfig> {
+  const file = path.join(workspaceDir, SANDBOX_CONFIG_FILE);
+  if (!(await fs.pathExists(file))) return {};
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(file);
+  } catch (err: any) {
+    throw new Error(`Invalid ${SANDBOX_CONFIG_FILE}: ${err.message}`);
+  }
+  const parsed = SandboxConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${SANDBOX_CONFIG_FILE}: ${JSON.stringify(parsed.error.flatten())}`);
+  }
+  if (raw && typeof raw === 'object' && 'image' in raw) {
+    logger.warn(`"image" in ${SANDBOX_CONFIG_FILE} is ignored; set the workspace's sandboxImage instead`, { file });
+  }
+  return parsed.data;
+}
 
-// UID/GID of the non-root user we run as inside the container.
-// node:20-alpine ships with a built-in "node" user at uid 1000.
-const SANDBOX_USER = 'node';
+// ─── Sandbox ──────────────────────────────────────────────────────────────────
 
 export class DockerSandbox {
   private docker: Docker;
-  private imageReady = false;
+  private readyImages = new Set<string>();
+  private cachesReady?: Promise<boolean>;
+  private egressReady?: Promise<void>;
   // Host path for bind mounts - in DooD mode, we need the HOST path, not container path
   private hostWorkspaceDir: string | undefined;
+  private readonly image: string;
+  // .agent/sandbox.json per workspace directory, read once for this sandbox's run
+  private readonly workspaceConfigs = new Map<string, Promise<SandboxConfig>>();
 
-  constructor() {
+  constructor(private readonly options: DockerSandboxOptions = {}) {
     this.docker = new Docker();
     // Read host workspace path from environment for DooD bind mounts
-    this.hostWorkspaceDir = process.env.AGENT_HOST_WORKSPACE;
+    this.hostWorkspaceDir = options.hostWorkspaceDir ?? process.env.AGENT_HOST_WORKSPACE;
+    this.image = options.image ?? SANDBOX_IMAGE;
   }
 
   /**
@@ -41,28 +139,19 @@ export class DockerSandbox {
    * Call this once at startup — it fails fast rather than failing on first use.
    */
   async initialize(): Promise<void> {
-    logger.info('Initializing Docker sandbox', { image: SANDBOX_IMAGE });
+    logger.info('Initializing Docker sandbox', { image: this.image });
 
     // Check Docker daemon is accessible
     try {
       await this.docker.ping();
     } catch (err: any) {
-      throw new Error(
+      throw new SandboxUnavailableError(
         `Docker daemon is not reachable: ${err.message}\n` +
         `Ensure Docker Desktop (or Docker Engine) is running, or set DOCKER_ENABLED=false.`
       );
     }
 
-    // Pull image if not already present
-    const images = await this.docker.listImages({ filters: { reference: [SANDBOX_IMAGE] } });
-    if (images.length === 0) {
-      logger.info('Sandbox image not found locally — pulling', { image: SANDBOX_IMAGE });
-      await this.pullImage();
-    } else {
-      logger.info('Sandbox image already present', { image: SANDBOX_IMAGE });
-    }
-
-    this.imageReady = true;
+    await this.ensureImage(this.image);
     logger.info('Docker sandbox ready');
   }
 
@@ -71,71 +160,97 @@ export class DockerSandbox {
     workspaceDir: string,
     options: SandboxOptions = {}
   ): Promise<SandboxResult> {
-    if (!this.imageReady) {
-      await this.initialize();
+    try {
+      return await this.executeCommand(command, workspaceDir, options);
+    } catch (err: any) {
+      // The daemon stopped, or its socket went away, since initialize()
+      if (err?.syscall === 'connect') {
+        throw new SandboxUnavailableError(`Docker daemon is not reachable: ${err.message}`);
+      }
+      throw err;
     }
+  }
 
-    const { timeout = 60000, memoryMb = 512, cpus = 1.0, env = {} } = options;
+  private async executeCommand(
+    command: string,
+    workspaceDir: string,
+    options: SandboxOptions
+  ): Promise<SandboxResult> {
+    let loading = this.workspaceConfigs.get(workspaceDir);
+    if (!loading) {
+      loading = loadSandboxConfig(workspaceDir);
+      this.workspaceConfigs.set(workspaceDir, loading);
+    }
+    const workspace = await loading;
+    const image = this.image;
+    const network = await this.resolveNetwork(options.network ?? 'none');
+    // The pooled container is offline for good; networked commands get their own
+    const persistent =
+      (workspace.persistent ?? this.options.persistent ?? false) && !!this.options.sessionId && network === 'none';
+    await this.ensureImage(image);
+
+    const {
+      timeout = 60000,
+      memoryMb = workspace.memoryMb ?? 512,
+      cpus = workspace.cpus ?? 1.0,
+      env = {},
+      onOutput,
+    } = options;
 
     logger.info('Executing in Docker sandbox', {
       command: command.slice(0, 200),
       workspaceDir,
       hostWorkspaceDir: this.hostWorkspaceDir || workspaceDir,
+      image,
+      persistent,
+      network,
       memoryMb,
       cpus,
       timeout,
     });
 
     const start = Date.now();
-    let container: Docker.Container | null = null;
-
-    try {
-      container = await this.docker.createContainer({
-        Image: SANDBOX_IMAGE,
-        User: SANDBOX_USER,           // Non-root — uid 1000 inside container
-        WorkingDir: '/workspace',
-        Cmd: ['sh', '-c', command],
-        Env: Object.entries(env).map(([k, v]) => `${k}=${v}`),
+    const caches = await this.cacheVolumes();
+    const result = persistent
+      ? await this.executePooled(command, workspaceDir, image, caches, { timeout, memoryMb, cpus, env, network, onOutput })
+      : await this.executeOnce(command, workspaceDir, image, caches, { timeout, memoryMb, cpus, env, network, onOutput });
+
+    logger.info('Sandbox command exited', {
+      exitCode: result.exitCode,
+      durationMs: Date.now() - start,
+      stdoutLength: result.stdout.length,
+      stderrLength: result.stderr.length,
+    });
 
-        HostConfig: {
-          // ── Filesystem ──────────────────────────────────────────────────
-          // Workspace mounted read-write so the agent can create files.
-          // Nothing else from the host is mounted — no home dir, no secrets.
-          // In DooD mode, we use the HOST path (hostWorkspaceDir) for bind mounts
-          // since the Docker daemon runs on the host, not in the agent container.
-          Binds: [`${this.hostWorkspaceDir || workspaceDir}:/workspace:rw`],
-          Tmpfs: { '/tmp': 'size=64m,noexec' }, // Writable /tmp, no exec bit
-
-          // ── Network ─────────────────────────────────────────────────────
-          // Completely disabled. npm install etc. won't work inside the
-          // sandbox — those should be run by the agent BEFORE entering the
-          // sandbox, or the workspace should have node_modules pre-installed.
-          NetworkMode: 'none',
+    if (result.exitCode !== 0) {
+      logger.warn('Sandbox command returned non-zero exit', {
+        exitCode: result.exitCode,
+        stderr: result.stderr.slice(0, 500),
+      });
+    }
 
-          // ── Resources ───────────────────────────────────────────────────
-          Memory: memoryMb * 1024 * 1024,
-          MemorySwap: memoryMb * 1024 * 1024, // Disable swap (swap = memory limit)
-          NanoCpus: Math.round(cpus * 1e9),
-          PidsLimit: 256,                      // Prevent fork bombs
-
-          // ── Security ────────────────────────────────────────────────────
-          SecurityOpt: [
-            'no-new-privileges',               // Prevents setuid/setgid escalation
-            // Uses Docker's default seccomp profile (blocks ~44 dangerous syscalls)
-          ],
-          CapDrop: ['ALL'],                    // Drop every Linux capability
-          CapAdd: [],                          // Add back none
-          ReadonlyRootfs: true,                // Root filesystem is read-only
-          AutoRemove: true,                    // Container deleted immediately on exit
-        },
+    return result;
+  }
 
-        // Disable networking at the container level too (belt-and-suspenders)
-        NetworkDisabled: true,
+  /** Runs the command in a fresh container that is removed when it exits. */
+  private async executeOnce(
+    command: string,
+    workspaceDir: string,
+    image: string,
+    caches: typeof CACHE_VOLUMES,
+    options: Required<Omit<SandboxOptions, 'onOutput'>> & Pick<SandboxOptions, 'onOutput'>
+  ): Promise<SandboxResult> {
+    let container: Docker.Container | null = null;
 
-        // No TTY — we capture raw multiplexed streams
-        AttachStdout: true,
-        AttachStderr: true,
-      });
+    try {
+      container = await this.docker.createContainer(
+        this.containerSpec(image, workspaceDir, caches, options, {
+          Cmd: ['sh', '-c', command],
+          Env: Object.entries(options.env).map(([k, v]) => `${k}=${v}`),
+          AutoRemove: true, // Container deleted immediately on exit
+          network: options.network,
+        })
+      );
 
       await container.start();
       logger.debug('Sandbox container started', { id: container.id.slice(0, 12) });
@@ -145,26 +260,23 @@ export class DockerSandbox {
       // header per chunk: [stream_type(1), 0, 0, 0, size(4-bytes-big-endian)]
       // We must demux manually — the naive "split by \n and alternate" approach
       // in the original code was completely wrong.
-      const { stdout, stderr } = await this.collectOutput(container, timeout);
+      const stream = await container.attach({ stream: true, stdout: true, stderr: true });
+      const started = container;
+      const { stdout, stderr } = await this.collectOutput(
+        stream,
+        options.timeout,
+        async () => {
+          logger.warn('Sandbox container timed out — killing', {
+            id: started.id.slice(0, 12),
+            timeout: options.timeout,
+          });
+          try { await started.kill(); } catch { /* already stopped */ }
+        },
+        options.onOutput
+      );
 
       // container.wait() resolves after the container exits
       const waitResult = await container.wait() as { StatusCode: number };
-      const durationMs = Date.now() - start;
-
-      logger.info('Sandbox container exited', {
-        exitCode: waitResult.StatusCode,
-        durationMs,
-        stdoutLength: stdout.length,
-        stderrLength: stderr.length,
-      });
-
-      if (waitResult.StatusCode !== 0) {
-        logger.warn('Sandbox command returned non-zero exit', {
-          exitCode: waitResult.StatusCode,
-          stderr: stderr.slice(0, 500),
-        });
-      }
-
       return { stdout, stderr, exitCode: waitResult.StatusCode };
 
     } catch (err: any) {
@@ -182,12 +294,277 @@ export class DockerSandbox {
   }
 
   /**
-   * Attach to the container's stdout/stderr streams and collect output,
-   * with a hard timeout that kills the container if it runs too long.
+   * Runs the command with `docker exec` in the session's pooled container,
+   * starting it first if needed. The container's limits are fixed when it
+   * starts, so memoryMb/cpus only take effect for a new container.
+   */
+  private async executePooled(
+    command: string,
+    workspaceDir: string,
+    image: string,
+    caches: typeof CACHE_VOLUMES,
+    options: Required<Omit<SandboxOptions, 'onOutput'>> & Pick<SandboxOptions, 'onOutput'>
+  ): Promise<SandboxResult> {
+    const sessionId = this.options.sessionId!;
+    const lease: SandboxLease = await sandboxPool.acquire(
+      sessionId,
+      image,
+      this.options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+      async () => {
+        const container = await this.docker.createContainer(
+          this.containerSpec(image, workspaceDir, caches, options, {
+            // Idles until removed; docker-init as PID 1 reaps what execs leave behind
+            Cmd: ['tail', '-f', '/dev/null'],
+            Init: true,
+            Labels: { 'klaus.sandbox': 'pooled', 'klaus.session': sessionId },
+          })
+        );
+        await container.start();
+        return container;
+      }
+    );
+
+    try {
+      const exec = await lease.container.exec({
+        Cmd: ['sh', '-c', command],
+        Env: Object.entries(options.env).map(([k, v]) => `${k}=${v}`),
+        User: SANDBOX_USER,
+        WorkingDir: '/workspace',
+        AttachStdout: true,
+        AttachStderr: true,
+      });
+      const stream = await exec.start({ hijack: true, stdin: false });
+      const { stdout, stderr } = await this.collectOutput(
+        stream,
+        options.timeout,
+        // The command keeps running in the container; only removing it stops it
+        () => lease.discard(`command timed out after ${options.timeout}ms`),
+        options.onOutput
+      );
+      const exitCode = await this.execExitCode(exec);
+      lease.release();
+      return { stdout, stderr, exitCode };
+    } catch (err: any) {
+      lease.release();
+      logger.error('Docker sandbox error', { error: err.message, command: command.slice(0, 100), sessionId });
+      throw err;
+    }
+  }
+
+  // The exit code can lag the end of the output stream by a few milliseconds
+  private async execExitCode(exec: Docker.Exec): Promise<number> {
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const info = await exec.inspect();
+      if (!info.Running && info.ExitCode !== null) return info.ExitCode;
+      await new Promise((r) => setTimeout(r, 50));
+    }
+    throw new Error('Sandbox command finished but its exit code is unavailable');
+  }
+
+  /** The create options shared by one-shot and pooled containers. */
+  private containerSpec(
+    image: string,
+    workspaceDir: string,
+    caches: typeof CACHE_VOLUMES,
+    options: { memoryMb: number; cpus: number },
+    extra: {
+      Cmd: string[];
+      Env?: string[];
+      Labels?: Record<string, string>;
+      AutoRemove?: boolean;
+      Init?: boolean;
+      network?: SandboxNetwork;
+    }
+  ): Docker.ContainerCreateOptions {
+    const { memoryMb, cpus } = options;
+    const egress = extra.network === 'registry';
+    const hostDir = this.hostWorkspaceDir || workspaceDir;
+    // Created before mounting so it is always read-only: otherwise a command in
+    // a workspace without one could create .agent/ and write its own policy
+    fs.ensureDirSync(path.join(workspaceDir, '.agent'));
+    return {
+      Image: image,
+      User: SANDBOX_USER,           // Non-root — uid 1000 inside container
+      WorkingDir: '/workspace',
+      Cmd: extra.Cmd,
+      Env: [
+        ...caches.map((c) => `${c.env}=${c.target}`),
+        ...(egress ? this.proxyEnv() : []),
+        ...(extra.Env ?? []),
+      ],
+      Labels: extra.Labels,
+
+      HostConfig: {
+        // ── Filesystem ──────────────────────────────────────────────────
+        // Workspace mounted read-write so the agent can create files.
+        // Nothing else from the host is mounted — no home dir, no secrets.
+        // In DooD mode, we use the HOST path (hostWorkspaceDir) for bind mounts
+        // since the Docker daemon runs on the host, not in the agent container.
+        // The dependency cache volumes are the only other writable mounts.
+        // Workspace policy (.agent/) stays read-only, so a command cannot
+        // loosen the limits of the next one.
+        Binds: [
+          `${hostDir}:/workspace:rw`,
+          `${hostDir}/.agent:/workspace/.agent:ro`,
+          ...caches.map((c) => `${c.name}:${c.target}:rw`),
+        ],
+        Tmpfs: { '/tmp': 'size=64m,noexec' }, // Writable /tmp, no exec bit
+
+        // ── Network ─────────────────────────────────────────────────────
+        // Completely disabled, except for tools whose network policy is
+        // 'registry' (npm_install). Those join the internal egress network,
+        // which has no gateway: the egress proxy is the only host on it,
+        // and it only lets allowlisted registry hosts through.
+        NetworkMode: egress ? this.egressNetworkName : 'none',
+
+        // ── Resources ───────────────────────────────────────────────────
+        Memory: memoryMb * 1024 * 1024,
+        MemorySwap: memoryMb * 1024 * 1024, // Disable swap (swap = memory limit)
+        NanoCpus: Math.round(cpus * 1e9),
+        PidsLimit: 256,                      // Prevent fork bombs
+
+        // ── Security ────────────────────────────────────────────────────
+        SecurityOpt: [
+          'no-new-privileges',               // Prevents setuid/setgid escalation
+          // Uses Docker's default seccomp profile (blocks ~44 dangerous syscalls)
+        ],
+        CapDrop: ['ALL'],                    // Drop every Linux capability
+        CapAdd: [],                          // Add back none
+        ReadonlyRootfs: true,                // Root filesystem is read-only
+        AutoRemove: extra.AutoRemove ?? false,
+        Init: extra.Init ?? false,
+      },
+
+      // Disable networking at the container level too (belt-and-suspenders)
+      NetworkDisabled: !egress,
+
+      // No TTY — we capture raw multiplexed streams
+      AttachStdout: true,
+      AttachStderr: true,
+    };
+  }
+
+  private get egressNetworkName(): string {
+    return this.options.egressNetwork ?? EGRESS_NETWORK;
+  }
+
+  /**
+   * The network a command actually gets. 'registry' falls back to 'none'
+   * when no egress proxy is configured — the command then runs offline.
+   */
+  private async resolveNetwork(requested: SandboxNetwork): Promise<SandboxNetwork> {
+    if (requested === 'none') return 'none';
+    if (!this.options.egressProxyUrl) {
+      logger.warn('No sandbox egress proxy configured (AGENT_SANDBOX_EGRESS_PROXY) — running offline');
+      return 'none';
+    }
+    this.egressReady ??= this.prepareEgressNetwork().catch((err) => {
+      this.egressReady = undefined; // retry on the next command
+      throw err;
+    });
+    await this.egressReady;
+    return requested;
+  }
+
+  /** Creates the internal egress network unless it exists (docker-compose declares it). */
+  private async prepareEgressNetwork(): Promise<void> {
+    const name = this.egressNetworkName;
+    try {
+      await this.docker.getNetwork(name).inspect();
+      return;
+    } catch (err: any) {
+      if (err.statusCode !== 404) {
+        // e.g. the socket proxy refuses network calls (NETWORKS=0)
+        logger.warn('Could not inspect sandbox egress network — assuming it exists', {
+          network: name,
+          error: err.message,
+        });
+        return;
+      }
+    }
+    // Internal: no gateway, so a container on it can only reach the others on it
+    await this.docker.createNetwork({
+      Name: name,
+      Driver: 'bridge',
+      Internal: true,
+      Labels: { 'klaus.sandbox': 'egress' },
+    });
+    logger.info('Sandbox egress network created — attach the egress proxy to it', { network: name });
+  }
+
+  // The session id rides in the proxy URL's user part so the proxy can audit per session
+  private proxyEnv(): string[] {
+    const url = new URL(this.options.egressProxyUrl!);
+    if (this.options.sessionId) url.username = encodeURIComponent(this.options.sessionId);
+    return PROXY_ENV_KEYS.map((key) => `${key}=${url.toString()}`);
+  }
+
+  /**
+   * Creates the cache volumes once per process and hands them to uid 1000 —
+   * new volumes are owned by root. If that fails, commands run without caches.
+   */
+  private cacheVolumes(): Promise<typeof CACHE_VOLUMES> {
+    this.cachesReady ??= this.prepareCacheVolumes();
+    return this.cachesReady.then((ready) => (ready ? CACHE_VOLUMES : []));
+  }
+
+  private async prepareCacheVolumes(): Promise<boolean> {
+    try {
+      for (const { name } of CACHE_VOLUMES) {
+        // Creating a volume that already exists returns the existing one
+        await this.docker.createVolume({ Name: name, Labels: { 'klaus.sandbox': 'cache' } });
+      }
+      await this.ensureImage(SANDBOX_IMAGE);
+      const container = await this.docker.createContainer({
+        Image: SANDBOX_IMAGE,
+        User: 'root',
+        Cmd: ['chown', SANDBOX_USER, ...CACHE_VOLUMES.map((c) => c.target)],
+        HostConfig: {
+          Binds: CACHE_VOLUMES.map((c) => `${c.name}:${c.target}:rw`),
+          NetworkMode: 'none',
+          SecurityOpt: ['no-new-privileges'],
+          CapDrop: ['ALL'],
+          CapAdd: ['CHOWN'],                 // Just enough to chown the volume roots
+          ReadonlyRootfs: true,
+        },
+        NetworkDisabled: true,
+      });
+      await container.start();
+      const { StatusCode } = await container.wait() as { StatusCode: number };
+      await container.remove();
+      if (StatusCode !== 0) throw new Error(`chown exited with ${StatusCode}`);
+      logger.info('Sandbox cache volumes ready', { volumes: CACHE_VOLUMES.map((c) => c.name) });
+      return true;
+    } catch (err: any) {
+      logger.warn('Sandbox cache volumes unavailable — running without dependency caches', {
+        error: err.message,
+      });
+      return false;
+    }
+  }
+
+  /** Pulls the image unless it is present locally. Checked once per image. */
+  private async ensureImage(image: string): Promise<void> {
+    if (this.readyImages.has(image)) return;
+    const images = await this.docker.listImages({ filters: { reference: [image] } });
+    if (images.length === 0) {
+      logger.info('Sandbox image not found locally — pulling', { image });
+      await this.pullImage(image);
+    } else {
+      logger.info('Sandbox image already present', { image });
+    }
+    this.readyImages.add(image);
+  }
+
+  /**
+   * Collect stdout/stderr from a container's or exec's multiplexed stream,
+   * with a hard timeout that stops the command if it runs too long.
    */
   private async collectOutput(
-    container: Docker.Container,
-    timeout: number
+    stream: NodeJS.ReadableStream,
+    timeout: number,
+    kill: () => Promise<void>,
+    onOutput?: OutputListener
   ): Promise<{ stdout: string; stderr: string }> {
     const MAX_OUTPUT_BYTES = 5 * 1024 * 1024; // 5MB cap per stream
 
@@ -196,27 +573,18 @@ export class DockerSandbox {
     let stdoutTruncated = false;
     let stderrTruncated = false;
 
-    const stream = await container.attach({
-      stream: true,
-      stdout: true,
-      stderr: true,
-    });
-
     return new Promise((resolve, reject) => {
       const timer = setTimeout(async () => {
-        logger.warn('Sandbox container timed out — killing', {
-          id: container.id.slice(0, 12),
-          timeout,
-        });
-        try { await container.kill(); } catch { /* already stopped */ }
+        await kill();
         reject(new Error(`Sandbox command timed out after ${timeout}ms`));
       }, timeout);
 
       // Docker's demux utility writes correctly separated stdout/stderr
-      container.modem.demuxStream(
+      this.docker.modem.demuxStream(
         stream,
         new Writable({
           write(chunk, _enc, cb) {
+            onOutput?.(chunk.toString(), 'stdout');
             if (!stdoutTruncated) {
               stdoutBuf += chunk.toString();
               if (stdoutBuf.length > MAX_OUTPUT_BYTES) {
@@ -229,6 +597,7 @@ export class DockerSandbox {
         }),
         new Writable({
           write(chunk, _enc, cb) {
+            onOutput?.(chunk.toString(), 'stderr');
             if (!stderrTruncated) {
               stderrBuf += chunk.toString();
               if (stderrBuf.length > MAX_OUTPUT_BYTES) {
@@ -253,10 +622,10 @@ export class DockerSandbox {
     });
   }
 
-  private async pullImage(): Promise<void> {
-    logger.info('Pulling Docker sandbox image', { image: SANDBOX_IMAGE });
+  private async pullImage(image: string): Promise<void> {
+    logger.info('Pulling Docker sandbox image', { image });
     await new Promise<void>((resolve, reject) => {
-      this.docker.pull(SANDBOX_IMAGE, (err: Error | null, stream: any) => {
+      this.docker.pull(image, (err: Error | null, stream: any) => {
         if (err) return reject(err);
         this.docker.modem.followProgress(
           stream,
@@ -265,7 +634,7 @@ export class DockerSandbox {
         );
       });
     });
-    logger.info('Docker sandbox image pulled', { image: SANDBOX_IMAGE });
+    logger.info('Docker sandbox image pulled', { image });
   }
 }
 
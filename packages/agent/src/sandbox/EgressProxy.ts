@@ -0,0 +1,166 @@
+import * as http from 'http';
+import * as net from 'net';
+import type { Duplex } from 'stream';
+import type { Config } from '../config';
+import { logger } from '../logger';
+import { audit } from '../logger/audit';
+
+// ─── Egress proxy ─────────────────────────────────────────────────────────────
+// The only route out of the sandbox. Tools with network policy 'registry'
+// (npm_install) run on an internal Docker network that has no gateway; the
+// agent joins that network too and serves this proxy on it. HTTPS goes through
+// CONNECT tunnels, plain HTTP is forwarded. Hosts not on the allowlist get a
+// 403, and every host asked for — allowed or not — is written to the audit log.
+
+export const DEFAULT_EGRESS_ALLOWLIST = ['registry.npmjs.org', 'registry.yarnpkg.com'];
+
+const ALLOWED_PORTS = [80, 443];
+
+export interface EgressProxyOptions {
+  // Hostnames the sandbox may reach; "*.example.com" also matches subdomains
+  allowlist: readonly string[];
+  ports?: readonly number[];
+  // The user a session belongs to, so their egress is attributed to them too
+  sessionOwner?: (sessionId: string) => string | undefined;
+}
+
+/** Whether `host` is on the allowlist. Matching is by name — IPs only if listed. */
+export function isHostAllowed(host: string, allowlist: readonly string[]): boolean {
+  const name = host.toLowerCase().replace(/\.$/, '');
+  return allowlist.some((entry) => {
+    const pattern = entry.trim().toLowerCase();
+    if (pattern.startsWith('*.')) return name.endsWith(pattern.slice(1));
+    return name === pattern;
+  });
+}
+
+// The sandbox puts its session id in the proxy URL's user part, so each
+// request can be attributed to a session in the audit log
+function sessionOf(req: http.IncomingMessage): string | undefined {
+  const header = req.headers['proxy-authorization'];
+  const match = typeof header === 'string' ? /^Basic\s+(\S+)$/i.exec(header) : null;
+  if (!match) return undefined;
+  const user = Buffer.from(match[1], 'base64').toString('utf8').split(':')[0];
+  return user ? user.slice(0, 100) : undefined;
+}
+
+// "host:port" from a CONNECT request line, with IPv6 literals in brackets
+function splitAuthority(authority: string): { host: string; port: number } | null {
+  const match = /^\[?([^\]]+?)\]?:(\d{1,5})$/.exec(authority);
+  return match ? { host: match[1], port: Number(match[2]) } : null;
+}
+
+export class EgressProxy {
+  private readonly server: http.Server;
+  private readonly ports: readonly number[];
+
+  constructor(private readonly options: EgressProxyOptions) {
+    this.ports = options.ports ?? ALLOWED_PORTS;
+    this.server = http.createServer((req, res) => this.forward(req, res));
+    this.server.on('connect', (req: http.IncomingMessage, socket: Duplex, head: Buffer) =>
+      this.tunnel(req, socket, head)
+    );
+  }
+
+  /** Starts listening; resolves with the bound port (useful with port 0). */
+  listen(port: number, host = '0.0.0.0'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        const bound = (this.server.address() as net.AddressInfo).port;
+        logger.info('Sandbox egress proxy listening', { port: bound, allowlist: this.options.allowlist });
+        resolve(bound);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+      // Open tunnels would otherwise hold the server open
+      this.server.closeAllConnections();
+    });
+  }
+
+  private allows(sessionId: string | undefined, method: string, host: string, port: number): boolean {
+    const allowed = this.ports.includes(port) && isHostAllowed(host, this.options.allowlist);
+    const userId = sessionId ? this.options.sessionOwner?.(sessionId) : undefined;
+    audit.sandboxEgress(sessionId, { method, host, port }, allowed, userId);
+    if (!allowed) logger.warn('Sandbox egress blocked', { sessionId, method, host, port });
+    return allowed;
+  }
+
+  // HTTPS: CONNECT host:443, then bytes both ways
+  private tunnel(req: http.IncomingMessage, client: Duplex, head: Buffer): void {
+    const target = splitAuthority(req.url ?? '');
+    if (!target) {
+      client.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+    if (!this.allows(sessionOf(req), 'CONNECT', target.host, target.port)) {
+      client.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    const upstream = net.connect(target.port, target.host, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    upstream.on('error', (err) => {
+      logger.warn('Sandbox egress upstream failed', { host: target.host, error: err.message });
+      client.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+    });
+    client.on('error', () => upstream.destroy());
+  }
+
+  // Plain HTTP: the request line carries an absolute URL
+  private forward(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let target: URL;
+    try {
+      target = new URL(req.url ?? '');
+    } catch {
+      res.writeHead(400).end('Only proxy requests are accepted');
+      return;
+    }
+    const port = Number(target.port || 80);
+    if (target.protocol !== 'http:') {
+      res.writeHead(400).end(`Unsupported protocol ${target.protocol}`);
+      return;
+    }
+    if (!this.allows(sessionOf(req), req.method ?? 'GET', target.hostname, port)) {
+      res.writeHead(403).end(`${target.hostname} is not on the sandbox egress allowlist`);
+      return;
+    }
+
+    const headers = { ...req.headers };
+    delete headers['proxy-authorization'];
+    delete headers['proxy-connection'];
+    const upstream = http.request(
+      { host: target.hostname, port, method: req.method, path: target.pathname + target.search, headers },
+      (response) => {
+        res.writeHead(response.statusCode ?? 502, response.headers);
+        response.pipe(res);
+      }
+    );
+    upstream.on('error', (err) => {
+      logger.warn('Sandbox egress upstream failed', { host: target.hostname, error: err.message });
+      if (!res.headersSent) res.writeHead(502);
+      res.end();
+    });
+    req.pipe(upstream);
+  }
+}
+
+/** Starts the built-in proxy when AGENT_EGRESS_PROXY_PORT is set (and Docker is on). */
+export async function startEgressProxy(
+  config: Config,
+  sessionOwner?: EgressProxyOptions['sessionOwner']
+): Promise<EgressProxy | null> {
+  if (!config.dockerEnabled || !config.egressProxyPort) return null;
+  const proxy = new EgressProxy({ allowlist: config.egressAllowlist ?? DEFAULT_EGRESS_ALLOWLIST, sessionOwner });
+  await proxy.listen(config.egressProxyPort);
+  return proxy;
+}
@@ -0,0 +1,208 @@
+import type Docker from 'dockerode';
+import { logger } from '../logger';
+
+// ─── Sandbox pool ─────────────────────────────────────────────────────────────
+// Long-lived sandbox containers, one per session. Instead of paying container
+// startup for every tsc/eslint/jest call, a persistent sandbox starts one
+// container the first time a session needs it and runs each command in it with
+// `docker exec`. Containers idle for longer than their idle timeout are
+// removed by a reaper; a session that comes back simply gets a fresh one.
+
+// How often the reaper looks for idle containers
+const REAP_INTERVAL_MS = 30_000;
+
+interface PoolEntry {
+  sessionId: string;
+  image: string;
+  container: Promise<Docker.Container>; // resolves once created and started
+  containerId?: string;
+  createdAt: number;
+  lastUsedAt: number;
+  idleTimeoutMs: number;
+  busy: number; // commands running in it right now
+  execs: number; // commands run in it so far
+}
+
+/** A pooled container, held for the duration of one command. */
+export interface SandboxLease {
+  container: Docker.Container;
+  /** Hands the container back to the pool; it stays up for the next command. */
+  release(): void;
+  /** Removes the container, e.g. after a timeout left processes running in it. */
+  discard(reason: string): Promise<void>;
+}
+
+export interface PooledContainerStatus {
+  sessionId: string;
+  image: string;
+  containerId?: string;
+  state: 'starting' | 'busy' | 'idle';
+  ageMs: number;
+  idleMs: number;
+  execs: number;
+}
+
+export interface SandboxPoolStatus {
+  containers: PooledContainerStatus[];
+}
+
+export class SandboxPool {
+  private entries = new Map<string, PoolEntry>();
+  private reaper: NodeJS.Timeout | null = null;
+
+  /**
+   * The session's container, started with `create` if it has none yet. A
+   * session whose workspace switched images gets a new container.
+   */
+  async acquire(
+    sessionId: string,
+    image: string,
+    idleTimeoutMs: number,
+    create: () => Promise<Docker.Container>
+  ): Promise<SandboxLease> {
+    let entry = this.entries.get(sessionId);
+    if (entry && entry.image !== image) {
+      await this.discard(sessionId, `image changed to ${image}`);
+      entry = undefined;
+    }
+
+    if (!entry) {
+      const created: PoolEntry = {
+        sessionId,
+        image,
+        container: create(),
+        createdAt: Date.now(),
+        lastUsedAt: Date.now(),
+        idleTimeoutMs,
+        busy: 0,
+        execs: 0,
+      };
+      this.entries.set(sessionId, created);
+      this.startReaper();
+      created.container.then(
+        (container) => {
+          created.containerId = container.id;
+          logger.info('Pooled sandbox container started', {
+            sessionId,
+            image,
+            id: container.id.slice(0, 12),
+          });
+        },
+        () => {
+          if (this.entries.get(sessionId) === created) this.entries.delete(sessionId);
+        }
+      );
+      entry = created;
+    }
+
+    const held = entry;
+    held.busy++;
+    held.execs++;
+    held.lastUsedAt = Date.now();
+
+    let container: Docker.Container;
+    try {
+      container = await held.container;
+    } catch (err) {
+      held.busy--;
+      throw err;
+    }
+
+    let done = false;
+    const release = () => {
+      if (done) return;
+      done = true;
+      held.busy--;
+      held.lastUsedAt = Date.now();
+    };
+    return {
+      container,
+      release,
+      discard: async (reason: string) => {
+        release();
+        if (this.entries.get(sessionId) === held) await this.discard(sessionId, reason);
+      },
+    };
+  }
+
+  /** Removes a session's container, if it has one. */
+  async discard(sessionId: string, reason: string): Promise<void> {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return;
+    this.entries.delete(sessionId);
+    if (this.entries.size === 0) this.stopReaper();
+    await removeContainer(entry, reason);
+  }
+
+  /** Removes containers idle for longer than their timeout. Returns how many. */
+  async reap(now = Date.now()): Promise<number> {
+    const idle = [...this.entries.values()].filter(
+      (e) => e.busy === 0 && e.containerId && now - e.lastUsedAt >= e.idleTimeoutMs
+    );
+    await Promise.all(idle.map((e) => this.discard(e.sessionId, 'idle')));
+    return idle.length;
+  }
+
+  status(now = Date.now()): SandboxPoolStatus {
+    return {
+      containers: [...this.entries.values()].map((e) => ({
+        sessionId: e.sessionId,
+        image: e.image,
+        containerId: e.containerId?.slice(0, 12),
+        state: !e.containerId ? 'starting' : e.busy > 0 ? 'busy' : 'idle',
+        ageMs: now - e.createdAt,
+        idleMs: e.busy > 0 ? 0 : now - e.lastUsedAt,
+        execs: e.execs,
+      })),
+    };
+  }
+
+  /** Removes every pooled container. Call on shutdown — they are not auto-removed. */
+  async shutdown(): Promise<void> {
+    this.stopReaper();
+    const entries = [...this.entries.values()];
+    this.entries.clear();
+    await Promise.all(entries.map((e) => removeContainer(e, 'shutdown')));
+  }
+
+  private startReaper(): void {
+    if (this.reaper) return;
+    this.reaper = setInterval(() => {
+      this.reap().catch((err) => logger.warn('Sandbox pool reap failed', { error: err.message }));
+    }, REAP_INTERVAL_MS);
+    // Don't keep the process alive just to reap containers
+    this.reaper.unref();
+  }
+
+  private stopReaper(): void {
+    if (this.reaper) clearInterval(this.reaper);
+    this.reaper = null;
+  }
+}
+
+async function removeContainer(entry: PoolEntry, reason: string): Promise<void> {
+  let container: Docker.Container;
+  try {
+    container = await entry.container;
+  } catch {
+    return; // never started
+  }
+  try {
+    await container.remove({ force: true });
+    logger.info('Pooled sandbox container removed', {
+      sessionId: entry.sessionId,
+      id: container.id.slice(0, 12),
+      reason,
+      execs: entry.execs,
+    });
+  } catch (err) {
+    logger.warn('Could not remove pooled sandbox container', {
+      sessionId: entry.sessionId,
+      id: container.id.slice(0, 12),
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+// Shared by every DockerSandbox in the process, so /health and shutdown see all of them
+export const sandboxPool = new SandboxPool();
@@ -1,18 +1,39 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { createServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
-import { timingSafeEqual, createHash } from 'crypto';
+import { createHash } from 'crypto';
 import morgan from 'morgan';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import fg from 'fast-glob';
 import { Agent } from '../agent/Agent';
-import { DatabaseMemory } from '../memory/DatabaseMemory';
+import { DatabaseMemory, DEFAULT_WORKSPACE_ID, type Session, type UserRole } from '../memory/DatabaseMemory';
+import { sessionToMarkdown } from '../memory/sessionExport';
 import { DockerSandbox } from '../sandbox/DockerSandbox';
+import { sandboxPool } from '../sandbox/SandboxPool';
 import { logger } from '../logger';
-import { audit } from '../logger/audit';
-import type { AgentEvent } from '../agent/Agent';
+import { audit, type AuditActor } from '../logger/audit';
+import { PlanSchema } from '../tools/schemas';
+import type { AgentEvent, AgentRunResult, PlanDecision } from '../agent/Agent';
+import type { RunMode } from '../agent/plan';
+import { WORKTREE_ACTIONS, type WorktreeAction } from '../agent/worktree';
+import { CreateWorkspaceSchema, UpdateWorkspaceSchema } from '../agent/workspaces';
+import {
+  DEFAULT_PERMISSION_POLICY,
+  INVALID_FILE_PERMISSION_POLICY,
+  loadPermissionPolicy,
+  PERMISSIONS_POLICY_FILE,
+} from '../agent/permissions';
+import {
+  authenticate,
+  ClearDatabaseSchema,
+  CreateUserSchema,
+  generateApiKey,
+  hasRole,
+  UpdateUserSchema,
+  type AuthUser,
+} from './auth';
 import type { Config } from '../config';
 
 // Helper to safely get string param (express types allow string | string[])
@@ -21,12 +42,32 @@ function getParam(req: Request, name: string): string {
   return Array.isArray(val) ? val[0] : val;
 }
 
-// Extend Express Request to include correlation ID
+// Validates a plan review from HTTP or WebSocket; returns an error message when invalid
+function parsePlanDecision(body: any): PlanDecision | string {
+  if (typeof body?.approved !== 'boolean') return 'approved (boolean) is required';
+  if (body.feedback !== undefined && typeof body.feedback !== 'string') {
+    return 'feedback must be a string';
+  }
+  let plan;
+  if (body.plan !== undefined) {
+    const parsed = PlanSchema.safeParse(body.plan);
+    if (!parsed.success) return `Invalid plan: ${JSON.stringify(parsed.error.flatten())}`;
+    plan = parsed.data;
+  }
+  return { approved: body.approved, plan, feedback: body.feedback?.trim() || undefined };
+}
+
+function isRunMode(mode: unknown): mode is RunMode {
+  return mode === 'plan' || mode === 'auto';
+}
+
+// Extend Express Request to include correlation ID and the authenticated user
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace Express {
     interface Request {
       requestId: string;
+      user: AuthUser;
     }
   }
 }
@@ -36,15 +77,12 @@ export class AgentServer {
   private httpServer = createServer(this.app);
   private io: SocketIOServer;
 
-  // Track which socket owns which session for join_session validation
-  private sessionOwners = new Map<string, string>();
-
-  // Cache for workspace tree to avoid repeated filesystem scans
-  private workspaceTreeCache: {
+  // Cache for workspace trees to avoid repeated filesystem scans, per workspace root
+  private workspaceTreeCache = new Map<string, {
     etag: string;
     data: { tree: TreeNode[]; workspace: string };
     timestamp: number;
-  } | null = null;
+  }>();
   private readonly TREE_CACHE_TTL = 5000; // 5 seconds
 
   // WebSocket rate limiting: track events per socket
@@ -62,6 +100,7 @@ export class AgentServer {
     toolCallsTotal: 0,
     toolCallsByName: new Map<string, number>(),
     toolCallErrors: 0,
+    toolCallErrorsByCode: new Map<string, number>(),
     tokensUsedTotal: 0,
     sessionsStarted: 0,
     sessionsCompleted: 0,
@@ -76,9 +115,6 @@ export class AgentServer {
   // Session TTL cleanup timer
   private sessionCleanupTimer: NodeJS.Timeout | null = null;
 
-  // Stale socket cleanup timer (checks for orphaned session owners)
-  private staleSocketCleanupTimer: NodeJS.Timeout | null = null;
-
   constructor(
     private readonly agent: Agent,
     private readonly memory: DatabaseMemory,
@@ -105,7 +141,6 @@ export class AgentServer {
     this.setupRoutes();
     this.setupWebSocket();
     this.setupSessionCleanup();
-    this.setupStaleSocketCleanup();
   }
 
   // ─── Session TTL cleanup ────────────────────────────────────────────────────
@@ -136,75 +171,30 @@ export class AgentServer {
     this.sessionCleanupTimer.unref();
   }
 
-  // ─── Stale socket cleanup ───────────────────────────────────────────────────
-  // If a client disconnects ungracefully (network drop), the socket may not fire
-  // the disconnect event. This periodically checks for orphaned session owners
-  // whose sockets no longer exist and cleans them up.
-
-  private setupStaleSocketCleanup(): void {
-    const CLEANUP_INTERVAL = 60_000; // Check every minute
-
-    this.staleSocketCleanupTimer = setInterval(() => {
-      const connectedSockets = new Set(
-        Array.from(this.io.sockets.sockets.keys())
-      );
-
-      let cleaned = 0;
-      for (const [sessionId, ownerId] of this.sessionOwners.entries()) {
-        if (!connectedSockets.has(ownerId)) {
-          this.sessionOwners.delete(sessionId);
-          cleaned++;
-        }
-      }
-
-      if (cleaned > 0) {
-        logger.info('Stale socket cleanup completed', {
-          cleanedCount: cleaned,
-        });
-      }
-    }, CLEANUP_INTERVAL);
-
-    this.staleSocketCleanupTimer.unref();
-  }
-
-  // ─── Timing-safe token comparison ────────────────────────────────────────
-  // Prevents brute-force via timing side-channel
-
-  private safeCompare(a: string, b: string): boolean {
-    if (typeof a !== 'string' || typeof b !== 'string') return false;
-    const aBuf = Buffer.from(a, 'utf8');
-    const bBuf = Buffer.from(b, 'utf8');
-    if (aBuf.length !== bBuf.length) {
-      // Compare against self to keep constant time, then return false
-      timingSafeEqual(aBuf, aBuf);
-      return false;
-    }
-    return timingSafeEqual(aBuf, bBuf);
-  }
-
   // ─── Auth middleware ──────────────────────────────────────────────────────
 
+  // Every request runs as a user (see auth.ts). Reading needs any role;
+  // anything that changes state at least operator.
+
   private requireAuth = (
     req: Request,
     res: Response,
     next: NextFunction
   ): void => {
-    const secret = this.config.apiSecret;
-    if (!secret) return next(); // No secret configured → open (warn emitted at startup)
-
     const header = req.headers['authorization'] ?? '';
     const token = header.startsWith('Bearer ')
       ? header.slice(7)
       : req.headers['x-api-key'];
 
-    if (!token || !this.safeCompare(String(token), secret)) {
+    const user = authenticate(this.memory, this.config.apiSecret, token ? String(token) : undefined);
+    if (!user) {
       logger.warn('Unauthorized API request', {
         ip: req.ip,
         path: req.path,
         requestId: req.requestId,
       });
       audit.authFailure(
-        req.ip,
+        { ip: req.ip },
         req.path,
         token ? 'Invalid token' : 'Missing token'
       );
@@ -212,13 +202,38 @@ export class AgentServer {
         .status(401)
         .json({
           error:
-            'Unauthorized. Provide Authorization: Bearer <AGENT_API_SECRET>',
+            'Unauthorized. Provide Authorization: Bearer <API key or AGENT_API_SECRET>',
         });
       return;
     }
+    req.user = user;
+    if (req.method !== 'GET') return this.requireRole('operator')(req, res, next);
     next();
   };
 
+  private requireRole = (role: UserRole) => (req: Request, res: Response, next: NextFunction): void => {
+    if (hasRole(req.user, role)) return next();
+    logger.warn('Forbidden API request', {
+      userId: req.user.id,
+      role: req.user.role,
+      needed: role,
+      path: req.path,
+      requestId: req.requestId,
+    });
+    audit.authFailure(this.actor(req), req.path, `Needs the ${role} role`);
+    res.status(403).json({ error: `This needs the ${role} role`, requestId: req.requestId });
+  };
+
+  // Sessions belong to the user who started them; admins reach every session.
+  // A session that does not exist yet is anyone's to start.
+  private canAccessSession(user: AuthUser, session: Session | undefined): boolean {
+    return !session || hasRole(user, 'admin') || session.userId === user.id;
+  }
+
+  private actor(req: Request): AuditActor {
+    return { ip: req.ip, userId: req.user?.id };
+  }
+
   // ─── Middleware ───────────────────────────────────────────────────────────
 
   private setupMiddleware(): void {
@@ -357,7 +372,7 @@ export class AgentServer {
           count: entry.count,
           requestId: req.requestId,
         });
-        audit.rateLimitExceeded(ip, 'http', entry.count);
+        audit.rateLimitExceeded({ ip }, 'http', entry.count);
         res.status(429).json({
           error: `Rate limit exceeded. Max ${rateLimitMax} requests per minute.`,
           requestId: req.requestId,
@@ -396,7 +411,7 @@ export class AgentServer {
 
       if (this.config.dockerEnabled) {
         try {
-          const sandbox = new DockerSandbox();
+          const sandbox = new DockerSandbox({ image: this.config.sandboxImage });
           await sandbox.initialize();
         } catch (err: any) {
           dockerStatus = `error: ${err.message}`;
@@ -421,6 +436,8 @@ export class AgentServer {
           database: dbStatus,
           docker: dockerStatus,
         },
+        // Long-lived per-session containers (AGENT_SANDBOX_PERSISTENT)
+        ...(this.config.dockerEnabled && { sandboxPool: sandboxPool.status() }),
       });
     });
 
@@ -474,6 +491,12 @@ export class AgentServer {
           `agent_tool_call_errors_total ${this.metrics.toolCallErrors}`
         );
 
+        lines.push(`# HELP agent_tool_call_errors_by_code Tool call errors by error code`);
+        lines.push(`# TYPE agent_tool_call_errors_by_code counter`);
+        for (const [code, count] of this.metrics.toolCallErrorsByCode) {
+          lines.push(`agent_tool_call_errors_by_code{code="${code}"} ${count}`);
+        }
+
         // Token metrics
         lines.push(`# HELP agent_tokens_used_total Total tokens used`);
         lines.push(`# TYPE agent_tokens_used_total counter`);
@@ -522,15 +545,44 @@ export class AgentServer {
     // All other routes require auth
     this.app.use('/api', this.requireAuth);
 
+    // Another user's session is not found, rather than forbidden
+    this.app.use('/api/sessions/:id', (req: Request, res: Response, next: NextFunction) => {
+      if (this.canAccessSession(req.user, this.memory.getSession(getParam(req, 'id')))) return next();
+      res.status(404).json({ error: 'Session not found', requestId: req.requestId });
+    });
+
+    // ── Who am I ──────────────────────────────────────────────────────────
+    this.app.get('/api/me', (req: Request, res: Response) => {
+      res.json({ user: req.user, requestId: req.requestId });
+    });
+
     // ── Run prompt ────────────────────────────────────────────────────────
     this.app.post('/api/prompt', async (req: Request, res: Response) => {
-      const { message, sessionId, model, planningModel, codingModel } = req.body;
+      const { message, sessionId, model, planningModel, codingModel, mode, dryRun, workspaceId } = req.body;
 
       if (!message || typeof message !== 'string') {
         return res
           .status(400)
           .json({ error: 'message is required', requestId: req.requestId });
       }
+      if (mode !== undefined && !isRunMode(mode)) {
+        return res
+          .status(400)
+          .json({ error: "mode must be 'plan' or 'auto'", requestId: req.requestId });
+      }
+      if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+        return res
+          .status(400)
+          .json({ error: 'dryRun must be a boolean', requestId: req.requestId });
+      }
+      if (workspaceId !== undefined && this.workspaceDir(workspaceId) === null) {
+        return res
+          .status(400)
+          .json({ error: `Unknown workspace "${workspaceId}"`, requestId: req.requestId });
+      }
+      if (sessionId && !this.canAccessSession(req.user, this.memory.getSession(sessionId))) {
+        return res.status(404).json({ error: 'Session not found', requestId: req.requestId });
+      }
 
       // Prompt size guard — catch oversized payloads before they reach the API
       if (message.length > this.config.maxPromptChars) {
@@ -567,7 +619,7 @@ export class AgentServer {
           (event: AgentEvent) => {
             this.io.to(sid).emit('agent_event', event);
           },
-          { model, planningModel, codingModel }
+          { model, planningModel, codingModel, mode, dryRun, workspaceId, user: req.user }
         );
         return res.json({ requestId: req.requestId, ...result });
       } catch (err: any) {
@@ -601,17 +653,351 @@ export class AgentServer {
       res.json({ success: cancelled, sessionId: id, requestId: req.requestId });
     });
 
+    // ── Resume an interrupted run ──────────────────────────────────────────
+    this.app.post('/api/sessions/:id/resume', async (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const checkpoint = this.memory.getRunCheckpoint(id);
+      if (!checkpoint) {
+        return res.status(404).json({
+          error: 'No resumable run for this session',
+          requestId: req.requestId,
+        });
+      }
+      if (checkpoint.status === 'completed') {
+        return res.status(409).json({
+          error: 'Run already completed — send a new prompt instead',
+          requestId: req.requestId,
+        });
+      }
+      if (checkpoint.dryRun) {
+        return res.status(409).json({
+          error: 'Dry runs cannot be resumed — send the prompt again',
+          requestId: req.requestId,
+        });
+      }
+      const parentSessionId = this.memory.getSession(id)?.parentSessionId;
+      if (parentSessionId) {
+        return res.status(409).json({
+          error: `Delegated subtask — resume the parent session ${parentSessionId} instead`,
+          requestId: req.requestId,
+        });
+      }
+      if (this.agent.activeSessionCount >= this.config.maxConcurrentSessions) {
+        return res.status(429).json({
+          error:
+            `Too many concurrent sessions ` +
+            `(${this.agent.activeSessionCount}/${this.config.maxConcurrentSessions}). ` +
+            `Wait for a running session to complete or cancel one.`,
+          requestId: req.requestId,
+        });
+      }
+
+      logger.info('HTTP resume received', {
+        sessionId: id,
+        turn: checkpoint.turn,
+        previousStatus: checkpoint.status,
+        requestId: req.requestId,
+      });
+      try {
+        const result = await this.agent.resume(
+          id,
+          (event: AgentEvent) => {
+            this.io.to(id).emit('agent_event', event);
+          },
+          req.user
+        );
+        return res.json({ requestId: req.requestId, ...result });
+      } catch (err: any) {
+        logger.error('HTTP resume error', {
+          error: err.message,
+          sessionId: id,
+          requestId: req.requestId,
+        });
+        return res
+          .status(500)
+          .json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
+    // ── Apply a finished dry run ───────────────────────────────────────────
+    this.app.get('/api/sessions/:id/dry-run', (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const report = this.agent.getDryRun(id);
+      if (!report) {
+        return res.status(404).json({ error: 'No dry run to apply for this session', requestId: req.requestId });
+      }
+      res.json({ sessionId: id, ...report });
+    });
+
+    this.app.post('/api/sessions/:id/dry-run/apply', async (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const { sideEffects = [] } = req.body ?? {};
+      if (!Array.isArray(sideEffects) || !sideEffects.every((s) => typeof s === 'string')) {
+        return res.status(400).json({
+          error: 'sideEffects must be an array of side effect ids',
+          requestId: req.requestId,
+        });
+      }
+      if (!this.agent.getDryRun(id)) {
+        return res.status(404).json({ error: 'No dry run to apply for this session', requestId: req.requestId });
+      }
+
+      try {
+        const applied = await this.agent.applyDryRun(id, sideEffects);
+        const files = applied.files.map((f) => f.path);
+        audit.dryRunApply(this.actor(req), id, { files, sideEffects }, true);
+        logger.info('Dry run applied (HTTP)', {
+          sessionId: id,
+          files: files.length,
+          sideEffects: sideEffects.length,
+          requestId: req.requestId,
+        });
+        res.json({ success: true, sessionId: id, ...applied, requestId: req.requestId });
+      } catch (err: any) {
+        audit.dryRunApply(this.actor(req), id, { files: [], sideEffects }, false, err.message);
+        logger.error('Dry run apply failed', { sessionId: id, error: err.message, requestId: req.requestId });
+        res.status(409).json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
+    // ── Session timeline (restore to any point, revert one edit) ───────────
+    this.app.get('/api/sessions/:id/timeline', async (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      if (!this.memory.getSession(id)) {
+        return res.status(404).json({ error: 'Session not found', requestId: req.requestId });
+      }
+      try {
+        res.json({ sessionId: id, entries: await this.agent.getTimeline(id) });
+      } catch (err: any) {
+        logger.error('Timeline failed', { sessionId: id, error: err.message, requestId: req.requestId });
+        res.status(500).json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
+    this.app.post('/api/sessions/:id/timeline/restore', async (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const { to, path: filePath, force = false } = req.body ?? {};
+      if (typeof to !== 'string' || !to) {
+        return res.status(400).json({
+          error: 'to (a timeline entry id, or "start") is required',
+          requestId: req.requestId,
+        });
+      }
+      if ((filePath !== undefined && typeof filePath !== 'string') || typeof force !== 'boolean') {
+        return res.status(400).json({
+          error: 'path must be a string and force a boolean',
+          requestId: req.requestId,
+        });
+      }
+      if (!this.memory.getSession(id)) {
+        return res.status(404).json({ error: 'Session not found', requestId: req.requestId });
+      }
+
+      try {
+        const result = await this.agent.restoreTimeline(id, to, { path: filePath, force });
+        const files = result.files.map((f) => f.path);
+        audit.timelineRestore(this.actor(req), id, { to, path: filePath, force, files }, true);
+        res.json({ success: true, sessionId: id, ...result, requestId: req.requestId });
+      } catch (err: any) {
+        audit.timelineRestore(this.actor(req), id, { to, path: filePath, force }, false, err.message);
+        logger.error('Timeline restore failed', { sessionId: id, to, error: err.message, requestId: req.requestId });
+        res.status(409).json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
+    this.app.post('/api/sessions/:id/timeline/:entryId/revert', async (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const entryId = getParam(req, 'entryId');
+      if (!this.memory.getSession(id)) {
+        return res.status(404).json({ error: 'Session not found', requestId: req.requestId });
+      }
+
+      try {
+        const result = await this.agent.revertTimelineEntry(id, entryId);
+        const files = result.files.map((f) => f.path);
+        audit.timelineRestore(this.actor(req), id, { revert: entryId, files }, true);
+        res.json({ success: true, sessionId: id, ...result, requestId: req.requestId });
+      } catch (err: any) {
+        audit.timelineRestore(this.actor(req), id, { revert: entryId }, false, err.message);
+        logger.error('Timeline revert failed', { sessionId: id, entryId, error: err.message, requestId: req.requestId });
+        res.status(409).json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
+    // ── Session worktrees (AGENT_SESSION_WORKTREES) ────────────────────────
+    this.app.get('/api/sessions/:id/worktree', async (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      try {
+        const worktree = await this.agent.getWorktree(id);
+        if (!worktree) {
+          return res.status(404).json({ error: 'This session has no worktree', requestId: req.requestId });
+        }
+        res.json({ sessionId: id, ...worktree });
+      } catch (err: any) {
+        logger.error('Worktree status failed', { sessionId: id, error: err.message, requestId: req.requestId });
+        res.status(500).json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
+    this.app.post('/api/sessions/:id/worktree/:action', async (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const action = getParam(req, 'action') as WorktreeAction;
+      if (!WORKTREE_ACTIONS.includes(action)) {
+        return res.status(400).json({
+          error: `action must be one of: ${WORKTREE_ACTIONS.join(', ')}`,
+          requestId: req.requestId,
+        });
+      }
+      if (!this.memory.getSession(id)?.worktree) {
+        return res.status(404).json({ error: 'This session has no worktree', requestId: req.requestId });
+      }
+
+      try {
+        const result = await this.agent.finishWorktree(id, action);
+        audit.worktreeFinish(
+          this.actor(req),
+          id,
+          { action, branch: result.branch, conflicts: result.conflicts },
+          result.success,
+          result.success ? undefined : result.message
+        );
+        logger.info('Session worktree finished (HTTP)', {
+          sessionId: id,
+          action,
+          success: result.success,
+          requestId: req.requestId,
+        });
+        // A conflicted merge was aborted; the worktree is still there
+        res.status(result.success ? 200 : 409).json({ sessionId: id, ...result, requestId: req.requestId });
+      } catch (err: any) {
+        audit.worktreeFinish(this.actor(req), id, { action }, false, err.message);
+        logger.error('Session worktree finish failed', { sessionId: id, action, error: err.message, requestId: req.requestId });
+        res.status(409).json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
+    // ── Patch approvals (HTTP alternative to patch_approval_response) ─────
+    this.app.get('/api/sessions/:id/approvals', (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      res.json({ approvals: this.agent.listPendingApprovals(id), sessionId: id });
+    });
+
+    this.app.post(
+      '/api/sessions/:id/approvals/:patchId',
+      (req: Request, res: Response) => {
+        const id = getParam(req, 'id');
+        const patchId = getParam(req, 'patchId');
+        const { approved } = req.body ?? {};
+        if (typeof approved !== 'boolean') {
+          return res.status(400).json({
+            error: 'approved (boolean) is required',
+            requestId: req.requestId,
+          });
+        }
+
+        const pending = this.agent
+          .listPendingApprovals(id)
+          .find((p) => p.patchId === patchId);
+        if (!pending) {
+          return res.status(404).json({
+            error: 'No pending approval with that id for this session',
+            requestId: req.requestId,
+          });
+        }
+
+        this.agent.resolvePatchApproval(patchId, approved);
+        logger.info('Patch approval response (HTTP)', {
+          sessionId: id,
+          patchId,
+          approved,
+          requestId: req.requestId,
+        });
+        res.json({ success: true, patchId, approved, requestId: req.requestId });
+      }
+    );
+
+    // ── Tool call approvals (HTTP alternative to tool_approval_response) ──
+    this.app.get('/api/sessions/:id/tool-approvals', (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      res.json({ approvals: this.agent.listPendingToolApprovals(id), sessionId: id });
+    });
+
+    this.app.post('/api/sessions/:id/tool-approvals/:approvalId', (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const approvalId = getParam(req, 'approvalId');
+      const { approved } = req.body ?? {};
+      if (typeof approved !== 'boolean') {
+        return res.status(400).json({ error: 'approved (boolean) is required', requestId: req.requestId });
+      }
+
+      const pending = this.agent.listPendingToolApprovals(id).find((p) => p.approvalId === approvalId);
+      if (!pending) {
+        return res.status(404).json({
+          error: 'No pending tool approval with that id for this session',
+          requestId: req.requestId,
+        });
+      }
+
+      this.agent.resolveToolApproval(approvalId, approved);
+      logger.info('Tool approval response (HTTP)', {
+        sessionId: id,
+        approvalId,
+        tool: pending.toolName,
+        approved,
+        requestId: req.requestId,
+      });
+      res.json({ success: true, approvalId, approved, requestId: req.requestId });
+    });
+
+    // ── Plan review (HTTP alternative to plan_response) ───────────────────
+    this.app.get('/api/sessions/:id/plans', (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      res.json({ plans: this.agent.listPendingPlans(id), sessionId: id });
+    });
+
+    this.app.post('/api/sessions/:id/plans/:planId', (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const planId = getParam(req, 'planId');
+      const decision = parsePlanDecision(req.body);
+      if (typeof decision === 'string') {
+        return res.status(400).json({ error: decision, requestId: req.requestId });
+      }
+
+      const pending = this.agent.listPendingPlans(id).find((p) => p.planId === planId);
+      if (!pending) {
+        return res.status(404).json({
+          error: 'No pending plan with that id for this session',
+          requestId: req.requestId,
+        });
+      }
+
+      this.agent.resolvePlan(planId, decision);
+      logger.info('Plan response (HTTP)', {
+        sessionId: id,
+        planId,
+        approved: decision.approved,
+        edited: !!decision.plan,
+        requestId: req.requestId,
+      });
+      res.json({ success: true, planId, approved: decision.approved, requestId: req.requestId });
+    });
+
     // ── Sessions list + search ────────────────────────────────────────────
     this.app.get('/api/sessions', (req: Request, res: Response) => {
       try {
         const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+        const workspaceId = typeof req.query.workspaceId === 'string' ? req.query.workspaceId : undefined;
+        // Admins see everyone's sessions, other users their own
+        const userId = hasRole(req.user, 'admin') ? undefined : req.user.id;
         const sessions = q
-          ? this.memory.searchSessions(q, 30)
-          : this.memory.listSessions(30);
+          ? this.memory.searchSessions(q, 30, { workspaceId, userId })
+          : this.memory.listSessions(30, { workspaceId, userId });
 
+        const runStatuses = this.memory.getRunStatuses(sessions.map((s) => s.id));
         const enriched = sessions.map((s) => ({
           ...s,
           tokenUsage: this.memory.getSessionTokenUsage(s.id),
+          runStatus: runStatuses.get(s.id) ?? null,
         }));
         res.json({ sessions: enriched, query: q || null });
       } catch (err: any) {
@@ -626,7 +1012,10 @@ export class AgentServer {
       const messages = this.memory.getMessages(getParam(req, 'id'), 200);
       const tokenUsage = this.memory.getSessionTokenUsage(getParam(req, 'id'));
       const toolStats = this.memory.getToolCallStats(getParam(req, 'id'));
-      res.json({ session, messages, tokenUsage, toolStats });
+      const toolErrors = this.memory.getToolErrorCounts(getParam(req, 'id'));
+      // Sub-agent sessions started by delegate_task during this session
+      const children = this.memory.listChildSessions(getParam(req, 'id'));
+      res.json({ session, messages, tokenUsage, toolStats, toolErrors, children });
     });
 
     // ── Delete session ────────────────────────────────────────────────────
@@ -634,19 +1023,28 @@ export class AgentServer {
       const sessionId = getParam(req, 'id');
       const session = this.memory.getSession(sessionId);
       if (!session) {
-        audit.sessionDelete(req.ip, sessionId, false, 'Session not found');
+        audit.sessionDelete(this.actor(req), sessionId, false, 'Session not found');
         return res
           .status(404)
           .json({ error: 'Session not found', requestId: req.requestId });
       }
+      if (session.worktree) {
+        audit.sessionDelete(this.actor(req), sessionId, false, 'Session has a worktree');
+        return res.status(409).json({
+          error: `Merge or discard the session's worktree (${session.worktree.branch}) before deleting it`,
+          requestId: req.requestId,
+        });
+      }
       this.memory.deleteSession(sessionId);
       // Also clean up orphaned context summary
       this.memory.deleteKnowledge(`ctx_summary_${sessionId}`);
+      // And the session's pooled sandbox container, rather than waiting for it to idle out
+      void sandboxPool.discard(sessionId, 'session deleted');
       logger.info('Session deleted via API', {
         sessionId,
         requestId: req.requestId,
       });
-      audit.sessionDelete(req.ip, sessionId, true);
+      audit.sessionDelete(this.actor(req), sessionId, true);
       res.json({ success: true, sessionId, requestId: req.requestId });
     });
 
@@ -708,21 +1106,21 @@ export class AgentServer {
       const sessionId = getParam(req, 'id');
       const session = this.memory.getSession(sessionId);
       if (!session) {
-        audit.sessionExport(req.ip, sessionId, 'unknown', false);
+        audit.sessionExport(this.actor(req), sessionId, 'unknown', false);
         return res
           .status(404)
           .json({ error: 'Session not found', requestId: req.requestId });
       }
 
       const format = req.query.format === 'json' ? 'json' : 'markdown';
-      const messages = this.memory.getMessages(sessionId, 1000);
-      const tokenUsage = this.memory.getSessionTokenUsage(sessionId);
-      const toolCalls = this.memory.getToolCallStats(sessionId);
 
       // Audit log the export
-      audit.sessionExport(req.ip, sessionId, format, true);
+      audit.sessionExport(this.actor(req), sessionId, format, true);
 
       if (format === 'json') {
+        const messages = this.memory.getMessages(sessionId, 1000);
+        const tokenUsage = this.memory.getSessionTokenUsage(sessionId);
+        const toolCalls = this.memory.getToolCallStats(sessionId);
         res.setHeader('Content-Type', 'application/json');
         res.setHeader(
           'Content-Disposition',
@@ -737,76 +1135,41 @@ export class AgentServer {
         });
       }
 
-      // Markdown format
-      const lines: string[] = [
-        `# AI Agent Session`,
-        ``,
-        `**Session ID:** ${session.id}`,
-        `**Workspace:** ${session.workspaceDir}`,
-        `**Created:** ${session.createdAt}`,
-        `**Updated:** ${session.updatedAt}`,
-        ``,
-        `## Summary`,
-        ``,
-        session.summary || '_No summary available_',
-        ``,
-        `## Token Usage`,
-        ``,
-        `- Input tokens: ${tokenUsage.inputTokens.toLocaleString()}`,
-        `- Output tokens: ${tokenUsage.outputTokens.toLocaleString()}`,
-        `- Total tokens: ${tokenUsage.totalTokens.toLocaleString()}`,
-        `- Estimated cost: $${tokenUsage.estimatedCostUsd.toFixed(4)}`,
-        ``,
-        `## Conversation`,
-        ``,
-      ];
-
-      for (const msg of messages) {
-        if (msg.role === 'user') {
-          lines.push(`### 👤 User`);
-          lines.push(``);
-          lines.push(msg.content);
-          lines.push(``);
-        } else if (msg.role === 'assistant') {
-          lines.push(`### 🤖 Assistant`);
-          lines.push(``);
-          lines.push(msg.content);
-          lines.push(``);
-        } else if (msg.role === 'tool') {
-          lines.push(`### 🔧 Tool: ${msg.toolName || 'unknown'}`);
-          lines.push(``);
-          lines.push('```json');
-          lines.push(
-            msg.content.slice(0, 500) + (msg.content.length > 500 ? '...' : '')
-          );
-          lines.push('```');
-          lines.push(``);
-        }
-      }
-
-      lines.push(`---`);
-      lines.push(`_Exported at ${new Date().toISOString()}_`);
-
       res.setHeader('Content-Type', 'text/markdown');
       res.setHeader(
         'Content-Disposition',
         `attachment; filename="session-${sessionId.slice(0, 8)}.md"`
       );
-      res.send(lines.join('\n'));
+      res.send(sessionToMarkdown(this.memory, session));
     });
 
     // ── Git rollback (undo uncommitted changes) ────────────────────────────
+    // With a sessionId, rolls back that session's worktree instead
     this.app.post(
       '/api/workspace/rollback',
       async (req: Request, res: Response) => {
+        const { sessionId, workspaceId } = req.body ?? {};
+        if (sessionId !== undefined && typeof sessionId !== 'string') {
+          return res.status(400).json({ error: 'sessionId must be a string', requestId: req.requestId });
+        }
+        const session = sessionId ? this.memory.getSession(sessionId) : undefined;
+        const worktree = this.canAccessSession(req.user, session) ? session?.worktree : undefined;
+        if (sessionId && !worktree) {
+          return res.status(404).json({ error: 'This session has no worktree', requestId: req.requestId });
+        }
+        const workspace = this.workspaceDir(workspaceId);
+        if (workspace === null) {
+          return res.status(404).json({ error: 'Workspace not found', requestId: req.requestId });
+        }
         try {
           const { GitTool } = await import('../tools/GitTool');
-          const git = new GitTool(this.config.workspaceDir);
+          const git = new GitTool(worktree?.path ?? workspace);
           await git.rollbackToLastCheckpoint();
           logger.info('Workspace rolled back to last checkpoint', {
+            sessionId,
             requestId: req.requestId,
           });
-          audit.workspaceRollback(req.ip, undefined, true);
+          audit.workspaceRollback(this.actor(req), sessionId, true);
           res.json({
             success: true,
             message: 'Rolled back to last checkpoint',
@@ -817,7 +1180,7 @@ export class AgentServer {
             error: err.message,
             requestId: req.requestId,
           });
-          audit.workspaceRollback(req.ip, undefined, false, err.message);
+          audit.workspaceRollback(this.actor(req), sessionId, false, err.message);
           res
             .status(500)
             .json({ error: err.message, requestId: req.requestId });
@@ -825,6 +1188,32 @@ export class AgentServer {
       }
     );
 
+    // ── Tool permissions in effect for a workspace's runs ─────────────────
+    this.app.get('/api/workspace/permissions', async (req: Request, res: Response) => {
+      const workspace = this.workspaceDir(req.query.workspaceId);
+      if (workspace === null) {
+        return res.status(404).json({ error: 'Workspace not found', requestId: req.requestId });
+      }
+      try {
+        const policy = await loadPermissionPolicy(workspace);
+        res.json({
+          file: PERMISSIONS_POLICY_FILE,
+          configured: policy !== null,
+          policy: policy ?? DEFAULT_PERMISSION_POLICY,
+          requestId: req.requestId,
+        });
+      } catch (err) {
+        // Runs ask about every call until the file is fixed
+        res.json({
+          file: PERMISSIONS_POLICY_FILE,
+          configured: true,
+          policy: INVALID_FILE_PERMISSION_POLICY,
+          error: err instanceof Error ? err.message : String(err),
+          requestId: req.requestId,
+        });
+      }
+    });
+
     // ── Read workspace file content ───────────────────────────────────────
     this.app.get('/api/workspace/file', async (req: Request, res: Response) => {
       try {
@@ -838,7 +1227,10 @@ export class AgentServer {
               requestId: req.requestId,
             });
 
-        const workspace = this.config.workspaceDir;
+        const workspace = this.workspaceDir(req.query.workspaceId);
+        if (workspace === null) {
+          return res.status(404).json({ error: 'Workspace not found', requestId: req.requestId });
+        }
         const sanitized = filePath.replace(/^[/\\]+/, '');
         const resolved = path.resolve(workspace, sanitized);
         const workspacePrefix = workspace.endsWith(path.sep)
@@ -894,23 +1286,24 @@ export class AgentServer {
     // ── Workspace file tree ───────────────────────────────────────────────
     this.app.get('/api/workspace/tree', async (req: Request, res: Response) => {
       try {
-        const workspace = this.config.workspaceDir;
+        const workspace = this.workspaceDir(req.query.workspaceId);
+        if (workspace === null) {
+          return res.status(404).json({ error: 'Workspace not found', requestId: req.requestId });
+        }
         const now = Date.now();
 
         // Check if cache is still valid
-        if (
-          this.workspaceTreeCache &&
-          now - this.workspaceTreeCache.timestamp < this.TREE_CACHE_TTL
-        ) {
+        const cached = this.workspaceTreeCache.get(workspace);
+        if (cached && now - cached.timestamp < this.TREE_CACHE_TTL) {
           // Check If-None-Match header for conditional request
           const clientEtag = req.headers['if-none-match'];
-          if (clientEtag === this.workspaceTreeCache.etag) {
+          if (clientEtag === cached.etag) {
             res.status(304).end();
             return;
           }
-          res.setHeader('ETag', this.workspaceTreeCache.etag);
+          res.setHeader('ETag', cached.etag);
           res.setHeader('Cache-Control', 'private, max-age=5');
-          res.json(this.workspaceTreeCache.data);
+          res.json(cached.data);
           return;
         }
 
@@ -936,7 +1329,7 @@ export class AgentServer {
         const etag = `"${createHash('md5').update(JSON.stringify(files.sort())).digest('hex')}"`;
 
         // Update cache
-        this.workspaceTreeCache = { etag, data, timestamp: now };
+        this.workspaceTreeCache.set(workspace, { etag, data, timestamp: now });
 
         // Check If-None-Match header
         const clientEtag = req.headers['if-none-match'];
@@ -954,9 +1347,232 @@ export class AgentServer {
       }
     });
 
+    // ── Workspaces ────────────────────────────────────────────────────────
+    // The default workspace (AGENT_WORKSPACE) is always listed first; it has
+    // no settings of its own and cannot be changed or removed here
+    this.app.get('/api/workspaces', (req: Request, res: Response) => {
+      const workspaces = [
+        {
+          id: DEFAULT_WORKSPACE_ID,
+          name: path.basename(this.config.workspaceDir) || DEFAULT_WORKSPACE_ID,
+          path: this.config.workspaceDir,
+          settings: {},
+          isDefault: true,
+        },
+        ...this.memory.listWorkspaces().map((w) => ({
+          ...w,
+          isDefault: false,
+          sessionCount: this.memory.countWorkspaceSessions(w.id),
+        })),
+      ];
+      res.json({ workspaces, requestId: req.requestId });
+    });
+
+    this.app.post('/api/workspaces', this.requireRole('admin'), async (req: Request, res: Response) => {
+      const parsed = CreateWorkspaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: `Invalid workspace: ${JSON.stringify(parsed.error.flatten())}`,
+          requestId: req.requestId,
+        });
+      }
+      const { name, settings } = parsed.data;
+      if (!path.isAbsolute(parsed.data.path)) {
+        return res.status(400).json({ error: 'path must be absolute', requestId: req.requestId });
+      }
+      const workspacePath = path.resolve(parsed.data.path);
+      const settingsError = this.workspaceSettingsError(settings.model);
+      if (settingsError) {
+        return res.status(400).json({ error: settingsError, requestId: req.requestId });
+      }
+      const stat = await fs.stat(workspacePath).catch(() => null);
+      if (!stat?.isDirectory()) {
+        return res.status(400).json({ error: `Not a directory: ${workspacePath}`, requestId: req.requestId });
+      }
+      if (workspacePath === this.config.workspaceDir || this.memory.getWorkspaceByPath(workspacePath)) {
+        return res.status(409).json({
+          error: `${workspacePath} is already a workspace`,
+          requestId: req.requestId,
+        });
+      }
+
+      const workspace = this.memory.createWorkspace({ id: uuidv4(), name, path: workspacePath, settings });
+      audit.workspaceChange(this.actor(req), workspace.id, { change: 'create', path: workspacePath, settings }, true);
+      res.status(201).json({ workspace, requestId: req.requestId });
+    });
+
+    this.app.get('/api/workspaces/:id', (req: Request, res: Response) => {
+      const workspace = this.memory.getWorkspace(getParam(req, 'id'));
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found', requestId: req.requestId });
+      }
+      res.json({
+        workspace: { ...workspace, sessionCount: this.memory.countWorkspaceSessions(workspace.id) },
+        requestId: req.requestId,
+      });
+    });
+
+    // Renames the workspace or replaces its settings; the path is fixed
+    this.app.put('/api/workspaces/:id', this.requireRole('admin'), (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      if (!this.memory.getWorkspace(id)) {
+        return res.status(404).json({ error: 'Workspace not found', requestId: req.requestId });
+      }
+      const parsed = UpdateWorkspaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: `Invalid workspace: ${JSON.stringify(parsed.error.flatten())}`,
+          requestId: req.requestId,
+        });
+      }
+      const settingsError = this.workspaceSettingsError(parsed.data.settings?.model);
+      if (settingsError) {
+        return res.status(400).json({ error: settingsError, requestId: req.requestId });
+      }
+
+      const workspace = this.memory.updateWorkspace(id, parsed.data);
+      audit.workspaceChange(this.actor(req), id, { change: 'update', settings: parsed.data.settings }, true);
+      res.json({ workspace, requestId: req.requestId });
+    });
+
+    // Only a workspace without sessions can be removed; its files are left alone
+    this.app.delete('/api/workspaces/:id', this.requireRole('admin'), (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      if (!this.memory.getWorkspace(id)) {
+        return res.status(404).json({ error: 'Workspace not found', requestId: req.requestId });
+      }
+      const sessions = this.memory.countWorkspaceSessions(id);
+      if (sessions > 0) {
+        audit.workspaceChange(this.actor(req), id, { change: 'delete' }, false, 'Workspace has sessions');
+        return res.status(409).json({
+          error: `Delete the workspace's ${sessions} session(s) before removing it`,
+          requestId: req.requestId,
+        });
+      }
+
+      this.memory.deleteWorkspace(id);
+      audit.workspaceChange(this.actor(req), id, { change: 'delete' }, true);
+      res.json({ success: true, requestId: req.requestId });
+    });
+
+    // ── Users & API keys (admin) ──────────────────────────────────────────
+    // A key is returned once, when it is created; only its hash is stored
+    this.app.get('/api/users', this.requireRole('admin'), (req: Request, res: Response) => {
+      const users = this.memory.listUsers().map((u) => ({ ...u, apiKeys: this.memory.listApiKeys(u.id) }));
+      res.json({ users, requestId: req.requestId });
+    });
+
+    this.app.post('/api/users', this.requireRole('admin'), (req: Request, res: Response) => {
+      const parsed = CreateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: `Invalid user: ${JSON.stringify(parsed.error.flatten())}`,
+          requestId: req.requestId,
+        });
+      }
+      const { name, role } = parsed.data;
+      if (this.memory.getUserByName(name)) {
+        return res.status(409).json({ error: `User "${name}" already exists`, requestId: req.requestId });
+      }
+
+      const user = this.memory.createUser({ id: uuidv4(), name, role });
+      const { key, hash, prefix } = generateApiKey();
+      const apiKey = this.memory.addApiKey({ id: uuidv4(), userId: user.id, keyHash: hash, prefix });
+      audit.userChange(this.actor(req), user.id, { change: 'create', role }, true);
+      res.status(201).json({ user, apiKey, key, requestId: req.requestId });
+    });
+
+    this.app.put('/api/users/:id', this.requireRole('admin'), (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      if (!this.memory.getUser(id)) {
+        return res.status(404).json({ error: 'User not found', requestId: req.requestId });
+      }
+      const parsed = UpdateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: `Invalid user: ${JSON.stringify(parsed.error.flatten())}`,
+          requestId: req.requestId,
+        });
+      }
+      if (id === req.user.id && parsed.data.role !== 'admin') {
+        return res.status(409).json({ error: 'You cannot remove your own admin role', requestId: req.requestId });
+      }
+
+      const user = this.memory.setUserRole(id, parsed.data.role);
+      audit.userChange(this.actor(req), id, { change: 'update', role: parsed.data.role }, true);
+      res.json({ user, requestId: req.requestId });
+    });
+
+    // Their sessions are kept, and stay visible to admins
+    this.app.delete('/api/users/:id', this.requireRole('admin'), (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      if (id === req.user.id) {
+        return res.status(409).json({ error: 'You cannot remove yourself', requestId: req.requestId });
+      }
+      if (!this.memory.deleteUser(id)) {
+        return res.status(404).json({ error: 'User not found', requestId: req.requestId });
+      }
+      audit.userChange(this.actor(req), id, { change: 'delete' }, true);
+      res.json({ success: true, requestId: req.requestId });
+    });
+
+    this.app.post('/api/users/:id/keys', this.requireRole('admin'), (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      if (!this.memory.getUser(id)) {
+        return res.status(404).json({ error: 'User not found', requestId: req.requestId });
+      }
+      const { key, hash, prefix } = generateApiKey();
+      const apiKey = this.memory.addApiKey({ id: uuidv4(), userId: id, keyHash: hash, prefix });
+      audit.userChange(this.actor(req), id, { change: 'key_create', keyPrefix: prefix }, true);
+      res.status(201).json({ apiKey, key, requestId: req.requestId });
+    });
+
+    this.app.delete('/api/users/:id/keys/:keyId', this.requireRole('admin'), (req: Request, res: Response) => {
+      const id = getParam(req, 'id');
+      const keyId = getParam(req, 'keyId');
+      const apiKey = this.memory.listApiKeys(id).find((k) => k.id === keyId);
+      if (!apiKey || !this.memory.deleteApiKey(id, keyId)) {
+        return res.status(404).json({ error: 'API key not found', requestId: req.requestId });
+      }
+      audit.userChange(this.actor(req), id, { change: 'key_revoke', keyPrefix: apiKey.prefix }, true);
+      res.json({ success: true, requestId: req.requestId });
+    });
+
+    // ── Clear the database (admin; HTTP counterpart of `klaus db clear-*`) ─
+    this.app.post('/api/db/clear', this.requireRole('admin'), (req: Request, res: Response) => {
+      const parsed = ClearDatabaseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: `Invalid request: ${JSON.stringify(parsed.error.flatten())}`,
+          requestId: req.requestId,
+        });
+      }
+      const { target, category } = parsed.data;
+      if (category && target !== 'knowledge') {
+        return res.status(400).json({ error: 'category only applies to target "knowledge"', requestId: req.requestId });
+      }
+
+      try {
+        const deleted =
+          target === 'all'
+            ? this.memory.clearAll()
+            : target === 'sessions'
+              ? { sessions: this.memory.clearSessions() }
+              : { knowledge: this.memory.clearKnowledge(category) };
+        audit.databaseClear(this.actor(req), { target, category, deleted }, true);
+        logger.info('Database cleared via API', { target, category, ...deleted, requestId: req.requestId });
+        res.json({ success: true, deleted, requestId: req.requestId });
+      } catch (err: any) {
+        audit.databaseClear(this.actor(req), { target, category }, false, err.message);
+        res.status(500).json({ error: err.message, requestId: req.requestId });
+      }
+    });
+
     // ── Token usage summary ───────────────────────────────────────────────
-    this.app.get('/api/usage', (_req, res) => {
-      const total = this.memory.getTotalTokenUsage();
+    this.app.get('/api/usage', (req: Request, res: Response) => {
+      // Admins see usage across every session, other users over their own
+      const userId = hasRole(req.user, 'admin') ? undefined : req.user.id;
+      const total = this.memory.getTotalTokenUsage({ userId });
       res.json({ total });
     });
 
@@ -1006,25 +1622,41 @@ export class AgentServer {
   }
 
   private setupWebSocket(): void {
-    // Socket auth middleware — timing-safe comparison
+    // Socket auth middleware — the same keys as the HTTP API
     this.io.use((socket, next) => {
-      const secret = this.config.apiSecret;
-      if (!secret) return next();
       const token =
         socket.handshake.auth?.token ?? socket.handshake.headers?.['x-api-key'];
-      if (!token || !this.safeCompare(String(token), secret)) {
+      const user = authenticate(this.memory, this.config.apiSecret, token ? String(token) : undefined);
+      if (!user) {
         logger.warn('Unauthorized WebSocket connection', {
           socketId: socket.id,
         });
+        audit.authFailure({ ip: socket.handshake.address }, 'socket.io', token ? 'Invalid token' : 'Missing token');
         return next(new Error('Unauthorized'));
       }
+      socket.data.user = user;
       next();
     });
 
     this.io.on('connection', (socket) => {
-      logger.info('WebSocket client connected', { socketId: socket.id });
+      const user: AuthUser = socket.data.user;
+      logger.info('WebSocket client connected', { socketId: socket.id, userId: user.id });
       this.metrics.activeConnections++;
 
+      // Refuses an event the user lacks the role for, or that names someone
+      // else's session (reported as not found, like the HTTP API does)
+      const refuse = (sessionId: string | undefined, role: UserRole = 'operator'): boolean => {
+        if (!hasRole(user, role)) {
+          socket.emit('error_event', { error: `This needs the ${role} role`, code: 'FORBIDDEN' });
+          return true;
+        }
+        if (sessionId && !this.canAccessSession(user, this.memory.getSession(sessionId))) {
+          socket.emit('error_event', { error: 'Session not found' });
+          return true;
+        }
+        return false;
+      };
+
       // Rate limit wrapper for all events
       const rateLimitedHandler = <T>(
         eventName: string,
@@ -1068,20 +1700,8 @@ export class AgentServer {
             return;
           }
 
-          // Track session ownership — first socket to create or join owns it
-          const owner = this.sessionOwners.get(sessionId);
-          if (owner && owner !== socket.id) {
-            // Allow join if the session exists (user may have reconnected with new socket)
-            const session = this.memory.getSession(sessionId);
-            if (!session) {
-              socket.emit('error_event', { error: 'Session not found' });
-              return;
-            }
-          }
-
-          if (!owner) {
-            this.sessionOwners.set(sessionId, socket.id);
-          }
+          // Any user may watch their own sessions, or one about to be started
+          if (refuse(sessionId, 'viewer')) return;
 
           socket.join(sessionId);
           logger.debug('Client joined session', {
@@ -1102,7 +1722,11 @@ export class AgentServer {
             model?: string;
             planningModel?: string;
             codingModel?: string;
+            mode?: RunMode;
+            dryRun?: boolean;
+            workspaceId?: string;
           }) => {
+            if (refuse(data?.sessionId)) return;
             const sid = data.sessionId ?? uuidv4();
             socket.join(sid);
             logger.info('WebSocket prompt', {
@@ -1128,88 +1752,47 @@ export class AgentServer {
               return;
             }
 
-            // Concurrent session guard
-            if (
-              this.agent.activeSessionCount >= this.config.maxConcurrentSessions
-            ) {
-              socket.emit('agent_event', {
-                type: 'error',
-                data: {
-                  error:
-                    `Too many concurrent sessions ` +
-                    `(${this.agent.activeSessionCount}/${this.config.maxConcurrentSessions}). ` +
-                    `Wait for a running session to complete or cancel one.`,
-                },
-                timestamp: new Date(),
-              });
-              this.metrics.sessionsFailed++;
-              return;
-            }
-
-            try {
-              const result = await this.agent.run(
-                data.message,
-                sid,
-                (event: AgentEvent) => {
-                  this.io.to(sid).emit('agent_event', event);
-
-                  // Track tool call metrics
-                  if (event.type === 'tool_call') {
-                    const toolData = event.data as any;
-                    this.metrics.toolCallsTotal++;
-                    this.metrics.toolCallsByName.set(
-                      toolData.name,
-                      (this.metrics.toolCallsByName.get(toolData.name) || 0) + 1
-                    );
-                  }
-                  if (event.type === 'tool_result') {
-                    const resultData = event.data as any;
-                    if (!resultData.success) this.metrics.toolCallErrors++;
-                  }
-                },
-                { model: data.model, planningModel: data.planningModel, codingModel: data.codingModel }
-              );
-
-              // Track token usage
-              if (result.tokenUsage) {
-                this.metrics.tokensUsedTotal +=
-                  result.tokenUsage.inputTokens +
-                  result.tokenUsage.outputTokens;
-              }
-
-              this.metrics.sessionsCompleted++;
-              socket.emit('prompt_complete', { ...result });
-
-              // Send webhook notification if configured
-              await this.sendWebhook('session_complete', {
-                sessionId: sid,
-                result,
-              });
-            } catch (err: any) {
-              logger.error('WebSocket prompt error', {
-                error: err.message,
-                sessionId: sid,
-              });
-              this.metrics.sessionsFailed++;
-              socket.emit('agent_event', {
-                type: 'error',
-                data: { error: err.message, sessionId: sid },
-                timestamp: new Date(),
-              });
-
-              // Send webhook notification for failure
-              await this.sendWebhook('session_failed', {
-                sessionId: sid,
-                error: err.message,
-              });
-            }
+            await this.runOverSocket(socket, sid, 'prompt', (onEvent) =>
+              this.agent.run(data.message, sid, onEvent, {
+                model: data.model,
+                planningModel: data.planningModel,
+                codingModel: data.codingModel,
+                mode: isRunMode(data.mode) ? data.mode : 'auto',
+                dryRun: data.dryRun === true,
+                workspaceId: data.workspaceId,
+                user,
+              })
+            );
           }
         )
       );
 
+      // Resume a run that was interrupted by a shutdown, crash or error
+      socket.on(
+        'resume',
+        rateLimitedHandler('resume', async (sessionId: string) => {
+          if (
+            typeof sessionId !== 'string' ||
+            !/^[0-9a-f-]{36}$/i.test(sessionId)
+          ) {
+            socket.emit('error_event', { error: 'Invalid session ID format' });
+            return;
+          }
+          if (refuse(sessionId)) return;
+          socket.join(sessionId);
+          logger.info('WebSocket resume', { socketId: socket.id, sessionId });
+          this.metrics.sessionsStarted++;
+
+          await this.runOverSocket(socket, sessionId, 'resume', (onEvent) =>
+            this.agent.resume(sessionId, onEvent, user)
+          );
+        })
+      );
+
       socket.on(
         'cancel',
         rateLimitedHandler('cancel', (sessionId: string) => {
+          if (refuse(sessionId)) return;
           const cancelled = this.agent.cancel(sessionId);
           socket.emit('cancel_result', { cancelled, sessionId });
           logger.info('WebSocket cancel', {
@@ -1226,6 +1809,15 @@ export class AgentServer {
         rateLimitedHandler(
           'patch_approval_response',
           (data: { approved: boolean; patchId: string }) => {
+            if (
+              typeof data?.patchId !== 'string' ||
+              typeof data?.approved !== 'boolean'
+            ) {
+              socket.emit('error_event', { error: 'Invalid patch approval response' });
+              return;
+            }
+            const pending = this.agent.listPendingApprovals().find((p) => p.patchId === data.patchId);
+            if (refuse(pending?.sessionId)) return;
             logger.info('Patch approval response', {
               socketId: socket.id,
               patchId: data.patchId,
@@ -1237,11 +1829,53 @@ export class AgentServer {
         )
       );
 
+      // Tool call approval response handler (calls the workspace's permissions ask about)
+      socket.on(
+        'tool_approval_response',
+        rateLimitedHandler('tool_approval_response', (data: { approvalId: string; approved: boolean }) => {
+          if (typeof data?.approvalId !== 'string' || typeof data?.approved !== 'boolean') {
+            socket.emit('error_event', { error: 'Invalid tool approval response' });
+            return;
+          }
+          const pending = this.agent.listPendingToolApprovals().find((p) => p.approvalId === data.approvalId);
+          if (refuse(pending?.sessionId)) return;
+          logger.info('Tool approval response', {
+            socketId: socket.id,
+            approvalId: data.approvalId,
+            tool: pending?.toolName,
+            approved: data.approved,
+          });
+          this.agent.resolveToolApproval(data.approvalId, data.approved);
+        })
+      );
+
+      // Plan review response handler (runs started with mode 'plan')
+      socket.on(
+        'plan_response',
+        rateLimitedHandler(
+          'plan_response',
+          (data: { planId: string; approved: boolean; plan?: unknown; feedback?: string }) => {
+            const decision = parsePlanDecision(data);
+            if (typeof data?.planId !== 'string' || typeof decision === 'string') {
+              socket.emit('error_event', {
+                error: `Invalid plan response${typeof decision === 'string' ? `: ${decision}` : ''}`,
+              });
+              return;
+            }
+            const pending = this.agent.listPendingPlans().find((p) => p.planId === data.planId);
+            if (refuse(pending?.sessionId)) return;
+            logger.info('Plan response', {
+              socketId: socket.id,
+              planId: data.planId,
+              approved: decision.approved,
+              edited: !!decision.plan,
+            });
+            this.agent.resolvePlan(data.planId, decision);
+          }
+        )
+      );
+
       socket.on('disconnect', () => {
-        // Clean up session ownership for this socket
-        for (const [sid, owner] of this.sessionOwners.entries()) {
-          if (owner === socket.id) this.sessionOwners.delete(sid);
-        }
         // Clean up rate limit tracking
         this.socketRateLimits.delete(socket.id);
         this.metrics.activeConnections--;
@@ -1250,6 +1884,106 @@ export class AgentServer {
     });
   }
 
+  // ─── Workspaces ─────────────────────────────────────────────────────────────
+
+  // Root of a workspace named in a request; absent or 'default' is AGENT_WORKSPACE, unknown is null
+  private workspaceDir(workspaceId: unknown): string | null {
+    if (workspaceId === undefined || workspaceId === DEFAULT_WORKSPACE_ID) return this.config.workspaceDir;
+    if (typeof workspaceId !== 'string') return null;
+    return this.memory.getWorkspace(workspaceId)?.path ?? null;
+  }
+
+  private workspaceSettingsError(model: string | undefined): string | null {
+    if (model && !this.agent.selectableModels.includes(model)) {
+      return `Unknown model "${model}". Available: ${this.agent.selectableModels.join(', ')}`;
+    }
+    return null;
+  }
+
+  // ─── Socket-driven runs ─────────────────────────────────────────────────────
+  // Shared by the prompt and resume events: concurrency guard, event relay to
+  // the session room with metrics, completion/failure reporting and webhooks.
+
+  private async runOverSocket(
+    socket: Socket,
+    sid: string,
+    kind: 'prompt' | 'resume',
+    start: (onEvent: (event: AgentEvent) => void) => Promise<AgentRunResult>
+  ): Promise<void> {
+    // Concurrent session guard
+    if (this.agent.activeSessionCount >= this.config.maxConcurrentSessions) {
+      socket.emit('agent_event', {
+        type: 'error',
+        data: {
+          error:
+            `Too many concurrent sessions ` +
+            `(${this.agent.activeSessionCount}/${this.config.maxConcurrentSessions}). ` +
+            `Wait for a running session to complete or cancel one.`,
+        },
+        timestamp: new Date(),
+      });
+      this.metrics.sessionsFailed++;
+      return;
+    }
+
+    try {
+      const result = await start((event: AgentEvent) => {
+        this.io.to(sid).emit('agent_event', event);
+
+        // Track tool call metrics
+        if (event.type === 'tool_call') {
+          const toolData = event.data as any;
+          this.metrics.toolCallsTotal++;
+          this.metrics.toolCallsByName.set(
+            toolData.name,
+            (this.metrics.toolCallsByName.get(toolData.name) || 0) + 1
+          );
+        }
+        if (event.type === 'tool_result') {
+          const resultData = event.data as any;
+          if (!resultData.success) {
+            this.metrics.toolCallErrors++;
+            // Failures the agent loop refused itself (CI gate, plan review) have no code
+            const code = resultData.errorCode ?? 'NONE';
+            this.metrics.toolCallErrorsByCode.set(code, (this.metrics.toolCallErrorsByCode.get(code) || 0) + 1);
+          }
+        }
+      });
+
+      // Track token usage
+      if (result.tokenUsage) {
+        this.metrics.tokensUsedTotal +=
+          result.tokenUsage.inputTokens + result.tokenUsage.outputTokens;
+      }
+
+      this.metrics.sessionsCompleted++;
+      socket.emit('prompt_complete', { ...result });
+
+      // Send webhook notification if configured
+      await this.sendWebhook('session_complete', {
+        sessionId: sid,
+        result,
+      });
+    } catch (err: any) {
+      logger.error(`WebSocket ${kind} error`, {
+        error: err.message,
+        sessionId: sid,
+      });
+      this.metrics.sessionsFailed++;
+      socket.emit('agent_event', {
+        type: 'error',
+        data: { error: err.message, sessionId: sid },
+        timestamp: new Date(),
+      });
+
+      // Send webhook notification for failure
+      await this.sendWebhook('session_failed', {
+        sessionId: sid,
+        error: err.message,
+      });
+    }
+  }
+
   // ─── Webhook notifications ──────────────────────────────────────────────────
 
   private async sendWebhook(event: string, data: any): Promise<void> {
@@ -1278,6 +2012,10 @@ export class AgentServer {
   }
 
   async start(): Promise<void> {
+    // Nothing can be running before we listen — any run still marked running
+    // belongs to a previous process that died, so offer it for resume.
+    this.memory.markRunsInterrupted();
+
     return new Promise((resolve) => {
       this.httpServer.listen(this.port, () => {
         logger.info(`AgentServer listening on port ${this.port}`);
@@ -1298,12 +2036,6 @@ export class AgentServer {
       this.sessionCleanupTimer = null;
     }
 
-    // Stop stale socket cleanup timer
-    if (this.staleSocketCleanupTimer) {
-      clearInterval(this.staleSocketCleanupTimer);
-      this.staleSocketCleanupTimer = null;
-    }
-
     // Notify all connected clients
     this.io.emit('server_shutdown', { message: 'Server is shutting down' });
 
@@ -1313,6 +2045,14 @@ export class AgentServer {
           activeRequests: this.activeRequests,
           activeSessions: this.agent.activeSessionCount,
         });
+        clearInterval(checkComplete);
+        // Runs still in flight are checkpointed — list them as interrupted.
+        // Nothing may throw from this timer: the database can already be closed.
+        try {
+          this.memory.markRunsInterrupted();
+        } catch (err) {
+          logger.warn('Could not mark in-flight runs as interrupted', { error: (err as Error).message });
+        }
         this.io.close();
         this.httpServer.close();
         resolve();
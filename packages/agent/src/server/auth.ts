@@ -0,0 +1,88 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { USER_ROLES, type DatabaseMemory, type UserRole } from '../memory/DatabaseMemory';
+
+// ─── Users & API keys ─────────────────────────────────────────────────────────
+// Every request and socket authenticates as a user: one of the users in the
+// database, by a personal API key, or — with the shared AGENT_API_SECRET — a
+// built-in admin. With neither a secret nor any user the server is open and
+// everyone is that admin (a warning is emitted at startup).
+
+/** Who a request or socket runs as. */
+export interface AuthUser {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export const SHARED_SECRET_USER: AuthUser = { id: 'shared-secret', name: 'shared-secret', role: 'admin' };
+export const LOCAL_USER: AuthUser = { id: 'local', name: 'local', role: 'admin' };
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+/** Whether `user` has `role` or a role above it. */
+export function hasRole(user: Pick<AuthUser, 'role'>, role: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+export const API_KEY_PREFIX = 'klaus_';
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf8').digest('hex');
+}
+
+/** A new key, shown to its user once; only its hash and first characters are stored. */
+export function generateApiKey(): { key: string; hash: string; prefix: string } {
+  const key = API_KEY_PREFIX + randomBytes(24).toString('base64url');
+  return { key, hash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX.length + 6) };
+}
+
+// Timing-safe, so the secret cannot be guessed byte by byte
+function safeCompare(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a, 'utf8');
+  const bBuf = Buffer.from(b, 'utf8');
+  if (aBuf.length !== bBuf.length) {
+    // Compare against self to keep constant time, then return false
+    timingSafeEqual(aBuf, aBuf);
+    return false;
+  }
+  return timingSafeEqual(aBuf, bBuf);
+}
+
+/** Whether requests must present a key: a shared secret is set, or any user exists. */
+export function authRequired(memory: DatabaseMemory, secret: string | undefined): boolean {
+  return !!secret || memory.countUsers() > 0;
+}
+
+/** The user a token authenticates as, or undefined when it does not; an open server ignores tokens. */
+export function authenticate(
+  memory: DatabaseMemory,
+  secret: string | undefined,
+  token: string | undefined
+): AuthUser | undefined {
+  if (!authRequired(memory, secret)) return LOCAL_USER;
+  if (!token) return undefined;
+  if (secret && safeCompare(token, secret)) return SHARED_SECRET_USER;
+  if (!token.startsWith(API_KEY_PREFIX)) return undefined;
+  const user = memory.findUserByKeyHash(hashApiKey(token));
+  return user ? { id: user.id, name: user.name, role: user.role } : undefined;
+}
+
+export const CreateUserSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'name is required')
+    .max(100)
+    .regex(/^[\w.@-]+$/, 'name may only contain letters, digits, ".", "@", "_" and "-"'),
+  role: z.enum(USER_ROLES),
+});
+
+export const UpdateUserSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+export const ClearDatabaseSchema = z.object({
+  target: z.enum(['sessions', 'knowledge', 'all']),
+  category: z.string().min(1).optional().describe('With target "knowledge": only this category.'),
+});
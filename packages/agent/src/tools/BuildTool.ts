@@ -1,8 +1,10 @@
 import * as path from 'path';
 import * as fs   from 'fs-extra';
 import { logger } from '../logger';
-import type { DockerSandbox } from '../sandbox/DockerSandbox';
+import { hostProcessEnv } from '../utils/env';
+import type { DockerSandbox, OutputListener, SandboxNetwork } from '../sandbox/DockerSandbox';
 import type { NpmInstallInput, NpmRunInput, TscCheckInput } from './schemas';
+import { PathOutsideWorkspaceError, ScriptNotFoundError, ToolError } from './ToolError';
 
 // ─── Hardcoded binaries ───────────────────────────────────────────────────────
 const NPM_BIN  = 'npm';
@@ -31,7 +33,11 @@ export class BuildTool {
 
   // ─── npm install ─────────────────────────────────────────────────────────
 
-  async npmInstall(input: NpmInstallInput): Promise<BuildResult> {
+  async npmInstall(
+    input: NpmInstallInput,
+    onOutput?: OutputListener,
+    network: SandboxNetwork = 'none',
+  ): Promise<BuildResult> {
     const cwd = this.resolvePackageDir(input.packageDir);
     await this.assertPackageJson(cwd);
 
@@ -42,40 +48,43 @@ export class BuildTool {
     }
 
     const command = `${NPM_BIN} ${args.join(' ')}`;
-    logger.info('Running npm install', { cwd, packages: input.packages, sandboxed: !!this.sandbox });
-    return this.runProcess(NPM_BIN, args, cwd, 300_000, command);
+    logger.info('Running npm install', { cwd, packages: input.packages, sandboxed: !!this.sandbox, network });
+    return this.runProcess(NPM_BIN, args, cwd, 300_000, command, {}, onOutput, network);
   }
 
   // ─── npm run <script> ─────────────────────────────────────────────────────
 
-  async npmRun(input: NpmRunInput): Promise<BuildResult> {
+  async npmRun(input: NpmRunInput, onOutput?: OutputListener): Promise<BuildResult> {
     const cwd = this.resolvePackageDir(input.packageDir);
     await this.assertPackageJson(cwd);
 
     const check = await this.checkScript(cwd, input.script);
     if (!check.exists) {
-      throw new Error(
+      throw new ScriptNotFoundError(
         `Script "${input.script}" not found in package.json. ` +
         `Available scripts: ${check.availableScripts.join(', ') || 'none'}`,
+        check.availableScripts.length > 0
+          ? `Run one of the available scripts, or add "${input.script}" to package.json first.`
+          : `package.json has no scripts. Add "${input.script}" to its "scripts" first.`,
       );
     }
 
     const args    = ['run', input.script];
     const command = `${NPM_BIN} ${args.join(' ')}`;
     logger.info('Running npm script', { script: input.script, cwd, sandboxed: !!this.sandbox });
-    return this.runProcess(NPM_BIN, args, cwd, input.timeout, command, input.env ?? {});
+    return this.runProcess(NPM_BIN, args, cwd, input.timeout, command, input.env ?? {}, onOutput);
   }
 
   // ─── tsc --noEmit ─────────────────────────────────────────────────────────
 
-  async tscCheck(input: TscCheckInput): Promise<BuildResult> {
+  async tscCheck(input: TscCheckInput, onOutput?: OutputListener): Promise<BuildResult> {
     const cwd  = this.resolvePackageDir(input.packageDir);
     const args = [...TSC_ARGS];
     if (!input.emitFiles) args.push('--noEmit');
 
     const command = `${TSC_BIN} ${args.join(' ')}`;
     logger.info('Running TypeScript check', { cwd, emitFiles: input.emitFiles, sandboxed: !!this.sandbox });
-    return this.runProcess(TSC_BIN, args, cwd, 120_000, command);
+    return this.runProcess(TSC_BIN, args, cwd, 120_000, command, {}, onOutput);
   }
 
   // ─── Core process runner ──────────────────────────────────────────────────
@@ -87,6 +96,8 @@ export class BuildTool {
     timeout:  number,
     command:  string,
     extraEnv: Record<string, string> = {},
+    onOutput?: OutputListener,
+    network:  SandboxNetwork = 'none',
   ): Promise<BuildResult> {
     // ── Docker sandbox path ───────────────────────────────────────────────
     if (this.sandbox) {
@@ -96,6 +107,8 @@ export class BuildTool {
       const result = await this.sandbox.execute(containerCmd, this.workspaceDir, {
         timeout,
         env: { ...extraEnv },
+        network,
+        onOutput,
       });
 
       const success = result.exitCode === 0;
@@ -115,7 +128,7 @@ export class BuildTool {
       const child = spawn(bin, args, {
         cwd,
         shell: false,
-        env: { ...process.env, ...extraEnv, PATH: process.env.PATH! },
+        env: hostProcessEnv(extraEnv), // allowlisted — no agent credentials
       });
 
       const timer = setTimeout(() => {
@@ -126,12 +139,14 @@ export class BuildTool {
       }, timeout);
 
       child.stdout.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stdout');
         if (!stdoutCapped) {
           stdout += d.toString();
           if (stdout.length > MAX_OUTPUT) { stdout = stdout.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stdoutCapped = true; }
         }
       });
       child.stderr.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stderr');
         if (!stderrCapped) {
           stderr += d.toString();
           if (stderr.length > MAX_OUTPUT) { stderr = stderr.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stderrCapped = true; }
@@ -183,14 +198,18 @@ export class BuildTool {
     const resolved  = path.resolve(this.workspaceDir, sanitized);
     const prefix    = this.workspaceDir.endsWith(path.sep) ? this.workspaceDir : this.workspaceDir + path.sep;
     if (resolved !== this.workspaceDir && !resolved.startsWith(prefix)) {
-      throw new Error(`Access denied: packageDir "${packageDir}" resolves outside the workspace.`);
+      throw new PathOutsideWorkspaceError(`Access denied: packageDir "${packageDir}" resolves outside the workspace.`);
     }
     return resolved;
   }
 
   private async assertPackageJson(cwd: string): Promise<void> {
     if (!(await fs.pathExists(path.join(cwd, 'package.json')))) {
-      throw new Error(`No package.json found in ${cwd}`);
+      throw new ToolError(
+        'FILE_NOT_FOUND',
+        `No package.json found in ${cwd}`,
+        'Point packageDir at the directory that holds package.json, e.g. "packages/app".',
+      );
     }
   }
 
@@ -1,6 +1,8 @@
 import * as path from 'path';
 import { spawn } from 'child_process';
 import { logger } from '../logger';
+import { hostProcessEnv } from '../utils/env';
+import type { OutputListener } from '../sandbox/DockerSandbox';
 import type { RunCIInput } from './schemas';
 
 // The `act` command used to run GitHub Actions workflows locally.
@@ -11,6 +13,9 @@ const ACT_BASE_ARGS = [
   '--container-architecture', 'linux/amd64',
 ];
 
+// act starts the workflow's containers through the host's Docker daemon
+const DOCKER_ENV_KEYS = ['DOCKER_HOST', 'DOCKER_CONTEXT', 'DOCKER_CONFIG', 'DOCKER_CERT_PATH', 'DOCKER_TLS_VERIFY'];
+
 // How much of the tail to keep as raw_output.
 // Failures almost always appear at the end; the head is dominated by
 // docker-pull progress bars, apt-get installs, and other setup noise.
@@ -35,7 +40,7 @@ export interface CIResult {
 export class CITool {
   constructor(private readonly workspaceDir: string) {}
 
-  async runCI(input: RunCIInput): Promise<CIResult> {
+  async runCI(input: RunCIInput, onOutput?: OutputListener): Promise<CIResult> {
     const cwd = input.directory
       ? path.resolve(this.workspaceDir, input.directory.replace(/^[/\\]+/, ''))
       : this.workspaceDir;
@@ -61,6 +66,7 @@ export class CITool {
       args,
       cwd,
       input.timeout,
+      onOutput,
     );
 
     const duration_ms = Date.now() - start;
@@ -222,6 +228,7 @@ export class CITool {
     args: string[],
     cwd: string,
     timeout: number,
+    onOutput?: OutputListener,
   ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
     const MAX_OUTPUT = 10 * 1024 * 1024; // 10 MB in-memory cap (before our own truncation)
 
@@ -232,7 +239,8 @@ export class CITool {
       const child = spawn(bin, args, {
         cwd,
         shell: false,
-        env: { ...process.env },
+        // Allowlisted, plus what act needs to reach Docker — no agent credentials
+        env: hostProcessEnv({}, DOCKER_ENV_KEYS),
       });
 
       const timer = setTimeout(() => {
@@ -243,6 +251,7 @@ export class CITool {
       }, timeout);
 
       child.stdout.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stdout');
         if (!stdoutCapped) {
           stdout += d.toString();
           if (stdout.length > MAX_OUTPUT) {
@@ -253,6 +262,7 @@ export class CITool {
       });
 
       child.stderr.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stderr');
         if (!stderrCapped) {
           stderr += d.toString();
           if (stderr.length > MAX_OUTPUT) {
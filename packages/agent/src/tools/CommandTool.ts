@@ -0,0 +1,275 @@
+import * as path from 'path';
+import * as fs   from 'fs-extra';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { logger } from '../logger';
+import { globToRegExp } from '../utils/glob';
+import { hostProcessEnv, scrubbedSandboxEnv } from '../utils/env';
+import type { DockerSandbox, OutputListener } from '../sandbox/DockerSandbox';
+import type { RunCommandInput } from './schemas';
+import { PathOutsideWorkspaceError, SandboxUnavailableError, ToolError } from './ToolError';
+
+// ─── Policy-gated commands ────────────────────────────────────────────────────
+// run_command runs any program the workspace allows in .agent/commands.yml —
+// make, python, go test, curl against a local server — without a shell. It
+// runs in the Docker sandbox with the same limits as every other tool; with
+// DOCKER_ENABLED=false it refuses unless the operator sets
+// AGENT_ALLOW_HOST_COMMANDS=true. A workspace cannot grant itself host access,
+// and the agent cannot rewrite the policy (FileTool refuses edits under .agent/).
+
+export const COMMANDS_POLICY_FILE = path.join('.agent', 'commands.yml');
+
+// Never runnable, whatever the policy says
+const BUILTIN_DENIED = ['sudo', 'su', 'doas'];
+
+// A bare program name, or ./path relative to the workspace root
+const COMMAND_NAME = /^([A-Za-z0-9._+-]+|\.(\/[A-Za-z0-9._+-]+)+)$/;
+
+const MAX_OUTPUT = 5 * 1024 * 1024; // 5MB cap per stream
+
+const PolicyRegexSchema = z.string().min(1).refine(
+  (source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid regular expression' }
+);
+
+// "make" is shorthand for { command: make } — any arguments
+const RuleSchema = z.union([
+  z.string().min(1).transform((command) => ({ command, args: undefined })),
+  z.object({
+    command: z.string().min(1), // glob, e.g. "./scripts/*.sh"
+    args: z.array(PolicyRegexSchema).min(1).optional(), // regexes, each matched against a whole argument
+  }),
+]);
+
+export const CommandsPolicySchema = z.object({
+  // Allowed when the command matches and every argument matches one of `args`
+  allow: z.array(RuleSchema).default([]),
+  // Denied when the command matches and any argument matches one of `args`
+  // (or always, without `args`). Deny wins over allow.
+  deny: z.array(RuleSchema).default([]),
+});
+
+export type CommandsPolicy = z.infer<typeof CommandsPolicySchema>;
+type Rule = CommandsPolicy['allow'][number];
+
+export interface CommandResult {
+  success:    boolean;
+  stdout:     string;
+  stderr:     string;
+  exitCode:   number;
+  durationMs: number;
+  command:    string;
+  sandboxed:  boolean;
+}
+
+/**
+ * Reads .agent/commands.yml from the workspace. Without one, run_command is
+ * off; an invalid one throws so the mistake is not silently ignored.
+ */
+export async function loadCommandsPolicy(workspaceDir: string): Promise<CommandsPolicy | null> {
+  const file = path.join(workspaceDir, COMMANDS_POLICY_FILE);
+  if (!(await fs.pathExists(file))) return null;
+  const parsed = CommandsPolicySchema.safeParse(yaml.load(await fs.readFile(file, 'utf8')) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid ${COMMANDS_POLICY_FILE}: ${JSON.stringify(parsed.error.flatten())}`);
+  }
+  return parsed.data;
+}
+
+/** Why the policy refuses this command line, or null when it is allowed. */
+export function checkCommand(policy: CommandsPolicy, command: string, args: string[]): string | null {
+  const line = [command, ...args].join(' ');
+  if (BUILTIN_DENIED.includes(path.posix.basename(command))) {
+    return `"${command}" is never allowed.`;
+  }
+
+  const denied = policy.deny.find(
+    (rule) => matchesCommand(rule, command) && (!rule.args || args.some((a) => matchesAny(rule.args!, a)))
+  );
+  if (denied) {
+    return `"${line}" is denied by ${COMMANDS_POLICY_FILE}` +
+      (denied.args ? ` (an argument matches ${denied.args.join(', ')}).` : '.');
+  }
+
+  const allowed = policy.allow.some(
+    (rule) => matchesCommand(rule, command) && (!rule.args || args.every((a) => matchesAny(rule.args!, a)))
+  );
+  if (!allowed) {
+    const commands = [...new Set(policy.allow.map((r) => r.command))];
+    return `"${line}" is not allowed by ${COMMANDS_POLICY_FILE}. ` +
+      `Allowed commands: ${commands.join(', ') || 'none'}`;
+  }
+  return null;
+}
+
+function matchesCommand(rule: Rule, command: string): boolean {
+  return globToRegExp(rule.command).test(command);
+}
+
+// Argument patterns match the whole argument: "localhost" is not "http://evil/?localhost"
+function matchesAny(patterns: string[], arg: string): boolean {
+  return patterns.some((p) => new RegExp(`^(?:${p})$`).test(arg));
+}
+
+// Single-quote for `sh -c` inside the sandbox; no expansion happens inside '...'
+function shellQuote(s: string): string {
+  return /^[A-Za-z0-9._+\-/=:@,]+$/.test(s) ? s : `'${s.replace(/'/g, `'\\''`)}'`;
+}
+
+export class CommandTool {
+  constructor(
+    private readonly workspaceDir: string,
+    private readonly sandbox: DockerSandbox | null = null,
+    private readonly allowHost = false,
+  ) {}
+
+  async runCommand(input: RunCommandInput, onOutput?: OutputListener): Promise<CommandResult> {
+    // ── 1. Where it may run ───────────────────────────────────────────────
+    if (!this.sandbox && !this.allowHost) {
+      throw new SandboxUnavailableError(
+        'run_command runs in the Docker sandbox, which is off (DOCKER_ENABLED=false). ' +
+        'Set AGENT_ALLOW_HOST_COMMANDS=true to run allowed commands on the host.',
+      );
+    }
+
+    // ── 2. What may run ───────────────────────────────────────────────────
+    if (!COMMAND_NAME.test(input.command) || input.command.split('/').includes('..')) {
+      throw new ToolError(
+        'COMMAND_NOT_ALLOWED',
+        `Invalid command "${input.command}": use a program name or a ./path inside the workspace. ` +
+        'Pass arguments in args.',
+      );
+    }
+    const policy = await loadCommandsPolicy(this.workspaceDir);
+    if (!policy) {
+      throw new ToolError(
+        'COMMAND_NOT_ALLOWED',
+        `run_command is not enabled for this workspace: add ${COMMANDS_POLICY_FILE} listing the allowed commands.`,
+        'Only the user can enable run_command. Use the dedicated tools (npm_run, run_tests, tsc_check) instead.',
+      );
+    }
+    const refusal = checkCommand(policy, input.command, input.args);
+    if (refusal) {
+      throw new ToolError(
+        'COMMAND_NOT_ALLOWED',
+        refusal,
+        `Run only what ${COMMANDS_POLICY_FILE} allows; other arguments or programs will be refused too.`,
+      );
+    }
+
+    const cwd = this.resolveCwd(input.cwd);
+    logger.info('Running command', {
+      command: input.command, args: input.args, cwd, sandboxed: !!this.sandbox,
+    });
+
+    // ── 3. Run ────────────────────────────────────────────────────────────
+    return this.sandbox
+      ? this.runInSandbox(this.sandbox, input, cwd, onOutput)
+      : this.runOnHost(input, cwd, onOutput);
+  }
+
+  private async runInSandbox(
+    sandbox:   DockerSandbox,
+    input:     RunCommandInput,
+    cwd:       string,
+    onOutput?: OutputListener,
+  ): Promise<CommandResult> {
+    const containerCwd = this.hostToContainer(cwd);
+    const cdPrefix     = containerCwd !== '/workspace' ? `cd ${shellQuote(containerCwd)} && ` : '';
+    // ./paths are relative to the workspace root, whatever the cwd
+    const bin          = input.command.startsWith('./') ? `/workspace/${input.command.slice(2)}` : input.command;
+    const containerCmd = `${cdPrefix}exec ${[bin, ...input.args].map(shellQuote).join(' ')}`;
+
+    const start  = Date.now();
+    const result = await sandbox.execute(containerCmd, this.workspaceDir, {
+      timeout: input.timeout,
+      env:     scrubbedSandboxEnv(),
+      onOutput,
+    });
+
+    const success = result.exitCode === 0;
+    if (!success) logger.warn('Sandboxed command failed', { command: containerCmd, exitCode: result.exitCode });
+    return {
+      success, stdout: result.stdout, stderr: result.stderr, exitCode: result.exitCode,
+      durationMs: Date.now() - start, command: containerCmd, sandboxed: true,
+    };
+  }
+
+  private async runOnHost(
+    input:     RunCommandInput,
+    cwd:       string,
+    onOutput?: OutputListener,
+  ): Promise<CommandResult> {
+    const { spawn } = await import('child_process');
+    const start     = Date.now();
+    const command   = [input.command, ...input.args].join(' ');
+    const bin       = input.command.startsWith('./') ? path.join(this.workspaceDir, input.command) : input.command;
+
+    return new Promise((resolve, reject) => {
+      let stdout = '', stderr = '', timedOut = false;
+      let stdoutCapped = false, stderrCapped = false;
+
+      const child = spawn(bin, input.args, {
+        cwd,
+        shell: false,
+        env:   hostProcessEnv(), // allowlisted — no agent credentials
+      });
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGTERM');
+        setTimeout(() => child.kill('SIGKILL'), 5000).unref();
+        logger.warn('Command timed out', { command, timeout: input.timeout });
+      }, input.timeout);
+
+      child.stdout.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stdout');
+        if (!stdoutCapped) {
+          stdout += d.toString();
+          if (stdout.length > MAX_OUTPUT) { stdout = stdout.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stdoutCapped = true; }
+        }
+      });
+      child.stderr.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stderr');
+        if (!stderrCapped) {
+          stderr += d.toString();
+          if (stderr.length > MAX_OUTPUT) { stderr = stderr.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stderrCapped = true; }
+        }
+      });
+      child.on('error', (err) => { clearTimeout(timer); reject(new Error(`Failed to start ${input.command}: ${err.message}`)); });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        const durationMs = Date.now() - start;
+        const exitCode   = timedOut ? 124 : (code ?? 0);
+        const success    = exitCode === 0;
+        logger.info('Command complete', { command, exitCode, durationMs });
+        if (!success) logger.warn('Command failed', { command, exitCode, stderr: stderr.slice(0, 500) });
+        resolve({ success, stdout, stderr, exitCode, durationMs, command, sandboxed: false });
+      });
+    });
+  }
+
+  // ─── Guards ───────────────────────────────────────────────────────────────
+
+  private resolveCwd(cwd: string): string {
+    const sanitized = cwd.replace(/^[/\\]+/, '');
+    const resolved  = path.resolve(this.workspaceDir, sanitized);
+    const prefix    = this.workspaceDir.endsWith(path.sep) ? this.workspaceDir : this.workspaceDir + path.sep;
+    if (resolved !== this.workspaceDir && !resolved.startsWith(prefix)) {
+      throw new PathOutsideWorkspaceError(`Access denied: cwd "${cwd}" resolves outside the workspace.`);
+    }
+    return resolved;
+  }
+
+  private hostToContainer(hostPath: string): string {
+    const rel = path.relative(this.workspaceDir, hostPath);
+    return rel === '' ? '/workspace' : `/workspace/${rel.split(path.sep).join('/')}`;
+  }
+}
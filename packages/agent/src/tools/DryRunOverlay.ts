@@ -0,0 +1,196 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { createTwoFilesPatch } from 'diff';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../logger';
+import { globToRegExp } from '../utils/glob';
+
+// ─── Dry-run overlay ──────────────────────────────────────────────────────────
+// A dry run edits an in-memory copy of the workspace. write_file, apply_patch
+// and delete_file change the overlay instead of disk, and read_file,
+// list_files and search_files see those changes layered over the real files.
+// Every other tool with side effects (git_push, deploy_*, terraform_apply, ...)
+// is recorded as an intent instead of running. When the run ends, the overlay
+// becomes one unified diff; applying it writes the files for real.
+
+// Tools that work against the overlay in a dry run; any other tool that is not
+// read-only is recorded instead of run
+export const OVERLAY_TOOLS: ReadonlySet<string> = new Set([
+  'read_file', 'write_file', 'apply_patch', 'delete_file', 'list_files', 'search_files',
+]);
+
+export interface DryRunFileChange {
+  path: string; // relative to the workspace root, forward slashes
+  operation: 'create' | 'modify' | 'delete';
+  diff: string;
+}
+
+export interface BlockedSideEffect {
+  id: string;
+  tool: string;
+  input: unknown;
+  recordedAt: Date;
+}
+
+export interface DryRunReport {
+  diff: string; // every file change, as one unified diff
+  files: DryRunFileChange[];
+  sideEffects: BlockedSideEffect[];
+}
+
+interface OverlayEntry {
+  original: string | null; // disk content when first touched (null = did not exist)
+  content: string | null; // content now (null = deleted)
+}
+
+/**
+ * Matches a workspace-relative path against a glob as fast-glob would for the
+ * patterns list_files and search_files get: globToRegExp's rules, plus one
+ * level of `{a,b}` alternatives, which the search_files default glob uses.
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const braces = /\{([^{}]*)\}/.exec(pattern);
+  if (!braces) return globToRegExp(pattern).test(relativePath);
+  const [before, after] = [pattern.slice(0, braces.index), pattern.slice(braces.index + braces[0].length)];
+  return braces[1].split(',').some((alternative) => matchesGlob(relativePath, before + alternative + after));
+}
+
+export class DryRunOverlay {
+  readonly root: string; // the workspace it overlays
+  private readonly entries = new Map<string, OverlayEntry>();
+  private readonly intents: BlockedSideEffect[] = [];
+
+  constructor(workspaceDir: string) {
+    this.root = path.resolve(workspaceDir);
+  }
+
+  /** Whether the overlay holds a version of this absolute path. */
+  has(absolutePath: string): boolean {
+    return this.entries.has(absolutePath);
+  }
+
+  /** Content as the dry run sees it: the overlay's, else disk's. null = no such file. */
+  async read(absolutePath: string): Promise<string | null> {
+    const entry = this.entries.get(absolutePath);
+    if (entry) return entry.content;
+    return this.readDisk(absolutePath);
+  }
+
+  /** Sets a file's content in the overlay; null deletes it. */
+  async write(absolutePath: string, content: string | null): Promise<void> {
+    const entry = this.entries.get(absolutePath);
+    if (entry) {
+      entry.content = content;
+      return;
+    }
+    this.entries.set(absolutePath, { original: await this.readDisk(absolutePath), content });
+  }
+
+  /** Deletes a file, or every file under a directory, in the overlay. */
+  async remove(absolutePath: string): Promise<void> {
+    const prefix = absolutePath + path.sep;
+    const stat = await fs.stat(absolutePath).catch(() => null);
+    const onDisk = stat?.isDirectory()
+      ? (await fg('**/*', { cwd: absolutePath, dot: true, onlyFiles: true })).map((f) => path.join(absolutePath, f))
+      : [];
+    const inOverlay = [...this.entries.keys()].filter((p) => p.startsWith(prefix));
+    for (const file of new Set([absolutePath, ...onDisk, ...inOverlay])) {
+      if (file === absolutePath && stat?.isDirectory()) continue;
+      await this.write(file, null);
+    }
+  }
+
+  /**
+   * Files the overlay created or deleted under `dir`, relative to it — so a
+   * listing or search can add the one and drop the other.
+   */
+  changesUnder(dir: string): { created: string[]; deleted: Set<string> } {
+    const prefix = dir.endsWith(path.sep) ? dir : dir + path.sep;
+    const created: string[] = [];
+    const deleted = new Set<string>();
+    for (const [file, entry] of this.entries) {
+      if (!file.startsWith(prefix)) continue;
+      const relative = path.relative(dir, file).split(path.sep).join('/');
+      if (entry.content === null) deleted.add(relative);
+      else if (entry.original === null) created.push(relative);
+    }
+    return { created, deleted };
+  }
+
+  /** Records a side effect the dry run did not perform. */
+  record(tool: string, input: unknown): BlockedSideEffect {
+    const intent = { id: uuidv4(), tool, input, recordedAt: new Date() };
+    this.intents.push(intent);
+    logger.info('Dry run recorded side effect', { tool, id: intent.id });
+    return intent;
+  }
+
+  get sideEffects(): readonly BlockedSideEffect[] {
+    return this.intents;
+  }
+
+  changes(): DryRunFileChange[] {
+    return [...this.entries.entries()]
+      .filter(([, e]) => e.original !== e.content)
+      .map(([file, e]) => {
+        const relative = path.relative(this.root, file).split(path.sep).join('/');
+        return {
+          path: relative,
+          operation: e.content === null ? 'delete' : e.original === null ? 'create' : 'modify',
+          diff: createTwoFilesPatch(
+            e.original === null ? '/dev/null' : `a/${relative}`,
+            e.content === null ? '/dev/null' : `b/${relative}`,
+            e.original ?? '',
+            e.content ?? ''
+          ),
+        } satisfies DryRunFileChange;
+      })
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  report(): DryRunReport {
+    const files = this.changes();
+    return { diff: files.map((f) => f.diff).join(''), files, sideEffects: [...this.intents] };
+  }
+
+  /**
+   * Writes the overlay's changes to disk. Refuses, and writes nothing, if any
+   * file changed on disk since the dry run first read it.
+   */
+  async apply(): Promise<DryRunFileChange[]> {
+    const changes = this.changes();
+    const changed = new Set(changes.map((c) => c.path));
+    const conflicts: string[] = [];
+    for (const [file, entry] of this.entries) {
+      const relative = path.relative(this.root, file).split(path.sep).join('/');
+      if (changed.has(relative) && (await this.readDisk(file)) !== entry.original) conflicts.push(relative);
+    }
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Changed on disk since the dry run read them: ${conflicts.join(', ')}. Run the dry run again.`
+      );
+    }
+
+    for (const [file, entry] of this.entries) {
+      if (entry.original === entry.content) continue;
+      if (entry.content === null) {
+        await fs.remove(file);
+      } else {
+        await fs.ensureDir(path.dirname(file));
+        await fs.writeFile(file, entry.content, 'utf8');
+      }
+    }
+    logger.info('Dry run applied', { files: changes.length });
+    return changes;
+  }
+
+  private async readDisk(absolutePath: string): Promise<string | null> {
+    try {
+      const stat = await fs.stat(absolutePath);
+      return stat.isFile() ? await fs.readFile(absolutePath, 'utf8') : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -3,6 +3,14 @@ import * as path from 'path';
 import fg from 'fast-glob';
 import { applyPatch, createPatch } from 'diff';
 import { logger } from '../logger';
+import { matchesGlob, type DryRunOverlay } from './DryRunOverlay';
+import {
+  FileNotFoundError,
+  IgnoredPathError,
+  PatchContextMismatchError,
+  PathOutsideWorkspaceError,
+  ToolError,
+} from './ToolError';
 import type {
   ReadFileInput,
   WriteFileInput,
@@ -18,12 +26,27 @@ const ALWAYS_BLOCKED = [
   '/dev', '/root', '/private/etc', '/private/var/root',
 ];
 
+// Workspace policy (commands.yml, mcp.json, permissions.json, secrets.yml,
+// sandbox.json, ...) lives here. The agent may read it but never change it,
+// or one write_file would lift the limits on its next command or run.
+const POLICY_DIR = '.agent';
+
+export interface FileChangePreview {
+  path: string;
+  operation: 'create' | 'modify' | 'delete';
+  diff: string;
+}
+
 export class FileTool {
   private readonly resolvedWorkspace: string;
   private agentIgnorePatterns: string[] = [];
   private agentIgnoreLoadedAt = 0;
 
-  constructor(private readonly workspaceDir: string) {
+  // In a dry run, edits go to the overlay and reads see them there
+  constructor(
+    private readonly workspaceDir: string,
+    private readonly dryRun: DryRunOverlay | null = null
+  ) {
     this.resolvedWorkspace = path.resolve(workspaceDir);
   }
 
@@ -75,12 +98,26 @@ export class FileTool {
     const relative = path.relative(this.resolvedWorkspace, resolvedPath);
     if (this.isIgnored(relative)) {
       logger.warn('.agentignore blocked operation', { operation, path: relative });
-      throw new Error(
-        `Access denied: "${relative}" is listed in .agentignore and cannot be ${operation} by the agent.`
-      );
+      throw new IgnoredPathError(relative, operation);
     }
   }
 
+  /**
+   * Refuses edits under any .agent/ directory — the workspace root's, or a
+   * nested one that becomes a root when a sub-agent is scoped to its directory.
+   */
+  private assertNotPolicyPath(resolvedPath: string, operation: string): void {
+    const relative = path.relative(this.resolvedWorkspace, resolvedPath);
+    if (!relative.split(path.sep).some((segment) => segment.toLowerCase() === POLICY_DIR)) return;
+    logger.warn('Blocked edit of workspace policy', { operation, path: relative });
+    throw new ToolError(
+      'PROTECTED_PATH',
+      `Access denied: "${relative}" is workspace policy and cannot be ${operation} by the agent.`,
+      `Files under ${POLICY_DIR}/ are set by the user. Do not retry this under another name; ` +
+        'tell the user which change you need and why.',
+    );
+  }
+
   /**
    * Resolves a file path and ENFORCES it stays inside the workspace.
    * Throws if the resolved path escapes the workspace directory or hits a
@@ -109,7 +146,7 @@ export class FileTool {
         resolved,
         workspace: this.resolvedWorkspace,
       });
-      throw new Error(
+      throw new PathOutsideWorkspaceError(
         `Access denied: "${filePath}" resolves outside the workspace directory. ` +
         `All file operations must stay within: ${this.resolvedWorkspace}`
       );
@@ -119,7 +156,8 @@ export class FileTool {
     for (const blocked of ALWAYS_BLOCKED) {
       if (resolved.startsWith(blocked)) {
         logger.error('Blocked system path access attempt', { resolved, blocked });
-        throw new Error(
+        throw new ToolError(
+          'PROTECTED_PATH',
           `Access denied: "${resolved}" is a protected system path and cannot be accessed.`
         );
       }
@@ -133,13 +171,23 @@ export class FileTool {
     this.assertNotIgnored(resolvedPath, 'read');
     logger.debug('Reading file', { path: resolvedPath });
 
+    if (this.dryRun?.has(resolvedPath)) {
+      const content = await this.dryRun.read(resolvedPath);
+      if (content === null) throw new FileNotFoundError(resolvedPath);
+      return { content, size: Buffer.byteLength(content, 'utf8'), path: resolvedPath };
+    }
+
     if (!(await fs.pathExists(resolvedPath))) {
-      throw new Error(`File not found: ${resolvedPath}`);
+      throw new FileNotFoundError(resolvedPath);
     }
 
     const stat = await fs.stat(resolvedPath);
     if (stat.size > 10 * 1024 * 1024) {
-      throw new Error(`File too large: ${resolvedPath} (${stat.size} bytes). Max 10MB.`);
+      throw new ToolError(
+        'FILE_TOO_LARGE',
+        `File too large: ${resolvedPath} (${stat.size} bytes). Max 10MB.`,
+        'Find the lines you need with search_files instead of reading the whole file.'
+      );
     }
 
     const content = await fs.readFile(resolvedPath, input.encoding as BufferEncoding);
@@ -150,7 +198,13 @@ export class FileTool {
   async writeFile(input: WriteFileInput): Promise<{ path: string; size: number }> {
     const resolvedPath = this.resolvePath(input.path);
     this.assertNotIgnored(resolvedPath, 'written');
-    logger.info('Writing file', { path: resolvedPath });
+    this.assertNotPolicyPath(resolvedPath, 'written');
+    logger.info('Writing file', { path: resolvedPath, dryRun: !!this.dryRun });
+
+    if (this.dryRun) {
+      await this.dryRun.write(resolvedPath, input.content);
+      return { path: resolvedPath, size: Buffer.byteLength(input.content, 'utf8') };
+    }
 
     if (input.createDirs) {
       await fs.ensureDir(path.dirname(resolvedPath));
@@ -165,17 +219,25 @@ export class FileTool {
   async applyPatch(input: ApplyPatchInput): Promise<{ path: string; success: boolean; result: string }> {
     const resolvedPath = this.resolvePath(input.path);
     this.assertNotIgnored(resolvedPath, 'modified');
+    this.assertNotPolicyPath(resolvedPath, 'modified');
     logger.info('Applying patch', { path: resolvedPath });
 
     let originalContent = '';
-    if (await fs.pathExists(resolvedPath)) {
+    if (this.dryRun) {
+      originalContent = (await this.dryRun.read(resolvedPath)) ?? '';
+    } else if (await fs.pathExists(resolvedPath)) {
       originalContent = await fs.readFile(resolvedPath, 'utf8');
     }
 
     const patched = applyPatch(originalContent, input.patch);
     if (patched === false) {
       logger.error('Patch application failed', { path: resolvedPath });
-      throw new Error(`Failed to apply patch to ${resolvedPath}. Patch may be invalid or context doesn't match.`);
+      throw new PatchContextMismatchError(resolvedPath, input.patch, originalContent);
+    }
+
+    if (this.dryRun) {
+      await this.dryRun.write(resolvedPath, patched);
+      return { path: resolvedPath, success: true, result: patched };
     }
 
     await fs.ensureDir(path.dirname(resolvedPath));
@@ -192,10 +254,64 @@ export class FileTool {
     return createPatch(filePath, originalContent, newContent);
   }
 
+  /**
+   * Computes the diff a mutating file tool would produce without touching disk.
+   * `overlay` carries the pending content of earlier previews in the same batch
+   * (null = deleted), so several edits to one file diff against each other.
+   */
+  async previewChange(
+    toolName: 'write_file' | 'apply_patch' | 'delete_file',
+    input: WriteFileInput | ApplyPatchInput | DeleteFileInput,
+    overlay: Map<string, string | null> = new Map()
+  ): Promise<FileChangePreview> {
+    const resolvedPath = this.resolvePath(input.path);
+    const verb = toolName === 'delete_file' ? 'deleted' : 'modified';
+    this.assertNotIgnored(resolvedPath, verb);
+    this.assertNotPolicyPath(resolvedPath, verb);
+
+    let original: string | null;
+    if (overlay.has(resolvedPath)) {
+      original = overlay.get(resolvedPath) ?? null;
+    } else if (this.dryRun) {
+      original = await this.dryRun.read(resolvedPath);
+    } else {
+      original = (await fs.pathExists(resolvedPath))
+        ? await fs.readFile(resolvedPath, 'utf8')
+        : null;
+    }
+
+    let updated: string | null;
+    if (toolName === 'write_file') {
+      updated = (input as WriteFileInput).content;
+    } else if (toolName === 'apply_patch') {
+      const patched = applyPatch(original ?? '', (input as ApplyPatchInput).patch);
+      if (patched === false) {
+        throw new PatchContextMismatchError(resolvedPath, (input as ApplyPatchInput).patch, original ?? '');
+      }
+      updated = patched;
+    } else {
+      updated = null;
+    }
+
+    overlay.set(resolvedPath, updated);
+    const operation: FileChangePreview['operation'] =
+      updated === null ? 'delete' : original === null ? 'create' : 'modify';
+    return {
+      path: input.path,
+      operation,
+      diff: createPatch(input.path, original ?? '', updated ?? ''),
+    };
+  }
+
   async deleteFile(input: DeleteFileInput): Promise<{ path: string }> {
     const resolvedPath = this.resolvePath(input.path);
     this.assertNotIgnored(resolvedPath, 'deleted');
-    logger.info('Deleting file', { path: resolvedPath });
+    this.assertNotPolicyPath(resolvedPath, 'deleted');
+    logger.info('Deleting file', { path: resolvedPath, dryRun: !!this.dryRun });
+    if (this.dryRun) {
+      await this.dryRun.remove(resolvedPath);
+      return { path: resolvedPath };
+    }
     await fs.remove(resolvedPath);
     logger.info('File deleted', { path: resolvedPath });
     return { path: resolvedPath };
@@ -214,7 +330,7 @@ export class FileTool {
     });
 
     logger.debug('Files listed', { count: files.length });
-    return files;
+    return this.dryRun ? this.withOverlay(resolvedDir, files, input.pattern) : files;
   }
 
   async searchInFiles(
@@ -224,10 +340,11 @@ export class FileTool {
     const resolvedDir = this.resolvePath(input.directory);
     logger.debug('Searching files', { directory: resolvedDir, pattern: input.pattern, maxResults });
 
-    const files = await fg(input.fileGlob, {
-      cwd: resolvedDir,
-      ignore: ['node_modules/**', '.git/**', 'dist/**'],
-    });
+    const ignore = ['node_modules/**', '.git/**', 'dist/**'];
+    const onDisk = await fg(input.fileGlob, { cwd: resolvedDir, ignore });
+    const files = this.dryRun
+      ? this.withOverlay(resolvedDir, onDisk, input.fileGlob).filter((f) => !ignore.some((i) => matchesGlob(f, i)))
+      : onDisk;
 
     const results: Array<{ file: string; line: number; content: string }> = [];
     // Use non-global regex for per-line test — avoids lastIndex state issues with 'gi' flag
@@ -237,7 +354,9 @@ export class FileTool {
     outer: for (const file of files) {
       const fullPath = path.join(resolvedDir, file);
       try {
-        const content = await fs.readFile(fullPath, 'utf8');
+        const content = this.dryRun
+          ? ((await this.dryRun.read(fullPath)) ?? '')
+          : await fs.readFile(fullPath, 'utf8');
         const lines = content.split('\n');
         for (let index = 0; index < lines.length; index++) {
           const line = lines[index];
@@ -259,4 +378,14 @@ export class FileTool {
     logger.debug('Search complete', { matches: results.length, truncated });
     return { matches: results, truncated };
   }
+
+  // A disk listing with the dry run's created files added and deleted ones dropped
+  private withOverlay(dir: string, files: string[], pattern: string): string[] {
+    const { created, deleted } = this.dryRun!.changesUnder(dir);
+    const listed = files.filter((f) => !deleted.has(f));
+    for (const file of created) {
+      if (!listed.includes(file) && matchesGlob(file, pattern)) listed.push(file);
+    }
+    return listed;
+  }
 }
@@ -1,4 +1,5 @@
 import simpleGit, { SimpleGit, StatusResult } from 'simple-git';
+import * as fs from 'fs-extra';
 import * as path from 'path';
 import { logger } from '../logger';
 import type {
@@ -775,6 +776,119 @@ export class GitTool {
     logger.info('Rollback complete');
   }
 
+  // ─── Worktrees ──────────────────────────────────────────────────────────────
+  // Session worktrees (see agent/worktree.ts) are managed from the main checkout.
+
+  /** Whether HEAD points at a commit — a worktree needs one to branch from. */
+  async hasCommits(): Promise<boolean> {
+    try {
+      await this.git.revparse(['--verify', 'HEAD']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Ignores a pattern through .git/info/exclude, which is never committed. */
+  async excludeLocally(pattern: string): Promise<void> {
+    const commonDir = (await this.git.revparse(['--git-common-dir'])).trim();
+    const file = path.resolve(this.workspaceDir, commonDir, 'info', 'exclude');
+    const current = await fs.readFile(file, 'utf8').catch(() => '');
+    if (current.split('\n').includes(pattern)) return;
+    const separator = current && !current.endsWith('\n') ? '\n' : '';
+    await fs.outputFile(file, `${current}${separator}${pattern}\n`);
+  }
+
+  /** Checks `branch` out into a new worktree at `dir`, creating it from HEAD if needed. */
+  async addWorktree(dir: string, branch: string): Promise<void> {
+    // Forget worktrees whose directory was deleted, or re-adding one fails
+    await this.git.raw(['worktree', 'prune']);
+    const exists = (await this.git.branchLocal()).all.includes(branch);
+    await this.git.raw(['worktree', 'add', ...(exists ? [dir, branch] : ['-b', branch, dir])]);
+    logger.info('Git worktree added', { dir, branch, existingBranch: exists });
+  }
+
+  /** Removes a worktree, uncommitted changes and all. */
+  async removeWorktree(dir: string): Promise<void> {
+    if (await fs.pathExists(dir)) {
+      await this.git.raw(['worktree', 'remove', '--force', dir]);
+    }
+    await this.git.raw(['worktree', 'prune']);
+    logger.info('Git worktree removed', { dir });
+  }
+
+  async deleteBranch(branch: string): Promise<void> {
+    await this.git.raw(['branch', '-D', branch]);
+    logger.info('Git branch deleted', { branch });
+  }
+
+  /** Commits on `branch` that HEAD does not have yet. */
+  async commitsAhead(branch: string): Promise<number> {
+    const count = await this.git.raw(['rev-list', '--count', `HEAD..${branch}`]);
+    return parseInt(count.trim(), 10) || 0;
+  }
+
+  /**
+   * Merges `branch` into the checked-out branch, as a merge commit or as one
+   * squashed commit. A conflicted merge is aborted, so the checkout is left as
+   * it was and the conflicting files are reported instead.
+   */
+  async mergeBranch(branch: string, options: { squash: boolean; message: string }): Promise<GitMergeResult> {
+    logger.info('Git merge of branch', { branch, squash: options.squash });
+    // git exits non-zero on conflicts, but simple-git only rejects when nothing
+    // was printed to stdout — so check the status either way
+    const merge = options.squash
+      ? ['merge', '--squash', branch]
+      : ['merge', '--no-ff', '-m', options.message, branch];
+    const failure = await this.git.raw(merge).then(() => null, (err: Error) => err);
+
+    const conflicts = (await this.git.status()).conflicted;
+    if (conflicts.length > 0) {
+      await this.git.raw(['reset', '--merge']);
+      logger.warn('Git merge aborted on conflicts', { branch, conflicts });
+      return {
+        success: false,
+        branch,
+        conflicts,
+        message: `Merge aborted — '${branch}' conflicts in ${conflicts.length} file(s): ${conflicts.join(', ')}`,
+      };
+    }
+    if (failure) throw failure;
+
+    if (options.squash) {
+      const staged = (await this.git.diff(['--cached', '--name-only'])).trim();
+      if (!staged) {
+        return { success: true, branch, conflicts: [], message: `Nothing to merge from '${branch}'` };
+      }
+      await this.git.commit(options.message);
+    }
+    const hash = await this.getLastCommitHash();
+    return {
+      success: true,
+      branch,
+      conflicts: [],
+      message: `${options.squash ? 'Squash-merged' : 'Merged'} '${branch}' as ${hash}`,
+    };
+  }
+
+  // ─── Blobs ──────────────────────────────────────────────────────────────────
+  // File versions for the session timeline (see agent/timeline.ts) are written
+  // to the object store and referenced by hash, so the database never holds
+  // file contents. Unreferenced blobs outlive git's prune window (two weeks by
+  // default), not forever.
+
+  /** Stores a file's content as a blob; null when there is no such file. */
+  async storeBlob(filePath: string): Promise<string | null> {
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat) return null;
+    if (!stat.isFile()) throw new Error(`Not a file: ${filePath}`);
+    return (await this.git.raw(['hash-object', '-w', '--', filePath])).trim();
+  }
+
+  async readBlob(hash: string): Promise<Buffer> {
+    return this.git.binaryCatFile(['blob', hash]);
+  }
+
   // ─── Agent commit history ──────────────────────────────────────────────────
 
   /**
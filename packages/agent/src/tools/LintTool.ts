@@ -1,7 +1,9 @@
 import * as path from 'path';
 import { logger } from '../logger';
-import type { DockerSandbox } from '../sandbox/DockerSandbox';
+import { hostProcessEnv } from '../utils/env';
+import type { DockerSandbox, OutputListener } from '../sandbox/DockerSandbox';
 import type { EslintCheckInput, PrettierFormatInput } from './schemas';
+import { PathOutsideWorkspaceError } from './ToolError';
 
 const NPX_BIN = 'npx';
 
@@ -23,7 +25,7 @@ export class LintTool {
 
   // ─── ESLint ────────────────────────────────────────────────────────────────
 
-  async eslintCheck(input: EslintCheckInput): Promise<LintResult> {
+  async eslintCheck(input: EslintCheckInput, onOutput?: OutputListener): Promise<LintResult> {
     const cwd           = this.resolveDir(input.packageDir);
     const resolvedPaths = input.paths.map((p) => this.resolveLintPath(p));
 
@@ -36,7 +38,7 @@ export class LintTool {
     if (input.fix) args.push('--fix');
 
     logger.info('Running ESLint', { paths: resolvedPaths, fix: input.fix, sandboxed: !!this.sandbox });
-    const result = await this.runProcess(NPX_BIN, args, cwd, 120_000);
+    const result = await this.runProcess(NPX_BIN, args, cwd, 120_000, onOutput);
     return {
       ...result,
       command:      `npx eslint ${resolvedPaths.join(' ')}${input.fix ? ' --fix' : ''}`,
@@ -46,7 +48,7 @@ export class LintTool {
 
   // ─── Prettier ──────────────────────────────────────────────────────────────
 
-  async prettierFormat(input: PrettierFormatInput): Promise<LintResult> {
+  async prettierFormat(input: PrettierFormatInput, onOutput?: OutputListener): Promise<LintResult> {
     const cwd           = this.resolveDir(input.packageDir);
     const resolvedPaths = input.paths.map((p) => this.resolveLintPath(p));
 
@@ -57,7 +59,7 @@ export class LintTool {
     ];
 
     logger.info('Running Prettier', { paths: resolvedPaths, check: input.check, sandboxed: !!this.sandbox });
-    const result = await this.runProcess(NPX_BIN, args, cwd, 60_000);
+    const result = await this.runProcess(NPX_BIN, args, cwd, 60_000, onOutput);
     return {
       ...result,
       command:      `npx prettier ${input.check ? '--check' : '--write'} ${resolvedPaths.join(' ')}`,
@@ -72,6 +74,7 @@ export class LintTool {
     args:    string[],
     cwd:     string,
     timeout: number,
+    onOutput?: OutputListener,
   ): Promise<Omit<LintResult, 'command' | 'fixesApplied'>> {
     // ── Docker sandbox path ───────────────────────────────────────────────
     if (this.sandbox) {
@@ -81,7 +84,7 @@ export class LintTool {
       const containerCmd  = `${cdPrefix}${bin} ${args.join(' ')}`;
 
       logger.info('Routing lint command to Docker sandbox', { command: containerCmd });
-      const result = await this.sandbox.execute(containerCmd, this.workspaceDir, { timeout });
+      const result = await this.sandbox.execute(containerCmd, this.workspaceDir, { timeout, onOutput });
 
       const success = result.exitCode === 0;
       if (!success) logger.warn('Sandboxed lint failed', { command: containerCmd });
@@ -97,7 +100,7 @@ export class LintTool {
       let stdout = '', stderr = '', timedOut = false;
       let stdoutCapped = false, stderrCapped = false;
 
-      const child = spawn(bin, args, { cwd, shell: false, env: { ...process.env } });
+      const child = spawn(bin, args, { cwd, shell: false, env: hostProcessEnv() }); // no agent credentials
 
       const timer = setTimeout(() => {
         timedOut = true;
@@ -107,12 +110,14 @@ export class LintTool {
       }, timeout);
 
       child.stdout.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stdout');
         if (!stdoutCapped) {
           stdout += d.toString();
           if (stdout.length > MAX_OUTPUT) { stdout = stdout.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stdoutCapped = true; }
         }
       });
       child.stderr.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stderr');
         if (!stderrCapped) {
           stderr += d.toString();
           if (stderr.length > MAX_OUTPUT) { stderr = stderr.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stderrCapped = true; }
@@ -156,7 +161,7 @@ export class LintTool {
   private assertInWorkspace(resolved: string, original: string): void {
     const prefix = this.workspaceDir.endsWith(path.sep) ? this.workspaceDir : this.workspaceDir + path.sep;
     if (resolved !== this.workspaceDir && !resolved.startsWith(prefix)) {
-      throw new Error(`Access denied: path "${original}" resolves outside the workspace.`);
+      throw new PathOutsideWorkspaceError(`Access denied: path "${original}" resolves outside the workspace.`);
     }
   }
 }
@@ -0,0 +1,388 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import * as readline from 'readline';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { z } from 'zod';
+import { logger } from '../logger';
+import { hostProcessEnv } from '../utils/env';
+import { defineTool, type ToolDefinition } from './ToolRegistry';
+import { ToolTimeoutError } from './ToolError';
+
+// ─── MCP client ───────────────────────────────────────────────────────────────
+// Connects to Model Context Protocol servers over stdio (newline-delimited
+// JSON-RPC 2.0) and bridges their tools into the tool registry, so an MCP call
+// goes through ToolExecutor like any built-in: validated, recorded, redacted
+// and counted against maxToolCalls. Servers are configured per workspace in
+// .agent/mcp.json and live as long as the run that started them.
+
+export const MCP_CONFIG_FILE = path.join('.agent', 'mcp.json');
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'klaus-code', version: '1.0.0' };
+
+// How much of a server's stderr is kept to explain why it stopped
+const STDERR_TAIL_CHARS = 500;
+// After stdin closes, how long a server gets to exit before SIGTERM (and again before SIGKILL)
+const CLOSE_GRACE_MS = 2_000;
+
+export const McpServerSchema = z.object({
+  command: z.string().min(1),
+  args: z.array(z.string()).default([]),
+  env: z.record(z.string()).default({}),
+  cwd: z.string().optional(), // relative to the workspace root
+  timeout: z.number().int().min(1_000).default(60_000), // per request (ms)
+  disabled: z.boolean().default(false),
+});
+
+// Same shape as the mcpServers block other MCP clients use
+export const McpConfigSchema = z.object({
+  mcpServers: z
+    .record(
+      z.string().regex(/^[a-zA-Z0-9_-]{1,32}$/, 'Server names are 1-32 letters, digits, "_" or "-"'),
+      McpServerSchema
+    )
+    .default({}),
+});
+
+export type McpServerConfig = z.infer<typeof McpServerSchema>;
+export type McpConfig = z.infer<typeof McpConfigSchema>;
+
+/** A tool as listed by a server (tools/list). */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  annotations?: { title?: string; readOnlyHint?: boolean };
+}
+
+interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  resource?: { uri: string; text?: string };
+}
+
+/** A tools/call result. */
+export interface McpCallResult {
+  content?: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+// A JSON-RPC response, request or notification read from the server
+interface JsonRpcMessage {
+  id?: number | string;
+  method?: string;
+  result?: unknown;
+  error?: { message?: string };
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Reads .agent/mcp.json from the workspace. A missing file means no servers;
+ * an invalid one throws.
+ */
+export async function loadMcpConfig(workspaceDir: string): Promise<McpConfig> {
+  const file = path.join(workspaceDir, MCP_CONFIG_FILE);
+  if (!(await fs.pathExists(file))) return McpConfigSchema.parse({});
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(file);
+  } catch (err) {
+    throw new Error(`Invalid ${MCP_CONFIG_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const parsed = McpConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${MCP_CONFIG_FILE}: ${JSON.stringify(parsed.error.flatten())}`);
+  }
+  return parsed.data;
+}
+
+export class McpClient {
+  private child?: ChildProcessWithoutNullStreams;
+  private nextId = 1;
+  private readonly pending = new Map<number | string, PendingRequest>();
+  private stderrTail = '';
+  // Set once the server can no longer answer; every later request fails with it
+  private stopped?: Error;
+
+  constructor(
+    readonly name: string,
+    private readonly server: McpServerConfig,
+    private readonly workspaceDir: string,
+  ) {}
+
+  /** Starts the server and performs the initialize handshake. */
+  async connect(): Promise<void> {
+    const child = spawn(this.server.command, this.server.args, {
+      cwd: path.resolve(this.workspaceDir, this.server.cwd ?? '.'),
+      // Allowlisted agent env plus the server's own; no agent credentials
+      env: hostProcessEnv(this.server.env),
+      shell: false,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+    child.on('error', (err) => this.stop(`could not be started: ${err.message}`));
+    // 'close' rather than 'exit' so the stderr explaining the exit has been read
+    child.on('close', (code, signal) => this.stop(signal ? `exited (${signal})` : `exited with code ${code}`));
+    // A write to a dead server fails here; the close handler reports it
+    child.stdin.on('error', () => undefined);
+    child.stderr.on('data', (chunk: Buffer) => {
+      this.stderrTail = (this.stderrTail + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+    });
+    readline.createInterface({ input: child.stdout }).on('line', (line) => this.onLine(line));
+
+    await this.request('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    this.notify('notifications/initialized');
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<{ tools?: McpTool[]; nextCursor?: string }>(
+        'tools/list',
+        cursor ? { cursor } : {}
+      );
+      tools.push(...(page.tools ?? []));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  callTool(name: string, args: Record<string, unknown>): Promise<McpCallResult> {
+    return this.request<McpCallResult>('tools/call', { name, arguments: args });
+  }
+
+  /** Closes stdin so the server can exit on its own, then signals it if it lingers. */
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child || this.stopped || child.exitCode !== null || child.signalCode !== null) {
+      this.stop('was closed');
+      return;
+    }
+    const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+    const term = setTimeout(() => child.kill('SIGTERM'), CLOSE_GRACE_MS);
+    const kill = setTimeout(() => child.kill('SIGKILL'), 2 * CLOSE_GRACE_MS);
+    child.stdin.end();
+    await exited;
+    clearTimeout(term);
+    clearTimeout(kill);
+  }
+
+  // T is what the protocol says the method returns; the server's answer is not checked against it
+  private request<T = unknown>(method: string, params: Record<string, unknown>): Promise<T> {
+    if (this.stopped) return Promise.reject(this.stopped);
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Request timed out' });
+        reject(new ToolTimeoutError(`MCP server "${this.name}" did not answer ${method} within ${this.server.timeout}ms`));
+      }, this.server.timeout);
+      this.pending.set(id, { method, resolve: (result) => resolve(result as T), reject, timer });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  private notify(method: string, params?: Record<string, unknown>): void {
+    this.send({ jsonrpc: '2.0', method, ...(params && { params }) });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.stopped || !this.child) return;
+    this.child.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  private onLine(line: string): void {
+    if (!line.trim()) return;
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      logger.debug('Ignoring non-JSON output from MCP server', { server: this.name, line: line.slice(0, 200) });
+      return;
+    }
+
+    // A response to one of our requests
+    if (message.id !== undefined && message.method === undefined) {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+      this.pending.delete(message.id);
+      clearTimeout(pending.timer);
+      if (message.error) {
+        pending.reject(
+          new Error(`MCP server "${this.name}" failed ${pending.method}: ${message.error.message ?? 'unknown error'}`)
+        );
+      } else {
+        pending.resolve(message.result ?? {});
+      }
+      return;
+    }
+
+    // A request from the server — only ping is supported
+    if (message.id !== undefined) {
+      this.send(
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } }
+      );
+    }
+    // Notifications (logging, list_changed, progress) are not used
+  }
+
+  private stop(reason: string): void {
+    if (this.stopped) return;
+    const stderr = this.stderrTail.trim().split('\n').at(-1);
+    this.stopped = new Error(`MCP server "${this.name}" ${reason}${stderr ? `: ${stderr}` : ''}`);
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(this.stopped);
+    }
+    this.pending.clear();
+  }
+}
+
+// ─── Bridging into the registry ───────────────────────────────────────────────
+
+/** The servers one run connected to: their tools, the ones that failed, and how to stop them. */
+export interface McpConnections {
+  tools: ToolDefinition[];
+  failures: Array<{ server: string; error: string }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts every enabled server in the workspace's .agent/mcp.json and lists its
+ * tools. A server that fails to start or answer is reported in `failures` and
+ * left out; the others are still used.
+ */
+export async function connectMcpServers(workspaceDir: string): Promise<McpConnections> {
+  let config: McpConfig;
+  try {
+    config = await loadMcpConfig(workspaceDir);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { tools: [], failures: [{ server: MCP_CONFIG_FILE, error }], close: async () => undefined };
+  }
+
+  const clients: McpClient[] = [];
+  const tools: ToolDefinition[] = [];
+  const failures: McpConnections['failures'] = [];
+  const servers = Object.entries(config.mcpServers).filter(([, server]) => !server.disabled);
+
+  await Promise.all(
+    servers.map(async ([name, server]) => {
+      const client = new McpClient(name, server, workspaceDir);
+      try {
+        await client.connect();
+        const listed = await client.listTools();
+        clients.push(client);
+        tools.push(...bridgeTools(client, listed));
+        logger.info('MCP server connected', { server: name, tools: listed.map((t) => t.name) });
+      } catch (err) {
+        await client.close();
+        const error = err instanceof Error ? err.message : String(err);
+        logger.warn('MCP server unavailable', { server: name, error });
+        failures.push({ server: name, error });
+      }
+    })
+  );
+
+  return {
+    tools,
+    failures,
+    close: async () => {
+      await Promise.all(clients.map((client) => client.close()));
+    },
+  };
+}
+
+/** "mcp__<server>__<tool>", reduced to the characters and length tool names allow. */
+export function mcpToolName(server: string, tool: string): string {
+  return `mcp__${server}__${tool.replace(/[^a-zA-Z0-9_-]/g, '_')}`.slice(0, 64);
+}
+
+function bridgeTools(client: McpClient, tools: McpTool[]): ToolDefinition[] {
+  const bridged = new Map<string, ToolDefinition>();
+  for (const tool of tools) {
+    const name = mcpToolName(client.name, tool.name);
+    if (bridged.has(name)) {
+      logger.warn('Skipping MCP tool with a clashing name', { server: client.name, tool: tool.name, name });
+      continue;
+    }
+    const inputSchema = tool.inputSchema ?? { type: 'object', properties: {} };
+    bridged.set(
+      name,
+      defineTool({
+        name,
+        description:
+          `[MCP server "${client.name}"] ` + (tool.description?.trim() || tool.annotations?.title || tool.name),
+        schema: objectFromJsonSchema(inputSchema),
+        inputSchema,
+        readOnly: tool.annotations?.readOnlyHint === true,
+        longRunning: true,
+        handler: async (input) => toToolResult(await client.callTool(tool.name, input)),
+      })
+    );
+  }
+  return [...bridged.values()];
+}
+
+// Text content becomes { content }; structured content is returned as-is.
+// A result flagged isError fails the tool call like a thrown error would.
+function toToolResult(result: McpCallResult): unknown {
+  const text = (result.content ?? [])
+    .map((c) => {
+      if (c.type === 'text') return c.text ?? '';
+      if (c.type === 'resource') return c.resource?.text ?? `[resource ${c.resource?.uri}]`;
+      return `[${c.type}${c.mimeType ? ` ${c.mimeType}` : ''}]`;
+    })
+    .join('\n');
+  if (result.isError) throw new Error(text || 'The MCP tool reported an error');
+  return result.structuredContent ?? { content: text };
+}
+
+// ─── JSON Schema → zod ────────────────────────────────────────────────────────
+// Approximates a server's JSON Schema so inputs are type-checked before they
+// are sent. Constructs it does not model are accepted as-is and left to the
+// server; the model still sees the original schema (inputSchema above).
+
+function objectFromJsonSchema(schema: Record<string, unknown>): z.AnyZodObject {
+  const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+  const shape: z.ZodRawShape = {};
+  for (const [key, property] of Object.entries<unknown>((schema.properties ?? {}) as Record<string, unknown>)) {
+    const type = fromJsonSchema(property);
+    shape[key] = required.has(key) ? type : type.optional();
+  }
+  // Keys the schema does not list are kept — the server decides whether it accepts them
+  return z.object(shape).passthrough();
+}
+
+function fromJsonSchema(schema: unknown): z.ZodTypeAny {
+  if (!schema || typeof schema !== 'object') return z.any();
+  const s = schema as Record<string, unknown>;
+  if (Array.isArray(s.enum) && s.enum.length > 0 && s.enum.every((v: unknown) => typeof v === 'string')) {
+    return z.enum(s.enum as [string, ...string[]]);
+  }
+  switch (s.type) {
+    case 'string':  return z.string();
+    case 'number':  return z.number();
+    case 'integer': return z.number().int();
+    case 'boolean': return z.boolean();
+    case 'null':    return z.null();
+    case 'array':   return z.array(fromJsonSchema(s.items));
+    case 'object':  return objectFromJsonSchema(s);
+    default:        return z.any();
+  }
+}
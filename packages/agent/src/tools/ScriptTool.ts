@@ -1,8 +1,10 @@
 import * as path from 'path';
 import * as fs   from 'fs-extra';
 import { logger } from '../logger';
+import { hostProcessEnv, scrubbedSandboxEnv } from '../utils/env';
 import type { DockerSandbox } from '../sandbox/DockerSandbox';
 import type { RunNodeScriptInput } from './schemas';
+import { PathOutsideWorkspaceError, ScriptNotFoundError } from './ToolError';
 
 const NODE_BIN    = 'node';
 const TSNODE_BIN  = 'npx';
@@ -11,10 +13,6 @@ const TSNODE_ARGS = ['ts-node'];
 const ALLOWED_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.ts']);
 const BLOCKED_ARG_CHARS  = /[;&|`$<>(){}[\]\\'"]/;
 
-// Env vars that must never be visible to user scripts — cleared in both
-// the host spawn and the Docker sandbox env override.
-const SCRUBBED_ENV_KEYS = ['ANTHROPIC_API_KEY', 'AGENT_API_SECRET'];
-
 export interface ScriptResult {
   success:    boolean;
   stdout:     string;
@@ -38,12 +36,15 @@ export class ScriptTool {
     const prefix    = this.workspaceDir.endsWith(path.sep) ? this.workspaceDir : this.workspaceDir + path.sep;
 
     if (!resolved.startsWith(prefix)) {
-      throw new Error(`Access denied: script "${input.scriptPath}" is outside the workspace.`);
+      throw new PathOutsideWorkspaceError(`Access denied: script "${input.scriptPath}" is outside the workspace.`);
     }
 
     // ── 2. File exists + allowed extension ───────────────────────────────
     if (!(await fs.pathExists(resolved))) {
-      throw new Error(`Script not found: ${input.scriptPath}`);
+      throw new ScriptNotFoundError(
+        `Script not found: ${input.scriptPath}`,
+        'Find the script with list_files, or write it with write_file first.',
+      );
     }
 
     const ext = path.extname(resolved).toLowerCase();
@@ -90,8 +91,7 @@ export class ScriptTool {
       const containerCmd = `${bin} ${translatedArgs.join(' ')}`;
 
       // Scrub sensitive keys from the environment passed into the sandbox
-      const sandboxEnv: Record<string, string> = {};
-      for (const key of SCRUBBED_ENV_KEYS) sandboxEnv[key] = '';
+      const sandboxEnv = scrubbedSandboxEnv();
 
       logger.info('Routing script to Docker sandbox', { command: containerCmd });
       const result = await this.sandbox.execute(containerCmd, this.workspaceDir, {
@@ -110,10 +110,6 @@ export class ScriptTool {
     const start     = Date.now();
     const MAX_OUTPUT = 5 * 1024 * 1024; // 5MB cap
 
-    // Scrub sensitive keys from the host environment
-    const hostEnv: Record<string, string | undefined> = { ...process.env };
-    for (const key of SCRUBBED_ENV_KEYS) hostEnv[key] = '';
-
     return new Promise((resolve, reject) => {
       let stdout = '', stderr = '', timedOut = false;
       let stdoutCapped = false, stderrCapped = false;
@@ -121,7 +117,7 @@ export class ScriptTool {
       const child = spawn(bin, args, {
         cwd:   this.workspaceDir,
         shell: false,
-        env:   hostEnv as NodeJS.ProcessEnv,
+        env:   hostProcessEnv(), // allowlisted — no credentials
       });
 
       const timer = setTimeout(() => {
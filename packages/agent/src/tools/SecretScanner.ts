@@ -0,0 +1,300 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { logger } from '../logger';
+import { globToRegExp } from '../utils/glob';
+
+// ─── Secret scanning ──────────────────────────────────────────────────────────
+// Finds credentials in text with named patterns plus a Shannon-entropy check
+// for random-looking tokens. Used to block file writes and git checkpoints that
+// would introduce a secret, and to redact secrets from tool output before it
+// reaches the model or the database. A workspace can add its own patterns and
+// an allowlist in .agent/secrets.yml.
+
+export const SECRETS_POLICY_FILE = path.join('.agent', 'secrets.yml');
+
+interface SecretRule {
+  name: string;
+  // A named `secret` group marks the part to report and redact; otherwise the whole match
+  pattern: RegExp;
+}
+
+const BUILTIN_RULES: SecretRule[] = [
+  { name: 'AWS Access Key', pattern: /AKIA[0-9A-Z]{16}/ },
+  { name: 'AWS Secret Key', pattern: /aws_secret_access_key\s*=\s*(?<secret>[^\s]+)/i },
+  { name: 'Generic API Key', pattern: /api[_-]?key\s*[=:]\s*["']?(?<secret>[a-zA-Z0-9_-]{20,})/i },
+  { name: 'Private Key Block', pattern: /-----BEGIN (RSA |EC |OPENSSH )?PRIVATE KEY-----/ },
+  { name: 'Anthropic Key', pattern: /sk-ant-[a-zA-Z0-9_-]{32,}/ },
+  { name: 'GitHub Token', pattern: /gh[pousr]_[A-Za-z0-9_]{36}/ },
+  { name: 'Slack Token', pattern: /xox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: 'Stripe Live Key', pattern: /[rs]k_live_[A-Za-z0-9]{20,}/ },
+  { name: 'JWT', pattern: /eyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/ },
+  { name: 'Netlify Token', pattern: /netlify[_-]?token\s*[=:]\s*["']?(?<secret>[a-zA-Z0-9_-]{20,})/i },
+  { name: 'Vercel Token', pattern: /vercel[_-]?token\s*[=:]\s*["']?(?<secret>[a-zA-Z0-9_-]{20,})/i },
+  {
+    name: 'Terraform Cloud Token',
+    pattern: /terraform[_-]?token\s*[=:]\s*["']?(?<secret>[a-zA-Z0-9_.-]{20,})/i,
+  },
+  { name: 'Generic Secret', pattern: /secret\s*[=:]\s*["']?(?<secret>[a-zA-Z0-9_-]{16,})/i },
+  { name: 'DB Connection String', pattern: /(postgres|mysql|mongodb):\/\/[^:@\s]+:(?<secret>[^@\s]+)@/ },
+  { name: 'Bearer Token', pattern: /bearer\s+(?<secret>[a-zA-Z0-9_.-]{20,})/i },
+];
+
+// Whole PEM blocks are redacted at once — their body lines carry no marker
+const PRIVATE_KEY_BLOCK =
+  /-----BEGIN ([A-Z ]+ )?PRIVATE KEY-----[\s\S]*?-----END ([A-Z ]+ )?PRIVATE KEY-----/g;
+
+// The entropy check only looks inside string literals and at the value of
+// KEY=value lines (.env files, shell exports). Bare code is skipped: long
+// camelCase identifiers with a digit look as random as a token does.
+const QUOTED = /"([^"\n]*)"|'([^'\n]*)'|`([^`\n]*)`/g;
+const ENV_ASSIGNMENT = /^(\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*=)(\S+)\s*$/;
+
+// Candidates within those values. `/` is excluded so file paths split into
+// segments; hex-only strings (hashes, UUIDs) never pass the character-class test.
+const TOKEN = /[A-Za-z0-9+=_-]+/g;
+
+// Subresource-integrity hashes (package-lock.json) are random by design
+const SRI_HASH = /^sha(1|256|384|512)-/;
+
+const PolicyRegexSchema = z.string().min(1).refine(
+  (source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid regular expression' }
+);
+
+export const SecretsPolicySchema = z.object({
+  // false turns the entropy check off
+  entropy: z
+    .union([
+      z.literal(false),
+      z.object({
+        threshold: z.number().min(0).max(8).default(4.0), // bits per character
+        minLength: z.number().int().min(8).default(24),
+      }),
+    ])
+    .default({}),
+  patterns: z.array(z.object({ name: z.string().min(1), regex: PolicyRegexSchema })).default([]),
+  allowlist: z
+    .object({
+      paths: z.array(z.string().min(1)).default([]), // files never reported (globs)
+      values: z.array(z.string().min(1)).default([]), // exact strings, e.g. documented example keys
+      regexes: z.array(PolicyRegexSchema).default([]), // matched against the detected secret
+    })
+    .default({}),
+});
+
+export type SecretsPolicy = z.infer<typeof SecretsPolicySchema>;
+
+export interface SecretFinding {
+  rule: string; // pattern name, or 'High-entropy string'
+  file?: string;
+  line: number; // 1-based
+}
+
+interface Match {
+  rule: string;
+  start: number;
+  end: number;
+}
+
+/** "src/config.ts:12 (AWS Access Key)" */
+export function formatFinding(finding: SecretFinding): string {
+  const location = finding.file ? `${finding.file}:${finding.line}` : `line ${finding.line}`;
+  return `${location} (${finding.rule})`;
+}
+
+export class SecretScanner {
+  private readonly rules: SecretRule[];
+  private readonly entropy: SecretsPolicy['entropy'];
+  private readonly allowedPaths: RegExp[];
+  private readonly allowedValues: Set<string>;
+  private readonly allowedRegexes: RegExp[];
+
+  constructor(policy: SecretsPolicy = SecretsPolicySchema.parse({})) {
+    this.rules = [
+      ...BUILTIN_RULES,
+      ...policy.patterns.map(({ name, regex }) => ({ name, pattern: new RegExp(regex) })),
+    ];
+    this.entropy = policy.entropy;
+    this.allowedPaths = policy.allowlist.paths.map(globToRegExp);
+    this.allowedValues = new Set(policy.allowlist.values);
+    this.allowedRegexes = policy.allowlist.regexes.map((r) => new RegExp(r));
+  }
+
+  /**
+   * Reads .agent/secrets.yml from the workspace. A missing file means the
+   * built-in rules only; an invalid one throws.
+   */
+  static async load(workspaceDir: string): Promise<SecretScanner> {
+    const file = path.join(workspaceDir, SECRETS_POLICY_FILE);
+    if (!(await fs.pathExists(file))) return new SecretScanner();
+    const parsed = SecretsPolicySchema.safeParse(yaml.load(await fs.readFile(file, 'utf8')) ?? {});
+    if (!parsed.success) {
+      throw new Error(`Invalid ${SECRETS_POLICY_FILE}: ${JSON.stringify(parsed.error.flatten())}`);
+    }
+    return new SecretScanner(parsed.data);
+  }
+
+  /** Secrets in a file's content. `file` is workspace-relative and checked against the path allowlist. */
+  scanText(text: string, file?: string): SecretFinding[] {
+    if (file && this.isAllowedPath(file)) return [];
+    return text.split('\n').flatMap((line, i) =>
+      this.findInLine(line).map(({ rule }) => ({ rule, ...(file && { file }), line: i + 1 }))
+    );
+  }
+
+  /**
+   * Secrets on the added lines of a unified diff, located by new-file line
+   * number. The file comes from the `+++` headers unless `file` is given
+   * (apply_patch, where the patch headers may not name the target).
+   */
+  scanDiff(diff: string, file?: string): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+    let current = file;
+    let lineNo = 0;
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('+++ ')) {
+        if (!file) current = line.slice(4).replace(/^b\//, '').split('\t')[0];
+        continue;
+      }
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)/.exec(line);
+      if (hunk) {
+        lineNo = Number(hunk[1]);
+        continue;
+      }
+      if (line.startsWith('+')) {
+        if (!(current && this.isAllowedPath(current))) {
+          for (const { rule } of this.findInLine(line.slice(1))) {
+            findings.push({ rule, ...(current && { file: current }), line: lineNo });
+          }
+        }
+        lineNo++;
+      } else if (line.startsWith(' ')) {
+        lineNo++;
+      }
+    }
+    return findings;
+  }
+
+  /** Replaces every detected secret with [REDACTED:<rule>]. */
+  redact(text: string): string {
+    const withoutKeys = text.replace(PRIVATE_KEY_BLOCK, '[REDACTED:Private Key Block]');
+    return withoutKeys
+      .split('\n')
+      .map((line) => {
+        let out = line;
+        // Right to left so earlier offsets stay valid
+        for (const m of this.findInLine(line).sort((a, b) => b.start - a.start)) {
+          out = `${out.slice(0, m.start)}[REDACTED:${m.rule}]${out.slice(m.end)}`;
+        }
+        return out;
+      })
+      .join('\n');
+  }
+
+  /** redact() applied to every string in a JSON-like value. */
+  redactValue<T>(value: T): T {
+    if (typeof value === 'string') return this.redact(value) as T;
+    if (Array.isArray(value)) return value.map((v) => this.redactValue(v)) as T;
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.redactValue(v)])
+      ) as T;
+    }
+    return value;
+  }
+
+  private isAllowedPath(file: string): boolean {
+    return this.allowedPaths.some((p) => p.test(file));
+  }
+
+  private isAllowedValue(secret: string): boolean {
+    return this.allowedValues.has(secret) || this.allowedRegexes.some((r) => r.test(secret));
+  }
+
+  // Non-overlapping secrets in one line; named rules win over the entropy check
+  private findInLine(line: string): Match[] {
+    const matches: Match[] = [];
+    const overlaps = (start: number, end: number) =>
+      matches.some((m) => start < m.end && end > m.start);
+
+    for (const { name, pattern } of this.rules) {
+      const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+      for (const match of line.matchAll(global)) {
+        if (match[0].length === 0) continue;
+        const secret = match.groups?.secret ?? match[0];
+        const start = match.index! + match[0].lastIndexOf(secret);
+        const end = start + secret.length;
+        if (this.isAllowedValue(secret) || overlaps(start, end)) continue;
+        matches.push({ rule: name, start, end });
+      }
+    }
+
+    if (this.entropy) {
+      const { threshold, minLength } = this.entropy;
+      for (const { text, offset } of entropyCandidates(line)) {
+        for (const match of text.matchAll(TOKEN)) {
+          const token = match[0];
+          const start = offset + match.index!;
+          if (
+            token.length < minLength ||
+            SRI_HASH.test(token) ||
+            // Random tokens mix upper case, lower case and digits; identifiers and hashes rarely do
+            !(/[a-z]/.test(token) && /[A-Z]/.test(token) && /[0-9]/.test(token)) ||
+            shannonEntropy(token) < threshold ||
+            this.isAllowedValue(token) ||
+            overlaps(start, start + token.length)
+          ) {
+            continue;
+          }
+          matches.push({ rule: 'High-entropy string', start, end: start + token.length });
+        }
+      }
+    }
+    return matches;
+  }
+}
+
+/**
+ * The workspace's scanner, falling back to the built-in rules when
+ * .agent/secrets.yml is invalid so a typo never turns scanning off.
+ */
+export async function loadSecretScanner(workspaceDir: string): Promise<SecretScanner> {
+  try {
+    return await SecretScanner.load(workspaceDir);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    logger.warn('Ignoring secrets policy, using built-in rules', { workspaceDir, error });
+    return new SecretScanner();
+  }
+}
+
+// The parts of a line the entropy check looks at, with their offsets in it
+function entropyCandidates(line: string): Array<{ text: string; offset: number }> {
+  const assignment = ENV_ASSIGNMENT.exec(line);
+  if (assignment) return [{ text: assignment[2], offset: assignment[1].length }];
+  return [...line.matchAll(QUOTED)].map((m) => {
+    const text = m[1] ?? m[2] ?? m[3];
+    return { text, offset: m.index! + 1 };
+  });
+}
+
+// Bits per character
+function shannonEntropy(s: string): number {
+  const counts = new Map<string, number>();
+  for (const c of s) counts.set(c, (counts.get(c) ?? 0) + 1);
+  let h = 0;
+  for (const n of counts.values()) {
+    const p = n / s.length;
+    h -= p * Math.log2(p);
+  }
+  return h;
+}
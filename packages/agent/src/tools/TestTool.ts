@@ -1,8 +1,10 @@
 import * as path from 'path';
 import * as fs   from 'fs-extra';
 import { logger } from '../logger';
-import type { DockerSandbox } from '../sandbox/DockerSandbox';
+import { hostProcessEnv } from '../utils/env';
+import type { DockerSandbox, OutputListener } from '../sandbox/DockerSandbox';
 import type { RunTestsInput } from './schemas';
+import { PathOutsideWorkspaceError } from './ToolError';
 
 const NPX_BIN = 'npx';
 
@@ -39,7 +41,7 @@ export class TestTool {
     private readonly sandbox: DockerSandbox | null = null,
   ) {}
 
-  async runTests(input: RunTestsInput): Promise<TestResult> {
+  async runTests(input: RunTestsInput, onOutput?: OutputListener): Promise<TestResult> {
     const cwd = input.directory
       ? path.resolve(this.workspaceDir, input.directory.replace(/^[/\\]+/, ''))
       : this.workspaceDir;
@@ -64,7 +66,7 @@ export class TestTool {
     );
 
     const { stdout, stderr, exitCode } = await this.runProcess(
-      NPX_BIN, runner, translatedArgs, cwd, 300_000,
+      NPX_BIN, runner, translatedArgs, cwd, 300_000, onOutput,
     );
 
     const duration_ms = Date.now() - start;
@@ -106,6 +108,7 @@ export class TestTool {
     args:    string[],
     cwd:     string,
     timeout: number,
+    onOutput?: OutputListener,
   ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
     // ── Docker sandbox path ───────────────────────────────────────────────
     if (this.sandbox) {
@@ -114,7 +117,7 @@ export class TestTool {
       const containerCmd = `${cdPrefix}${bin} ${runner} ${args.join(' ')}`;
 
       logger.info('Routing test run to Docker sandbox', { command: containerCmd });
-      const result = await this.sandbox.execute(containerCmd, this.workspaceDir, { timeout });
+      const result = await this.sandbox.execute(containerCmd, this.workspaceDir, { timeout, onOutput });
       return { stdout: result.stdout, stderr: result.stderr, exitCode: result.exitCode };
     }
 
@@ -128,7 +131,7 @@ export class TestTool {
       let stdoutCapped = false, stderrCapped = false;
 
       const child = spawn(bin, [runner, ...args], {
-        cwd, shell: false, env: { ...process.env },
+        cwd, shell: false, env: hostProcessEnv(), // allowlisted — no agent credentials
       });
 
       const timer = setTimeout(() => {
@@ -139,12 +142,14 @@ export class TestTool {
       }, timeout);
 
       child.stdout.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stdout');
         if (!stdoutCapped) {
           stdout += d.toString();
           if (stdout.length > MAX_OUTPUT) { stdout = stdout.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stdoutCapped = true; }
         }
       });
       child.stderr.on('data', (d: Buffer) => {
+        onOutput?.(d.toString(), 'stderr');
         if (!stderrCapped) {
           stderr += d.toString();
           if (stderr.length > MAX_OUTPUT) { stderr = stderr.slice(0, MAX_OUTPUT) + '\n[TRUNCATED]'; stderrCapped = true; }
@@ -265,7 +270,7 @@ export class TestTool {
   private assertInWorkspace(resolved: string): void {
     const prefix = this.workspaceDir.endsWith(path.sep) ? this.workspaceDir : this.workspaceDir + path.sep;
     if (resolved !== this.workspaceDir && !resolved.startsWith(prefix)) {
-      throw new Error('Access denied: test directory is outside the workspace.');
+      throw new PathOutsideWorkspaceError('Access denied: test directory is outside the workspace.');
     }
   }
 }
@@ -0,0 +1,156 @@
+import { parsePatch } from 'diff';
+
+// ─── Tool errors ──────────────────────────────────────────────────────────────
+// A failing tool throws a ToolError with a machine-readable code and, where it
+// helps, a hint on what to do differently — for a patch that no longer fits,
+// the file's current lines — so the model corrects course instead of retrying
+// the same call. ToolExecutor puts code and hint in the tool_result, stores the
+// code on the tool_calls row, and /metrics counts failures by code. Anything
+// else a tool throws is reported as TOOL_FAILED.
+
+export const TOOL_ERROR_CODES = [
+  'UNKNOWN_TOOL',
+  'INVALID_INPUT',
+  'PATH_OUTSIDE_WORKSPACE',
+  'PROTECTED_PATH',
+  'IGNORED_BY_AGENTIGNORE',
+  'FILE_NOT_FOUND',
+  'FILE_TOO_LARGE',
+  'PATCH_CONTEXT_MISMATCH',
+  'SCRIPT_NOT_FOUND',
+  'COMMAND_NOT_ALLOWED',
+  'SECRET_DETECTED',
+  'TIMEOUT',
+  'SANDBOX_UNAVAILABLE',
+  'TOOL_FAILED',
+] as const;
+export type ToolErrorCode = (typeof TOOL_ERROR_CODES)[number];
+
+export class ToolError extends Error {
+  constructor(
+    readonly code: ToolErrorCode,
+    message: string,
+    readonly hint?: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class PathOutsideWorkspaceError extends ToolError {
+  constructor(message: string) {
+    super(
+      'PATH_OUTSIDE_WORKSPACE',
+      message,
+      'Use a path relative to the workspace root, e.g. "src/index.ts", without "../".',
+    );
+  }
+}
+
+export class IgnoredPathError extends ToolError {
+  constructor(relativePath: string, operation: string) {
+    super(
+      'IGNORED_BY_AGENTIGNORE',
+      `Access denied: "${relativePath}" is listed in .agentignore and cannot be ${operation} by the agent.`,
+      'The user keeps this path from the agent on purpose. Do not retry it under another name; ' +
+        'work without it, or ask the user to make the change.',
+    );
+  }
+}
+
+export class FileNotFoundError extends ToolError {
+  constructor(filePath: string) {
+    super(
+      'FILE_NOT_FOUND',
+      `File not found: ${filePath}`,
+      'Check the path with list_files or search_files. To create the file, use write_file.',
+    );
+  }
+}
+
+export class ScriptNotFoundError extends ToolError {
+  constructor(message: string, hint: string) {
+    super('SCRIPT_NOT_FOUND', message, hint);
+  }
+}
+
+export class ToolTimeoutError extends ToolError {
+  constructor(message: string) {
+    super(
+      'TIMEOUT',
+      message,
+      'Retrying the same call will likely time out again. Do less per call, or skip this step.',
+    );
+  }
+}
+
+export class SandboxUnavailableError extends ToolError {
+  constructor(message: string) {
+    super(
+      'SANDBOX_UNAVAILABLE',
+      message,
+      'Commands cannot run right now. Continue with the file tools and tell the user what was not run.',
+    );
+  }
+}
+
+// ─── Patch mismatches ─────────────────────────────────────────────────────────
+
+// Lines shown either side of the hunk that does not fit, and at most in total
+const HINT_CONTEXT_LINES = 10;
+const MAX_HINT_LINES = 60;
+
+export class PatchContextMismatchError extends ToolError {
+  constructor(filePath: string, patch: string, content: string) {
+    super(
+      'PATCH_CONTEXT_MISMATCH',
+      `Failed to apply patch to ${filePath}. Patch may be invalid or context doesn't match.`,
+      patchHint(patch, content),
+    );
+  }
+}
+
+// The file's current lines where the first hunk that does not fit expected them
+function patchHint(patch: string, content: string): string {
+  let hunks: ReturnType<typeof parsePatch>[number]['hunks'];
+  try {
+    hunks = parsePatch(patch).flatMap((p) => p.hunks);
+  } catch {
+    hunks = [];
+  }
+  if (hunks.length === 0) {
+    return 'This is not a unified diff with "@@ -start,count +start,count @@" hunks. Fix the patch, or use write_file.';
+  }
+  if (content === '') {
+    return 'The file is empty or does not exist. Create it with write_file instead.';
+  }
+
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  const hunk = hunks.find((h) => !hunkFits(h, lines)) ?? hunks[0];
+  if (hunk.oldStart > lines.length) {
+    return (
+      `The hunk starts at line ${hunk.oldStart}, but the file has only ${lines.length} lines. ` +
+      'Read it with read_file and rebuild the patch.'
+    );
+  }
+
+  const from = Math.max(1, hunk.oldStart - HINT_CONTEXT_LINES);
+  const to = Math.min(lines.length, hunk.oldStart + hunk.oldLines - 1 + HINT_CONTEXT_LINES, from + MAX_HINT_LINES - 1);
+  const excerpt = lines
+    .slice(from - 1, to)
+    .map((line, i) => `${from + i}: ${line}`)
+    .join('\n');
+  return `Current content of lines ${from}–${to} is:\n${excerpt}\nRebuild the patch against these lines.`;
+}
+
+function hunkFits(hunk: { oldStart: number; lines: string[] }, lines: string[]): boolean {
+  const expected = hunk.lines.filter((l) => l[0] === ' ' || l[0] === '-').map((l) => l.slice(1));
+  return expected.every((line, i) => lines[hunk.oldStart - 1 + i] === line);
+}
+
+/** Any thrown value as a ToolError; ones that are not become TOOL_FAILED. */
+export function toToolError(err: unknown): ToolError {
+  if (err instanceof ToolError) return err;
+  return new ToolError('TOOL_FAILED', err instanceof Error ? err.message : String(err));
+}
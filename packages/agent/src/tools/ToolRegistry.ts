@@ -0,0 +1,236 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { logger } from '../logger';
+import { ToolError } from './ToolError';
+import type { Config } from '../config';
+import type { DatabaseMemory } from '../memory/DatabaseMemory';
+import type { ProviderToolDefinition } from '../providers';
+import type { FileTool } from './FileTool';
+import type { BuildTool } from './BuildTool';
+import type { LintTool } from './LintTool';
+import type { ScriptTool } from './ScriptTool';
+import type { GitTool } from './GitTool';
+import type { TestTool } from './TestTool';
+import type { CITool } from './CITool';
+import type { CommandTool } from './CommandTool';
+import type { OutputListener, SandboxNetwork } from '../sandbox/DockerSandbox';
+
+// ─── Tool registry ────────────────────────────────────────────────────────────
+// Every tool the executor can run is a defineTool() entry: its zod schema both
+// validates the input and becomes the JSON input_schema the model sees, so the
+// two cannot drift. Built-ins live in builtins.ts; plugins add more at startup.
+
+/** What a handler gets besides its input — built per call, around this run's tool instances. */
+export interface ToolContext {
+  config: Config;
+  sessionId: string;
+  memory: DatabaseMemory;
+  // Built-in implementations, bound to this run's workspace and sandbox
+  file: FileTool;
+  build: BuildTool;
+  lint: LintTool;
+  script: ScriptTool;
+  git: GitTool;
+  test: TestTool;
+  ci: CITool;
+  command: CommandTool;
+  // Streams a chunk of a running process's output to the UI as tool_progress events
+  onOutput: OutputListener;
+  // The network this tool's sandboxed commands get — its definition's policy
+  network: SandboxNetwork;
+}
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  // Side-effect free: runs in parallel with other read-only tools and is offered while planning
+  readOnly?: boolean;
+  // Emits tool_progress events when it starts and ends; output it streams goes in between
+  longRunning?: boolean;
+  // Network policy for the sandbox: 'registry' reaches allowlisted package
+  // registries through the egress proxy; anything else stays offline (default 'none')
+  network?: SandboxNetwork;
+  // Deploys and changes infrastructure: withheld from runs by users below the admin role
+  adminOnly?: boolean;
+  // Sent to the model instead of the schema's own JSON Schema — for tools bridged
+  // from elsewhere (MCP servers) whose zod schema only approximates the original
+  inputSchema?: Record<string, unknown>;
+  // A method, so a definition with a specific schema still counts as a ToolDefinition
+  handler(input: z.output<S>, ctx: ToolContext): Promise<unknown> | unknown;
+}
+
+/** Identity helper that infers the handler's input type from the schema. */
+export function defineTool<S extends z.AnyZodObject>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/** The JSON Schema a provider expects for a zod object schema. */
+export function toInputSchema(schema: z.AnyZodObject): Record<string, unknown> {
+  // zod-to-json-schema types against 'zod/v3'; comparing that structurally with 'zod' is too deep for tsc
+  const converted = zodToJsonSchema(schema as unknown as Parameters<typeof zodToJsonSchema>[0], {
+    $refStrategy: 'none',
+  });
+  const jsonSchema: Record<string, unknown> = { ...converted };
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/** Provider definition for a tool the Agent handles itself (delegate_task, propose_plan). */
+export function toProviderTool(tool: {
+  name: string;
+  description: string;
+  schema: z.AnyZodObject;
+}): ProviderToolDefinition {
+  return { name: tool.name, description: tool.description, input_schema: toInputSchema(tool.schema) };
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, ToolDefinition>();
+  private readonly inputSchemas = new Map<string, Record<string, unknown>>();
+
+  constructor(definitions: readonly ToolDefinition[] = []) {
+    for (const definition of definitions) this.register(definition);
+  }
+
+  register<S extends z.AnyZodObject>(definition: ToolDefinition<S>): void {
+    const { name, description, schema, handler } = definition;
+    if (!TOOL_NAME.test(name)) {
+      throw new Error(`Invalid tool name "${name}": use 1-64 letters, digits, "_" or "-"`);
+    }
+    if (this.tools.has(name)) {
+      throw new Error(`Tool "${name}" is already registered`);
+    }
+    if (!description?.trim()) {
+      throw new Error(`Tool "${name}" needs a description`);
+    }
+    // Checked by shape so plugins bundling their own copy of zod still work
+    if ((schema as { _def?: { typeName?: string } })?._def?.typeName !== 'ZodObject') {
+      throw new Error(`Tool "${name}" needs a zod object schema`);
+    }
+    if (typeof handler !== 'function') {
+      throw new Error(`Tool "${name}" needs a handler function`);
+    }
+    this.tools.set(name, definition);
+    this.inputSchemas.set(name, definition.inputSchema ?? toInputSchema(schema));
+  }
+
+  /** A new registry with these tools plus `definitions` — e.g. one run's MCP tools. */
+  extend(definitions: readonly ToolDefinition[]): ToolRegistry {
+    const registry = new ToolRegistry();
+    // Copied, not re-registered: this registry's tools are already validated and converted
+    for (const [name, tool] of this.tools) {
+      registry.tools.set(name, tool);
+      registry.inputSchemas.set(name, this.inputSchemas.get(name)!);
+    }
+    for (const definition of definitions) registry.register(definition);
+    return registry;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  names(): string[] {
+    return [...this.tools.keys()];
+  }
+
+  isReadOnly(name: string): boolean {
+    return this.tools.get(name)?.readOnly === true;
+  }
+
+  isLongRunning(name: string): boolean {
+    return this.tools.get(name)?.longRunning === true;
+  }
+
+  isAdminOnly(name: string): boolean {
+    return this.tools.get(name)?.adminOnly === true;
+  }
+
+  network(name: string): SandboxNetwork {
+    return this.tools.get(name)?.network ?? 'none';
+  }
+
+  /** Definitions in the shape providers send to the model, in registration order. */
+  definitions(): ProviderToolDefinition[] {
+    return [...this.tools.values()].map(({ name, description }) => ({
+      name,
+      description,
+      input_schema: this.inputSchemas.get(name)!,
+    }));
+  }
+}
+
+// ─── Plugins ──────────────────────────────────────────────────────────────────
+// A plugin is a .js/.cjs file in one of config.pluginDirs. It exports a tool
+// definition, an array of them, or a function that receives { defineTool, z, ToolError }
+// and returns either — so plugins can use this process's zod without
+// installing their own. Plugins run inside the agent process, not the sandbox.
+
+export interface PluginApi {
+  defineTool: typeof defineTool;
+  z: typeof z;
+  ToolError: typeof ToolError; // thrown with a code and hint, e.g. new ToolError('TIMEOUT', ...)
+}
+
+export interface LoadedPlugin {
+  file: string;
+  tools: string[];
+  error?: string;
+}
+
+const PLUGIN_EXTENSIONS = new Set(['.js', '.cjs']);
+
+/**
+ * Registers the tools of every plugin in `dirs`. A plugin that fails to load
+ * or clashes with an existing tool is skipped and reported, never fatal.
+ */
+export async function loadToolPlugins(registry: ToolRegistry, dirs: readonly string[]): Promise<LoadedPlugin[]> {
+  const loaded: LoadedPlugin[] = [];
+  for (const dir of dirs.map(expandHome)) {
+    if (!(await fs.pathExists(dir))) {
+      logger.warn('Plugin directory does not exist', { dir });
+      continue;
+    }
+    const files = (await fs.readdir(dir))
+      .filter((f) => PLUGIN_EXTENSIONS.has(path.extname(f)))
+      .sort()
+      .map((f) => path.join(dir, f));
+
+    for (const file of files) {
+      try {
+        const exported = await import(file);
+        const entry = exported?.default ?? exported;
+        const result = typeof entry === 'function' ? await entry({ defineTool, z, ToolError } satisfies PluginApi) : entry;
+        const definitions: ToolDefinition[] = Array.isArray(result) ? result : [result];
+        // Validate everything first so a plugin registers all of its tools or none
+        new ToolRegistry(definitions);
+        const clash = definitions.find((d) => registry.has(d.name));
+        if (clash) throw new Error(`Tool "${clash.name}" is already registered`);
+        for (const definition of definitions) registry.register(definition);
+
+        const tools = definitions.map((d) => d.name);
+        logger.info('Tool plugin loaded', { file, tools });
+        loaded.push({ file, tools });
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        logger.error('Tool plugin failed to load', { file, error });
+        loaded.push({ file, tools: [], error });
+      }
+    }
+  }
+  return loaded;
+}
+
+function expandHome(dir: string): string {
+  return path.resolve(dir.startsWith('~') ? path.join(os.homedir(), dir.slice(1)) : dir);
+}
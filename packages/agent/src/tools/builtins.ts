@@ -0,0 +1,387 @@
+import { defineTool, ToolRegistry } from './ToolRegistry';
+import { deployToNetlify } from './DeployTool';
+import { deployToVercel } from './VercelTool';
+import { deployToS3 } from './AWSTool';
+import {
+  terraformInit,
+  terraformPlan,
+  terraformApply,
+  terraformDestroy,
+  terraformOutput,
+} from './TerraformTool';
+import { generateInfrastructure } from './InfrastructureGenerator';
+import {
+  ReadFileSchema, WriteFileSchema, ApplyPatchSchema,
+  DeleteFileSchema, ListFilesSchema, SearchFilesSchema,
+  NpmInstallSchema, NpmRunSchema, TscCheckSchema,
+  EslintCheckSchema, PrettierFormatSchema,
+  RunNodeScriptSchema,
+  RunCommandSchema,
+  GitCheckpointSchema, GitDiffSchema, GitStatusSchema,
+  GitPushSchema, GitPullSchema, GitBranchSchema, GitLogSchema,
+  GitCloneSchema, GitMergeSchema, GitStashSchema, GitResetSchema, GitRemoteSchema,
+  RunTestsSchema,
+  RunCISchema,
+  MemorySetSchema, MemoryGetSchema,
+  DeploySchema, VercelDeploySchema, AWSS3DeploySchema,
+  TerraformInitSchema, TerraformPlanSchema, TerraformApplySchema,
+  TerraformDestroySchema, TerraformOutputSchema,
+  GenerateInfrastructureSchema,
+} from './schemas';
+
+// ─── Built-in tools (what Claude sees) ────────────────────────────────────────
+// shell_command is intentionally absent. Every capability is a typed tool;
+// run_command covers other programs, without a shell and only as far as the
+// workspace's .agent/commands.yml allows.
+
+export const BUILTIN_TOOLS = [
+
+  // ── File ──────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'read_file',
+    description: 'Read a file from the workspace. Returns its content.',
+    schema: ReadFileSchema,
+    readOnly: true,
+    handler: (input, { file }) => file.readFile(input),
+  }),
+  defineTool({
+    name: 'write_file',
+    description: 'Write content to a new file. For existing files use apply_patch instead.',
+    schema: WriteFileSchema,
+    handler: (input, { file }) => file.writeFile(input),
+  }),
+  defineTool({
+    name: 'apply_patch',
+    description: 'Apply a unified diff patch to an existing file. Always prefer this over write_file for modifications.',
+    schema: ApplyPatchSchema,
+    handler: (input, { file }) => file.applyPatch(input),
+  }),
+  defineTool({
+    name: 'delete_file',
+    description: 'Delete a file or directory from the workspace.',
+    schema: DeleteFileSchema,
+    handler: (input, { file }) => file.deleteFile(input),
+  }),
+  defineTool({
+    name: 'list_files',
+    description: 'List files in a workspace directory matching a glob pattern.',
+    schema: ListFilesSchema,
+    readOnly: true,
+    handler: (input, { file }) => file.listFiles(input),
+  }),
+  defineTool({
+    name: 'search_files',
+    description: 'Search for a regex pattern across files in the workspace.',
+    schema: SearchFilesSchema,
+    readOnly: true,
+    handler: (input, { file, config }) => file.searchInFiles(input, config.maxSearchResults),
+  }),
+
+  // ── Build ─────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'npm_install',
+    description:
+      'Install npm dependencies. Call with no packages to run "npm install" from package.json. ' +
+      'Call with a packages list to add specific packages.',
+    schema: NpmInstallSchema,
+    longRunning: true,
+    // The only built-in that needs the network: downloads go through the egress proxy
+    network: 'registry',
+    handler: (input, { build, onOutput, network }) => build.npmInstall(input, onOutput, network),
+  }),
+  defineTool({
+    name: 'npm_run',
+    description:
+      'Run a named script from the package.json "scripts" field. ' +
+      'Only scripts that exist in package.json can be run — the tool verifies this before executing.',
+    schema: NpmRunSchema,
+    longRunning: true,
+    handler: (input, { build, onOutput }) => build.npmRun(input, onOutput),
+  }),
+  defineTool({
+    name: 'tsc_check',
+    description:
+      'Run the TypeScript compiler to check for type errors (--noEmit by default). ' +
+      'Always run this after modifying TypeScript files before creating a git checkpoint.',
+    schema: TscCheckSchema,
+    // Type checking only reads (--noEmit by default)
+    readOnly: true,
+    longRunning: true,
+    handler: (input, { build, onOutput }) => build.tscCheck(input, onOutput),
+  }),
+
+  // ── Lint ──────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'eslint_check',
+    description:
+      'Run ESLint on workspace files. Use fix:false to check only (default), fix:true to auto-fix. ' +
+      'Run this before every git checkpoint to catch code quality issues.',
+    schema: EslintCheckSchema,
+    longRunning: true,
+    handler: (input, { lint, onOutput }) => lint.eslintCheck(input, onOutput),
+  }),
+  defineTool({
+    name: 'prettier_format',
+    description:
+      'Run Prettier on workspace files. Use check:false to format in-place (default), ' +
+      'check:true to verify formatting without writing.',
+    schema: PrettierFormatSchema,
+    longRunning: true,
+    handler: (input, { lint, onOutput }) => lint.prettierFormat(input, onOutput),
+  }),
+
+  // ── Script ────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'run_node_script',
+    description:
+      'Execute a specific .js or .ts file inside the workspace using node or ts-node. ' +
+      'Use this for one-off scripts like database seeds, migrations, or code generators ' +
+      'that are not covered by a named npm script. ' +
+      'The script MUST exist inside the workspace — no external paths allowed.',
+    schema: RunNodeScriptSchema,
+    handler: (input, { script }) => script.runNodeScript(input),
+  }),
+  defineTool({
+    name: 'run_command',
+    description:
+      'Run a program that has no dedicated tool — make, python, go test, sed, curl against a local server — ' +
+      'in the Docker sandbox. Only commands allowed by the workspace\'s .agent/commands.yml can run; ' +
+      'the error lists them. There is no shell: pass each argument separately in args.',
+    schema: RunCommandSchema,
+    longRunning: true,
+    handler: (input, { command, onOutput }) => command.runCommand(input, onOutput),
+  }),
+
+  // ── Git ───────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'git_checkpoint',
+    description:
+      'Create a git commit. MUST be called before the first file mutation in any task, ' +
+      'and again after all changes are verified via tests.',
+    schema: GitCheckpointSchema,
+    handler: (input, { git }) => git.checkpoint(input),
+  }),
+  defineTool({
+    name: 'git_diff',
+    description: 'Show the current git diff — unstaged by default, or staged changes.',
+    schema: GitDiffSchema,
+    readOnly: true,
+    handler: (input, { git }) => git.diff(input),
+  }),
+  defineTool({
+    name: 'git_status',
+    description: 'Get git status: modified, created, and deleted files.',
+    schema: GitStatusSchema,
+    readOnly: true,
+    handler: (input, { git }) => git.status(input),
+  }),
+  defineTool({
+    name: 'git_push',
+    description:
+      'Push commits to a remote repository. Requires GIT_CREDENTIALS to be configured in Docker mode. ' +
+      'Always create a git_checkpoint before pushing.',
+    schema: GitPushSchema,
+    handler: (input, { git }) => git.push(input),
+  }),
+  defineTool({
+    name: 'git_pull',
+    description:
+      'Pull changes from a remote repository. Requires GIT_CREDENTIALS to be configured in Docker mode. ' +
+      'Consider committing local changes first to avoid merge conflicts.',
+    schema: GitPullSchema,
+    handler: (input, { git }) => git.pull(input),
+  }),
+  defineTool({
+    name: 'git_branch',
+    description:
+      'Manage git branches: list, create, delete, or switch branches. ' +
+      'Use action="list" to see all branches, action="create" to create a new branch, etc.',
+    schema: GitBranchSchema,
+    handler: (input, { git }) => git.branch(input),
+  }),
+  defineTool({
+    name: 'git_log',
+    description:
+      'View commit history. Returns recent commits with hash, message, author, and date.',
+    schema: GitLogSchema,
+    handler: (input, { git }) => git.log(input),
+  }),
+  defineTool({
+    name: 'git_clone',
+    description:
+      'Clone a repository into the workspace. Requires GIT_CREDENTIALS for private repos in Docker mode.',
+    schema: GitCloneSchema,
+    longRunning: true,
+    handler: (input, { git }) => git.clone(input),
+  }),
+  defineTool({
+    name: 'git_merge',
+    description:
+      'Merge a branch into the current branch. Reports any conflicts that need resolution.',
+    schema: GitMergeSchema,
+    handler: (input, { git }) => git.merge(input),
+  }),
+  defineTool({
+    name: 'git_stash',
+    description:
+      'Stash or restore uncommitted changes. Useful for temporarily saving work-in-progress.',
+    schema: GitStashSchema,
+    handler: (input, { git }) => git.stash(input),
+  }),
+  defineTool({
+    name: 'git_reset',
+    description:
+      'Reset current HEAD to a specified state. Use with caution - hard reset discards changes!',
+    schema: GitResetSchema,
+    handler: (input, { git }) => git.reset(input),
+  }),
+  defineTool({
+    name: 'git_remote',
+    description:
+      'Manage remote repositories: list, add, remove, or update remote URLs.',
+    schema: GitRemoteSchema,
+    handler: (input, { git }) => git.remote(input),
+  }),
+
+  // ── Test ──────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'run_tests',
+    description:
+      'Run automated tests and return structured results including pass/fail counts, ' +
+      'failure messages, and coverage. Auto-detects Jest or Vitest from package.json.',
+    schema: RunTestsSchema,
+    longRunning: true,
+    handler: (input, { test, onOutput }) => test.runTests(input, onOutput),
+  }),
+
+  // ── CI ────────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'run_ci',
+    description:
+      'Run GitHub Actions workflows locally using `act` before pushing commits. ' +
+      'Executes: act -P ubuntu-latest=ghcr.io/catthehacker/ubuntu:full-latest --container-architecture linux/amd64. ' +
+      'Returns pass/fail status, raw output, and a list of failure lines. ' +
+      'MUST be called before git_push to verify CI passes. ' +
+      'If CI fails, analyse the raw_output and failures, fix the issues, then re-run before pushing.',
+    schema: RunCISchema,
+    longRunning: true,
+    handler: (input, { ci, onOutput }) => ci.runCI(input, onOutput),
+  }),
+
+  // ── Memory ────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'memory_set',
+    description: 'Store a persistent fact that will be available in future sessions.',
+    schema: MemorySetSchema,
+    handler: ({ key, value, category }, { memory }) => {
+      memory.setKnowledge(key, value, category);
+      return { success: true, key };
+    },
+  }),
+  defineTool({
+    name: 'memory_get',
+    description: 'Retrieve a previously stored value from persistent memory.',
+    schema: MemoryGetSchema,
+    readOnly: true,
+    handler: ({ key }, { memory }) => {
+      const value = memory.getKnowledge(key);
+      return { key, value: value ?? null, found: value !== undefined };
+    },
+  }),
+
+  // ── Deploy ────────────────────────────────────────────────────────────────
+  defineTool({
+    name: 'deploy_netlify',
+    description: 'Build and deploy the project to Netlify.',
+    schema: DeploySchema,
+    longRunning: true,
+    adminOnly: true,
+    handler: (input, { config }) =>
+      deployToNetlify({
+        workspaceDir: config.workspaceDir,
+        siteId:       config.netlifySiteId,
+        authToken:    config.netlifyToken,
+        ...input,
+      }),
+  }),
+  defineTool({
+    name: 'deploy_vercel',
+    description:
+      'Deploy a project to Vercel. Supports React, Next.js, Vue, and other frameworks. ' +
+      'Requires VERCEL_TOKEN environment variable.',
+    schema: VercelDeploySchema,
+    longRunning: true,
+    adminOnly: true,
+    handler: (input, { config }) => deployToVercel(input, config.workspaceDir, config.vercelToken),
+  }),
+  defineTool({
+    name: 'deploy_aws_s3',
+    description:
+      'Deploy static files to AWS S3 with optional CloudFront CDN invalidation. ' +
+      'Requires AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables.',
+    schema: AWSS3DeploySchema,
+    longRunning: true,
+    adminOnly: true,
+    handler: (input, { config }) => deployToS3(input, config.workspaceDir),
+  }),
+
+  // ── Terraform / IaC ────────────────────────────────────────────────────────
+  defineTool({
+    name: 'terraform_init',
+    description:
+      'Initialize Terraform working directory. Downloads providers and sets up backend. ' +
+      'Run this before plan/apply.',
+    schema: TerraformInitSchema,
+    longRunning: true,
+    handler: (input, { config }) => terraformInit(input, config.workspaceDir),
+  }),
+  defineTool({
+    name: 'terraform_plan',
+    description:
+      'Generate an execution plan showing what Terraform will do. ' +
+      'Review this before running terraform_apply.',
+    schema: TerraformPlanSchema,
+    longRunning: true,
+    handler: (input, { config }) => terraformPlan(input, config.workspaceDir),
+  }),
+  defineTool({
+    name: 'terraform_apply',
+    description:
+      'Apply Terraform changes to create/update infrastructure. ' +
+      'For safety, use a saved plan file from terraform_plan, or set autoApprove=true explicitly.',
+    schema: TerraformApplySchema,
+    longRunning: true,
+    adminOnly: true,
+    handler: (input, { config }) => terraformApply(input, config.workspaceDir),
+  }),
+  defineTool({
+    name: 'terraform_destroy',
+    description:
+      'Destroy all Terraform-managed infrastructure. ' +
+      'WARNING: This is destructive and requires explicit autoApprove=true.',
+    schema: TerraformDestroySchema,
+    longRunning: true,
+    adminOnly: true,
+    handler: (input, { config }) => terraformDestroy(input, config.workspaceDir),
+  }),
+  defineTool({
+    name: 'terraform_output',
+    description:
+      'Retrieve outputs from Terraform state (URLs, IDs, etc.).',
+    schema: TerraformOutputSchema,
+    handler: (input, { config }) => terraformOutput(input, config.workspaceDir),
+  }),
+  defineTool({
+    name: 'generate_infrastructure',
+    description:
+      'Analyze a project and generate infrastructure-as-code (Terraform) for deployment. ' +
+      'Detects project type (React, Node.js, etc.) and generates appropriate AWS, Vercel, or Netlify configs.',
+    schema: GenerateInfrastructureSchema,
+    longRunning: true,
+    handler: (input, { config }) => generateInfrastructure(input, config.workspaceDir),
+  }),
+
+];
+
+// The process-wide registry: built-ins plus whatever plugins load at startup
+export const toolRegistry = new ToolRegistry(BUILTIN_TOOLS);
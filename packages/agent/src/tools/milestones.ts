@@ -0,0 +1,49 @@
+// ─── Output milestones ────────────────────────────────────────────────────────
+// Long-running tools stream raw output; a few lines in it say how far along
+// the run is — a test file finishing, a CI step starting, npm's summary. These
+// become the status of tool_progress events, so the UI shows "PASS
+// src/api.test.ts" or "build › npm test" instead of a generic spinner.
+
+// eslint-disable-next-line no-control-regex
+const ANSI = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+interface MilestoneRule {
+  pattern: RegExp;
+  format: (m: RegExpMatchArray) => string;
+}
+
+const squash = (s: string) => s.trim().replace(/\s+/g, ' ');
+
+const RULES: MilestoneRule[] = [
+  // jest: "PASS src/a.test.ts (5.2 s)", "Tests:       1 failed, 11 passed, 12 total"
+  { pattern: /^(PASS|FAIL)\s+(\S+)/, format: (m) => `${m[1]} ${m[2]}` },
+  { pattern: /^(Tests|Test Suites):\s+(.*\d.*)$/, format: (m) => `${m[1]}: ${squash(m[2])}` },
+  // vitest: " Test Files  2 passed (2)", "      Tests  12 passed (12)"
+  { pattern: /^\s*(Test Files|Tests)\s{2,}(.*\d.*)$/, format: (m) => `${m[1]}: ${squash(m[2])}` },
+  // act: "[CI/build] ⭐ Run Main npm test", "[CI/build]   ✅  Success - Main npm test"
+  {
+    pattern: /^\[(?:[^\]/]+\/)?([^\]]+)\]\s+⭐\s+Run\s+(?:(?:Pre|Main|Post)\s+)?(.+)$/u,
+    format: (m) => `${m[1]} › ${squash(m[2])}`,
+  },
+  {
+    pattern: /^\[(?:[^\]/]+\/)?([^\]]+)\]\s+(✅|❌)\s+(?:Success|Failure)\s+-\s+(?:(?:Pre|Main|Post)\s+)?(.+)$/u,
+    format: (m) => `${m[1]} ${m[2]} ${squash(m[3])}`,
+  },
+  { pattern: /^\[(?:[^\]/]+\/)?([^\]]+)\]\s+🏁\s+(Job (?:succeeded|failed))/u, format: (m) => `${m[1]}: ${m[2]}` },
+  // npm install: "added 120 packages, and audited 121 packages in 3s"
+  { pattern: /^((?:added|removed|changed) \d+ packages?.*|up to date.*)$/, format: (m) => squash(m[1]) },
+  // tsc: "Found 3 errors in 2 files."
+  { pattern: /^(Found \d+ errors?.*)$/, format: (m) => squash(m[1]) },
+  // eslint: "✖ 4 problems (3 errors, 1 warning)"
+  { pattern: /^(✖ \d+ problems?.*)$/u, format: (m) => squash(m[1]) },
+];
+
+/** The status a line of tool output announces, if it is a milestone. */
+export function parseMilestone(line: string): string | undefined {
+  const clean = line.replace(ANSI, '').replace(/\r$/, '');
+  for (const rule of RULES) {
+    const m = clean.match(rule.pattern);
+    if (m) return rule.format(m);
+  }
+  return undefined;
+}
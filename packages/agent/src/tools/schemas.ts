@@ -3,23 +3,28 @@ import { z } from 'zod';
 // ─── File Tools ───────────────────────────────────────────────────────────────
 
 export const ReadFileSchema = z.object({
-  path: z.string().min(1, 'path is required'),
+  path: z.string().min(1, 'path is required')
+    .describe('File path relative to workspace root.'),
   encoding: z.enum(['utf8', 'base64', 'hex']).default('utf8'),
 });
 
 export const WriteFileSchema = z.object({
-  path: z.string().min(1, 'path is required'),
-  content: z.string(),
+  path: z.string().min(1, 'path is required')
+    .describe('File path relative to workspace root.'),
+  content: z.string().describe('Full file content to write.'),
   createDirs: z.boolean().default(true),
 });
 
 export const ApplyPatchSchema = z.object({
-  path: z.string().min(1, 'path is required'),
-  patch: z.string().min(1, 'patch (unified diff) is required'),
+  path: z.string().min(1, 'path is required')
+    .describe('File path relative to workspace root.'),
+  patch: z.string().min(1, 'patch (unified diff) is required')
+    .describe('Valid unified diff patch string.'),
 });
 
 export const DeleteFileSchema = z.object({
-  path: z.string().min(1, 'path is required'),
+  path: z.string().min(1, 'path is required')
+    .describe('File path relative to workspace root.'),
 });
 
 export const ListFilesSchema = z.object({
@@ -31,7 +36,7 @@ export const ListFilesSchema = z.object({
 
 export const SearchFilesSchema = z.object({
   directory: z.string().default('.'),
-  pattern: z.string().min(1, 'pattern is required'),
+  pattern: z.string().min(1, 'pattern is required').describe('Regex pattern to search for.'),
   fileGlob: z.string().default('**/*.{ts,tsx,js,jsx,json,md}'),
 });
 
@@ -39,8 +44,8 @@ export const SearchFilesSchema = z.object({
 // ─── Git Tool ─────────────────────────────────────────────────────────────────
 
 export const GitCheckpointSchema = z.object({
-  message: z.string().min(1, 'commit message is required'),
-  directory: z.string().optional(),
+  message: z.string().min(1, 'commit message is required').describe('Commit message describing the change.'),
+  directory: z.string().optional().describe('Subdirectory to commit (default: entire workspace).'),
 });
 
 export const GitDiffSchema = z.object({
@@ -53,22 +58,22 @@ export const GitStatusSchema = z.object({
 });
 
 export const GitPushSchema = z.object({
-  directory: z.string().optional(),
-  remote: z.string().default('origin'),
+  directory: z.string().optional().describe('Subdirectory containing the git repo (default: workspace root).'),
+  remote: z.string().default('origin').describe('Remote name.'),
   branch: z.string().optional().describe('Branch to push. Defaults to current branch.'),
   force: z.boolean().default(false).describe('Force push. Use with caution.'),
   setUpstream: z.boolean().default(false).describe('Set upstream tracking reference.'),
 });
 
 export const GitPullSchema = z.object({
-  directory: z.string().optional(),
-  remote: z.string().default('origin'),
+  directory: z.string().optional().describe('Subdirectory containing the git repo (default: workspace root).'),
+  remote: z.string().default('origin').describe('Remote name.'),
   branch: z.string().optional().describe('Branch to pull. Defaults to current branch.'),
   rebase: z.boolean().default(false).describe('Rebase instead of merge.'),
 });
 
 export const GitBranchSchema = z.object({
-  directory: z.string().optional(),
+  directory: z.string().optional().describe('Subdirectory containing the git repo.'),
   action: z.enum(['list', 'create', 'delete', 'switch']).default('list'),
   name: z.string().optional().describe('Branch name (required for create/delete/switch).'),
   startPoint: z.string().optional().describe('Starting point for new branch (commit hash or branch name).'),
@@ -76,7 +81,7 @@ export const GitBranchSchema = z.object({
 });
 
 export const GitLogSchema = z.object({
-  directory: z.string().optional(),
+  directory: z.string().optional().describe('Subdirectory containing the git repo.'),
   maxCount: z.number().int().min(1).max(100).default(20).describe('Maximum number of commits to show.'),
   branch: z.string().optional().describe('Branch to show logs for. Defaults to current branch.'),
   oneline: z.boolean().default(true).describe('Show condensed one-line format.'),
@@ -91,7 +96,7 @@ export const GitCloneSchema = z.object({
 });
 
 export const GitMergeSchema = z.object({
-  directory: z.string().optional(),
+  directory: z.string().optional().describe('Subdirectory containing the git repo.'),
   branch: z.string().min(1).describe('Branch to merge into current branch.'),
   noFastForward: z.boolean().default(false).describe('Create a merge commit even if fast-forward is possible.'),
   squash: z.boolean().default(false).describe('Squash commits into a single commit.'),
@@ -99,7 +104,7 @@ export const GitMergeSchema = z.object({
 });
 
 export const GitStashSchema = z.object({
-  directory: z.string().optional(),
+  directory: z.string().optional().describe('Subdirectory containing the git repo.'),
   action: z.enum(['push', 'pop', 'list', 'apply', 'drop', 'clear']).default('push'),
   message: z.string().optional().describe('Message for stash push.'),
   index: z.number().int().min(0).optional().describe('Stash index for pop/apply/drop.'),
@@ -107,13 +112,13 @@ export const GitStashSchema = z.object({
 });
 
 export const GitResetSchema = z.object({
-  directory: z.string().optional(),
+  directory: z.string().optional().describe('Subdirectory containing the git repo.'),
   target: z.string().default('HEAD').describe('Commit hash, branch name, or HEAD~N.'),
   mode: z.enum(['soft', 'mixed', 'hard']).default('mixed').describe('Reset mode: soft (keep staged), mixed (unstage), hard (discard all).'),
 });
 
 export const GitRemoteSchema = z.object({
-  directory: z.string().optional(),
+  directory: z.string().optional().describe('Subdirectory containing the git repo.'),
   action: z.enum(['list', 'add', 'remove', 'get-url', 'set-url']).default('list'),
   name: z.string().optional().describe('Remote name (required for add/remove/get-url/set-url).'),
   url: z.string().optional().describe('Remote URL (required for add/set-url).'),
@@ -122,8 +127,8 @@ export const GitRemoteSchema = z.object({
 // ─── Test Tool ────────────────────────────────────────────────────────────────
 
 export const RunTestsSchema = z.object({
-  directory: z.string().optional(),
-  testPattern: z.string().optional(),
+  directory: z.string().optional().describe('Directory containing the project under test.'),
+  testPattern: z.string().optional().describe('Filter tests by filename pattern.'),
   type: z.enum(['unit', 'integration', 'e2e', 'all']).default('all'),
   coverage: z.boolean().default(true),
   updateSnapshots: z.boolean().default(false),
@@ -133,8 +138,8 @@ export const RunTestsSchema = z.object({
 // ─── Memory Tool ──────────────────────────────────────────────────────────────
 
 export const MemorySetSchema = z.object({
-  key: z.string().min(1),
-  value: z.string(),
+  key: z.string().min(1).describe('Unique key.'),
+  value: z.string().describe('Value to store.'),
   category: z.string().default('general'),
 });
 
@@ -142,6 +147,42 @@ export const MemoryGetSchema = z.object({
   key: z.string().min(1),
 });
 
+// ─── Delegation ───────────────────────────────────────────────────────────────
+// Handled by the Agent itself (it starts a child run), not by ToolExecutor.
+
+export const DelegateTaskSchema = z.object({
+  task: z.string().min(1, 'task is required')
+    .describe('Complete instructions for the subtask. The sub-agent does not see this conversation.'),
+  directory: z.string().default('.')
+    .describe('Directory (relative to workspace root) the sub-agent is confined to.'),
+  tools: z.array(z.string().min(1)).min(1).optional()
+    .describe('Tool names the sub-agent may use. Defaults to file, build, lint, test and read-only git tools.'),
+  tokenBudget: z.number().int().positive().optional()
+    .describe('Token ceiling for the sub-agent. Capped at its share of the remaining session budget.'),
+});
+
+// ─── Plan mode ────────────────────────────────────────────────────────────────
+// propose_plan input; the same shape comes back from the reviewer when they edit it.
+
+export const PlanSchema = z.object({
+  summary: z.string().min(1, 'summary is required')
+    .describe('One or two sentences: what will change and why.'),
+  steps: z.array(z.string().min(1)).min(1, 'at least one step is required')
+    .describe('Ordered implementation steps.'),
+  files: z
+    .array(
+      z.object({
+        path: z.string().min(1).describe('Path relative to workspace root.'),
+        change: z.enum(['create', 'modify', 'delete']),
+        reason: z.string().optional(),
+      })
+    )
+    .default([])
+    .describe('Files the implementation will touch.'),
+  risks: z.array(z.string().min(1)).default([])
+    .describe('What could break, and open questions.'),
+});
+
 // ─── Deploy Tool ──────────────────────────────────────────────────────────────
 
 export const DeploySchema = z.object({
@@ -265,7 +306,8 @@ export const GenerateInfrastructureSchema = z.object({
     runtime: z.string().optional().describe('Lambda runtime (e.g., nodejs20.x, python3.11).'),
     memory: z.number().int().min(128).max(10240).optional().describe('Lambda memory in MB.'),
     timeout: z.number().int().min(1).max(900).optional().describe('Lambda timeout in seconds.'),
-  }).optional(),
+  }).optional()
+    .describe('Provider-specific options.'),
 });
 
 // ─── CI Tool ──────────────────────────────────────────────────────────────────
@@ -291,6 +333,8 @@ export type ApplyPatchInput = z.infer<typeof ApplyPatchSchema>;
 export type DeleteFileInput = z.infer<typeof DeleteFileSchema>;
 export type ListFilesInput = z.infer<typeof ListFilesSchema>;
 export type SearchFilesInput = z.infer<typeof SearchFilesSchema>;
+export type DelegateTaskInput = z.infer<typeof DelegateTaskSchema>;
+export type Plan = z.infer<typeof PlanSchema>;
 export type GitCheckpointInput = z.infer<typeof GitCheckpointSchema>;
 export type GitDiffInput = z.infer<typeof GitDiffSchema>;
 export type GitStatusInput = z.infer<typeof GitStatusSchema>;
@@ -380,6 +424,19 @@ export const RunNodeScriptSchema = z.object({
     .describe('Run with ts-node instead of node (for .ts files that need direct execution).'),
 });
 
+// ─── Command Tool ─────────────────────────────────────────────────────────────
+
+export const RunCommandSchema = z.object({
+  command: z.string().min(1)
+    .describe('Program to run, e.g. "make" or "python3" — or ./path/to/script inside the workspace. No shell: pipes, redirects and globs are not interpreted.'),
+  args: z.array(z.string()).default([])
+    .describe('Arguments, passed to the program as-is.'),
+  cwd: z.string().default('.')
+    .describe('Working directory, relative to workspace root.'),
+  timeout: z.number().int().min(1000).max(600000).default(120000)
+    .describe('Timeout in milliseconds. Default 120s.'),
+});
+
 // ─── Build · Lint · Script type exports ─────────────────────────────────────────────────────────────
 
 export type NpmInstallInput    = z.infer<typeof NpmInstallSchema>;
@@ -388,3 +445,4 @@ export type TscCheckInput      = z.infer<typeof TscCheckSchema>;
 export type EslintCheckInput   = z.infer<typeof EslintCheckSchema>;
 export type PrettierFormatInput = z.infer<typeof PrettierFormatSchema>;
 export type RunNodeScriptInput = z.infer<typeof RunNodeScriptSchema>;
+export type RunCommandInput    = z.infer<typeof RunCommandSchema>;
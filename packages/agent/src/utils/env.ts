@@ -0,0 +1,43 @@
+// ─── Child process environments ───────────────────────────────────────────────
+// Commands, scripts and MCP servers never see the credentials the agent holds.
+// Sandbox commands get these keys blanked in their env override; processes on
+// the host start from an allowlist instead of inheriting the agent's env.
+
+// Every credential the agent process may hold (see config.ts)
+export const SCRUBBED_ENV_KEYS = [
+  'ANTHROPIC_API_KEY',
+  'AGENT_OPENAI_API_KEY',
+  'AGENT_API_SECRET',
+  'NETLIFY_AUTH_TOKEN',
+  'VERCEL_TOKEN',
+  'AWS_ACCESS_KEY_ID',
+  'AWS_SECRET_ACCESS_KEY',
+  'AWS_SESSION_TOKEN',
+];
+
+// What a host process inherits: enough to find programs, write temp files and
+// pick a locale. Windows needs the last few to start anything at all.
+const HOST_ENV_KEYS = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'TZ',
+  'TMPDIR', 'TEMP', 'TMP', 'SYSTEMROOT', 'COMSPEC', 'PATHEXT', 'WINDIR',
+];
+
+/** An env override for the sandbox that blanks every credential. */
+export function scrubbedSandboxEnv(): Record<string, string> {
+  return Object.fromEntries(SCRUBBED_ENV_KEYS.map((key) => [key, '']));
+}
+
+/**
+ * The env for a process on the host: the allowlisted agent vars, any of
+ * `inherit` the agent has, plus `extra` (e.g. an MCP server's configured env).
+ */
+export function hostProcessEnv(
+  extra: Record<string, string> = {},
+  inherit: readonly string[] = []
+): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const key of [...HOST_ENV_KEYS, ...inherit]) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  return { ...env, ...extra };
+}
@@ -1 +1,3 @@
 export { Mutex, AtomicCounter } from './Mutex';
+export { escapeRegExp, globToRegExp } from './glob';
+export { SCRUBBED_ENV_KEYS, scrubbedSandboxEnv, hostProcessEnv } from './env';
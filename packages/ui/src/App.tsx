@@ -5,14 +5,25 @@ import { ChatView } from './components/ChatView';
 import { SessionList } from './components/SessionList';
 import { ToolLog } from './components/ToolLog';
 import { WorkspaceTree } from './components/WorkspaceTree';
+import { Timeline } from './components/Timeline';
 import { StatusBar } from './components/StatusBar';
 import { KeyboardShortcutsModal } from './components/KeyboardShortcutsModal';
 import { ModelSelector } from './components/ModelSelector';
+import { WorkspaceSelector, useWorkspaces } from './components/WorkspaceSelector';
 import { DiffPreviewModal } from './components/DiffPreviewModal';
-import type { TokenUsage, PatchApprovalEvent } from './lib/types';
+import { PlanReviewModal } from './components/PlanReviewModal';
+import { DryRunModal } from './components/DryRunModal';
+import { ToolApprovalModal } from './components/ToolApprovalModal';
+import type {
+  AgentEvent, TokenUsage, PatchApprovalEvent, PatchApprovalResolvedEvent,
+  Plan, PlanProposedEvent, PlanResolvedEvent, CompleteEvent, DryRunReport,
+  ToolApprovalEvent, ToolApprovalResolvedEvent,
+} from './lib/types';
 
 const AGENT_URL = import.meta.env.VITE_AGENT_URL ?? 'http://localhost:3001';
 
+const TAB_LABELS = { tools: '⚙ Tools', tree: '📁 Files', timeline: '⏪ Timeline' } as const;
+
 // Error boundary component to prevent white-screen crashes
 import React from 'react';
 
@@ -55,7 +66,7 @@ class ErrorBoundary extends React.Component<
 function AgentApp() {
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [tokenUsage, setTokenUsage] = useState<TokenUsage | null>(null);
-  const [activeTab, setActiveTab] = useState<'tools' | 'tree'>('tools');
+  const [activeTab, setActiveTab] = useState<'tools' | 'tree' | 'timeline'>('tools');
   
   // Collapsible panel state
   const [leftPanelCollapsed, setLeftPanelCollapsed] = useState(false);
@@ -64,14 +75,28 @@ function AgentApp() {
   // Keyboard shortcuts modal
   const [showShortcuts, setShowShortcuts] = useState(false);
   
-  // Diff preview modal for patch approvals
-  const [pendingPatch, setPendingPatch] = useState<PatchApprovalEvent['data'] | null>(null);
+  // Diff preview modal for patch approvals — one turn can propose several edits,
+  // so they queue up and are reviewed one file at a time
+  const [pendingPatches, setPendingPatches] = useState<PatchApprovalEvent['data'][]>([]);
+
+  // Tool calls the workspace's permissions ask about, answered one at a time
+  const [pendingToolCalls, setPendingToolCalls] = useState<ToolApprovalEvent['data'][]>([]);
+
+  // Plan proposed by a run in plan mode, waiting for review
+  const [pendingPlan, setPendingPlan] = useState<PlanProposedEvent['data'] | null>(null);
+
+  // What a finished dry run held back, waiting to be applied or discarded
+  const [dryRunResult, setDryRunResult] = useState<{ sessionId: string; report: DryRunReport } | null>(null);
 
   const {
     connected, isRunning, currentSessionId,
     planningModel, setPlanningModel,
     codingModel, setCodingModel,
-    sendPrompt, cancelSession, onEvent, respondToPatchApproval
+    mode, setMode,
+    dryRun, setDryRun,
+    workspaceId, setWorkspaceId,
+    sendPrompt, resumeSession, cancelSession, onEvent, respondToPatchApproval, respondToPlan,
+    respondToToolApproval
   } = useAgentSocket();
 
   // Fetch server config including token budget
@@ -86,16 +111,43 @@ function AgentApp() {
     staleTime: 10000, // Consider fresh for 10 seconds
   });
 
-  const tokenBudget = serverConfig?.tokenBudget ?? Number(import.meta.env.VITE_TOKEN_BUDGET ?? 100_000);
+  // A workspace's own budget replaces the server's
+  const { data: workspaceList } = useWorkspaces();
+  const workspaceBudget = workspaceList?.workspaces.find((w) => w.id === workspaceId)?.settings.tokenBudget;
+  const tokenBudget =
+    workspaceBudget ?? serverConfig?.tokenBudget ?? Number(import.meta.env.VITE_TOKEN_BUDGET ?? 100_000);
   const serverHealthy = serverConfig?.status === 'ok';
 
   // Track token usage and patch approval events
-  const handleEventForApp = useCallback((event: any) => {
-    if (event.type === 'complete' && event.data?.tokenUsage) {
-      setTokenUsage(event.data.tokenUsage);
+  const handleEventForApp = useCallback((event: AgentEvent) => {
+    if (event.type === 'complete' && !event.childSessionId) {
+      const { sessionId, tokenUsage: usage, dryRun: report } = (event as CompleteEvent).data;
+      if (usage) setTokenUsage(usage);
+      if (report) setDryRunResult({ sessionId, report });
     }
     if (event.type === 'patch_approval_required') {
-      setPendingPatch((event as PatchApprovalEvent).data);
+      const patch = (event as PatchApprovalEvent).data;
+      setPendingPatches((prev) => [...prev.filter((p) => p.patchId !== patch.patchId), patch]);
+    }
+    if (event.type === 'patch_approval_resolved') {
+      // Resolved elsewhere (HTTP client, another tab) or timed out
+      const { patchId } = (event as PatchApprovalResolvedEvent).data;
+      setPendingPatches((prev) => prev.filter((p) => p.patchId !== patchId));
+    }
+    if (event.type === 'tool_approval_required') {
+      const call = (event as ToolApprovalEvent).data;
+      setPendingToolCalls((prev) => [...prev.filter((c) => c.approvalId !== call.approvalId), call]);
+    }
+    if (event.type === 'tool_approval_resolved') {
+      const { approvalId } = (event as ToolApprovalResolvedEvent).data;
+      setPendingToolCalls((prev) => prev.filter((c) => c.approvalId !== approvalId));
+    }
+    if (event.type === 'plan_proposed') {
+      setPendingPlan((event as PlanProposedEvent).data);
+    }
+    if (event.type === 'plan_resolved') {
+      const { planId } = (event as PlanResolvedEvent).data;
+      setPendingPlan((prev) => (prev?.planId === planId ? null : prev));
     }
   }, []);
 
@@ -110,6 +162,11 @@ function AgentApp() {
     setActiveSessionId(sid);
   }, [sendPrompt, activeSessionId]);
 
+  const handleResumeSession = useCallback((id: string) => {
+    setActiveSessionId(id);
+    resumeSession(id);
+  }, [resumeSession]);
+
   const handleCancel = useCallback(() => {
     if (currentSessionId) cancelSession(currentSessionId);
   }, [cancelSession, currentSessionId]);
@@ -119,17 +176,51 @@ function AgentApp() {
     setTokenUsage(null);
   }, []);
 
+  // Sessions belong to one workspace, so switching starts afresh
+  const handleSelectWorkspace = useCallback((id: string) => {
+    if (id === workspaceId) return;
+    setWorkspaceId(id);
+    handleNewSession();
+  }, [workspaceId, setWorkspaceId, handleNewSession]);
+
   // Patch approval handlers
   const handleApprovePatch = useCallback((patchId: string) => {
     respondToPatchApproval(true, patchId);
-    setPendingPatch(null);
+    setPendingPatches((prev) => prev.filter((p) => p.patchId !== patchId));
   }, [respondToPatchApproval]);
 
   const handleRejectPatch = useCallback((patchId: string) => {
     respondToPatchApproval(false, patchId);
-    setPendingPatch(null);
+    setPendingPatches((prev) => prev.filter((p) => p.patchId !== patchId));
   }, [respondToPatchApproval]);
 
+  // Tool call approval handlers
+  const handleApproveToolCall = useCallback((approvalId: string) => {
+    respondToToolApproval(true, approvalId);
+    setPendingToolCalls((prev) => prev.filter((c) => c.approvalId !== approvalId));
+  }, [respondToToolApproval]);
+
+  const handleRejectToolCall = useCallback((approvalId: string) => {
+    respondToToolApproval(false, approvalId);
+    setPendingToolCalls((prev) => prev.filter((c) => c.approvalId !== approvalId));
+  }, [respondToToolApproval]);
+
+  // Plan review handlers
+  const handleApprovePlan = useCallback((planId: string, plan?: Plan) => {
+    respondToPlan(planId, { approved: true, plan });
+    setPendingPlan(null);
+  }, [respondToPlan]);
+
+  const handleRequestPlanChanges = useCallback((planId: string, feedback: string) => {
+    respondToPlan(planId, { approved: false, feedback });
+    setPendingPlan(null);
+  }, [respondToPlan]);
+
+  const handleRejectPlan = useCallback((planId: string) => {
+    respondToPlan(planId, { approved: false });
+    setPendingPlan(null);
+  }, [respondToPlan]);
+
   // Export session
   const handleExportSession = useCallback(async () => {
     if (!activeSessionId) return;
@@ -192,6 +283,12 @@ function AgentApp() {
           title={serverHealthy ? 'Server healthy' : 'Server degraded'}
         />
         <span className="text-sm font-bold text-purple-400">AI Dev Agent</span>
+
+        <WorkspaceSelector
+          selectedId={workspaceId}
+          onSelect={handleSelectWorkspace}
+          disabled={isRunning}
+        />
         
         {/* Dual model selectors: Planning and Coding */}
         <div className="flex items-center gap-3">
@@ -207,6 +304,34 @@ function AgentApp() {
             onSelect={setCodingModel}
             disabled={isRunning}
           />
+          <button
+            onClick={() => setMode(mode === 'plan' ? 'auto' : 'plan')}
+            disabled={isRunning}
+            className={`text-xs px-2 py-0.5 rounded border transition-colors disabled:opacity-50 ${
+              mode === 'plan'
+                ? 'text-blue-300 border-blue-700 bg-blue-900/40'
+                : 'text-gray-500 border-gray-700 hover:text-gray-300'
+            }`}
+            title={mode === 'plan'
+              ? 'Plan mode: the agent explores read-only and proposes a plan for your approval before any writes'
+              : 'Auto mode: the agent plans and edits in one go (click for plan mode)'}
+          >
+            🗺️ {mode === 'plan' ? 'Plan first' : 'Auto'}
+          </button>
+          <button
+            onClick={() => setDryRun(!dryRun)}
+            disabled={isRunning}
+            className={`text-xs px-2 py-0.5 rounded border transition-colors disabled:opacity-50 ${
+              dryRun
+                ? 'text-amber-300 border-amber-700 bg-amber-900/40'
+                : 'text-gray-500 border-gray-700 hover:text-gray-300'
+            }`}
+            title={dryRun
+              ? 'Dry run: edits stay in memory and pushes/deploys are only recorded — review and apply them when the run ends'
+              : 'Live: the agent writes files and runs side effects (click for a dry run)'}
+          >
+            🧪 {dryRun ? 'Dry run' : 'Live'}
+          </button>
         </div>
         
         <span className="ml-auto text-xs bg-gray-800 px-2 py-0.5 rounded text-gray-400">
@@ -241,9 +366,11 @@ function AgentApp() {
             }`}
           >
             <SessionList
+              workspaceId={workspaceId}
               activeSessionId={activeSessionId}
               onSelectSession={(id) => { setActiveSessionId(id); setTokenUsage(null); }}
               onNewSession={handleNewSession}
+              onResumeSession={isRunning ? undefined : handleResumeSession}
             />
           </div>
           {/* Toggle button - always visible */}
@@ -289,7 +416,7 @@ function AgentApp() {
           >
             {/* Tab switcher */}
             <div className="flex border-b border-gray-800 bg-gray-900 flex-shrink-0">
-              {(['tools', 'tree'] as const).map((tab) => (
+              {(['tools', 'tree', 'timeline'] as const).map((tab) => (
                 <button
                   key={tab}
                   onClick={() => setActiveTab(tab)}
@@ -299,14 +426,14 @@ function AgentApp() {
                       : 'text-gray-500 hover:text-gray-300'
                   }`}
                 >
-                  {tab === 'tools' ? '⚙ Tools' : '📁 Files'}
+                  {TAB_LABELS[tab]}
                 </button>
               ))}
             </div>
             <div className="flex-1 overflow-hidden">
-              {activeTab === 'tools'
-                ? <ToolLog onEvent={onEvent} />
-                : <WorkspaceTree />}
+              {activeTab === 'tools' && <ToolLog onEvent={onEvent} />}
+              {activeTab === 'tree' && <WorkspaceTree workspaceId={workspaceId} />}
+              {activeTab === 'timeline' && <Timeline sessionId={activeSessionId} isRunning={isRunning} />}
             </div>
           </div>
         </div>
@@ -330,10 +457,36 @@ function AgentApp() {
       
       {/* Diff preview modal for patch approvals */}
       <DiffPreviewModal
-        patch={pendingPatch}
+        patch={pendingPatches[0] ?? null}
+        queued={pendingPatches.length}
         onApprove={handleApprovePatch}
         onReject={handleRejectPatch}
-        onClose={() => setPendingPatch(null)}
+        onClose={() => setPendingPatches([])}
+      />
+
+      {/* Tool calls the workspace's permissions ask about */}
+      <ToolApprovalModal
+        call={pendingToolCalls[0] ?? null}
+        queued={pendingToolCalls.length}
+        onApprove={handleApproveToolCall}
+        onReject={handleRejectToolCall}
+        onClose={() => setPendingToolCalls([])}
+      />
+
+      {/* Plan review for runs in plan mode */}
+      <PlanReviewModal
+        proposal={pendingPlan}
+        onApprove={handleApprovePlan}
+        onRequestChanges={handleRequestPlanChanges}
+        onReject={handleRejectPlan}
+        onClose={() => setPendingPlan(null)}
+      />
+
+      {/* Review and apply what a dry run held back */}
+      <DryRunModal
+        sessionId={dryRunResult?.sessionId ?? null}
+        report={dryRunResult?.report ?? null}
+        onClose={() => setDryRunResult(null)}
       />
     </div>
   );
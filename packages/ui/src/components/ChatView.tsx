@@ -2,7 +2,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import type { AgentEvent, ChatMessage } from '../lib/types';
+import type { AgentEvent, ChatMessage, ContextCompactedEvent, VerificationEvent } from '../lib/types';
 
 const AGENT_URL = import.meta.env.VITE_AGENT_URL ?? 'http://localhost:3001';
 const API_SECRET = import.meta.env.VITE_API_SECRET ?? '';
@@ -51,6 +51,8 @@ export function ChatView({ sessionId, isRunning, onEvent, onSendPrompt, onCancel
   // Register event handler for this session
   useEffect(() => {
     const unsubscribe = onEvent((event: AgentEvent) => {
+      // Sub-agent output belongs to its own session; the tool log shows its steps
+      if (event.childSessionId) return;
       if (event.type === 'message') {
         const d = event.data as any;
         if (d.role === 'assistant') {
@@ -95,6 +97,37 @@ export function ChatView({ sessionId, isRunning, onEvent, onSendPrompt, onCancel
           { id: crypto.randomUUID(), role: 'system', content: `⚠️ ${d.error}`, timestamp: new Date() },
         ]);
         setStreamingId(null);
+      } else if (event.type === 'context_compacted') {
+        const d = (event as ContextCompactedEvent).data;
+        const done = [
+          d.elidedToolResults > 0 && `elided ${d.elidedToolResults} tool output(s)`,
+          d.summarisedMessages > 0 && `summarised ${d.summarisedMessages} message(s)`,
+          d.droppedMessages > 0 && `dropped ${d.droppedMessages} message(s)`,
+        ].filter(Boolean);
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: crypto.randomUUID(),
+            role: 'system',
+            content:
+              `🗜️ Context compacted: ~${Math.round(d.tokensBefore / 1000)}k → ~${Math.round(d.tokensAfter / 1000)}k tokens` +
+              (done.length ? ` (${done.join(', ')})` : ''),
+            timestamp: new Date(),
+          },
+        ]);
+      } else if (event.type === 'verification') {
+        const d = (event as VerificationEvent).data;
+        const round = d.checks.filter((c) => c.iteration === d.iterations);
+        const failed = round.filter((c) => !c.passed).map((c) => c.tool);
+        const content = d.passed
+          ? `✅ Verified: ${round.map((c) => c.tool).join(', ')}`
+          : d.retrying
+            ? `🔎 Verification failed: ${failed.join(', ')} — sending back to the agent (${d.iterations}/${d.maxIterations})`
+            : `❌ Verification still failing after ${d.iterations} round(s): ${failed.join(', ')}`;
+        setMessages((prev) => [
+          ...prev,
+          { id: crypto.randomUUID(), role: 'system', content, timestamp: new Date() },
+        ]);
       } else if (event.type === 'complete') {
         // Ensure streaming is cleared on completion
         setStreamingId(null);
@@ -120,10 +153,12 @@ export function ChatView({ sessionId, isRunning, onEvent, onSendPrompt, onCancel
         if (controller.signal.aborted) return;
         if (data?.messages) {
           const loaded: ChatMessage[] = data.messages
-            .filter((m: any) => m.role === 'user' || m.role === 'assistant')
+            // Tool-only assistant turns are stored with empty text
+            .filter((m: any) => m.role === 'user' || (m.role === 'assistant' && m.content))
             .map((m: any) => ({
               id: m.id,
-              role: m.role,
+              // Verification feedback is stored as a user turn but was not typed by the user
+              role: m.metadata?.verification ? 'system' : m.role,
               content: m.content,
               timestamp: new Date(m.createdAt),
             }));
@@ -215,10 +250,11 @@ export function ChatView({ sessionId, isRunning, onEvent, onSendPrompt, onCancel
                 <div className="prose prose-invert prose-sm max-w-none">
                   <ReactMarkdown
                     components={{
-                      code({ node, inline, className, children, ...props }: any) {
+                      // Only fenced blocks carry a language class; `node` is kept off the DOM element
+                      code({ node: _node, className, children, ...props }) {
                         const match = /language-(\w+)/.exec(className || '');
                         const content = String(children);
-                        return !inline && match ? (
+                        return match ? (
                           <CodeBlock language={match[1]}>{content}</CodeBlock>
                         ) : (
                           <code className="bg-gray-900 px-1 py-0.5 rounded text-purple-300 text-xs" {...props}>
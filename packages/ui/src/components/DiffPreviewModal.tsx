@@ -5,16 +5,19 @@ interface PatchData {
   filePath: string;
   diff: string;
   operation: 'create' | 'modify' | 'delete';
+  index?: number;
+  total?: number;
 }
 
 interface Props {
   patch: PatchData | null;
+  queued?: number;  // patches still awaiting review, including this one
   onApprove: (patchId: string) => void;
   onReject: (patchId: string) => void;
   onClose: () => void;
 }
 
-export function DiffPreviewModal({ patch, onApprove, onReject, onClose }: Props) {
+export function DiffPreviewModal({ patch, queued = 1, onApprove, onReject, onClose }: Props) {
   // Handle keyboard shortcuts
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (!patch) return;
@@ -78,6 +81,12 @@ export function DiffPreviewModal({ patch, onApprove, onReject, onClose }: Props)
               {operationIcons[patch.operation]} {patch.operation.toUpperCase()}
             </span>
             <h2 className="text-lg font-semibold text-gray-100">Patch Approval Required</h2>
+            {patch.total !== undefined && patch.total > 1 && (
+              <span className="text-xs text-gray-400">
+                Edit {(patch.index ?? 0) + 1} of {patch.total}
+                {queued > 1 && ` · ${queued - 1} more waiting`}
+              </span>
+            )}
           </div>
           <button
             onClick={onClose}
@@ -0,0 +1,182 @@
+import { useEffect, useState, useCallback } from 'react';
+import type { DryRunReport } from '../lib/types';
+
+const AGENT_URL = import.meta.env.VITE_AGENT_URL ?? 'http://localhost:3001';
+const API_SECRET = import.meta.env.VITE_API_SECRET ?? '';
+const headers: Record<string, string> = API_SECRET ? { Authorization: `Bearer ${API_SECRET}` } : {};
+
+interface Props {
+  sessionId: string | null;
+  report: DryRunReport | null;
+  onClose: () => void;
+}
+
+const operationColors = {
+  create: 'text-green-400',
+  modify: 'text-yellow-400',
+  delete: 'text-red-400',
+};
+
+function lineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('====')) return 'text-gray-500';
+  if (line.startsWith('+')) return 'bg-green-900/40 text-green-300';
+  if (line.startsWith('-')) return 'bg-red-900/40 text-red-300';
+  if (line.startsWith('@@')) return 'bg-blue-900/40 text-blue-300';
+  return 'text-gray-300';
+}
+
+// Shows what a dry run held back and applies it in one go: every file change,
+// plus the recorded side effects that are ticked
+export function DryRunModal({ sessionId, report, onClose }: Props) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Side effects start unticked — pushes and deploys are opted into one by one
+  useEffect(() => {
+    setSelected(new Set());
+    setError(null);
+  }, [report]);
+
+  const apply = useCallback(async () => {
+    if (!sessionId || !report) return;
+    setApplying(true);
+    setError(null);
+    try {
+      const res = await fetch(`${AGENT_URL}/api/sessions/${sessionId}/dry-run/apply`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        // Sent in the order the run recorded them
+        body: JSON.stringify({ sideEffects: report.sideEffects.map((s) => s.id).filter((id) => selected.has(id)) }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? 'Apply failed');
+      const failed = (body.sideEffects as Array<{ toolName: string; success: boolean; error?: string }>)
+        .find((s) => !s.success);
+      if (failed) {
+        setError(`Files applied, but ${failed.toolName} failed: ${failed.error ?? 'unknown error'}`);
+        return;
+      }
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setApplying(false);
+    }
+  }, [sessionId, report, selected, onClose]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!report) return;
+    if (e.key === 'Escape') onClose();
+  }, [report, onClose]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleKeyDown]);
+
+  if (!report) return null;
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  const empty = report.files.length === 0 && report.sideEffects.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-gray-900 rounded-xl border border-gray-700 shadow-2xl w-[90vw] max-w-4xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <span className="px-2 py-1 rounded text-sm font-medium text-amber-400 bg-amber-900/30">🧪 DRY RUN</span>
+            <h2 className="text-lg font-semibold text-gray-100">Review Dry Run</h2>
+            <span className="text-xs text-gray-400">
+              {report.files.length} file{report.files.length === 1 ? '' : 's'} · {report.sideEffects.length} side
+              effect{report.sideEffects.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-300 transition-colors"
+            title="Close (Esc)"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4 text-sm">
+          {empty && <p className="text-gray-500">The dry run changed nothing.</p>}
+
+          {report.sideEffects.length > 0 && (
+            <div>
+              <span className="text-xs uppercase tracking-wider text-gray-500">Blocked side effects</span>
+              <ul className="mt-1 space-y-1">
+                {report.sideEffects.map((s) => (
+                  <li key={s.id}>
+                    <label className="flex items-start gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(s.id)}
+                        onChange={() => toggle(s.id)}
+                        className="mt-1 accent-purple-500"
+                      />
+                      <code className="font-mono text-purple-400">{s.tool}</code>
+                      <code className="font-mono text-gray-500 truncate">{JSON.stringify(s.input)}</code>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.files.length > 0 && (
+            <div>
+              <span className="text-xs uppercase tracking-wider text-gray-500">Files</span>
+              <ul className="mt-1 mb-3 space-y-1">
+                {report.files.map((f) => (
+                  <li key={f.path} className="flex items-center gap-2">
+                    <span className={`w-14 text-xs ${operationColors[f.operation]}`}>{f.operation}</span>
+                    <code className="font-mono text-purple-400">{f.path}</code>
+                  </li>
+                ))}
+              </ul>
+              <pre className="font-mono text-sm leading-relaxed">
+                {report.diff.split('\n').map((line, index) => (
+                  <div key={index} className={`${lineClass(line)} px-2 py-0.5 -mx-2`}>
+                    {line || ' '}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        {/* Footer with actions */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-700 bg-gray-800/50">
+          <div className="text-xs text-red-400 truncate">{error}</div>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg border border-gray-700 transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={apply}
+              disabled={applying || empty || !sessionId}
+              className="px-4 py-2 bg-green-900/30 hover:bg-green-900/50 text-green-400 rounded-lg border border-green-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {applying ? 'Applying…' : `✓ Apply${selected.size > 0 ? ` + ${selected.size} side effect${selected.size === 1 ? '' : 's'}` : ''}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState, useCallback } from 'react';
+import type { Plan, PlanProposedEvent } from '../lib/types';
+
+interface Props {
+  proposal: PlanProposedEvent['data'] | null;
+  onApprove: (planId: string, edited?: Plan) => void;
+  onRequestChanges: (planId: string, feedback: string) => void;
+  onReject: (planId: string) => void;
+  onClose: () => void;
+}
+
+const changeColors = {
+  create: 'text-green-400',
+  modify: 'text-yellow-400',
+  delete: 'text-red-400',
+};
+
+// One entry per line; blank lines are dropped
+const toLines = (text: string) => text.split('\n').map((l) => l.trim()).filter(Boolean);
+
+export function PlanReviewModal({ proposal, onApprove, onRequestChanges, onReject, onClose }: Props) {
+  const [summary, setSummary]   = useState('');
+  const [steps, setSteps]       = useState('');
+  const [risks, setRisks]       = useState('');
+  const [files, setFiles]       = useState<Plan['files']>([]);
+  const [feedback, setFeedback] = useState('');
+
+  // Reset the editor whenever a new plan arrives
+  useEffect(() => {
+    if (!proposal) return;
+    setSummary(proposal.plan.summary);
+    setSteps(proposal.plan.steps.join('\n'));
+    setRisks(proposal.plan.risks.join('\n'));
+    setFiles(proposal.plan.files);
+    setFeedback('');
+  }, [proposal]);
+
+  const editedPlan = useCallback((): Plan | undefined => {
+    if (!proposal) return undefined;
+    const plan: Plan = {
+      summary: summary.trim() || proposal.plan.summary,
+      steps: toLines(steps).length > 0 ? toLines(steps) : proposal.plan.steps,
+      files,
+      risks: toLines(risks),
+    };
+    // Only send the plan back when the user actually changed it
+    return JSON.stringify(plan) === JSON.stringify(proposal.plan) ? undefined : plan;
+  }, [proposal, summary, steps, risks, files]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!proposal) return;
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      onApprove(proposal.planId, editedPlan());
+    }
+  }, [proposal, onApprove, onClose, editedPlan]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleKeyDown]);
+
+  if (!proposal) return null;
+
+  const isEdited = editedPlan() !== undefined;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-gray-900 rounded-xl border border-gray-700 shadow-2xl w-[90vw] max-w-3xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <span className="px-2 py-1 rounded text-sm font-medium text-blue-400 bg-blue-900/30">🗺️ PLAN</span>
+            <h2 className="text-lg font-semibold text-gray-100">Review Plan</h2>
+            {isEdited && <span className="text-xs text-yellow-400">edited</span>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-300 transition-colors"
+            title="Close (Esc)"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Editable plan */}
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4 text-sm">
+          <label className="block">
+            <span className="text-xs uppercase tracking-wider text-gray-500">Summary</span>
+            <textarea
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={2}
+              className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-xs uppercase tracking-wider text-gray-500">Steps (one per line)</span>
+            <textarea
+              value={steps}
+              onChange={(e) => setSteps(e.target.value)}
+              rows={Math.min(12, Math.max(3, proposal.plan.steps.length + 1))}
+              className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+            />
+          </label>
+
+          {files.length > 0 && (
+            <div>
+              <span className="text-xs uppercase tracking-wider text-gray-500">Files</span>
+              <ul className="mt-1 space-y-1">
+                {files.map((f) => (
+                  <li key={`${f.change}:${f.path}`} className="flex items-center gap-2 group">
+                    <span className={`w-14 text-xs ${changeColors[f.change]}`}>{f.change}</span>
+                    <code className="font-mono text-purple-400">{f.path}</code>
+                    {f.reason && <span className="text-gray-500 truncate">— {f.reason}</span>}
+                    <button
+                      onClick={() => setFiles((prev) => prev.filter((p) => p !== f))}
+                      className="ml-auto text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove from plan"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <label className="block">
+            <span className="text-xs uppercase tracking-wider text-gray-500">Risks (one per line)</span>
+            <textarea
+              value={risks}
+              onChange={(e) => setRisks(e.target.value)}
+              rows={Math.min(6, Math.max(2, proposal.plan.risks.length + 1))}
+              className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 focus:outline-none focus:border-purple-500"
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-xs uppercase tracking-wider text-gray-500">Feedback for the agent</span>
+            <textarea
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              rows={2}
+              placeholder="Ask for a revised plan instead of approving this one"
+              className="mt-1 w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500"
+            />
+          </label>
+        </div>
+
+        {/* Footer with actions */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-700 bg-gray-800/50">
+          <div className="text-xs text-gray-500">
+            <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-400">⌘/Ctrl + Enter</kbd> to approve,{' '}
+            <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-400">Esc</kbd> to close
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => onReject(proposal.planId)}
+              className="px-4 py-2 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded-lg border border-red-800 transition-colors"
+            >
+              ✕ Reject
+            </button>
+            <button
+              onClick={() => onRequestChanges(proposal.planId, feedback.trim())}
+              disabled={!feedback.trim()}
+              className="px-4 py-2 bg-yellow-900/30 hover:bg-yellow-900/50 text-yellow-400 rounded-lg border border-yellow-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              ↻ Request changes
+            </button>
+            <button
+              onClick={() => onApprove(proposal.planId, editedPlan())}
+              className="px-4 py-2 bg-green-900/30 hover:bg-green-900/50 text-green-400 rounded-lg border border-green-800 transition-colors"
+            >
+              ✓ {isEdited ? 'Approve edited plan' : 'Approve'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
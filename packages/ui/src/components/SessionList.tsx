@@ -1,6 +1,6 @@
-import { useRef, useState, useEffect, useCallback } from 'react';
+import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import type { Session } from '../lib/types';
+import type { RunStatus, Session } from '../lib/types';
 import { TAG_COLORS } from '../lib/types';
 
 const AGENT_URL = import.meta.env.VITE_AGENT_URL ?? 'http://localhost:3001';
@@ -8,9 +8,31 @@ const API_SECRET = import.meta.env.VITE_API_SECRET ?? '';
 const headers: Record<string, string> = API_SECRET ? { Authorization: `Bearer ${API_SECRET}` } : {};
 
 interface Props {
+  workspaceId: string; // only this workspace's sessions are listed
   activeSessionId: string | null;
   onSelectSession: (id: string) => void;
   onNewSession: () => void;
+  onResumeSession?: (id: string) => void;
+}
+
+// Runs that stopped before finishing and can pick up from their last checkpoint
+const RESUMABLE: ReadonlySet<RunStatus> = new Set(['interrupted', 'failed', 'cancelled']);
+
+// Sub-agent sessions are listed right under their parent when both are loaded
+function nestSessions(sessions: Session[]): Array<Session & { depth: number }> {
+  const ids = new Set(sessions.map((s) => s.id));
+  const children = new Map<string, Session[]>();
+  for (const s of sessions) {
+    if (s.parentSessionId && ids.has(s.parentSessionId)) {
+      children.set(s.parentSessionId, [...(children.get(s.parentSessionId) ?? []), s]);
+    }
+  }
+  return sessions
+    .filter((s) => !s.parentSessionId || !ids.has(s.parentSessionId))
+    .flatMap((s) => [
+      { ...s, depth: 0 },
+      ...(children.get(s.id) ?? []).map((c) => ({ ...c, depth: 1 })),
+    ]);
 }
 
 // Toast notification for undo functionality
@@ -86,7 +108,7 @@ function RenameInput({
   );
 }
 
-export function SessionList({ activeSessionId, onSelectSession, onNewSession }: Props) {
+export function SessionList({ workspaceId, activeSessionId, onSelectSession, onNewSession, onResumeSession }: Props) {
   const [search, setSearch] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -203,19 +225,18 @@ export function SessionList({ activeSessionId, onSelectSession, onNewSession }:
   };
 
   const { data, isLoading, error } = useQuery<{ sessions: Session[] }>({
-    queryKey: ['sessions', debouncedSearch],
+    queryKey: ['sessions', workspaceId, debouncedSearch],
     queryFn: async () => {
-      const url = debouncedSearch
-        ? `${AGENT_URL}/api/sessions?q=${encodeURIComponent(debouncedSearch)}`
-        : `${AGENT_URL}/api/sessions`;
-      const res = await fetch(url, { headers });
+      const params = new URLSearchParams({ workspaceId });
+      if (debouncedSearch) params.set('q', debouncedSearch);
+      const res = await fetch(`${AGENT_URL}/api/sessions?${params}`, { headers });
       if (!res.ok) throw new Error('Failed to load sessions');
       return res.json();
     },
     refetchInterval: 10000,
   });
 
-  const sessions = data?.sessions ?? [];
+  const sessions = useMemo(() => nestSessions(data?.sessions ?? []), [data]);
 
   // Keyboard navigation
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -290,7 +311,7 @@ export function SessionList({ activeSessionId, onSelectSession, onNewSession }:
               activeSessionId === session.id ? 'bg-gray-800 border-l-2 border-l-purple-500' : ''
             } ${focusedIndex === index ? 'ring-1 ring-purple-500 ring-inset' : ''} ${
               session.pinned ? 'bg-yellow-900/10' : ''
-            }`}
+            } ${session.depth > 0 ? 'pl-7' : ''}`}
           >
             {/* Pin indicator */}
             {session.pinned && (
@@ -304,6 +325,9 @@ export function SessionList({ activeSessionId, onSelectSession, onNewSession }:
               />
             ) : (
               <p className={`text-xs text-gray-200 font-medium truncate leading-snug pr-16 ${session.pinned ? 'pl-4' : ''}`}>
+                {session.parentSessionId && (
+                  <span className="text-purple-400 mr-1" title="Sub-agent session (delegate_task)">↳</span>
+                )}
                 {session.summary ?? 'New session'}
               </p>
             )}
@@ -326,6 +350,14 @@ export function SessionList({ activeSessionId, onSelectSession, onNewSession }:
               <span className="text-xs text-gray-500">
                 {new Date(session.updatedAt).toLocaleDateString()}
               </span>
+              {session.runStatus && RESUMABLE.has(session.runStatus) && (
+                <span
+                  className="text-[10px] px-1.5 py-0.5 rounded border bg-orange-900/40 text-orange-300 border-orange-700"
+                  title="This run stopped before finishing"
+                >
+                  {session.runStatus}
+                </span>
+              )}
               {session.tokenUsage && session.tokenUsage.totalTokens > 0 && (
                 <span className="text-xs text-gray-600">
                   · {(session.tokenUsage.totalTokens / 1000).toFixed(1)}k tokens
@@ -335,6 +367,15 @@ export function SessionList({ activeSessionId, onSelectSession, onNewSession }:
             </div>
             {/* Action buttons */}
             <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {onResumeSession && !session.parentSessionId && session.runStatus && RESUMABLE.has(session.runStatus) && (
+                <span
+                  onClick={(e) => { e.stopPropagation(); onResumeSession(session.id); }}
+                  className="text-gray-600 hover:text-orange-400 text-xs cursor-pointer"
+                  title="Resume run from last checkpoint"
+                >
+                  ▶
+                </span>
+              )}
               <span
                 onClick={(e) => handleTogglePin(session.id, e)}
                 className={`text-xs cursor-pointer ${session.pinned ? 'text-yellow-500' : 'text-gray-600 hover:text-yellow-400'}`}
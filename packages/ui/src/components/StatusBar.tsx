@@ -40,6 +40,7 @@ interface TurnUsage {
   inputTokens: number;
   outputTokens: number;
   totalTokens: number;
+  cacheReadTokens: number;
   cost: number;
 }
 
@@ -72,6 +73,8 @@ export function StatusBar({ connected, isRunning, sessionId, tokenUsage, onEvent
 
   useEffect(() => {
     const unsubscribe = onEvent((event: AgentEvent) => {
+      // Sub-agent usage reaches the parent's totals when its delegate_task returns
+      if (event.childSessionId) return;
       if (event.type === 'budget_warning') {
         const d = event.data as any;
         setLiveUsed(d.totalUsed);
@@ -95,6 +98,7 @@ export function StatusBar({ connected, isRunning, sessionId, tokenUsage, onEvent
           inputTokens: d.inputTokens,
           outputTokens: d.outputTokens,
           totalTokens: d.totalTokensThisTurn,
+          cacheReadTokens: d.cacheReadTokens ?? 0,
           cost: d.estimatedCostThisTurn,
         });
         setShowTurnInfo(true);
@@ -166,6 +170,11 @@ export function StatusBar({ connected, isRunning, sessionId, tokenUsage, onEvent
           <span className="font-mono">
             {lastTurn.inputTokens.toLocaleString()}↓ {lastTurn.outputTokens.toLocaleString()}↑
           </span>
+          {lastTurn.cacheReadTokens > 0 && (
+            <span className="opacity-75" title="Prompt tokens served from cache">
+              ⚡{lastTurn.cacheReadTokens.toLocaleString()} cached
+            </span>
+          )}
           <span className="opacity-75">
             (${lastTurn.cost.toFixed(4)})
           </span>
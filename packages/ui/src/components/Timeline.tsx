@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TimelineEntry } from '../lib/types';
+
+const AGENT_URL = import.meta.env.VITE_AGENT_URL ?? 'http://localhost:3001';
+const API_SECRET = import.meta.env.VITE_API_SECRET ?? '';
+const headers: Record<string, string> = API_SECRET ? { Authorization: `Bearer ${API_SECRET}` } : {};
+
+const KIND_ICONS: Record<TimelineEntry['kind'], string> = {
+  edit: '✏️',
+  checkpoint: '📌',
+  restore: '⏪',
+};
+
+const OPERATION_COLORS: Record<string, string> = {
+  create: 'text-green-400',
+  modify: 'text-yellow-400',
+  delete: 'text-red-400',
+};
+
+interface Props {
+  sessionId: string | null;
+  isRunning: boolean;
+}
+
+// A restore the server refused because files changed since; retried with force
+interface RestoreRequest {
+  to: string;
+  path?: string;
+}
+
+export function Timeline({ sessionId, isRunning }: Props) {
+  const queryClient = useQueryClient();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refused, setRefused] = useState<RestoreRequest | null>(null);
+
+  const { data, isLoading } = useQuery<{ entries: TimelineEntry[] }>({
+    queryKey: ['timeline', sessionId],
+    queryFn: async () => {
+      const res = await fetch(`${AGENT_URL}/api/sessions/${sessionId}/timeline`, { headers });
+      if (!res.ok) throw new Error('Failed to load timeline');
+      return res.json();
+    },
+    enabled: !!sessionId,
+    refetchInterval: isRunning ? 3000 : false,
+  });
+
+  const post = async (url: string, body?: object) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error ?? 'Restore failed');
+      setRefused(null);
+      queryClient.invalidateQueries({ queryKey: ['timeline', sessionId] });
+      queryClient.invalidateQueries({ queryKey: ['workspace-tree'] });
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async (request: RestoreRequest, force = false) => {
+    const ok = await post(`${AGENT_URL}/api/sessions/${sessionId}/timeline/restore`, { ...request, force });
+    if (!ok && !force) setRefused(request);
+  };
+
+  const revert = (entryId: string) =>
+    post(`${AGENT_URL}/api/sessions/${sessionId}/timeline/${entryId}/revert`);
+
+  if (!sessionId) {
+    return <div className="text-xs text-gray-500 text-center mt-4">No active session</div>;
+  }
+
+  const entries = data?.entries ?? [];
+  const disabled = busy || isRunning;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-3 py-2 border-b border-gray-800 flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Timeline</span>
+        <button
+          onClick={() => restore({ to: 'start' })}
+          disabled={disabled || entries.length === 0}
+          className="text-xs text-gray-400 hover:text-gray-200 disabled:opacity-40"
+          title="Undo every file change the session made"
+        >
+          ⏮ Restore to start
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-3 mt-2 p-2 text-xs bg-red-900/40 border border-red-800 rounded text-red-200">
+          {error}
+          <div className="flex gap-2 mt-1">
+            {refused && (
+              <button
+                onClick={() => restore(refused, true)}
+                disabled={disabled}
+                className="underline hover:text-white disabled:opacity-40"
+              >
+                Overwrite anyway
+              </button>
+            )}
+            <button onClick={() => { setError(null); setRefused(null); }} className="underline hover:text-white">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {isLoading && <div className="text-xs text-gray-500 text-center mt-4">Loading…</div>}
+        {!isLoading && entries.length === 0 && (
+          <div className="text-xs text-gray-500 text-center mt-4">No file changes yet</div>
+        )}
+        {entries.map((entry) => (
+          <div key={entry.id} className="px-3 py-2 border-b border-gray-800/60 group">
+            <div className="flex items-center gap-2 text-xs">
+              <span>{KIND_ICONS[entry.kind]}</span>
+              <span className={`truncate flex-1 ${entry.success ? 'text-gray-300' : 'text-red-400'}`} title={entry.summary}>
+                {entry.commit ? `${entry.commit.shortHash} ${entry.commit.message}` : entry.summary}
+              </span>
+              <span className="text-gray-600 flex-shrink-0">
+                {new Date(entry.createdAt).toLocaleTimeString()}
+              </span>
+            </div>
+            {entry.files.map((file) => (
+              <div key={file.path} className="flex items-center gap-2 pl-6 text-xs">
+                <span className={OPERATION_COLORS[file.operation]}>{file.operation[0].toUpperCase()}</span>
+                <span className="truncate flex-1 text-gray-500" title={file.path}>{file.path}</span>
+                {file.revertible && (
+                  <button
+                    onClick={() => restore({ to: entry.id, path: file.path })}
+                    disabled={disabled}
+                    className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-gray-200 disabled:opacity-40"
+                    title="Restore this file to how it was after this change"
+                  >
+                    ⏪
+                  </button>
+                )}
+              </div>
+            ))}
+            <div className="hidden group-hover:flex gap-3 pl-6 mt-1 text-xs">
+              <button
+                onClick={() => restore({ to: entry.id })}
+                disabled={disabled}
+                className="text-purple-400 hover:text-purple-300 disabled:opacity-40"
+                title="Undo every file change made after this point"
+              >
+                Restore to here
+              </button>
+              {entry.kind !== 'checkpoint' && entry.files.some((f) => f.revertible) && (
+                <button
+                  onClick={() => revert(entry.id)}
+                  disabled={disabled}
+                  className="text-gray-400 hover:text-gray-200 disabled:opacity-40"
+                  title="Undo just this change, keeping later ones"
+                >
+                  Revert
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useCallback } from 'react';
+import type { ToolApprovalEvent } from '../lib/types';
+
+interface Props {
+  call: ToolApprovalEvent['data'] | null;
+  queued?: number;  // calls still awaiting an answer, including this one
+  onApprove: (approvalId: string) => void;
+  onReject: (approvalId: string) => void;
+  onClose: () => void;
+}
+
+export function ToolApprovalModal({ call, queued = 1, onApprove, onReject, onClose }: Props) {
+  // Same shortcuts as patch approval
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!call) return;
+
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      onApprove(call.approvalId);
+    } else if (e.key === 'Backspace' && (e.metaKey || e.ctrlKey)) {
+      onReject(call.approvalId);
+    }
+  }, [call, onApprove, onReject, onClose]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleKeyDown]);
+
+  if (!call) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-gray-900 rounded-xl border border-gray-700 shadow-2xl w-[90vw] max-w-2xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <div className="flex items-center gap-3">
+            <span className="px-2 py-1 rounded text-sm font-medium text-yellow-400 bg-yellow-900/30">
+              🔒 ASK
+            </span>
+            <h2 className="text-lg font-semibold text-gray-100">Tool Call Approval Required</h2>
+            {queued > 1 && <span className="text-xs text-gray-400">{queued - 1} more waiting</span>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-300 transition-colors"
+            title="Close (Esc)"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Tool and the rule's reason */}
+        <div className="px-6 py-3 bg-gray-800/50 border-b border-gray-700 flex flex-col gap-1">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-gray-500">Tool:</span>
+            <code className="font-mono text-purple-400">{call.toolName}</code>
+          </div>
+          {call.reason && <p className="text-sm text-gray-300">{call.reason}</p>}
+        </div>
+
+        {/* Arguments */}
+        <div className="flex-1 overflow-auto p-4">
+          <pre className="font-mono text-sm leading-relaxed text-gray-300 whitespace-pre-wrap break-all">
+            {JSON.stringify(call.input, null, 2)}
+          </pre>
+        </div>
+
+        {/* Footer with actions */}
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-700 bg-gray-800/50">
+          <div className="text-xs text-gray-500">
+            <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-400">⌘/Ctrl + Enter</kbd> to allow,{' '}
+            <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-400">⌘/Ctrl + ⌫</kbd> to reject,{' '}
+            <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-400">Esc</kbd> to close
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={() => onReject(call.approvalId)}
+              className="px-4 py-2 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded-lg border border-red-800 transition-colors"
+            >
+              ✕ Reject
+            </button>
+            <button
+              onClick={() => onApprove(call.approvalId)}
+              className="px-4 py-2 bg-green-900/30 hover:bg-green-900/50 text-green-400 rounded-lg border border-green-800 transition-colors"
+            >
+              ✓ Allow
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
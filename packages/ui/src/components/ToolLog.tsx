@@ -8,14 +8,49 @@ interface ToolEntry {
   status: 'pending' | 'success' | 'error';
   result?: unknown;
   error?: string;
+  errorCode?: string;
   durationMs?: number;
   expanded: boolean;
   isDiff: boolean;
   patchBefore?: string;
   patchAfter?: string;
-  progress?: number;  // 0-100
+  progress?: number;  // 0 while running, 100 / -1 once done
   progressStatus?: string;
   elapsedMs?: number;
+  output?: OutputChunk[]; // streamed stdout/stderr, newest last
+  childSessionId?: string; // run by a delegate_task sub-agent
+}
+
+interface OutputChunk {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+// Characters of streamed output kept per tool call — older output scrolls away
+const MAX_OUTPUT_CHARS = 50_000;
+
+// What the user (not the model) can do about an error code
+const USER_HINTS: Record<string, string> = {
+  SECRET_DETECTED: 'Not a real secret? Allowlist it in .agent/secrets.yml.',
+};
+
+function appendOutput(chunks: OutputChunk[] = [], chunk: OutputChunk): OutputChunk[] {
+  const last = chunks[chunks.length - 1];
+  const next = last?.stream === chunk.stream
+    ? [...chunks.slice(0, -1), { stream: chunk.stream, text: last.text + chunk.text }]
+    : [...chunks, chunk];
+  let excess = next.reduce((n, c) => n + c.text.length, 0) - MAX_OUTPUT_CHARS;
+  while (excess > 0) {
+    const first = next[0];
+    if (first.text.length <= excess) {
+      next.shift();
+      excess -= first.text.length;
+    } else {
+      next[0] = { stream: first.stream, text: first.text.slice(excess) };
+      excess = 0;
+    }
+  }
+  return next;
 }
 
 const TOOL_ICONS: Record<string, string> = {
@@ -27,13 +62,14 @@ const TOOL_ICONS: Record<string, string> = {
   git_log: '📜',
   run_tests: '🧪', memory_set: '💾', memory_get: '🔑', deploy_netlify: '🚀',
   npm_install: '📦', npm_run: '▶️', tsc_check: '🔷', eslint_check: '✨',
-  prettier_format: '💅', run_node_script: '🟢',
+  prettier_format: '💅', run_node_script: '🟢', run_command: '💻', delegate_task: '🧩',
+  propose_plan: '🗺️',
 };
 
 // Tools that typically take a long time
 const LONG_RUNNING_TOOLS = new Set([
   'npm_install', 'npm_run', 'run_tests', 'git_clone', 'deploy_netlify',
-  'tsc_check', 'eslint_check', 'prettier_format',
+  'tsc_check', 'eslint_check', 'prettier_format', 'delegate_task', 'run_command', 'run_ci',
 ]);
 
 interface Props {
@@ -53,6 +89,7 @@ export function ToolLog({ onEvent }: Props) {
         
         setEntries((prev) => [...prev, {
           id: d.id, name: d.name, input: d.input,
+          childSessionId: event.childSessionId,
           status: 'pending', expanded: false,
           isDiff: d.name === 'apply_patch',
           progress: isLongRunning ? 0 : undefined,
@@ -81,9 +118,12 @@ export function ToolLog({ onEvent }: Props) {
           if (e.id !== d.toolCallId) return e;
           return {
             ...e,
-            progress: d.progress,
+            progress: d.progress ?? e.progress ?? 0,
             progressStatus: d.status,
             elapsedMs: d.elapsedMs,
+            output: d.output && d.stream
+              ? appendOutput(e.output, { stream: d.stream, text: d.output })
+              : e.output,
           };
         }));
       }
@@ -104,7 +144,7 @@ export function ToolLog({ onEvent }: Props) {
           let patchBefore: string | undefined;
           let patchAfter: string | undefined;
           if (e.isDiff && d.result && typeof d.result === 'object') {
-            const r = d.result as any;
+            const r = d.result as { original?: string; result?: string };
             patchBefore = r.original ?? undefined;
             patchAfter = r.result ?? undefined;
           }
@@ -113,6 +153,7 @@ export function ToolLog({ onEvent }: Props) {
             status: d.success ? 'success' : 'error',
             result: d.result,
             error: !d.success ? String(d.result) : undefined,
+            errorCode: d.errorCode,
             durationMs: d.durationMs,
             patchBefore,
             patchAfter,
@@ -125,7 +166,7 @@ export function ToolLog({ onEvent }: Props) {
         // Don't clear — keep tool entries visible for review after the run.
         // Entries are cleared when a new prompt starts (via thinking event).
       }
-      if (event.type === 'thinking') {
+      if (event.type === 'thinking' && !event.childSessionId) {
         // New prompt starting — clear previous entries and timers
         timerRefs.current.forEach((timer) => clearInterval(timer));
         timerRefs.current.clear();
@@ -165,13 +206,31 @@ export function ToolLog({ onEvent }: Props) {
               className="w-full flex items-center gap-2 px-3 py-2 text-left"
             >
               <span>{TOOL_ICONS[entry.name] ?? '🔧'}</span>
-              <span className="font-semibold text-gray-200 flex-1">{entry.name.replace(/_/g, ' ')}</span>
+              <span className="font-semibold text-gray-200 flex-1">
+                {entry.childSessionId && (
+                  <span
+                    className="text-purple-400 font-normal mr-1"
+                    title={`Sub-agent ${entry.childSessionId.slice(0, 8)}`}
+                  >
+                    ↳
+                  </span>
+                )}
+                {entry.name.replace(/_/g, ' ')}
+              </span>
               <span className={
                 entry.status === 'pending' ? 'text-yellow-400' :
                 entry.status === 'success' ? 'text-green-400' : 'text-red-400'
               }>
                 {entry.status === 'pending' ? '⏳' : entry.status === 'success' ? '✅' : '❌'}
               </span>
+              {entry.errorCode && (
+                <span
+                  className="ml-1 px-1 rounded bg-red-900/40 text-red-300 font-mono text-[10px]"
+                  title={USER_HINTS[entry.errorCode]}
+                >
+                  {entry.errorCode}
+                </span>
+              )}
               {entry.durationMs !== undefined && (
                 <span className="text-gray-500 ml-1">{entry.durationMs}ms</span>
               )}
@@ -181,19 +240,11 @@ export function ToolLog({ onEvent }: Props) {
               <span className="text-gray-600 ml-1">{entry.expanded ? '▴' : '▾'}</span>
             </button>
 
-            {/* Progress bar for long-running tools */}
+            {/* Activity bar and latest milestone for long-running tools */}
             {entry.status === 'pending' && entry.progress !== undefined && (
               <div className="px-3 pb-2">
-                <div className="flex items-center gap-2 mb-1">
-                  <div className="flex-1 h-1.5 bg-gray-700 rounded-full overflow-hidden">
-                    <div
-                      className="h-full bg-yellow-500 rounded-full transition-all duration-300"
-                      style={{ width: `${Math.max(entry.progress, 5)}%` }}
-                    />
-                  </div>
-                  <span className="text-yellow-400 text-xs w-10 text-right">
-                    {entry.progress > 0 ? `${entry.progress}%` : '...'}
-                  </span>
+                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden mb-1">
+                  <div className="h-full w-full bg-yellow-500/70 rounded-full animate-pulse" />
                 </div>
                 {entry.progressStatus && (
                   <div className="text-gray-500 text-xs truncate">{entry.progressStatus}</div>
@@ -201,6 +252,13 @@ export function ToolLog({ onEvent }: Props) {
               </div>
             )}
 
+            {/* Live output while running; kept under the details afterwards */}
+            {entry.output && (entry.status === 'pending' || entry.expanded) && (
+              <div className="px-3 pb-2">
+                <TerminalPane output={entry.output} live={entry.status === 'pending'} />
+              </div>
+            )}
+
             {/* Quick summary line */}
             {!entry.expanded && entry.progress === undefined && (
               <div className="px-3 pb-2 text-gray-400 truncate">
@@ -237,6 +295,36 @@ export function ToolLog({ onEvent }: Props) {
   );
 }
 
+// ─── Terminal pane ────────────────────────────────────────────────────────────
+
+function TerminalPane({ output, live }: { output: OutputChunk[]; live: boolean }) {
+  const ref = useRef<HTMLPreElement>(null);
+  // Follow new output unless the user has scrolled up to read something
+  const following = useRef(true);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (el && live && following.current) el.scrollTop = el.scrollHeight;
+  }, [output, live]);
+
+  return (
+    <pre
+      ref={ref}
+      onScroll={(e) => {
+        const el = e.currentTarget;
+        following.current = el.scrollHeight - el.scrollTop - el.clientHeight < 16;
+      }}
+      className="bg-black/80 rounded p-2 max-h-48 overflow-y-auto font-mono text-[11px] leading-snug whitespace-pre-wrap break-all"
+    >
+      {output.map((chunk, i) => (
+        <span key={i} className={chunk.stream === 'stderr' ? 'text-amber-300' : 'text-gray-300'}>
+          {chunk.text}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
 // ─── Diff viewer ──────────────────────────────────────────────────────────────
 
 function DiffView({ before, after }: { before: string; after: string }) {
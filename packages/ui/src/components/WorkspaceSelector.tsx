@@ -0,0 +1,240 @@
+import { useState, useRef, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { PermissionRule, Workspace, WorkspacePermissions } from '../lib/types';
+
+const AGENT_URL = import.meta.env.VITE_AGENT_URL ?? 'http://localhost:3001';
+const API_SECRET = import.meta.env.VITE_API_SECRET ?? '';
+const headers: Record<string, string> = API_SECRET ? { Authorization: `Bearer ${API_SECRET}` } : {};
+
+interface Props {
+  selectedId: string;
+  onSelect: (workspaceId: string) => void;
+  disabled?: boolean;
+}
+
+// Short summary of what a workspace overrides, e.g. "claude-sonnet-4-6 · 50k budget · approval"
+function describeSettings(settings: Workspace['settings']): string {
+  const parts: string[] = [];
+  if (settings.model) parts.push(settings.model);
+  if (settings.tokenBudget !== undefined) {
+    parts.push(settings.tokenBudget === 0 ? 'no budget' : `${Math.round(settings.tokenBudget / 1000)}k budget`);
+  }
+  if (settings.sandboxImage) parts.push(settings.sandboxImage);
+  if (settings.requirePatchApproval !== undefined) {
+    parts.push(settings.requirePatchApproval ? 'approval' : 'no approval');
+  }
+  return parts.join(' · ');
+}
+
+const ACTION_STYLES: Record<PermissionRule['action'], string> = {
+  allow: 'text-green-400',
+  ask: 'text-yellow-400',
+  deny: 'text-red-400',
+};
+
+// A rule's condition, e.g. "mode=hard, force=true"
+function describeWhen(when: PermissionRule['when']): string {
+  return Object.entries(when ?? {})
+    .map(([name, value]) => `${name}=${Array.isArray(value) ? value.join('|') : value}`)
+    .join(', ');
+}
+
+// Registered workspaces, the default one first; shared by the selector and the status bar budget
+export function useWorkspaces() {
+  return useQuery<{ workspaces: Workspace[] }>({
+    queryKey: ['workspaces'],
+    queryFn: async () => {
+      const res = await fetch(`${AGENT_URL}/api/workspaces`, { headers });
+      if (!res.ok) throw new Error('Failed to load workspaces');
+      return res.json();
+    },
+    staleTime: 30000,
+  });
+}
+
+export function WorkspaceSelector({ selectedId, onSelect, disabled }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [path, setPath] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const { data } = useWorkspaces();
+
+  // Tool permissions of the selected workspace, shown while the dropdown is open
+  const { data: permissions } = useQuery<WorkspacePermissions>({
+    queryKey: ['permissions', selectedId],
+    queryFn: async () => {
+      const res = await fetch(
+        `${AGENT_URL}/api/workspace/permissions?workspaceId=${encodeURIComponent(selectedId)}`,
+        { headers }
+      );
+      if (!res.ok) throw new Error('Failed to load tool permissions');
+      return res.json();
+    },
+    enabled: isOpen,
+    staleTime: 10000,
+  });
+
+  const workspaces = data?.workspaces ?? [];
+  const selected = workspaces.find((w) => w.id === selectedId);
+
+  // A remembered workspace that was removed falls back to the default one
+  useEffect(() => {
+    if (data && !selected && workspaces.length > 0) onSelect(workspaces[0].id);
+  }, [data, selected, workspaces, onSelect]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAddError(null);
+    try {
+      const res = await fetch(`${AGENT_URL}/api/workspaces`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), path: path.trim() }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? 'Failed to add workspace');
+      await queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      onSelect(body.workspace.id);
+      setName('');
+      setPath('');
+      setAdding(false);
+      setIsOpen(false);
+    } catch (err) {
+      setAddError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        type="button"
+        onClick={() => !disabled && setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`
+          flex items-center gap-1.5 px-2 py-0.5 rounded border border-gray-700 text-xs
+          ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-gray-600 hover:text-gray-200 cursor-pointer'}
+          text-gray-400 transition-colors
+        `}
+        title={selected ? `Workspace: ${selected.path}` : 'Workspace'}
+      >
+        📂 <span className="max-w-[10rem] truncate">{selected?.name ?? 'Workspace'}</span>
+        <span className={`transition-transform ${isOpen ? 'rotate-180' : ''}`}>▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full mt-2 left-0 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-50 overflow-hidden">
+          <div className="px-3 py-2 border-b border-gray-700 text-xs text-gray-500">
+            Workspace for new sessions
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            {workspaces.map((workspace) => {
+              const isSelected = workspace.id === selectedId;
+              const settings = describeSettings(workspace.settings);
+              return (
+                <button
+                  type="button"
+                  key={workspace.id}
+                  onClick={() => {
+                    onSelect(workspace.id);
+                    setIsOpen(false);
+                  }}
+                  className={`w-full px-3 py-2 flex flex-col text-left transition-colors ${
+                    isSelected ? 'bg-purple-900/30' : 'hover:bg-gray-700/50'
+                  }`}
+                >
+                  <span className={`text-sm font-medium ${isSelected ? 'text-purple-400' : 'text-gray-200'}`}>
+                    {workspace.name}
+                    {workspace.isDefault && <span className="ml-1.5 text-xs text-gray-500">(default)</span>}
+                  </span>
+                  <span className="text-xs text-gray-500 truncate">{workspace.path}</span>
+                  {settings && <span className="text-xs text-gray-400 truncate">{settings}</span>}
+                </button>
+              );
+            })}
+          </div>
+
+          {permissions && (
+            <div className="px-3 py-2 border-t border-gray-700 flex flex-col gap-0.5 text-xs">
+              <span className="text-gray-500" title={permissions.file}>
+                Tool permissions{!permissions.configured && ' — no policy file, every call allowed'}
+              </span>
+              {permissions.error && <span className="text-red-400 break-words">{permissions.error}</span>}
+              {permissions.policy.rules.map((rule, i) => (
+                <span key={i} className="text-gray-400 truncate" title={rule.reason}>
+                  <span className={ACTION_STYLES[rule.action]}>{rule.action}</span>{' '}
+                  <code className="font-mono">{rule.tool}</code>
+                  {rule.when && <span className="text-gray-500"> if {describeWhen(rule.when)}</span>}
+                </span>
+              ))}
+              {permissions.configured && (
+                <span className="text-gray-400">
+                  <span className={ACTION_STYLES[permissions.policy.default]}>{permissions.policy.default}</span>{' '}
+                  everything else
+                </span>
+              )}
+            </div>
+          )}
+
+          {adding ? (
+            <form onSubmit={handleAdd} className="p-3 border-t border-gray-700 flex flex-col gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name"
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-purple-500"
+                maxLength={100}
+                autoFocus
+              />
+              <input
+                value={path}
+                onChange={(e) => setPath(e.target.value)}
+                placeholder="/absolute/path/on/the/server"
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none focus:border-purple-500"
+              />
+              {addError && <span className="text-xs text-red-400">{addError}</span>}
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => { setAdding(false); setAddError(null); }}
+                  className="text-xs text-gray-500 hover:text-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!name.trim() || !path.trim()}
+                  className="text-xs px-2 py-1 rounded bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white"
+                >
+                  Add
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setAdding(true)}
+              className="w-full px-3 py-2 border-t border-gray-700 text-xs text-left text-gray-400 hover:bg-gray-700/50 hover:text-gray-200"
+            >
+              + Add workspace
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
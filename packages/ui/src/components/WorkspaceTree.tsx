@@ -65,9 +65,11 @@ function isImageFile(filename: string): boolean {
 // File viewer modal component
 function FileViewerModal({ 
   filePath, 
+  workspaceId,
   onClose 
 }: { 
   filePath: string; 
+  workspaceId: string;
   onClose: () => void;
 }) {
   const [copied, setCopied] = useState(false);
@@ -75,9 +77,10 @@ function FileViewerModal({
   const isImage = isImageFile(filePath);
   
   const { data, isLoading, error } = useQuery<{ content: string; size: number; path: string }>({
-    queryKey: ['workspace-file', filePath],
+    queryKey: ['workspace-file', workspaceId, filePath],
     queryFn: async () => {
-      const res = await fetch(`${AGENT_URL}/api/workspace/file?path=${encodeURIComponent(filePath)}`, { headers });
+      const params = new URLSearchParams({ path: filePath, workspaceId });
+      const res = await fetch(`${AGENT_URL}/api/workspace/file?${params}`, { headers });
       if (!res.ok) {
         const err = await res.json();
         throw new Error(err.error ?? 'Failed to load file');
@@ -283,16 +286,16 @@ function TreeNode({
   );
 }
 
-export function WorkspaceTree() {
+export function WorkspaceTree({ workspaceId }: { workspaceId: string }) {
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [showRollback, setShowRollback] = useState(false);
   const [rollbackStatus, setRollbackStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const queryClient = useQueryClient();
   
   const { data, isLoading, error, dataUpdatedAt } = useQuery<{ tree: FileTreeNode[]; workspace: string }>({
-    queryKey: ['workspace-tree'],
+    queryKey: ['workspace-tree', workspaceId],
     queryFn: async () => {
-      const res = await fetch(`${AGENT_URL}/api/workspace/tree`, { headers });
+      const res = await fetch(`${AGENT_URL}/api/workspace/tree?workspaceId=${encodeURIComponent(workspaceId)}`, { headers });
       if (!res.ok) throw new Error('Failed to load workspace tree');
       return res.json();
     },
@@ -308,7 +311,8 @@ export function WorkspaceTree() {
     try {
       const res = await fetch(`${AGENT_URL}/api/workspace/rollback`, { 
         method: 'POST', 
-        headers 
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId }),
       });
       if (!res.ok) throw new Error('Rollback failed');
       setRollbackStatus('success');
@@ -358,6 +362,7 @@ export function WorkspaceTree() {
       {selectedFile && (
         <FileViewerModal 
           filePath={selectedFile} 
+          workspaceId={workspaceId}
           onClose={() => setSelectedFile(null)} 
         />
       )}
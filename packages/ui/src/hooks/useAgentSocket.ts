@@ -1,7 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { v4 as uuidv4 } from 'uuid';
-import type { AgentEvent } from '../lib/types';
+import { DEFAULT_WORKSPACE_ID, type AgentEvent, type PlanDecision, type RunMode } from '../lib/types';
 
 const AGENT_URL = import.meta.env.VITE_AGENT_URL ?? 'http://localhost:3001';
 const API_SECRET = import.meta.env.VITE_API_SECRET ?? '';
@@ -37,10 +37,19 @@ interface UseAgentSocketReturn {
   setPlanningModel: (model: ModelOption) => void;
   codingModel: ModelOption;
   setCodingModel: (model: ModelOption) => void;
+  mode: RunMode;
+  setMode: (mode: RunMode) => void;
+  dryRun: boolean;
+  setDryRun: (dryRun: boolean) => void;
+  workspaceId: string;
+  setWorkspaceId: (workspaceId: string) => void;
   sendPrompt: (message: string, sessionId?: string) => string;
+  resumeSession: (sessionId: string) => void;
   cancelSession: (sessionId: string) => void;
   onEvent: (handler: (event: AgentEvent) => void) => () => void;
   respondToPatchApproval: (approved: boolean, patchId: string) => void;
+  respondToPlan: (planId: string, decision: PlanDecision) => void;
+  respondToToolApproval: (approved: boolean, approvalId: string) => void;
 }
 
 export function useAgentSocket(): UseAgentSocketReturn {
@@ -64,6 +73,31 @@ export function useAgentSocket(): UseAgentSocketReturn {
   const [codingModel, setCodingModel] = useState<ModelOption>(() =>
     readModel('agent-coding-model', 'claude-opus-4-5')
   );
+  const [mode, setMode] = useState<RunMode>(() => {
+    try {
+      return localStorage.getItem('agent-run-mode') === 'plan' ? 'plan' : 'auto';
+    } catch {
+      return 'auto';
+    }
+  });
+
+  // Dry runs edit an in-memory copy and hold back side effects until applied
+  const [dryRun, setDryRun] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem('agent-dry-run') === 'true';
+    } catch {
+      return false;
+    }
+  });
+
+  // Workspace new sessions start in; a session keeps its own
+  const [workspaceId, setWorkspaceId] = useState<string>(() => {
+    try {
+      return localStorage.getItem('agent-workspace') ?? DEFAULT_WORKSPACE_ID;
+    } catch {
+      return DEFAULT_WORKSPACE_ID;
+    }
+  });
 
   const socketRef = useRef<Socket | null>(null);
   // Use a Set to prevent duplicate handlers and track them by reference
@@ -87,6 +121,30 @@ export function useAgentSocket(): UseAgentSocketReturn {
     }
   }, [codingModel]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('agent-run-mode', mode);
+    } catch {
+      /* localStorage unavailable */
+    }
+  }, [mode]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('agent-dry-run', String(dryRun));
+    } catch {
+      /* localStorage unavailable */
+    }
+  }, [dryRun]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('agent-workspace', workspaceId);
+    } catch {
+      /* localStorage unavailable */
+    }
+  }, [workspaceId]);
+
   // Keep ref in sync with state
   useEffect(() => {
     currentSessionIdRef.current = currentSessionId;
@@ -122,7 +180,8 @@ export function useAgentSocket(): UseAgentSocketReturn {
           /* handler error, continue */
         }
       });
-      if (event.type === 'complete' || event.type === 'error') {
+      // A sub-agent finishing does not end the parent run
+      if ((event.type === 'complete' || event.type === 'error') && !event.childSessionId) {
         setIsRunning(false);
       }
     });
@@ -164,12 +223,23 @@ export function useAgentSocket(): UseAgentSocketReturn {
         sessionId: sid,
         planningModel,
         codingModel,
+        mode,
+        dryRun,
+        workspaceId: sessionId ? undefined : workspaceId,
       });
       return sid;
     },
-    [planningModel, codingModel]
+    [planningModel, codingModel, mode, dryRun, workspaceId]
   );
 
+  // Continues an interrupted run from its last server-side checkpoint
+  const resumeSession = useCallback((sessionId: string) => {
+    setCurrentSessionId(sessionId);
+    setIsRunning(true);
+    socketRef.current?.emit('join_session', sessionId);
+    socketRef.current?.emit('resume', sessionId);
+  }, []);
+
   const cancelSession = useCallback((sessionId: string) => {
     socketRef.current?.emit('cancel', sessionId);
     setIsRunning(false);
@@ -182,6 +252,14 @@ export function useAgentSocket(): UseAgentSocketReturn {
     []
   );
 
+  const respondToPlan = useCallback((planId: string, decision: PlanDecision) => {
+    socketRef.current?.emit('plan_response', { planId, ...decision });
+  }, []);
+
+  const respondToToolApproval = useCallback((approved: boolean, approvalId: string) => {
+    socketRef.current?.emit('tool_approval_response', { approved, approvalId });
+  }, []);
+
   return {
     connected,
     isRunning,
@@ -190,9 +268,18 @@ export function useAgentSocket(): UseAgentSocketReturn {
     setPlanningModel,
     codingModel,
     setCodingModel,
+    mode,
+    setMode,
+    dryRun,
+    setDryRun,
+    workspaceId,
+    setWorkspaceId,
     sendPrompt,
+    resumeSession,
     cancelSession,
     onEvent,
     respondToPatchApproval,
+    respondToPlan,
+    respondToToolApproval,
   };
 }
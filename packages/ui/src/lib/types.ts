@@ -11,8 +11,54 @@ export type AgentEventType =
   | 'tool_limit_exceeded'
   | 'turn_complete'
   | 'patch_approval_required'
+  | 'patch_approval_resolved'
+  | 'plan_proposed'
+  | 'plan_resolved'
+  | 'tool_approval_required'
+  | 'tool_approval_resolved'
+  | 'run_resumed'
+  | 'context_compacted'
+  | 'verification'
   | 'complete';
 
+export interface VerificationCheck {
+  tool: string;
+  input: Record<string, unknown>;
+  iteration: number;
+  passed: boolean;
+  durationMs: number;
+  files: string[];
+  error?: string;
+}
+
+// One round of post-edit checks from the workspace's .agent/verify.json
+export interface VerificationEvent extends AgentEvent {
+  type: 'verification';
+  data: {
+    sessionId: string;
+    passed: boolean;
+    iterations: number;
+    maxIterations: number;
+    checks: VerificationCheck[];
+    retrying: boolean;
+  };
+}
+
+export interface ContextCompactedEvent extends AgentEvent {
+  type: 'context_compacted';
+  data: {
+    sessionId: string;
+    model: string;
+    strategies: Array<'elide_tool_results' | 'summarise' | 'drop'>;
+    budget: number;
+    tokensBefore: number;
+    tokensAfter: number;
+    elidedToolResults: number;
+    summarisedMessages: number;
+    droppedMessages: number;
+  };
+}
+
 export interface BudgetEvent extends AgentEvent {
   type: 'budget_warning' | 'budget_exceeded';
   data: { totalUsed: number; budget: number; percentUsed: number };
@@ -30,10 +76,14 @@ export interface TurnCompleteEvent extends AgentEvent {
     turn: number;
     inputTokens: number;
     outputTokens: number;
+    cacheReadTokens?: number;
+    cacheCreationTokens?: number;
     totalTokensThisTurn: number;
     estimatedCostThisTurn: number;
     totalInputTokens: number;
     totalOutputTokens: number;
+    totalCacheReadTokens?: number;
+    totalCacheCreationTokens?: number;
     totalTokens: number;
     budgetUsedPercent: number | null;
     budgetRemaining: number | null;
@@ -45,9 +95,11 @@ export interface ToolProgressEvent extends AgentEvent {
   data: {
     toolCallId: string;
     toolName: string;
-    progress: number; // 0-100
-    status: string;
+    progress?: number; // 0 at the start, 100 / -1 at the end, absent while running
+    status: string; // latest milestone, e.g. "Tests: 12 passed, 12 total"
     elapsedMs: number;
+    output?: string; // streamed output since the last event, in whole lines
+    stream?: 'stdout' | 'stderr';
   };
 }
 
@@ -58,6 +110,87 @@ export interface PatchApprovalEvent extends AgentEvent {
     filePath: string;
     diff: string;
     operation: 'create' | 'modify' | 'delete';
+    sessionId?: string;
+    batchId?: string;  // shared by every edit proposed in the same turn
+    index?: number;
+    total?: number;
+    toolName?: string;
+  };
+}
+
+export interface PatchApprovalResolvedEvent extends AgentEvent {
+  type: 'patch_approval_resolved';
+  data: { patchId: string; approved: boolean; sessionId?: string; timedOut?: boolean };
+}
+
+// A tool call the workspace's .agent/permissions.json asks about before it runs
+export interface ToolApprovalEvent extends AgentEvent {
+  type: 'tool_approval_required';
+  data: {
+    approvalId: string;
+    sessionId: string;
+    toolName: string;
+    input: unknown;
+    reason?: string;  // from the rule that asked
+    requestedAt: string;
+  };
+}
+
+export interface ToolApprovalResolvedEvent extends AgentEvent {
+  type: 'tool_approval_resolved';
+  data: { approvalId: string; approved: boolean; sessionId: string; toolName: string; timedOut?: boolean };
+}
+
+// 'plan' starts with a read-only phase that ends in a plan the user approves
+export type RunMode = 'plan' | 'auto';
+
+export interface Plan {
+  summary: string;
+  steps: string[];
+  files: Array<{ path: string; change: 'create' | 'modify' | 'delete'; reason?: string }>;
+  risks: string[];
+}
+
+export interface PlanProposedEvent extends AgentEvent {
+  type: 'plan_proposed';
+  data: { planId: string; sessionId: string; plan: Plan; requestedAt: string };
+}
+
+export interface PlanResolvedEvent extends AgentEvent {
+  type: 'plan_resolved';
+  data: {
+    planId: string;
+    sessionId: string;
+    approved: boolean;
+    edited: boolean;
+    feedback?: string;
+    timedOut?: boolean;
+  };
+}
+
+// Answer to a proposed plan; feedback on a rejection sends the agent back to planning
+export interface PlanDecision {
+  approved: boolean;
+  plan?: Plan;
+  feedback?: string;
+}
+
+// What a dry run held back: its file changes as one diff, and the side effects it only recorded
+export interface DryRunReport {
+  diff: string;
+  files: Array<{ path: string; operation: 'create' | 'modify' | 'delete'; diff: string }>;
+  sideEffects: Array<{ id: string; tool: string; input: unknown; recordedAt: string }>;
+}
+
+export interface CompleteEvent extends AgentEvent {
+  type: 'complete';
+  data: {
+    sessionId: string;
+    toolCallsCount: number;
+    durationMs: number;
+    summary: string;
+    tokenUsage: TokenUsage;
+    dryRun?: DryRunReport;
   };
 }
 
@@ -65,6 +198,7 @@ export interface AgentEvent {
   type: AgentEventType;
   data: unknown;
   timestamp: string | Date;
+  childSessionId?: string; // relayed from a delegate_task sub-agent
 }
 
 export interface StreamDeltaEvent extends AgentEvent {
@@ -90,6 +224,7 @@ export interface ToolResultEvent extends AgentEvent {
     success: boolean;
     result: unknown;
     durationMs: number;
+    errorCode?: string; // e.g. PATCH_CONTEXT_MISMATCH, set on failures
   };
 }
 
@@ -104,8 +239,50 @@ export interface Session {
   createdAt: string;
   updatedAt: string;
   tokenUsage?: TokenUsage;
+  runStatus?: RunStatus | null;
+  parentSessionId?: string; // set on sub-agent sessions started by delegate_task
+  workspaceId?: string; // unset for sessions in the default workspace
+  userId?: string; // the user who started it, when the server has users
+}
+
+// The server's own AGENT_WORKSPACE, listed first by GET /api/workspaces
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export interface WorkspaceSettings {
+  model?: string;
+  tokenBudget?: number;
+  sandboxImage?: string;
+  requirePatchApproval?: boolean;
 }
 
+export interface Workspace {
+  id: string;
+  name: string;
+  path: string;
+  settings: WorkspaceSettings;
+  isDefault: boolean;
+  sessionCount?: number;
+}
+
+export type PermissionAction = 'allow' | 'ask' | 'deny';
+
+export interface PermissionRule {
+  tool: string;  // a tool name, or a glob such as "deploy_*"
+  when?: Record<string, string | number | boolean | Array<string | number | boolean>>;
+  action: PermissionAction;
+  reason?: string;
+}
+
+// GET /api/workspace/permissions — the policy runs in a workspace follow
+export interface WorkspacePermissions {
+  file: string;
+  configured: boolean;  // false: no policy file, every call is allowed
+  policy: { default: PermissionAction; rules: PermissionRule[] };
+  error?: string;  // the file is invalid; every call is asked about until it is fixed
+}
+
+export type RunStatus = 'running' | 'interrupted' | 'failed' | 'cancelled' | 'completed';
+
 // Predefined tag colors for consistency
 export const TAG_COLORS: Record<string, string> = {
   feature: 'bg-blue-900/50 text-blue-300 border-blue-700',
@@ -120,6 +297,8 @@ export const TAG_COLORS: Record<string, string> = {
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
+  cacheReadTokens?: number;
+  cacheCreationTokens?: number;
   totalTokens: number;
   estimatedCostUsd: number;
 }
@@ -139,3 +318,20 @@ export interface FileTreeNode {
   children?: FileTreeNode[];
   size?: number;
 }
+
+export interface TimelineFile {
+  path: string;
+  operation: 'create' | 'modify' | 'delete';
+  revertible: boolean;
+}
+
+export interface TimelineEntry {
+  id: string;
+  kind: 'edit' | 'checkpoint' | 'restore';
+  toolName: string;
+  summary: string;
+  success: boolean;
+  files: TimelineFile[];
+  commit?: { hash: string; shortHash: string; message: string };
+  createdAt: string;
+}